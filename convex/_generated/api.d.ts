@@ -18,6 +18,7 @@ import type * as aiAssistant from "../aiAssistant.js";
 import type * as analyses from "../analyses.js";
 import type * as billing from "../billing.js";
 import type * as cleanup from "../cleanup.js";
+import type * as columnMappings from "../columnMappings.js";
 import type * as dashboard from "../dashboard.js";
 import type * as debug from "../debug.js";
 import type * as demandPlanner from "../demandPlanner.js";
@@ -25,18 +26,26 @@ import type * as files from "../files.js";
 import type * as http from "../http.js";
 import type * as improvedDemandPlanner from "../improvedDemandPlanner.js";
 import type * as pdpAnalyzer from "../pdpAnalyzer.js";
+import type * as products from "../products.js";
+import type * as purchaseOrders from "../purchaseOrders.js";
+import type * as rateCards from "../rateCards.js";
 import type * as reports from "../reports.js";
+import type * as specCandidates from "../specCandidates.js";
+import type * as specEstimateCache from "../specEstimateCache.js";
 import type * as specGenerator from "../specGenerator.js";
+import type * as specJobs from "../specJobs.js";
 import type * as stripe from "../stripe.js";
 import type * as subscriptionCRUD from "../subscriptionCRUD.js";
 import type * as subscriptions from "../subscriptions.js";
 import type * as suiteAnalyzer from "../suiteAnalyzer.js";
 import type * as suiteAnalyzerBackend from "../suiteAnalyzerBackend.js";
 import type * as suiteAnalyzerSimple from "../suiteAnalyzerSimple.js";
+import type * as surchargeRules from "../surchargeRules.js";
 import type * as tokenBalance from "../tokenBalance.js";
 import type * as tokens from "../tokens.js";
 import type * as users from "../users.js";
 import type * as webhooks from "../webhooks.js";
+import type * as zoneCharts from "../zoneCharts.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -52,6 +61,7 @@ declare const fullApi: ApiFromModules<{
   analyses: typeof analyses;
   billing: typeof billing;
   cleanup: typeof cleanup;
+  columnMappings: typeof columnMappings;
   dashboard: typeof dashboard;
   debug: typeof debug;
   demandPlanner: typeof demandPlanner;
@@ -59,18 +69,26 @@ declare const fullApi: ApiFromModules<{
   http: typeof http;
   improvedDemandPlanner: typeof improvedDemandPlanner;
   pdpAnalyzer: typeof pdpAnalyzer;
+  products: typeof products;
+  purchaseOrders: typeof purchaseOrders;
+  rateCards: typeof rateCards;
   reports: typeof reports;
+  specCandidates: typeof specCandidates;
+  specEstimateCache: typeof specEstimateCache;
   specGenerator: typeof specGenerator;
+  specJobs: typeof specJobs;
   stripe: typeof stripe;
   subscriptionCRUD: typeof subscriptionCRUD;
   subscriptions: typeof subscriptions;
   suiteAnalyzer: typeof suiteAnalyzer;
   suiteAnalyzerBackend: typeof suiteAnalyzerBackend;
   suiteAnalyzerSimple: typeof suiteAnalyzerSimple;
+  surchargeRules: typeof surchargeRules;
   tokenBalance: typeof tokenBalance;
   tokens: typeof tokens;
   users: typeof users;
   webhooks: typeof webhooks;
+  zoneCharts: typeof zoneCharts;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { action } from "./_generated/server";
+import { getLLMClient } from "../src/lib/llm";
 
 // Universal AI Assistant for Packaging Optimization
 export const askAssistant = action({
@@ -40,24 +41,9 @@ async function generateAssistantResponse(
   suggestions: string[];
   actionItems: string[];
 }> {
-  const apiKey = process.env.OPENAI_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("OpenAI API key not configured");
-  }
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: `You are a packaging engineering expert.
+  const response = await getLLMClient('assistant', process.env).complete({
+    label: 'assistant',
+    system: `You are a packaging engineering expert.
 
 When users ask about "QuantiPackAI", "your platform", "your features", or "what can you do", you can reference these tools:
 
@@ -68,26 +54,13 @@ When users ask about "QuantiPackAI", "your platform", "your features", or "what
 
 For detailed technical questions about these functions, respond: "For further information about this core function, please reach out to knammouz@quantipack.com."
 
-For general packaging questions (not about QuantiPackAI), provide expert packaging knowledge without mentioning these tools.`
-        },
-        {
-          role: 'user',
-          content: userMessage
-        }
-      ],
-      temperature: 0.7
-    }),
+For general packaging questions (not about QuantiPackAI), provide expert packaging knowledge without mentioning these tools.`,
+    messages: [{ role: 'user', content: userMessage }],
+    temperature: 0.7
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-
   return {
-    message: data.choices[0].message.content,
+    message: response.text,
     suggestions: [],
     actionItems: []
   };
@@ -0,0 +1,115 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { columnMappingValidator } from "./schema";
+
+const mappingSchemaValidator = v.union(v.literal("orders"), v.literal("usage_log"), v.literal("catalog"));
+
+// Get saved column mapping profiles for the current user, most recently updated first
+export const getProfiles = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      return [];
+    }
+
+    const profiles = await ctx.db
+      .query("columnMappingProfiles")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    return profiles.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+});
+
+// Save a mapping profile, replacing an existing profile with the same name and schema
+export const saveProfile = mutation({
+  args: {
+    name: v.string(),
+    schema: mappingSchemaValidator,
+    headerSignature: v.string(),
+    mappings: v.array(columnMappingValidator),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Profile name is required");
+    }
+
+    const existingProfiles = await ctx.db
+      .query("columnMappingProfiles")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const now = Date.now();
+    const existing = existingProfiles.find((profile) => profile.schema === args.schema && profile.name === name);
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        headerSignature: args.headerSignature,
+        mappings: args.mappings,
+        updatedAt: now,
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("columnMappingProfiles", {
+      userId: user._id,
+      name,
+      schema: args.schema,
+      headerSignature: args.headerSignature,
+      mappings: args.mappings,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Delete a mapping profile
+export const deleteProfile = mutation({
+  args: { profileId: v.id("columnMappingProfiles") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const profile = await ctx.db.get(args.profileId);
+    if (!profile || profile.userId !== user._id) {
+      throw new Error("Mapping profile not found or access denied");
+    }
+
+    await ctx.db.delete(args.profileId);
+  },
+});
@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { action, mutation, query } from "./_generated/server";
 import { api } from "./_generated/api";
+import { parseCSVRows } from "../src/lib/data/csvReader";
 
 // Data type definitions
 interface UsageRecord {
@@ -242,8 +243,8 @@ export const storeDemandAnalysis = mutation({
 
 // Parse usage log CSV with flexible column matching
 function parseUsageLog(csvData: string): UsageRecord[] {
-  const lines = csvData.trim().split('\n');
-  const headers = lines[0].split(',').map(h => h.trim().toLowerCase().replace(/[^a-z0-9\s]/g, ''));
+  const rows = parseCSVRows(csvData);
+  const headers = (rows[0] || []).map(h => h.toLowerCase().replace(/[^a-z0-9\s]/g, ''));
   
   // Flexible date column matching
   const dateIndex = headers.findIndex(h => 
@@ -301,8 +302,7 @@ function parseUsageLog(csvData: string): UsageRecord[] {
   
   console.log(`Detected columns: Date(${dateIndex}), Package Type(${packageTypeIndex}), Quantity(${quantityIndex})`);
   
-  return lines.slice(1).map((line, lineIndex) => {
-    const values = line.split(',');
+  return rows.slice(1).map((values, lineIndex) => {
     const record = {
       date: values[dateIndex]?.trim().replace(/"/g, '') || '',
       packageType: values[packageTypeIndex]?.trim().replace(/"/g, '') || '',
@@ -321,8 +321,8 @@ function parseUsageLog(csvData: string): UsageRecord[] {
 
 // Parse manual mix CSV with flexible column matching
 function parseManualMix(csvData: string): Record<string, number> {
-  const lines = csvData.trim().split('\n');
-  const headers = lines[0].split(',').map(h => h.trim().toLowerCase().replace(/[^a-z0-9\s]/g, ''));
+  const rows = parseCSVRows(csvData);
+  const headers = (rows[0] || []).map(h => h.toLowerCase().replace(/[^a-z0-9\s]/g, ''));
   
   // Flexible package type column matching
   const packageTypeIndex = headers.findIndex(h => 
@@ -371,8 +371,7 @@ function parseManualMix(csvData: string): Record<string, number> {
   
   const mixData: Record<string, number> = {};
   
-  lines.slice(1).forEach((line, lineIndex) => {
-    const values = line.split(',');
+  rows.slice(1).forEach((values, lineIndex) => {
     const packageType = values[packageTypeIndex]?.trim().replace(/"/g, '') || '';
     const percentString = values[usagePercentIndex]?.trim().replace(/["%\s]/g, '') || '0';
     const usagePercent = parseFloat(percentString) || 0;
@@ -395,8 +394,8 @@ function parseManualMix(csvData: string): Record<string, number> {
 
 // Parse packaging suite CSV with flexible column matching
 function parsePackagingSuite(csvData: string): PackagingSuiteRecord[] {
-  const lines = csvData.trim().split('\n');
-  const headers = lines[0].split(',').map(h => h.trim().toLowerCase().replace(/[^a-z0-9\s]/g, ''));
+  const rows = parseCSVRows(csvData);
+  const headers = (rows[0] || []).map(h => h.toLowerCase().replace(/[^a-z0-9\s]/g, ''));
   
   // Flexible package type column matching
   const packageTypeIndex = headers.findIndex(h => 
@@ -497,8 +496,7 @@ function parsePackagingSuite(csvData: string): PackagingSuiteRecord[] {
   
   console.log(`Detected columns: Package Type(${packageTypeIndex}), Length(${lengthIndex}), Width(${widthIndex}), Height(${heightIndex}), Volume(${volumeIndex}), Cost(${costIndex}), Weight(${weightIndex})`);
   
-  return lines.slice(1).map((line, lineIndex): PackagingSuiteRecord | null => {
-    const values = line.split(',');
+  return rows.slice(1).map((values, lineIndex): PackagingSuiteRecord | null => {
     const packageType = values[packageTypeIndex]?.trim().replace(/"/g, '') || '';
     const length = parseFloat(values[lengthIndex]?.trim().replace(/[^0-9.]/g, '')) || 0;
     const width = parseFloat(values[widthIndex]?.trim().replace(/[^0-9.]/g, '')) || 0;
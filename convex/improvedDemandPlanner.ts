@@ -1,6 +1,26 @@
 import { v } from "convex/values";
 import { query, mutation, action } from "./_generated/server";
 import { api } from "./_generated/api";
+import {
+  buildMonthlySeries,
+  buildQuarterlySeries,
+  forecastPeriodSeries,
+  type PackageForecast,
+  type PeriodSeries,
+} from "../src/lib/calculations/forecasting";
+import {
+  calculateInventoryPolicy,
+  demandVariability,
+  PERIOD_DAYS,
+} from "../src/lib/calculations/inventoryPolicy";
+import { toOrderableQuantity } from "../src/lib/calculations/supplierTerms";
+import {
+  backtestForecast,
+  suggestSafetyBuffer,
+  DEFAULT_SAFETY_BUFFER,
+  type StoredForecast,
+} from "../src/lib/calculations/forecastAccuracy";
+import { supplierTermsFields } from "./schema";
 
 // Define the data structures
 const PackagingTypeValidator = v.object({
@@ -10,6 +30,11 @@ const PackagingTypeValidator = v.object({
   height: v.number(),
   cost: v.number(),
   weight: v.number(),
+  onHand: v.optional(v.number()),
+  leadTimeDays: v.optional(v.number()),
+  orderingCost: v.optional(v.number()),
+  holdingCostRate: v.optional(v.number()),
+  ...supplierTermsFields,
 });
 
 const QuarterDataValidator = v.object({
@@ -23,11 +48,68 @@ const ManualMixValidator = v.object({
   percentage: v.number(),
 });
 
+const ForecastMethodValidator = v.union(v.literal("historical"), v.literal("manual"), v.literal("forecast"));
+
 const ForecastParamsValidator = v.object({
   totalOrders: v.number(),
   safetyBuffer: v.number(),
 });
 
+const ForecastOptionsValidator = v.object({
+  source: v.union(v.literal("quarterly"), v.literal("usage")), // Quarterly uploads or dated usage logs
+  horizon: v.number(), // Periods to project
+  confidenceLevel: v.optional(v.number()),
+});
+
+const InventoryPolicyValidator = v.object({
+  serviceLevel: v.number(),
+  periodDays: v.optional(v.number()), // Days covered by totalOrders; forecasts use their horizon
+});
+
+// The parts of a stored demand_planner_v2 result that forecast backtesting reads
+interface StoredForecastResults {
+  method: string;
+  forecastParams: { safetyBuffer: number };
+  forecastOptions?: { source: "quarterly" | "usage" };
+  inventoryPolicy?: { periodDays?: number };
+  generatedAt?: number;
+  demandResults: StoredForecast["results"];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isOptionalNumber = (value: unknown) => value === undefined || typeof value === "number";
+
+const isStoredDemandResult = (result: unknown) =>
+  isRecord(result) &&
+  typeof result.packageType === "string" &&
+  typeof result.baseQuantity === "number" &&
+  (result.forecast === undefined || (
+    isRecord(result.forecast) &&
+    Array.isArray(result.forecast.periods) &&
+    result.forecast.periods.every((period) =>
+      isRecord(period) && typeof period.label === "string" && typeof period.forecast === "number"
+    )
+  ));
+
+// Check a v.any() results value for the fields backtesting reads; extra fields are allowed
+function isStoredForecastResults(results: unknown): results is StoredForecastResults {
+  if (!isRecord(results) || typeof results.method !== "string") return false;
+  if (!isRecord(results.forecastParams) || typeof results.forecastParams.safetyBuffer !== "number") return false;
+  if (!isOptionalNumber(results.generatedAt)) return false;
+
+  const { forecastOptions, inventoryPolicy, demandResults } = results;
+  if (forecastOptions !== undefined &&
+      !(isRecord(forecastOptions) && (forecastOptions.source === "quarterly" || forecastOptions.source === "usage"))) {
+    return false;
+  }
+  if (inventoryPolicy !== undefined && !(isRecord(inventoryPolicy) && isOptionalNumber(inventoryPolicy.periodDays))) {
+    return false;
+  }
+  return Array.isArray(demandResults) && demandResults.every(isStoredDemandResult);
+}
+
 // Store packaging types for a user
 export const storePackagingTypes = mutation({
   args: {
@@ -71,9 +153,10 @@ export const storePackagingTypes = mutation({
       await ctx.db.delete(existingType._id);
     }
 
-    // Insert new packaging types
+    // Insert new packaging types, keeping inventory settings a re-import doesn't carry
     const insertedTypes = [];
     for (const packagingType of args.packagingTypes) {
+      const previous = existingTypes.find((existing) => existing.name === packagingType.name);
       const inserted = await ctx.db.insert("packagingTypes", {
         userId: user._id,
         name: packagingType.name,
@@ -82,6 +165,15 @@ export const storePackagingTypes = mutation({
         height: packagingType.height,
         cost: packagingType.cost,
         weight: packagingType.weight,
+        onHand: packagingType.onHand ?? previous?.onHand,
+        leadTimeDays: packagingType.leadTimeDays ?? previous?.leadTimeDays,
+        orderingCost: packagingType.orderingCost ?? previous?.orderingCost,
+        holdingCostRate: packagingType.holdingCostRate ?? previous?.holdingCostRate,
+        supplier: packagingType.supplier ?? previous?.supplier,
+        caseQuantity: packagingType.caseQuantity ?? previous?.caseQuantity,
+        palletQuantity: packagingType.palletQuantity ?? previous?.palletQuantity,
+        minimumOrderQuantity: packagingType.minimumOrderQuantity ?? previous?.minimumOrderQuantity,
+        priceBreaks: packagingType.priceBreaks ?? previous?.priceBreaks,
         createdAt: Date.now(),
       });
       insertedTypes.push(inserted);
@@ -304,12 +396,51 @@ export const getManualMix = query({
   },
 });
 
+// Get usage history as one series per package type, oldest period first
+export const getForecastHistory = query({
+  args: {
+    source: v.union(v.literal("quarterly"), v.literal("usage")),
+  },
+  handler: async (ctx, args): Promise<PeriodSeries | null> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return null;
+    }
+
+    if (args.source === "usage") {
+      // Usage logs are keyed by Clerk user ID
+      const records = await ctx.db
+        .query("demandPlannerUsage")
+        .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+        .collect();
+
+      return buildMonthlySeries(records);
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) return { kind: "quarter", periods: [], series: {} };
+
+    const quarterlyData = await ctx.db
+      .query("quarterlyUsage")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    return buildQuarterlySeries(quarterlyData);
+  },
+});
+
 // Calculate demand forecast
 export const calculateDemandForecast = action({
   args: {
-    method: v.union(v.literal("historical"), v.literal("manual")),
+    method: ForecastMethodValidator,
     forecastParams: ForecastParamsValidator,
     manualMix: v.optional(v.array(ManualMixValidator)),
+    forecastOptions: v.optional(ForecastOptionsValidator),
+    inventoryPolicy: v.optional(InventoryPolicyValidator),
   },
   handler: async (ctx, args): Promise<any> => {
     const identity = await ctx.auth.getUserIdentity();
@@ -322,8 +453,36 @@ export const calculateDemandForecast = action({
 
     // Get mix percentages based on method
     let mixPercentages: Record<string, number> = {};
+    const forecasts: Record<string, PackageForecast> = {};
+    let history: PeriodSeries | null = null;
+    let planningDays: number = args.inventoryPolicy?.periodDays ?? PERIOD_DAYS.quarter;
     
-    if (args.method === "historical") {
+    if (args.method === "forecast") {
+      // Project each package type from its own history; the mix follows from the projected totals
+      const options = args.forecastOptions ?? { source: "quarterly" as const, horizon: 4 };
+      const forecastHistory: PeriodSeries | null = await ctx.runQuery(api.improvedDemandPlanner.getForecastHistory, {
+        source: options.source,
+      });
+      if (!forecastHistory || forecastHistory.periods.length === 0) {
+        throw new Error(
+          options.source === "usage"
+            ? "No usage logs to forecast from"
+            : "No quarterly usage to forecast from. Upload at least one period first."
+        );
+      }
+
+      const packageForecasts = forecastPeriodSeries(forecastHistory, {
+        horizon: options.horizon,
+        confidenceLevel: options.confidenceLevel,
+      });
+      const grandTotal = packageForecasts.reduce((sum, forecast) => sum + forecast.total, 0);
+      for (const forecast of packageForecasts) {
+        forecasts[forecast.packageType] = forecast;
+        mixPercentages[forecast.packageType] = grandTotal > 0 ? (forecast.total / grandTotal) * 100 : 0;
+      }
+      history = forecastHistory;
+      planningDays = options.horizon * PERIOD_DAYS[forecastHistory.kind];
+    } else if (args.method === "historical") {
       mixPercentages = await ctx.runQuery(api.improvedDemandPlanner.calculateMixFromQuarterly);
     } else if (args.method === "manual" && args.manualMix) {
       // Store manual mix first
@@ -337,10 +496,16 @@ export const calculateDemandForecast = action({
       });
     }
 
+    // Demand variability for safety stock comes from quarterly usage unless a forecast already loaded history
+    if (args.inventoryPolicy && !history) {
+      history = await ctx.runQuery(api.improvedDemandPlanner.getForecastHistory, { source: "quarterly" });
+    }
+
     // Calculate demand for each package type
     const demandResults: any[] = [];
     const { totalOrders, safetyBuffer } = args.forecastParams;
     const safetyMultiplier: number = 1 + (safetyBuffer / 100);
+    const calculatedAt = Date.now();
 
     for (const [packageType, percentage] of Object.entries(mixPercentages)) {
       // Try to find exact match first, then try partial match
@@ -361,10 +526,30 @@ export const calculateDemandForecast = action({
         console.warn(`No packaging type found for "${packageType}". Available types:`, packagingTypes.map((p: any) => p.name));
       }
 
-      const baseQuantity = Math.round(totalOrders * (percentage / 100));
+      const forecast = forecasts[packageType];
+      const baseQuantity = forecast
+        ? Math.round(forecast.total)
+        : Math.round(totalOrders * (percentage / 100));
       const finalQuantity = Math.round(baseQuantity * safetyMultiplier);
       const estimatedCost: number = packagingType ? packagingType.cost * finalQuantity : 0;
       const estimatedWeight: number = packagingType ? packagingType.weight * finalQuantity : 0;
+      const series = history?.series[packageType];
+      const inventory = args.inventoryPolicy ? calculateInventoryPolicy({
+        demand: baseQuantity,
+        periodDays: planningDays,
+        unitCost: packagingType?.cost ?? 0,
+        serviceLevel: args.inventoryPolicy.serviceLevel,
+        variability: series && history ? demandVariability(series, PERIOD_DAYS[history.kind]) : null,
+        fallbackSafetyPercent: safetyBuffer,
+        onHand: packagingType?.onHand,
+        leadTimeDays: packagingType?.leadTimeDays,
+        orderingCost: packagingType?.orderingCost,
+        holdingCostRate: packagingType?.holdingCostRate,
+        asOf: calculatedAt,
+      }) : undefined;
+
+      // Round up to what the supplier sells, taking the cheapest price-break tier
+      const ordering = toOrderableQuantity(finalQuantity, packagingType?.cost ?? 0, packagingType ?? {});
 
       demandResults.push({
         packageType,
@@ -378,6 +563,20 @@ export const calculateDemandForecast = action({
           width: packagingType.width,
           height: packagingType.height,
         } : null,
+        forecast: forecast ? {
+          model: forecast.model,
+          holdoutError: forecast.holdoutError,
+          periods: forecast.periods.map((period) => ({
+            label: period.label,
+            forecast: Math.round(period.forecast),
+            lower: Math.round(period.lower),
+            upper: Math.round(period.upper),
+          })),
+        } : undefined,
+        inventory,
+        supplier: packagingType?.supplier,
+        leadTimeDays: packagingType?.leadTimeDays,
+        ordering,
       });
     }
 
@@ -394,10 +593,14 @@ export const calculateDemandForecast = action({
         results: {
           method: args.method,
           forecastParams: args.forecastParams,
+          forecastOptions: args.forecastOptions,
+          inventoryPolicy: args.inventoryPolicy,
           mixPercentages,
           demandResults,
           totalUnits: demandResults.reduce((sum, r) => sum + r.finalQuantity, 0),
           totalCost: demandResults.reduce((sum, r) => sum + r.estimatedCost, 0),
+          totalOrderUnits: demandResults.reduce((sum, r) => sum + r.ordering.orderQuantity, 0),
+          totalOrderCost: demandResults.reduce((sum, r) => sum + r.ordering.orderCost, 0),
           totalWeight: demandResults.reduce((sum, r) => sum + r.estimatedWeight, 0),
           generatedAt: Date.now(),
         },
@@ -409,6 +612,8 @@ export const calculateDemandForecast = action({
         summary: {
           totalUnits: demandResults.reduce((sum, r) => sum + r.finalQuantity, 0),
           totalCost: demandResults.reduce((sum, r) => sum + r.estimatedCost, 0),
+          totalOrderUnits: demandResults.reduce((sum, r) => sum + r.ordering.orderQuantity, 0),
+          totalOrderCost: demandResults.reduce((sum, r) => sum + r.ordering.orderCost, 0),
           totalWeight: demandResults.reduce((sum, r) => sum + r.estimatedWeight, 0),
           dominantPackage: demandResults[0]?.packageType || "None",
           method: args.method,
@@ -421,6 +626,8 @@ export const calculateDemandForecast = action({
       summary: {
         totalUnits: demandResults.reduce((sum, r) => sum + r.finalQuantity, 0),
         totalCost: demandResults.reduce((sum, r) => sum + r.estimatedCost, 0),
+        totalOrderUnits: demandResults.reduce((sum, r) => sum + r.ordering.orderQuantity, 0),
+        totalOrderCost: demandResults.reduce((sum, r) => sum + r.ordering.orderCost, 0),
         totalWeight: demandResults.reduce((sum, r) => sum + r.estimatedWeight, 0),
         dominantPackage: demandResults[0]?.packageType || "None",
         method: args.method,
@@ -462,6 +669,70 @@ export const getDemandPlannerHistory = query({
   },
 });
 
+// Backtest stored forecasts against usage logged since, oldest first, with a safety buffer suggestion
+export const getForecastAccuracy = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return null;
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) return null;
+
+    const analyses = await ctx.db
+      .query("analyses")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .filter((q) => q.eq(q.field("type"), "demand_planner_v2"))
+      .order("desc")
+      .take(50);
+
+    const quarterly = await ctx.db
+      .query("quarterlyUsage")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    // Usage logs are keyed by Clerk user ID
+    const usage = await ctx.db
+      .query("demandPlannerUsage")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .collect();
+
+    // Results saved before forecast params were stored, or in another shape, are skipped
+    const stored = analyses.flatMap((analysis) =>
+      isStoredForecastResults(analysis.results) ? [{ analysis, results: analysis.results }] : []
+    );
+
+    const backtests = stored
+      .map(({ analysis, results }) => {
+        const forecast: StoredForecast = {
+          id: analysis._id,
+          name: analysis.name,
+          generatedAt: results.generatedAt ?? analysis.createdAt,
+          method: results.method,
+          source: results.forecastOptions?.source,
+          periodDays: results.inventoryPolicy?.periodDays,
+          results: results.demandResults,
+        };
+        return backtestForecast(forecast, { quarterly, usage });
+      })
+      .filter((backtest) => backtest.comparisons.length > 0)
+      .reverse();
+
+    const currentBuffer = stored[0]?.results.forecastParams.safetyBuffer ?? DEFAULT_SAFETY_BUFFER;
+
+    return {
+      backtests,
+      suggestion: suggestSafetyBuffer(backtests, currentBuffer),
+    };
+  },
+});
+
 // Export demand forecast data
 export const exportDemandForecast = action({
   args: {
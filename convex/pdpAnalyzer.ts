@@ -1,6 +1,55 @@
 import { v } from "convex/values";
 import { action } from "./_generated/server";
 import { api } from "./_generated/api";
+import { getLLMClient, LLMError, type JsonSchema } from "../src/lib/llm";
+
+const PDP_METRICS = [
+  "hierarchy", "branding", "typography", "color", "imagery",
+  "messaging", "simplicity", "balance", "shelf_performance", "consistency",
+];
+
+const numberMap = (keys: string[]): JsonSchema => ({
+  type: "object",
+  required: keys,
+  properties: Object.fromEntries(keys.map((key) => [key, { type: "number" } as JsonSchema])),
+});
+
+// Expected shapes of the model's answers; malformed answers are retried by the provider layer
+const PDP_ANALYSIS_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["scores", "analysis", "visual_elements"],
+  properties: {
+    scores: numberMap(PDP_METRICS),
+    analysis: { type: "object" },
+    visual_elements: { type: "object" },
+    strengths: { type: "array", items: { type: "string" } },
+    risks: { type: "array", items: { type: "string" } },
+    recommendations: { type: "array", items: { type: "string" } },
+  },
+};
+
+const METRIC_RECOMMENDATION_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["metric", "current_score", "recommendation"],
+  properties: {
+    metric: { type: "string" },
+    current_score: { type: "number" },
+    target_score: { type: "number" },
+    recommendation: { type: "string" },
+    example: { type: "string" },
+  },
+};
+
+const RECOMMENDATIONS_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["priority_improvements"],
+  properties: {
+    priority_improvements: { type: "array", items: METRIC_RECOMMENDATION_SCHEMA },
+    overall_strategy: { type: "string" },
+    quick_wins: { type: "array", items: { type: "string" } },
+    competitive_advantages: { type: "array", items: { type: "string" } },
+  },
+};
 
 // Main PDP analysis action
 export const analyzePDP = action({
@@ -38,7 +87,7 @@ export const analyzePDP = action({
       let mainAnalysis: PDPAnalysis;
 
       try {
-        mainAnalysis = await analyzeImageWithRetry(args.mainPDPData, args.metaInfo, "Your Design");
+        mainAnalysis = await analyzeImage(args.mainPDPData, args.metaInfo, "Your Design");
         console.log('✅ Main design analysis completed');
       } catch (error) {
         // If main analysis fails, throw a user-friendly error
@@ -60,13 +109,9 @@ export const analyzePDP = action({
           const competitorLabel = `Competitor ${String.fromCharCode(65 + i)}`; // A, B, C, D
 
           try {
-            // Add delay before EVERY competitor analysis to avoid burst rate limits
-            const delayMs = 1500; // 1.5 seconds before each competitor
-            console.log(`Waiting ${delayMs}ms before analyzing ${competitorLabel}...`);
-            await delay(delayMs);
-
+            // Requests are spaced by the provider layer to avoid burst rate limits
             console.log(`Analyzing ${competitorLabel}...`);
-            const competitorAnalysis = await analyzeImageWithRetry(
+            const competitorAnalysis = await analyzeImage(
               args.competitorPDPs[i],
               args.metaInfo,
               competitorLabel
@@ -125,72 +170,16 @@ export const analyzePDP = action({
   },
 });
 
-// Helper function to add delay between API calls to avoid rate limiting
-async function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-// Retry logic with exponential backoff for rate limit errors
-async function analyzeImageWithRetry(
-  imageData: string,
-  metaInfo: MetaInfo | undefined,
-  label: string = "Your PDP",
-  maxRetries: number = 3
-): Promise<PDPAnalysis> {
-  let lastError: Error | null = null;
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const result = await analyzeImage(imageData, metaInfo, label);
-      return result;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error('Unknown error');
-      const errorMessage = lastError.message;
-
-      // Don't retry on authentication errors (401)
-      if (errorMessage.includes('401') || errorMessage.includes('API key')) {
-        throw lastError;
-      }
-
-      // Retry on rate limit (429) and server errors (5xx), but not on final attempt
-      if (attempt < maxRetries) {
-        const shouldRetry =
-          errorMessage.includes('429') ||
-          errorMessage.includes('rate limit') ||
-          errorMessage.includes('500') ||
-          errorMessage.includes('503');
-
-        if (shouldRetry) {
-          const backoffDelay = Math.pow(2, attempt) * 1000; // 2s, 4s, 8s
-          console.log(`${label} analysis failed (attempt ${attempt}/${maxRetries}), retrying in ${backoffDelay}ms...`);
-          await delay(backoffDelay);
-          continue;
-        }
-      }
-
-      // Don't retry on other errors (timeouts, client errors, etc.)
-      throw lastError;
-    }
-  }
-
-  throw lastError || new Error(`Failed to analyze ${label} after ${maxRetries} attempts`);
-}
-
-// Analyze individual image using Google Gemini 2.0 Flash with enhanced Design Comparator system prompt
+// Analyze individual image with the Design Analyzer model using the enhanced Design Comparator system prompt
 async function analyzeImage(
   imageData: string,
   metaInfo: MetaInfo | undefined,
   label: string = "Your PDP"
 ): Promise<PDPAnalysis> {
-  const apiKey = process.env.GEMINI_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("Gemini API key not configured");
-  }
-
+  const llm = getLLMClient('pdp_analyzer', process.env);
   const prompt = buildAnalysisPrompt(metaInfo, label);
 
-  // System instruction for Gemini
+  // System instruction for the model
   const systemInstruction = `You are an AI with advanced packaging design expertise, specializing in Principal Display Panel (PDP) analysis. You understand retail psychology, shelf visibility, consumer behavior, and the sophisticated 10-criterion scoring methodology used by professional packaging consultants.
 
 You understand:
@@ -203,75 +192,32 @@ You understand:
 
 Provide expert-level analysis with evidence-based reasoning that demonstrates deep packaging science knowledge.`;
 
-  // Add timeout protection
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => {
-    console.error(`Gemini API timeout (30s) for PDP ${label}`);
-    controller.abort();
-  }, 30000); // 30 second timeout
-
-  console.log(`Analyzing ${label} with Gemini 2.0 Flash`);
+  console.log(`Analyzing ${label} with ${llm.provider} (${llm.model})`);
 
   try {
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      signal: controller.signal,
-      body: JSON.stringify({
-        system_instruction: {
-          parts: [{ text: systemInstruction }]
-        },
-        contents: [
-          {
-            parts: [
-              { text: prompt },
-              {
-                inline_data: {
-                  mime_type: 'image/jpeg',
-                  data: imageData
-                }
-              }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.3,
-          maxOutputTokens: 2000,
-          responseMimeType: 'application/json'
-        }
-      }),
+    const response = await llm.complete({
+      system: systemInstruction,
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: prompt },
+          { type: 'image', mimeType: 'image/jpeg', data: imageData }
+        ]
+      }],
+      temperature: 0.3,
+      maxTokens: 2000,
+      schema: PDP_ANALYSIS_SCHEMA,
+      label
     });
 
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-
-      // Provide specific error messages for common issues
-      if (response.status === 429) {
-        throw new Error(`Rate limit exceeded - Too many requests to Gemini API. Please wait a moment and try again.`);
-      } else if (response.status === 401 || response.status === 403) {
-        throw new Error(`Invalid API key - Gemini authentication failed. Please check your API key configuration.`);
-      } else if (response.status >= 500) {
-        throw new Error(`Gemini server error (${response.status}) - The service is temporarily unavailable. Please try again in a few moments.`);
-      } else if (response.status === 400) {
-        throw new Error(`Invalid request - The image may be too large or in an unsupported format. Please try with a smaller image (under 1MB) in JPG or PNG format.`);
-      }
-
-      throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-
-    // Parse Gemini response format
-    if (!data.candidates || data.candidates.length === 0) {
-      throw new Error('No response from Gemini API');
-    }
-
-    const resultText = data.candidates[0].content.parts[0].text;
-    const result = JSON.parse(resultText);
+    const result = response.json as {
+      scores: PDPAnalysis['scores'];
+      analysis: PDPAnalysis['analysis'];
+      visual_elements: PDPAnalysis['visualElements'];
+      strengths?: string[];
+      risks?: string[];
+      recommendations?: string[];
+    };
 
     return {
       label,
@@ -284,10 +230,19 @@ Provide expert-level analysis with evidence-based reasoning that demonstrates de
     };
 
   } catch (error) {
-    clearTimeout(timeoutId);
-
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error(`Analysis timeout (30s) - The image analysis took too long. Please try with a smaller image file (under 1MB recommended) or try again in a few moments.`);
+    // Provide specific error messages for common issues
+    if (error instanceof LLMError) {
+      if (error.kind === 'rate_limit') {
+        throw new Error(`Rate limit exceeded - Too many requests to ${llm.provider}. Please wait a moment and try again.`);
+      } else if (error.kind === 'auth' || error.kind === 'config') {
+        throw new Error(`Invalid API key - ${llm.provider} authentication failed. Please check your API key configuration.`);
+      } else if (error.kind === 'server') {
+        throw new Error(`${llm.provider} server error - The service is temporarily unavailable. Please try again in a few moments.`);
+      } else if (error.kind === 'bad_request') {
+        throw new Error(`Invalid request - The image may be too large or in an unsupported format. Please try with a smaller image (under 1MB) in JPG or PNG format.`);
+      } else if (error.kind === 'timeout') {
+        throw new Error(`Analysis timeout - The image analysis took too long. Please try with a smaller image file (under 1MB recommended) or try again in a few moments.`);
+      }
     }
 
     if (error instanceof Error) {
@@ -455,57 +410,26 @@ function interpretZScore(zScore: number): string {
   return "Significantly below average";
 }
 
-// Generate actionable recommendations using Gemini
+// Generate actionable recommendations with the Design Analyzer model
 async function generateRecommendations(
   mainAnalysis: PDPAnalysis,
   competitorAnalyses: PDPAnalysis[],
   metaInfo: MetaInfo | undefined
 ): Promise<Recommendations> {
-  const apiKey = process.env.GEMINI_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("Gemini API key not configured");
-  }
-
   const prompt = buildRecommendationsPrompt(mainAnalysis, competitorAnalyses, metaInfo);
 
   const systemInstruction = 'You are a packaging design consultant providing actionable recommendations to improve PDP performance based on analysis data.';
 
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      system_instruction: {
-        parts: [{ text: systemInstruction }]
-      },
-      contents: [
-        {
-          parts: [{ text: prompt }]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.4,
-        maxOutputTokens: 4000,
-        responseMimeType: 'application/json'
-      }
-    }),
+  const response = await getLLMClient('pdp_analyzer', process.env).complete({
+    system: systemInstruction,
+    messages: [{ role: 'user', content: prompt }],
+    temperature: 0.4,
+    maxTokens: 4000,
+    schema: RECOMMENDATIONS_SCHEMA,
+    label: 'recommendations'
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-
-  if (!data.candidates || data.candidates.length === 0) {
-    throw new Error('No response from Gemini API');
-  }
-
-  const resultText = data.candidates[0].content.parts[0].text;
-  const initialRecommendations = JSON.parse(resultText);
+  const initialRecommendations = response.json as Recommendations;
   
   // Validate that we have recommendations for ALL metrics below 8.5
   const qualifyingMetrics = Object.entries(mainAnalysis.scores)
@@ -526,11 +450,6 @@ async function generateRecommendations(
       const metric = missingMetrics[i];
       
       try {
-        // Add delay between individual API calls to avoid rate limiting
-        if (i > 0) {
-          await delay(1000); // 1 second delay between calls
-        }
-        
         const individualRecommendation = await generateIndividualMetricRecommendation(
           metric,
           mainAnalysis.scores[metric],
@@ -565,13 +484,7 @@ async function generateIndividualMetricRecommendation(
   currentScore: number,
   analysis: string,
   metaInfo: MetaInfo | undefined
-): Promise<any> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error("Gemini API key not configured");
-  }
-
+): Promise<Recommendations['priority_improvements'][number]> {
   const contextInfo = metaInfo ? [
     metaInfo.category && `Product Category: ${metaInfo.category}`,
     metaInfo.description && `Product Description: ${metaInfo.description}`,
@@ -602,53 +515,19 @@ RESPOND IN THIS EXACT JSON FORMAT:
 
   const systemInstruction = 'You are a packaging design consultant providing focused recommendations for specific metrics.';
 
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      system_instruction: {
-        parts: [{ text: systemInstruction }]
-      },
-      contents: [
-        {
-          parts: [{ text: prompt }]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.4,
-        maxOutputTokens: 1000,
-        responseMimeType: 'application/json'
-      }
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-
-  if (!data.candidates || data.candidates.length === 0) {
-    throw new Error('No response from Gemini API');
-  }
-
-  const resultText = data.candidates[0].content.parts[0].text;
-  
   try {
-    const result = JSON.parse(resultText);
-    
-    // Validate the response has the required fields
-    if (!result.metric || !result.current_score || !result.recommendation) {
-      throw new Error('Invalid response format from individual recommendation API');
-    }
+    const response = await getLLMClient('pdp_analyzer', process.env).complete({
+      system: systemInstruction,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0.4,
+      maxTokens: 1000,
+      schema: METRIC_RECOMMENDATION_SCHEMA,
+      label: metric
+    });
     
-    return result;
-  } catch (parseError) {
-    console.error(`Failed to parse individual recommendation for ${metric}:`, parseError);
-    console.error('Raw response:', resultText);
+    return response.json as Recommendations['priority_improvements'][number];
+  } catch (error) {
+    console.error(`Failed to get individual recommendation for ${metric}:`, error);
     throw new Error(`Failed to parse recommendation response for ${metric}`);
   }
 }
@@ -0,0 +1,282 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+
+const productFields = {
+  name: v.string(),
+  description: v.optional(v.string()),
+  category: v.optional(v.string()),
+  length: v.number(),
+  width: v.number(),
+  height: v.number(),
+  weight: v.optional(v.number()),
+  fragile: v.optional(v.boolean()),
+};
+
+const TRACKED_FIELDS = ["name", "description", "category", "length", "width", "height", "weight", "fragile", "confidence"] as const;
+
+type TrackedField = (typeof TRACKED_FIELDS)[number];
+export type ProductValues = Pick<Doc<"products">, TrackedField>;
+
+// Field-level differences between two versions of a product
+export function diffProduct(before: Partial<ProductValues>, after: Partial<ProductValues>) {
+  return TRACKED_FIELDS
+    .filter((field) => before[field] !== after[field])
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+export function validateDimensions(sku: string, values: { length: number; width: number; height: number; weight?: number }) {
+  if (!(values.length > 0 && values.width > 0 && values.height > 0)) {
+    throw new Error(`${sku}: dimensions must be positive`);
+  }
+  if (values.weight !== undefined && values.weight < 0) {
+    throw new Error(`${sku}: weight cannot be negative`);
+  }
+}
+
+// Get the current user's catalog, ordered by SKU
+export const getProducts = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      return [];
+    }
+
+    const products = await ctx.db
+      .query("products")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    return products.sort((a, b) => a.sku.localeCompare(b.sku));
+  },
+});
+
+// Get the change history of one product, newest first
+export const getProductHistory = query({
+  args: { productId: v.id("products") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      return [];
+    }
+
+    const history = await ctx.db
+      .query("productHistory")
+      .withIndex("by_product", (q) => q.eq("productId", args.productId))
+      .collect();
+
+    return history
+      .filter((entry) => entry.userId === user._id)
+      .sort((a, b) => b.changedAt - a.changedAt);
+  },
+});
+
+// Import catalog rows, updating products whose SKU already exists (case-insensitive)
+export const importProducts = mutation({
+  args: {
+    products: v.array(v.object({ sku: v.string(), ...productFields })),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const existingProducts = await ctx.db
+      .query("products")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    const bySku = new Map(existingProducts.map((product) => [product.sku.toUpperCase(), product]));
+
+    const now = Date.now();
+    let created = 0;
+    let updated = 0;
+    let unchanged = 0;
+
+    for (const row of args.products) {
+      const sku = row.sku.trim();
+      if (!sku) continue;
+      validateDimensions(sku, row);
+
+      const values: ProductValues = {
+        name: row.name.trim() || sku,
+        description: row.description || undefined,
+        category: row.category || undefined,
+        length: row.length,
+        width: row.width,
+        height: row.height,
+        weight: row.weight,
+        fragile: row.fragile ?? false,
+        confidence: undefined,
+      };
+
+      const existing = bySku.get(sku.toUpperCase());
+      if (existing) {
+        const changes = diffProduct(existing, values);
+        if (changes.length === 0) {
+          unchanged++;
+          continue;
+        }
+
+        await ctx.db.patch(existing._id, { ...values, source: "import", updatedAt: now });
+        await ctx.db.insert("productHistory", {
+          userId: user._id,
+          productId: existing._id,
+          sku: existing.sku,
+          action: "updated",
+          source: "import",
+          changes,
+          changedAt: now,
+        });
+        bySku.set(sku.toUpperCase(), { ...existing, ...values });
+        updated++;
+      } else {
+        const productId = await ctx.db.insert("products", {
+          userId: user._id,
+          sku,
+          ...values,
+          source: "import",
+          createdAt: now,
+          updatedAt: now,
+        });
+        await ctx.db.insert("productHistory", {
+          userId: user._id,
+          productId,
+          sku,
+          action: "created",
+          source: "import",
+          changes: diffProduct({}, values),
+          changedAt: now,
+        });
+        bySku.set(sku.toUpperCase(), { _id: productId, sku, ...values } as Doc<"products">);
+        created++;
+      }
+    }
+
+    return { created, updated, unchanged };
+  },
+});
+
+// Edit a product by hand
+export const updateProduct = mutation({
+  args: {
+    productId: v.id("products"),
+    ...productFields,
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const product = await ctx.db.get(args.productId);
+    if (!product || product.userId !== user._id) {
+      throw new Error("Product not found or access denied");
+    }
+    validateDimensions(product.sku, args);
+
+    const values: ProductValues = {
+      name: args.name.trim() || product.sku,
+      description: args.description || undefined,
+      category: args.category || undefined,
+      length: args.length,
+      width: args.width,
+      height: args.height,
+      weight: args.weight,
+      fragile: args.fragile ?? product.fragile,
+      confidence: undefined,
+    };
+
+    const changes = diffProduct(product, values);
+    if (changes.length === 0) {
+      return product._id;
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(product._id, { ...values, source: "manual", updatedAt: now });
+    await ctx.db.insert("productHistory", {
+      userId: user._id,
+      productId: product._id,
+      sku: product.sku,
+      action: "updated",
+      source: "manual",
+      changes,
+      changedAt: now,
+    });
+
+    return product._id;
+  },
+});
+
+// Delete a product; its history is kept with a final "deleted" entry
+export const deleteProduct = mutation({
+  args: { productId: v.id("products") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const product = await ctx.db.get(args.productId);
+    if (!product || product.userId !== user._id) {
+      throw new Error("Product not found or access denied");
+    }
+
+    await ctx.db.insert("productHistory", {
+      userId: user._id,
+      productId: product._id,
+      sku: product.sku,
+      action: "deleted",
+      source: "manual",
+      changes: diffProduct(product, {}),
+      changedAt: Date.now(),
+    });
+    await ctx.db.delete(args.productId);
+  },
+});
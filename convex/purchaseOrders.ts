@@ -0,0 +1,204 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import {
+  buildDraftPurchaseOrders,
+  canTransition,
+  type PlannedPurchase,
+} from "../src/lib/calculations/purchaseOrders";
+
+const purchaseOrderStatusValidator = v.union(v.literal("draft"), v.literal("sent"), v.literal("received"));
+
+// Draft one PO per supplier from a stored Demand Planner forecast.
+// Re-running replaces that forecast's drafts and skips suppliers whose PO has already been sent.
+export const createPurchaseOrdersFromAnalysis = mutation({
+  args: { analysisId: v.id("analyses") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const analysis = await ctx.db.get(args.analysisId);
+    if (!analysis || analysis.userId !== user._id || analysis.type !== "demand_planner_v2") {
+      throw new Error("Demand forecast not found or access denied");
+    }
+
+    const demandResults: PlannedPurchase[] = analysis.results?.demandResults ?? [];
+    const now = Date.now();
+    const drafts = buildDraftPurchaseOrders(demandResults, now);
+    if (drafts.length === 0) {
+      throw new Error("This forecast has no quantities to order");
+    }
+
+    const existing = await ctx.db
+      .query("purchaseOrders")
+      .withIndex("by_analysis", (q) => q.eq("analysisId", args.analysisId))
+      .collect();
+
+    const committedSuppliers = new Set(
+      existing.filter((order) => order.status !== "draft").map((order) => order.supplier)
+    );
+    for (const order of existing) {
+      if (order.status === "draft") {
+        await ctx.db.delete(order._id);
+      }
+    }
+
+    // Number POs sequentially per day: PO-20240115-001
+    const prefix = `PO-${new Date(now).toISOString().slice(0, 10).replace(/-/g, "")}-`;
+    const userOrders = await ctx.db
+      .query("purchaseOrders")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    let sequence = userOrders
+      .filter((order) => order.poNumber.startsWith(prefix))
+      .reduce((max, order) => Math.max(max, parseInt(order.poNumber.slice(prefix.length)) || 0), 0);
+
+    const createdIds = [];
+    let skipped = 0;
+    for (const draft of drafts) {
+      if (committedSuppliers.has(draft.supplier)) {
+        skipped++;
+        continue;
+      }
+
+      sequence += 1;
+      createdIds.push(await ctx.db.insert("purchaseOrders", {
+        userId: user._id,
+        analysisId: args.analysisId,
+        poNumber: `${prefix}${String(sequence).padStart(3, "0")}`,
+        supplier: draft.supplier,
+        status: "draft",
+        lines: draft.lines,
+        totalCost: draft.totalCost,
+        requestedDeliveryDate: draft.requestedDeliveryDate,
+        createdAt: now,
+        updatedAt: now,
+      }));
+    }
+
+    return { created: createdIds.length, skipped };
+  },
+});
+
+// Get a user's purchase orders, newest first
+export const getPurchaseOrders = query({
+  args: { status: v.optional(purchaseOrderStatusValidator) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      return [];
+    }
+
+    const orders = await ctx.db
+      .query("purchaseOrders")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .collect();
+
+    return args.status ? orders.filter((order) => order.status === args.status) : orders;
+  },
+});
+
+// Move a PO through draft → sent → received; receiving adds its quantities to on-hand stock
+export const updatePurchaseOrderStatus = mutation({
+  args: {
+    purchaseOrderId: v.id("purchaseOrders"),
+    status: purchaseOrderStatusValidator,
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const order = await ctx.db.get(args.purchaseOrderId);
+    if (!order || order.userId !== user._id) {
+      throw new Error("Purchase order not found or access denied");
+    }
+
+    if (!canTransition(order.status, args.status)) {
+      throw new Error(`Cannot mark a ${order.status} purchase order as ${args.status}`);
+    }
+
+    const now = Date.now();
+    if (args.status === "received") {
+      const packagingTypes = await ctx.db
+        .query("packagingTypes")
+        .withIndex("by_user", (q) => q.eq("userId", user._id))
+        .collect();
+
+      for (const line of order.lines) {
+        const packagingType = packagingTypes.find((type) => type.name === line.packageType);
+        if (packagingType) {
+          await ctx.db.patch(packagingType._id, { onHand: (packagingType.onHand ?? 0) + line.quantity });
+        }
+      }
+    }
+
+    await ctx.db.patch(order._id, {
+      status: args.status,
+      updatedAt: now,
+      sentAt: args.status === "sent" ? now : args.status === "draft" ? undefined : order.sentAt,
+      receivedAt: args.status === "received" ? now : undefined,
+    });
+  },
+});
+
+// Delete a draft purchase order
+export const deletePurchaseOrder = mutation({
+  args: { purchaseOrderId: v.id("purchaseOrders") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const order = await ctx.db.get(args.purchaseOrderId);
+    if (!order || order.userId !== user._id) {
+      throw new Error("Purchase order not found or access denied");
+    }
+
+    if (order.status !== "draft") {
+      throw new Error("Only draft purchase orders can be deleted");
+    }
+
+    await ctx.db.delete(order._id);
+  },
+});
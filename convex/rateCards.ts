@@ -0,0 +1,182 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { shippingRatesValidator } from "./schema";
+
+// Get rate cards for the current user
+export const getRateCards = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      return [];
+    }
+
+    const rateCards = await ctx.db
+      .query("rateCards")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    return rateCards.sort((a, b) => b.createdAt - a.createdAt);
+  },
+});
+
+// Get the rate card used to price parcels, if the user has uploaded one
+export const getDefaultRateCard = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return null;
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      return null;
+    }
+
+    const rateCards = await ctx.db
+      .query("rateCards")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    return rateCards.find((card) => card.isDefault) || null;
+  },
+});
+
+// Save an uploaded rate card
+export const saveRateCard = mutation({
+  args: {
+    name: v.string(),
+    services: v.array(shippingRatesValidator),
+    makeDefault: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    if (args.services.length === 0) {
+      throw new Error("Rate card has no services");
+    }
+
+    const existingCards = await ctx.db
+      .query("rateCards")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    // The first card a user uploads is used by default
+    const isDefault = args.makeDefault ?? existingCards.length === 0;
+    if (isDefault) {
+      for (const card of existingCards.filter((card) => card.isDefault)) {
+        await ctx.db.patch(card._id, { isDefault: false, updatedAt: Date.now() });
+      }
+    }
+
+    return await ctx.db.insert("rateCards", {
+      userId: user._id,
+      name: args.name,
+      services: args.services,
+      isDefault,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Choose which rate card prices parcels
+export const setDefaultRateCard = mutation({
+  args: { rateCardId: v.id("rateCards") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const rateCard = await ctx.db.get(args.rateCardId);
+    if (!rateCard || rateCard.userId !== user._id) {
+      throw new Error("Rate card not found or access denied");
+    }
+
+    const existingCards = await ctx.db
+      .query("rateCards")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    for (const card of existingCards) {
+      if (card.isDefault !== (card._id === args.rateCardId)) {
+        await ctx.db.patch(card._id, { isDefault: card._id === args.rateCardId, updatedAt: Date.now() });
+      }
+    }
+  },
+});
+
+// Delete a rate card
+export const deleteRateCard = mutation({
+  args: { rateCardId: v.id("rateCards") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const rateCard = await ctx.db.get(args.rateCardId);
+    if (!rateCard || rateCard.userId !== user._id) {
+      throw new Error("Rate card not found or access denied");
+    }
+
+    await ctx.db.delete(args.rateCardId);
+
+    // Keep a default in place by promoting the newest remaining card
+    if (rateCard.isDefault) {
+      const remaining = await ctx.db
+        .query("rateCards")
+        .withIndex("by_user", (q) => q.eq("userId", user._id))
+        .collect();
+      const newest = remaining.sort((a, b) => b.createdAt - a.createdAt)[0];
+      if (newest) {
+        await ctx.db.patch(newest._id, { isDefault: true, updatedAt: Date.now() });
+      }
+    }
+  },
+});
@@ -1,6 +1,116 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Carrier service rates, mirroring ShippingRates in src/lib/calculations/costAnalysis.ts
+export const shippingRatesValidator = v.object({
+  carrier: v.string(),
+  service: v.string(),
+  zones: v.record(v.string(), v.object({
+    zone: v.string(),
+    rates: v.array(v.object({
+      minWeight: v.number(),
+      maxWeight: v.number(),
+      rate: v.number(),
+    })),
+  })),
+  dimFactor: v.number(),
+  fuelSurcharge: v.number(),
+  baseRate: v.number(),
+  minimumBillableWeight: v.optional(v.number()),
+  weightRounding: v.optional(v.union(
+    v.literal("up_to_lb"),
+    v.literal("up_to_half_lb"),
+    v.literal("up_to_oz"),
+    v.literal("none")
+  )),
+  dimThreshold: v.optional(v.number()),
+});
+
+// Carrier surcharge rule, mirroring SurchargeRule in src/lib/calculations/surcharges.ts
+export const surchargeRuleValidator = v.object({
+  id: v.string(),
+  name: v.string(),
+  type: v.union(
+    v.literal("additional_handling"),
+    v.literal("large_package"),
+    v.literal("over_maximum"),
+    v.literal("custom")
+  ),
+  carrier: v.optional(v.string()),
+  conditions: v.object({
+    longestSideOver: v.optional(v.number()),
+    secondLongestSideOver: v.optional(v.number()),
+    lengthPlusGirthOver: v.optional(v.number()),
+    weightOver: v.optional(v.number()),
+    cubicInchesOver: v.optional(v.number()),
+  }),
+  amount: v.number(),
+  minimumBillableWeight: v.optional(v.number()),
+  supersedes: v.optional(v.array(v.string())),
+});
+
+// Field -> source column mapping, mirroring FieldMapping in src/lib/data/columnMapping.ts
+export const columnMappingValidator = v.object({
+  field: v.string(),
+  column: v.optional(v.string()),
+  transform: v.optional(v.object({
+    unit: v.optional(v.union(
+      v.literal("in"), v.literal("ft"), v.literal("cm"), v.literal("mm"), v.literal("m"),
+      v.literal("lb"), v.literal("oz"), v.literal("kg"), v.literal("g")
+    )),
+    multiplier: v.optional(v.number()),
+    concatColumns: v.optional(v.array(v.string())),
+    separator: v.optional(v.string()),
+  })),
+});
+
+// Where a catalog entry's values came from ("ai" = accepted Spec Generator estimate)
+export const productSourceValidator = v.union(v.literal("import"), v.literal("manual"), v.literal("ai"));
+
+export const specConfidenceValidator = v.union(v.literal("high"), v.literal("medium"), v.literal("low"));
+
+// Weight, handling and packaging estimates kept alongside Spec Generator dimensions
+export const specAttributeFields = {
+  weight: v.optional(v.number()),
+  weightUnit: v.optional(v.union(v.literal("lb"), v.literal("oz"), v.literal("kg"), v.literal("g"))),
+  weightConfidence: v.optional(specConfidenceValidator),
+  fragile: v.optional(v.boolean()),
+  orientation: v.optional(v.union(v.literal("any"), v.literal("this_side_up"), v.literal("keep_flat"))),
+  fragilityConfidence: v.optional(specConfidenceValidator),
+  packagingClass: v.optional(v.union(
+    v.literal("poly_mailer"),
+    v.literal("padded_mailer"),
+    v.literal("standard_box"),
+    v.literal("cushioned_box"),
+    v.literal("double_box")
+  )),
+  packagingConfidence: v.optional(specConfidenceValidator),
+};
+
+// Supplier terms for a packaging type (see src/lib/calculations/supplierTerms.ts)
+export const supplierTermsFields = {
+  supplier: v.optional(v.string()),
+  caseQuantity: v.optional(v.number()),
+  palletQuantity: v.optional(v.number()),
+  minimumOrderQuantity: v.optional(v.number()),
+  priceBreaks: v.optional(v.array(v.object({ minQuantity: v.number(), unitPrice: v.number() }))),
+};
+
+const productFieldValueValidator = v.union(v.string(), v.number(), v.boolean());
+
+// Estimate recorded for a Spec Job item
+export const specJobResultValidator = v.object({
+  category: v.optional(v.string()),
+  estimatedL: v.number(),
+  estimatedW: v.number(),
+  estimatedH: v.number(),
+  totalCUIN: v.number(),
+  confidence: v.string(),
+  notes: v.string(),
+  cached: v.optional(v.boolean()),
+  ...specAttributeFields,
+});
+
 export default defineSchema({
   // Users table (extends Clerk data)
   users: defineTable({
@@ -181,6 +291,12 @@ export default defineSchema({
     height: v.number(),
     cost: v.number(),
     weight: v.number(),
+    // Inventory policy inputs
+    onHand: v.optional(v.number()),
+    leadTimeDays: v.optional(v.number()),
+    orderingCost: v.optional(v.number()),
+    holdingCostRate: v.optional(v.number()), // Annual % of unit cost
+    ...supplierTermsFields,
     createdAt: v.number(),
   })
     .index("by_user", ["userId"]),
@@ -196,6 +312,198 @@ export default defineSchema({
     .index("by_user", ["userId"])
     .index("by_user_quarter", ["userId", "quarter"]),
 
+  // Purchase Orders (drafted from Demand Planner results, one per supplier)
+  purchaseOrders: defineTable({
+    userId: v.id("users"),
+    analysisId: v.optional(v.id("analyses")),
+    poNumber: v.string(),
+    supplier: v.string(),
+    status: v.union(v.literal("draft"), v.literal("sent"), v.literal("received")),
+    lines: v.array(v.object({
+      packageType: v.string(),
+      quantity: v.number(),
+      unitPrice: v.number(),
+      extendedCost: v.number(),
+      leadTimeDays: v.optional(v.number()),
+      requestedDeliveryDate: v.string(),
+    })),
+    totalCost: v.number(),
+    requestedDeliveryDate: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    sentAt: v.optional(v.number()),
+    receivedAt: v.optional(v.number()),
+  })
+    .index("by_user", ["userId"])
+    .index("by_analysis", ["analysisId"]),
+
+  // Carrier Rate Cards (uploaded rate tables used to price parcels)
+  rateCards: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    services: v.array(shippingRatesValidator),
+    isDefault: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  // Carrier Surcharge Rules (one set per user, replacing the built-in list-rate rules)
+  surchargeRules: defineTable({
+    userId: v.id("users"),
+    rules: v.array(surchargeRuleValidator),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  // Zone Charts (destination ZIP3 prefix -> zone, one chart per origin warehouse)
+  zoneCharts: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    originZip: v.string(),
+    zones: v.record(v.string(), v.string()),
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  // Column Mapping Profiles (saved header -> field mappings, matched by header signature)
+  columnMappingProfiles: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    schema: v.union(v.literal("orders"), v.literal("usage_log"), v.literal("catalog")),
+    headerSignature: v.string(),
+    mappings: v.array(columnMappingValidator),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  // Products (SKU master catalog; dimensions in inches, weight in lbs)
+  products: defineTable({
+    userId: v.id("users"),
+    sku: v.string(),
+    name: v.string(),
+    description: v.optional(v.string()),
+    category: v.optional(v.string()),
+    length: v.number(),
+    width: v.number(),
+    height: v.number(),
+    weight: v.optional(v.number()),
+    fragile: v.boolean(),
+    source: productSourceValidator,
+    confidence: v.optional(specConfidenceValidator), // Only set for AI-sourced entries
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_sku", ["userId", "sku"]),
+
+  // Spec Candidates (Spec Generator estimates awaiting review before entering the catalog)
+  specCandidates: defineTable({
+    userId: v.id("users"),
+    sku: v.string(),
+    productName: v.string(),
+    orderId: v.optional(v.string()),
+    category: v.optional(v.string()),
+    length: v.number(),
+    width: v.number(),
+    height: v.number(),
+    confidence: specConfidenceValidator,
+    notes: v.string(),
+    ...specAttributeFields,
+    status: v.union(v.literal("pending"), v.literal("accepted"), v.literal("rejected")),
+    productId: v.optional(v.id("products")),
+    createdAt: v.number(),
+    reviewedAt: v.optional(v.number()),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_status", ["userId", "status"]),
+
+  // Spec Estimate Cache (latest estimate per normalised product name, reused instead of re-asking the LLM)
+  specEstimateCache: defineTable({
+    userId: v.id("users"),
+    nameKey: v.string(),
+    productName: v.string(),
+    category: v.optional(v.string()),
+    length: v.number(),
+    width: v.number(),
+    height: v.number(),
+    confidence: specConfidenceValidator,
+    notes: v.string(),
+    ...specAttributeFields,
+    accepted: v.boolean(), // Confirmed through the review queue
+    hits: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user_name", ["userId", "nameKey"]),
+
+  // Spec Jobs (server-side Spec Generator runs processed in scheduled chunks)
+  specJobs: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    status: v.union(
+      v.literal("queued"),
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed"),
+      v.literal("cancelled")
+    ),
+    totalItems: v.number(),
+    completedItems: v.number(),
+    failedItems: v.number(),
+    cachedItems: v.number(),
+    boundingDimensions: v.object({
+      min: v.object({ l: v.number(), w: v.number(), h: v.number() }),
+      max: v.object({ l: v.number(), w: v.number(), h: v.number() }),
+    }),
+    additionalInfo: v.optional(v.object({
+      category: v.optional(v.string()),
+      material: v.optional(v.string()),
+      size: v.optional(v.string()),
+    })),
+    run: v.number(), // Bumped on resume so chunks scheduled by an earlier run stop
+    retries: v.number(), // Consecutive failed chunks, reset after a successful one
+    error: v.optional(v.string()),
+    analysisId: v.optional(v.id("analyses")), // Usage record, written when the job first completes
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_user", ["userId"]),
+
+  // Spec Job Items (one queued product per row, in CSV order)
+  specJobItems: defineTable({
+    jobId: v.id("specJobs"),
+    index: v.number(),
+    orderId: v.optional(v.string()),
+    sku: v.optional(v.string()),
+    productName: v.string(),
+    category: v.optional(v.string()),
+    status: v.union(v.literal("pending"), v.literal("completed"), v.literal("failed")),
+    result: v.optional(specJobResultValidator),
+    error: v.optional(v.string()),
+    attempts: v.number(),
+  })
+    .index("by_job", ["jobId", "index"])
+    .index("by_job_status", ["jobId", "status"]),
+
+  // Product History (field-level changes to catalog entries)
+  productHistory: defineTable({
+    userId: v.id("users"),
+    productId: v.id("products"),
+    sku: v.string(),
+    action: v.union(v.literal("created"), v.literal("updated"), v.literal("deleted")),
+    source: productSourceValidator,
+    changes: v.array(v.object({
+      field: v.string(),
+      before: v.optional(productFieldValueValidator),
+      after: v.optional(productFieldValueValidator),
+    })),
+    changedAt: v.number(),
+  })
+    .index("by_product", ["productId"])
+    .index("by_user", ["userId"]),
+
   // Manual Mix (for improved demand planner)
   manualMix: defineTable({
     userId: v.id("users"),
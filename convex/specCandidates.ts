@@ -0,0 +1,299 @@
+import { v, type Infer } from "convex/values";
+import { mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { specAttributeFields, specConfidenceValidator } from "./schema";
+import { diffProduct, validateDimensions, type ProductValues } from "./products";
+import { normalizeProductName } from "../src/lib/calculations/specPriors";
+import { pickSpecAttributes, specWeightInPounds } from "../src/lib/calculations/specAttributes";
+
+const candidateValidator = v.object({
+  sku: v.string(),
+  productName: v.string(),
+  orderId: v.optional(v.string()),
+  category: v.optional(v.string()),
+  length: v.number(),
+  width: v.number(),
+  height: v.number(),
+  confidence: specConfidenceValidator,
+  notes: v.string(),
+  ...specAttributeFields,
+});
+
+// Accepted estimates with a category for a user (shared with Spec Generator jobs)
+export async function categorySamplesForUser(ctx: QueryCtx, userId: Id<"users">) {
+  const accepted = await ctx.db
+    .query("specCandidates")
+    .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "accepted"))
+    .collect();
+
+  return accepted
+    .filter((candidate) => candidate.category)
+    .map(({ category, length, width, height }) => ({ category, length, width, height }));
+}
+
+// Queue estimates for a user's review (shared with Spec Generator jobs)
+export async function queueCandidatesForUser(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  candidates: Array<Infer<typeof candidateValidator>>
+) {
+  const pending = await ctx.db
+    .query("specCandidates")
+    .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "pending"))
+    .collect();
+  const pendingBySku = new Map<string, { _id: Id<"specCandidates">; sku: string }>(
+    pending.map((candidate) => [candidate.sku.toUpperCase(), candidate])
+  );
+
+  const now = Date.now();
+  for (const candidate of candidates) {
+    const sku = candidate.sku.trim();
+    if (!sku) continue;
+
+    const existing = pendingBySku.get(sku.toUpperCase());
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...candidate, sku, createdAt: now });
+    } else {
+      const candidateId = await ctx.db.insert("specCandidates", {
+        userId,
+        ...candidate,
+        sku,
+        status: "pending",
+        createdAt: now,
+      });
+      pendingBySku.set(sku.toUpperCase(), { _id: candidateId, sku });
+    }
+  }
+}
+
+// Get the current user's review queue (pending by default), newest first
+export const getSpecCandidates = query({
+  args: {
+    status: v.optional(v.union(v.literal("pending"), v.literal("accepted"), v.literal("rejected"))),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      return [];
+    }
+
+    const candidates = await ctx.db
+      .query("specCandidates")
+      .withIndex("by_user_status", (q) => q.eq("userId", user._id).eq("status", args.status ?? "pending"))
+      .collect();
+
+    return candidates.sort((a, b) => b.createdAt - a.createdAt);
+  },
+});
+
+// Dimensions of accepted estimates with a category, used to build category priors
+export const getCategorySamples = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      return [];
+    }
+
+    return await categorySamplesForUser(ctx, user._id);
+  },
+});
+
+// Queue Spec Generator estimates for review; a newer estimate replaces a pending one for the same SKU
+export const addSpecCandidates = mutation({
+  args: {
+    candidates: v.array(candidateValidator),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await queueCandidatesForUser(ctx, user._id, args.candidates);
+    return args.candidates.length;
+  },
+});
+
+// Accept an estimate (optionally edited) into the catalog as an AI-sourced product
+export const acceptSpecCandidate = mutation({
+  args: {
+    candidateId: v.id("specCandidates"),
+    length: v.optional(v.number()),
+    width: v.optional(v.number()),
+    height: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const candidate = await ctx.db.get(args.candidateId);
+    if (!candidate || candidate.userId !== user._id) {
+      throw new Error("Estimate not found or access denied");
+    }
+    if (candidate.status !== "pending") {
+      throw new Error(`Estimate for ${candidate.sku} has already been ${candidate.status}`);
+    }
+
+    const dimensions = {
+      length: args.length ?? candidate.length,
+      width: args.width ?? candidate.width,
+      height: args.height ?? candidate.height,
+    };
+    validateDimensions(candidate.sku, dimensions);
+
+    const products = await ctx.db
+      .query("products")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    const existing = products.find((product) => product.sku.toUpperCase() === candidate.sku.toUpperCase());
+
+    const now = Date.now();
+    let productId;
+    if (existing) {
+      const values: ProductValues = {
+        name: existing.name,
+        description: existing.description,
+        category: existing.category,
+        weight: existing.weight ?? specWeightInPounds(candidate), // Estimated weight only fills a gap
+        fragile: existing.fragile,
+        ...dimensions,
+        confidence: candidate.confidence,
+      };
+      productId = existing._id;
+      await ctx.db.patch(productId, { ...values, source: "ai", updatedAt: now });
+      await ctx.db.insert("productHistory", {
+        userId: user._id,
+        productId,
+        sku: existing.sku,
+        action: "updated",
+        source: "ai",
+        changes: diffProduct(existing, values),
+        changedAt: now,
+      });
+    } else {
+      const values: ProductValues = {
+        name: candidate.productName,
+        description: undefined,
+        category: candidate.category,
+        weight: specWeightInPounds(candidate),
+        fragile: candidate.fragile ?? false,
+        ...dimensions,
+        confidence: candidate.confidence,
+      };
+      productId = await ctx.db.insert("products", {
+        userId: user._id,
+        sku: candidate.sku,
+        ...values,
+        source: "ai",
+        createdAt: now,
+        updatedAt: now,
+      });
+      await ctx.db.insert("productHistory", {
+        userId: user._id,
+        productId,
+        sku: candidate.sku,
+        action: "created",
+        source: "ai",
+        changes: diffProduct({}, values),
+        changedAt: now,
+      });
+    }
+
+    await ctx.db.patch(candidate._id, {
+      ...dimensions,
+      status: "accepted",
+      productId,
+      reviewedAt: now,
+    });
+
+    // Reviewed dimensions become the cached answer for this product name
+    const nameKey = normalizeProductName(candidate.productName);
+    const cached = await ctx.db
+      .query("specEstimateCache")
+      .withIndex("by_user_name", (q) => q.eq("userId", user._id).eq("nameKey", nameKey))
+      .first();
+    const cacheEntry = {
+      productName: candidate.productName,
+      category: candidate.category,
+      ...dimensions,
+      confidence: candidate.confidence,
+      notes: candidate.notes,
+      ...pickSpecAttributes(candidate),
+      accepted: true,
+      updatedAt: now,
+    };
+    if (cached) {
+      await ctx.db.patch(cached._id, cacheEntry);
+    } else {
+      await ctx.db.insert("specEstimateCache", { userId: user._id, nameKey, ...cacheEntry, hits: 0 });
+    }
+
+    return productId;
+  },
+});
+
+// Reject an estimate; it stays in the queue history but never reaches the catalog
+export const rejectSpecCandidate = mutation({
+  args: { candidateId: v.id("specCandidates") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const candidate = await ctx.db.get(args.candidateId);
+    if (!candidate || candidate.userId !== user._id) {
+      throw new Error("Estimate not found or access denied");
+    }
+
+    await ctx.db.patch(candidate._id, { status: "rejected", reviewedAt: Date.now() });
+  },
+});
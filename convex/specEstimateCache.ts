@@ -0,0 +1,115 @@
+import { v, type Infer } from "convex/values";
+import { mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { specAttributeFields, specConfidenceValidator } from "./schema";
+
+const estimateValidator = v.object({
+  nameKey: v.string(),
+  productName: v.string(),
+  category: v.optional(v.string()),
+  length: v.number(),
+  width: v.number(),
+  height: v.number(),
+  confidence: specConfidenceValidator,
+  notes: v.string(),
+  ...specAttributeFields,
+});
+
+// Cached estimates for a user's normalised product names (shared with Spec Generator jobs)
+export async function lookupEstimatesForUser(ctx: QueryCtx, userId: Id<"users">, nameKeys: string[]) {
+  const entries = await Promise.all(
+    [...new Set(nameKeys)].map((nameKey) =>
+      ctx.db
+        .query("specEstimateCache")
+        .withIndex("by_user_name", (q) => q.eq("userId", userId).eq("nameKey", nameKey))
+        .first()
+    )
+  );
+
+  return entries.filter((entry) => entry !== null);
+}
+
+// Store fresh estimates and count cache hits for a user (shared with Spec Generator jobs)
+export async function saveEstimatesForUser(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  estimates: Array<Infer<typeof estimateValidator>>,
+  hitKeys: string[]
+) {
+  const now = Date.now();
+  for (const estimate of estimates) {
+    const existing = await ctx.db
+      .query("specEstimateCache")
+      .withIndex("by_user_name", (q) => q.eq("userId", userId).eq("nameKey", estimate.nameKey))
+      .first();
+
+    if (!existing) {
+      await ctx.db.insert("specEstimateCache", {
+        userId,
+        ...estimate,
+        accepted: false,
+        hits: 0,
+        updatedAt: now,
+      });
+    } else if (!existing.accepted) {
+      await ctx.db.patch(existing._id, { ...estimate, updatedAt: now });
+    }
+  }
+
+  for (const nameKey of new Set(hitKeys)) {
+    const entry = await ctx.db
+      .query("specEstimateCache")
+      .withIndex("by_user_name", (q) => q.eq("userId", userId).eq("nameKey", nameKey))
+      .first();
+    if (entry) {
+      await ctx.db.patch(entry._id, { hits: entry.hits + 1 });
+    }
+  }
+}
+
+// Get cached estimates for normalised product names
+export const lookupEstimates = query({
+  args: { nameKeys: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      return [];
+    }
+
+    return await lookupEstimatesForUser(ctx, user._id, args.nameKeys);
+  },
+});
+
+// Store fresh LLM estimates and count cache hits; accepted entries are never overwritten by new guesses
+export const saveEstimates = mutation({
+  args: {
+    estimates: v.array(estimateValidator),
+    hitKeys: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await saveEstimatesForUser(ctx, user._id, args.estimates, args.hitKeys);
+  },
+});
@@ -1,73 +1,104 @@
 import { v } from "convex/values";
 import { action } from "./_generated/server";
 import { api } from "./_generated/api";
+import { parseCSVRows } from "../src/lib/data/csvReader";
+import type { Doc } from "./_generated/dataModel";
+import {
+  applyCategoryPrior,
+  buildCategoryPriors,
+  normalizeCategory,
+  normalizeProductName,
+  type CategoryPrior,
+  type CategorySample,
+} from "../src/lib/calculations/specPriors";
+import {
+  ORIENTATIONS,
+  PACKAGING_CLASSES,
+  parseSpecAttributes,
+  pickSpecAttributes,
+  type SpecAttributes,
+} from "../src/lib/calculations/specAttributes";
+import { getLLMClient, LLMError, type JsonSchema } from "../src/lib/llm";
+
+// Products per generateSpecs call or Spec Job chunk
+export const CHUNK_SIZE = 50;
+
+// Expected shape of the model's answer; malformed answers are retried by the provider layer
+const SPEC_ESTIMATES_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["estimates"],
+  properties: {
+    estimates: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["product", "length", "width", "height", "weight"],
+        properties: {
+          product: { type: "string" },
+          length: { type: "number", minimum: 0 },
+          width: { type: "number", minimum: 0 },
+          height: { type: "number", minimum: 0 },
+          confidence: { type: "string" },
+          weight: { type: "number", minimum: 0 },
+          weightUnit: { type: "string" },
+          weightConfidence: { type: "string" },
+          fragile: { type: "boolean" },
+          orientation: { type: "string" },
+          fragilityConfidence: { type: "string" },
+          packagingClass: { type: "string" },
+          packagingConfidence: { type: "string" },
+          reasoning: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+// An answer that passed SPEC_ESTIMATES_SCHEMA
+interface SpecEstimatesResponse {
+  estimates: Array<{
+    product: string;
+    length: number;
+    width: number;
+    height: number;
+    confidence?: string;
+    reasoning?: string;
+  } & Record<string, unknown>>;
+}
 
 // Simple test action to verify API connectivity
 export const testAPIConnection = action({
   args: {},
   handler: async () => {
     console.log('Starting API test...');
-    const apiKey = process.env.OPENAI_API_KEY;
-    
-    if (!apiKey) {
-      return { success: false, error: "No API key found" };
-    }
+    const llm = getLLMClient('spec_generator', process.env);
     
     try {
       // Test 1: Simple message
       console.log("Test 1: Simple API call...");
-      const simpleResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [{ role: 'user', content: 'Say test' }],
-          max_tokens: 10,
-        }),
-      });
-      
-      if (!simpleResponse.ok) {
-        return { success: false, error: `Simple test failed: ${simpleResponse.status}` };
-      }
+      await llm.complete({ messages: [{ role: 'user', content: 'Say test' }], maxTokens: 10, label: 'connection test' });
       
       // Test 2: JSON format request (like spec generator)
       console.log("Test 2: JSON format request...");
-      const jsonPrompt = `Estimate dimensions for this product: Water Bottle\n\nRespond in JSON: {\"product\": \"name\", \"length\": 0, \"width\": 0, \"height\": 0}`;
-      
-      const jsonResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [{ role: 'user', content: jsonPrompt }],
-          max_tokens: 100,
-          response_format: { type: "json_object" }
-        }),
+      const response = await llm.complete({
+        messages: [{
+          role: 'user',
+          content: buildGPTPrompt(
+            [{ productName: 'Water Bottle' }],
+            { min: { l: 1, w: 1, h: 1 }, max: { l: 12, w: 12, h: 12 } },
+            undefined
+          )
+        }],
+        maxTokens: 300,
+        schema: SPEC_ESTIMATES_SCHEMA,
+        label: 'connection test'
       });
       
-      const jsonStatus = jsonResponse.status;
-      console.log(`JSON test status: ${jsonStatus}`);
-      
-      if (jsonResponse.ok) {
-        const data = await jsonResponse.json();
-        return { 
-          success: true, 
-          message: "Both tests passed! API is working correctly.",
-          response: data.choices?.[0]?.message?.content || "No content"
-        };
-      } else {
-        const errorText = await jsonResponse.text();
-        return { 
-          success: false, 
-          error: `JSON test failed with ${jsonStatus}: ${errorText.substring(0, 200)}` 
-        };
-      }
+      return { 
+        success: true, 
+        message: `Both tests passed! ${llm.provider} (${llm.model}) is working correctly.`,
+        response: response.text
+      };
     } catch (error) {
       console.error("API test error:", error);
       return { 
@@ -109,22 +140,46 @@ export const generateSpecs = action({
         throw new Error("User not found");
       }
 
-      // First, test API connectivity with a simple request
-      console.log('Testing API connectivity...');
-      await testAPIConnectivity();
-      console.log('API connectivity test passed');
-
       // Parse CSV data
       const products = parseProductCSV(args.productData);
+      const startIndex = args.startIndex || 0;
+
+      // Products estimated before are answered from the cache instead of the LLM
+      const chunkKeys = products
+        .slice(startIndex, startIndex + CHUNK_SIZE)
+        .map(product => normalizeProductName(product.productName));
+      const cachedEstimates: Doc<"specEstimateCache">[] = await ctx.runQuery(api.specEstimateCache.lookupEstimates, { nameKeys: chunkKeys });
+      const cache = new Map(cachedEstimates.map(entry => [entry.nameKey, entry]));
+
+      // Accepted estimates give each category a typical size to check new answers against
+      const samples: CategorySample[] = await ctx.runQuery(api.specCandidates.getCategorySamples, {});
+      const priors = buildCategoryPriors(samples);
 
       // Generate specifications
       const results = await generateSpecsForProducts(
         products,
         args.boundingDimensions,
         args.additionalInfo,
-        args.startIndex || 0
+        startIndex,
+        cache,
+        priors
       );
 
+      await ctx.runMutation(api.specEstimateCache.saveEstimates, {
+        estimates: results.results.filter(result => !result.cached).map(result => ({
+          nameKey: normalizeProductName(result.productName),
+          productName: result.productName,
+          category: result.category,
+          length: result.estimatedL,
+          width: result.estimatedW,
+          height: result.estimatedH,
+          confidence: normalizeConfidence(result.confidence),
+          notes: result.notes,
+          ...pickSpecAttributes(result),
+        })),
+        hitKeys: results.results.filter(result => result.cached).map(result => normalizeProductName(result.productName)),
+      });
+
       // Save analysis record (just tracking usage, no results)
       await ctx.runMutation(api.analyses.create, {
         type: "spec_generator",
@@ -133,6 +188,24 @@ export const generateSpecs = action({
         results: { productCount: products.length }, // Just track count, not actual data
       });
 
+      // Queue the estimates for review before they can enter the SKU catalog (accepted ones already have)
+      await ctx.runMutation(api.specCandidates.addSpecCandidates, {
+        candidates: results.results
+          .filter(result => !cache.get(normalizeProductName(result.productName))?.accepted)
+          .map(result => ({
+            sku: result.sku || result.productName,
+            productName: result.productName,
+            orderId: result.orderId,
+            category: result.category,
+            length: result.estimatedL,
+            width: result.estimatedW,
+            height: result.estimatedH,
+            confidence: normalizeConfidence(result.confidence),
+            notes: result.notes,
+            ...pickSpecAttributes(result),
+          })),
+      });
+
       return results;
     } catch (error) {
       console.error('Error generating specs:', error);
@@ -141,26 +214,29 @@ export const generateSpecs = action({
   },
 });
 
+// Map free-form model confidence onto the catalog's levels
+export function normalizeConfidence(confidence: string): "high" | "medium" | "low" {
+  const level = confidence.toLowerCase();
+  return level === "high" || level === "low" ? level : "medium";
+}
+
 // Helper function to parse CSV
-function parseProductCSV(csvContent: string): Array<{ orderId?: string; productName: string; category?: string }> {
-  const lines = csvContent.trim().split('\n');
-  if (lines.length < 2) {
+export function parseProductCSV(csvContent: string): Array<{ orderId?: string; sku?: string; productName: string; category?: string }> {
+  const rows = parseCSVRows(csvContent);
+  if (rows.length < 2) {
     throw new Error("CSV must contain header and at least one data row");
   }
 
-  const firstLine = lines[0];
-  const isTabSeparated = firstLine.includes('\t');
-  const delimiter = isTabSeparated ? '\t' : ',';
-  
-  const headers = firstLine.toLowerCase().split(delimiter).map(h => h.trim());
-  const products: Array<{ orderId?: string; productName: string; category?: string }> = [];
+  const headers = rows[0].map(h => h.toLowerCase());
+  const products: Array<{ orderId?: string; sku?: string; productName: string; category?: string }> = [];
 
   // Detect column mappings
   const orderIdIndex = headers.findIndex(h => 
     h.includes('order') && (h.includes('id') || h.includes('number'))
   );
-  const productNameIndex = headers.findIndex(h => 
-    h.includes('product') || h.includes('name') || h.includes('description') || h.includes('item')
+  const skuIndex = headers.findIndex(h => h.includes('sku'));
+  const productNameIndex = headers.findIndex((h, i) => 
+    i !== skuIndex && (h.includes('product') || h.includes('name') || h.includes('description') || h.includes('item'))
   );
   const categoryIndex = headers.findIndex(h => 
     h.includes('category') || h.includes('type')
@@ -171,12 +247,13 @@ function parseProductCSV(csvContent: string): Array<{ orderId?: string; productN
   }
 
   // Parse data rows
-  for (let i = 1; i < lines.length; i++) {
-    const row = lines[i].split(delimiter).map(cell => cell.trim());
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
     
     if (row[productNameIndex]) {
       products.push({
         orderId: orderIdIndex !== -1 ? row[orderIdIndex] : undefined,
+        sku: skuIndex !== -1 ? row[skuIndex]?.trim() || undefined : undefined,
         productName: row[productNameIndex],
         category: categoryIndex !== -1 ? row[categoryIndex] : undefined,
       });
@@ -186,9 +263,24 @@ function parseProductCSV(csvContent: string): Array<{ orderId?: string; productN
   return products;
 }
 
+// One product's estimate, fresh from the LLM or answered from the cache
+type GeneratedSpec = {
+  orderId?: string;
+  sku?: string;
+  productName: string;
+  category?: string;
+  estimatedL: number;
+  estimatedW: number;
+  estimatedH: number;
+  totalCUIN: number;
+  confidence: string;
+  notes: string;
+  cached?: boolean;
+} & SpecAttributes;
+
 // Generate specifications for products
-async function generateSpecsForProducts(
-  products: Array<{ orderId?: string; productName: string; category?: string }>,
+export async function generateSpecsForProducts(
+  products: Array<{ orderId?: string; sku?: string; productName: string; category?: string }>,
   boundingDimensions: {
     min: { l: number; w: number; h: number };
     max: { l: number; w: number; h: number };
@@ -198,18 +290,13 @@ async function generateSpecsForProducts(
     material?: string;
     size?: string;
   } | undefined,
-  startIndex: number = 0
+  startIndex: number = 0,
+  cache: Map<string, Doc<"specEstimateCache">> = new Map(),
+  priors: Map<string, CategoryPrior> = new Map()
 ): Promise<{
-  results: Array<{
-    orderId?: string;
-    productName: string;
-    estimatedL: number;
-    estimatedW: number;
-    estimatedH: number;
-    totalCUIN: number;
-    confidence: string;
-    notes: string;
-  }>;
+  results: GeneratedSpec[];
+  // Products of batches the LLM could not answer, by position in the chunk; they are left out of results
+  failedProducts: Array<{ index: number; productName: string; error: string }>;
   totalProducts: number;
   processedProducts: number;
   hasMoreProducts: boolean;
@@ -232,7 +319,6 @@ async function generateSpecsForProducts(
   const totalBatches = Math.ceil(products.length / BATCH_SIZE);
   
   // Handle chunked processing for large files
-  const CHUNK_SIZE = 50; // Fixed chunk size that works reliably
   const allProductsCount = products.length;
   
   // Calculate which chunk to process based on startIndex
@@ -248,6 +334,7 @@ async function generateSpecsForProducts(
     console.warn('⚠️ No products to process in this chunk');
     return {
       results: [],
+      failedProducts: [],
       totalProducts: allProductsCount,
       processedProducts: startIndex,
       hasMoreProducts: false,
@@ -258,23 +345,44 @@ async function generateSpecsForProducts(
   // Replace products array with the chunk to process
   products = productsToProcess;
   
-  const allResults: Array<{
-    orderId?: string;
-    productName: string;
-    estimatedL: number;
-    estimatedW: number;
-    estimatedH: number;
-    totalCUIN: number;
-    confidence: string;
-    notes: string;
-  }> = [];
+  // Fresh estimates and failures are keyed by position in the chunk so they can be put back in order
+  const freshResults = new Map<number, GeneratedSpec>();
+  const failedProducts: Array<{ index: number; productName: string; error: string }> = [];
+  
+  const categoryOf = (product: { category?: string }) => product.category || additionalInfo?.category;
+  
+  // Cached products are answered straight away; only the rest are sent to the LLM
+  const chunkProducts = products;
+  const cachedResults = new Map<number, GeneratedSpec>();
+  chunkProducts.forEach((product, index) => {
+    const hit = cache.get(normalizeProductName(product.productName));
+    if (hit) {
+      cachedResults.set(index, {
+        orderId: product.orderId,
+        sku: product.sku,
+        productName: product.productName,
+        category: categoryOf(product),
+        estimatedL: hit.length,
+        estimatedW: hit.width,
+        estimatedH: hit.height,
+        totalCUIN: hit.length * hit.width * hit.height,
+        confidence: hit.confidence,
+        notes: hit.notes,
+        ...pickSpecAttributes(hit),
+        cached: true,
+      });
+    }
+  });
+  const freshIndexes = chunkProducts.map((_, index) => index).filter(index => !cachedResults.has(index));
+  products = freshIndexes.map(index => chunkProducts[index]);
+  console.log(`🗂️ ${cachedResults.size} of ${chunkProducts.length} products answered from the estimate cache`);
   
   const actualProductCount = products.length;
   const actualBatches = Math.ceil(actualProductCount / BATCH_SIZE);
   
   console.log(`📦 Processing ${actualProductCount} products in ${actualBatches} batches of ${BATCH_SIZE} each`);
   
-  const processedSoFar = startIndex + actualProductCount;
+  const processedSoFar = startIndex + chunkProducts.length;
   const remaining = Math.max(0, allProductsCount - processedSoFar);
   console.log(`📊 Progress: Will have ${processedSoFar} of ${allProductsCount} products processed after this chunk (${remaining} remaining)`);
   
@@ -290,6 +398,7 @@ async function generateSpecsForProducts(
   
   for (let i = 0; i < products.length; i += BATCH_SIZE) {
     const batch = products.slice(i, Math.min(i + BATCH_SIZE, products.length));
+    const batchIndexes = freshIndexes.slice(i, i + batch.length);
     const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
     const actualBatchCount = Math.ceil(products.length / BATCH_SIZE);
     
@@ -299,52 +408,71 @@ async function generateSpecsForProducts(
     try {
       // Process this batch through GPT
       const prompt = buildGPTPrompt(batch, boundingDimensions, additionalInfo);
-      const response = await callOpenAI(prompt);
-      const results = parseGPTResponse(response, batch);
-      allResults.push(...results);
+      const response = await callLLM(prompt);
+      const results = parseGPTResponse(response, batch).map((result, index) => {
+        // Answers far outside what was accepted for the category are pulled back and marked low confidence
+        const category = categoryOf(batch[index]);
+        const checked = applyCategoryPrior(
+          { length: result.estimatedL, width: result.estimatedW, height: result.estimatedH },
+          priors.get(normalizeCategory(category) || '')
+        );
+        if (!checked.clamped) {
+          return { ...result, category };
+        }
+        return {
+          ...result,
+          category,
+          estimatedL: checked.length,
+          estimatedW: checked.width,
+          estimatedH: checked.height,
+          totalCUIN: checked.length * checked.width * checked.height,
+          confidence: 'low',
+          notes: `${result.notes}. ${checked.note}`,
+        };
+      });
+      results.forEach((result, index) => freshResults.set(batchIndexes[index], result));
       successfulBatches++;
       console.log(`✅ Batch ${batchNumber} completed: ${results.length} products analyzed`);
-      
-      // Adaptive delay between batches
-      if (i + BATCH_SIZE < products.length) {
-        // Longer delay for larger files to avoid rate limiting
-        const delay = products.length > 300 ? 500 : 200;
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
     } catch (error) {
       console.error(`❌ AI API error for batch ${batchNumber}:`, error);
       
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
-      // Check if it's an API key or connectivity issue
-      if (errorMessage.includes('401') || errorMessage.includes('Invalid API key')) {
-        throw new Error('Invalid OpenAI API key. Please check your API key configuration.');
-      } else if (errorMessage.includes('429')) {
-        throw new Error('OpenAI API rate limit exceeded. Please wait a few minutes and try again.');
-      } else if (errorMessage.includes('timeout')) {
-        throw new Error('OpenAI API is not responding. Please check your internet connection and try again.');
+      // Configuration problems and rate limits affect every batch; fail the chunk so Spec Jobs can stop or back off
+      if (error instanceof LLMError) {
+        if (error.kind === 'auth' || error.kind === 'config') {
+          throw new LLMError(`${error.message}. Please check your API key configuration.`, error.kind, error.status);
+        } else if (error.kind === 'rate_limit') {
+          throw new LLMError('AI provider rate limit exceeded. Please wait a few minutes and try again.', error.kind, error.status, error.retryAfterMs);
+        }
       }
       
-      // Fail immediately - no fallback
-      throw new Error(
-        `Failed to process batch ${batchNumber}/${actualBatchCount} (products ${i + 1}-${Math.min(i + BATCH_SIZE, products.length)}). ` +
-        `Error: ${errorMessage}. ` +
-        `The OpenAI API is required for this feature to work.`
-      );
+      // Anything else only fails this batch's products; the other batches' estimates are kept
+      const batchError = `Failed to process batch ${batchNumber}/${actualBatchCount}: ${errorMessage}`;
+      batch.forEach((product, index) => {
+        failedProducts.push({ index: batchIndexes[index], productName: product.productName, error: batchError });
+      });
     }
   }
   
-  const processedTotal = startIndex + products.length;
+  const processedTotal = startIndex + chunkProducts.length;
   const hasMore = processedTotal < allProductsCount;
   const remainingCount = Math.max(0, allProductsCount - processedTotal);
   
-  console.log(`✅ Successfully processed ${products.length} products from this chunk`);
+  console.log(`✅ Processed ${chunkProducts.length} products from this chunk (${failedProducts.length} failed)`);
   console.log(`📈 Total progress: ${processedTotal}/${allProductsCount} products (${remainingCount} remaining)`);
   
+  // Restore the chunk's original order, interleaving cached and fresh estimates
+  const chunkResults = chunkProducts.flatMap((_, index) => {
+    const result = cachedResults.get(index) ?? freshResults.get(index);
+    return result ? [result] : [];
+  });
+  
   return {
-    results: allResults,
+    results: chunkResults,
+    failedProducts,
     totalProducts: allProductsCount,
-    processedProducts: products.length, // This chunk's count
+    processedProducts: chunkProducts.length, // This chunk's count
     hasMoreProducts: hasMore,
     remainingProducts: remainingCount
   };
@@ -352,7 +480,7 @@ async function generateSpecsForProducts(
 
 // Build GPT prompt for dimension estimation
 function buildGPTPrompt(
-  products: Array<{ orderId?: string; productName: string; category?: string }>,
+  products: Array<{ orderId?: string; sku?: string; productName: string; category?: string }>,
   boundingDimensions: {
     min: { l: number; w: number; h: number };
     max: { l: number; w: number; h: number };
@@ -366,7 +494,10 @@ function buildGPTPrompt(
   // Include all products in the batch (no artificial limit)
   const productList = products.map(p => `- ${p.productName}${p.category ? ` (${p.category})` : ''}`).join('\n');
   
-  return `As a packaging expert, estimate the outer packaging dimensions (Length × Width × Height) in inches for these retail products. Consider typical retail packaging like blister packs, boxes, pouches, etc.
+  const orientations = Object.entries(ORIENTATIONS).map(([value, description]) => `   - ${value}: ${description}`).join('\n');
+  const packagingClasses = Object.entries(PACKAGING_CLASSES).map(([value, description]) => `   - ${value}: ${description}`).join('\n');
+  
+  return `As a packaging expert, estimate the outer packaging dimensions (Length × Width × Height) in inches, the shipping weight, the handling needs and the protective packaging for these retail products. Consider typical retail packaging like blister packs, boxes, pouches, etc.
 
 PRODUCTS TO ANALYZE:
 ${productList}
@@ -382,7 +513,12 @@ ${additionalInfo?.size ? `SIZE RANGE: Products are generally ${additionalInfo.si
 INSTRUCTIONS:
 1. Estimate retail packaging dimensions for each product
 2. Stay within the dimensional constraints
-3. Confidence: HIGH (certain), MEDIUM (likely), LOW (guess)
+3. Estimate the packaged weight and give its unit (lb, oz, kg or g)
+4. Flag whether the product is fragile and how it must be oriented:
+${orientations}
+5. Suggest a protective packaging class:
+${packagingClasses}
+6. Give a separate confidence for the dimensions, weight, fragility and packaging class: HIGH (certain), MEDIUM (likely), LOW (guess)
 
 RESPOND IN THIS EXACT JSON FORMAT:
 {
@@ -393,190 +529,45 @@ RESPOND IN THIS EXACT JSON FORMAT:
       "width": 0.0,
       "height": 0.0,
       "confidence": "HIGH/MEDIUM/LOW",
+      "weight": 0.0,
+      "weightUnit": "lb",
+      "weightConfidence": "HIGH/MEDIUM/LOW",
+      "fragile": false,
+      "orientation": "any",
+      "fragilityConfidence": "HIGH/MEDIUM/LOW",
+      "packagingClass": "standard_box",
+      "packagingConfidence": "HIGH/MEDIUM/LOW",
       "reasoning": "Brief explanation of packaging assumption"
     }
   ]
 }`;
 }
 
-// Call OpenAI API for GPT analysis with retry logic
-async function callOpenAI(prompt: string): Promise<string> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error("OpenAI API key not configured. Please set OPENAI_API_KEY in environment variables.");
-  }
-  
-  // Better API key validation
-  if (!apiKey.startsWith('sk-') || apiKey.length < 40) {
-    throw new Error("Invalid OpenAI API key format. Key should start with 'sk-' and be at least 40 characters.");
-  }
-  
-  console.log("Making OpenAI API call with GPT-4o-mini");
-  console.log(`API Key validation: ${apiKey.substring(0, 7)}...${apiKey.substring(apiKey.length - 4)}`);
-  
-  // Retry logic with exponential backoff
-  const maxRetries = 2; // Reduced retries for faster failure
-  let lastError: Error | null = null;
-  
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        console.error(`Request timeout after 25 seconds for attempt ${attempt}`);
-        controller.abort();
-      }, 25000); // 25 second timeout per request
-      
-      console.log(`Attempt ${attempt}: Sending request to OpenAI API...`);
-      console.log(`Request URL: https://api.openai.com/v1/chat/completions`);
-      console.log(`Using model: gpt-4o-mini`);
-      
-      const requestBody = {
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a packaging expert specializing in retail product dimensions and packaging standards. Provide accurate, realistic estimates based on typical retail packaging practices.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0,
-        max_tokens: 3000,
-        response_format: { type: "json_object" }
-      };
-      
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      console.log(`Attempt ${attempt}: Received response with status ${response.status}`);
-      
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => 'Unable to read error response');
-        
-        // Check for specific error codes
-        if (response.status === 401) {
-          throw new Error("Invalid OpenAI API key. Please check your configuration.");
-        } else if (response.status === 429) {
-          throw new Error("OpenAI API rate limit exceeded. Using fallback pattern matching.");
-        } else if (response.status >= 500) {
-          // Server error, worth retrying
-          lastError = new Error(`OpenAI server error (${response.status}): ${errorText}`);
-          console.log(`Attempt ${attempt}/${maxRetries} failed with server error, retrying...`);
-          await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000)); // Exponential backoff
-          continue;
-        }
-        
-        throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
-      }
-      
-      const data = await response.json();
-      
-      if (!data.choices?.[0]?.message?.content) {
-        throw new Error("Invalid response format from OpenAI API");
-      }
-      
-      console.log(`✅ OpenAI API call successful on attempt ${attempt}`);
-      return data.choices[0].message.content;
-      
-    } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        lastError = new Error('OpenAI API request timed out. The API is not responding.');
-        console.error(`Timeout on attempt ${attempt}`);
-      } else if (error instanceof Error) {
-        lastError = error;
-      } else {
-        lastError = new Error('Unknown error occurred');
-      }
-      
-      // If it's a configuration error, don't retry
-      if (lastError?.message?.includes('Invalid OpenAI API key') || 
-          lastError?.message?.includes('rate limit')) {
-        throw lastError;
-      }
-      
-      // If it's the last attempt, throw the error
-      if (attempt === maxRetries) {
-        console.error(`All ${maxRetries} attempts failed:`, lastError);
-        throw lastError;
-      }
-      
-      const errorMessage = lastError?.message || 'Unknown error';
-      console.log(`Attempt ${attempt}/${maxRetries} failed: ${errorMessage}, retrying...`);
-      await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
-    }
-  }
-  
-  throw lastError || new Error('Failed to call OpenAI API after multiple attempts');
-}
-
-// Test API connectivity with a simple request
-async function testAPIConnectivity(): Promise<void> {
-  const apiKey = process.env.OPENAI_API_KEY;
+// Call the configured LLM for a batch of estimates; retries, timeouts and format checks live in the provider layer
+async function callLLM(prompt: string): Promise<SpecEstimatesResponse> {
+  const llm = getLLMClient('spec_generator', process.env);
+  console.log(`Making ${llm.provider} API call with ${llm.model}`);
   
-  if (!apiKey) {
-    throw new Error("OpenAI API key not configured in environment variables");
-  }
+  const response = await llm.complete({
+    system: 'You are a packaging expert specializing in retail product dimensions and packaging standards. Provide accurate, realistic estimates based on typical retail packaging practices.',
+    messages: [{ role: 'user', content: prompt }],
+    temperature: 0,
+    maxTokens: 3000,
+    schema: SPEC_ESTIMATES_SCHEMA,
+    label: 'spec estimates'
+  });
   
-  try {
-    console.log('Sending test request to OpenAI...');
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout for test
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'user', content: 'Say "test"' }
-        ],
-        max_tokens: 10,
-      }),
-      signal: controller.signal
-    });
-    
-    clearTimeout(timeoutId);
-    
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unable to read error');
-      if (response.status === 401) {
-        throw new Error('Invalid API key. Please check your OpenAI API key.');
-      } else if (response.status === 429) {
-        throw new Error('Rate limit exceeded. Please wait and try again.');
-      } else {
-        throw new Error(`API test failed with status ${response.status}: ${errorText}`);
-      }
-    }
-    
-    console.log('API test successful');
-  } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Cannot connect to OpenAI API - request timed out. Check your internet connection.');
-    }
-    throw error;
-  }
+  console.log(`✅ ${llm.provider} API call successful on attempt ${response.attempts}`);
+  return response.json as SpecEstimatesResponse;
 }
 
-// Parse GPT response into structured data
+// Match the model's estimates to the batch's products
 function parseGPTResponse(
-  gptResponse: string,
-  originalProducts: Array<{ orderId?: string; productName: string; category?: string }>
+  gptResponse: SpecEstimatesResponse,
+  originalProducts: Array<{ orderId?: string; sku?: string; productName: string; category?: string }>
 ): Array<{
   orderId?: string;
+  sku?: string;
   productName: string;
   estimatedL: number;
   estimatedW: number;
@@ -584,59 +575,51 @@ function parseGPTResponse(
   totalCUIN: number;
   confidence: string;
   notes: string;
-}> {
-  try {
-    const parsed = JSON.parse(gptResponse);
-    const results = [];
+} & SpecAttributes> {
+  const results = [];
+  
+  // Create a map for easier matching by product name
+  const estimateMap = new Map<string, SpecEstimatesResponse['estimates'][number]>();
+  for (const est of gptResponse.estimates) {
+    // Store by lowercase product name for case-insensitive matching
+    estimateMap.set(est.product.toLowerCase().trim(), est);
+  }
+  
+  for (const product of originalProducts) {
+    // Try to find estimate by product name (case-insensitive)
+    const productNameLower = product.productName.toLowerCase().trim();
+    let estimate = estimateMap.get(productNameLower);
     
-    // Create a map for easier matching by product name
-    const estimateMap = new Map();
-    if (parsed.estimates && Array.isArray(parsed.estimates)) {
-      for (const est of parsed.estimates) {
-        if (est.product) {
-          // Store by lowercase product name for case-insensitive matching
-          estimateMap.set(est.product.toLowerCase().trim(), est);
+    // If not found, try partial matching
+    if (!estimate) {
+      for (const [key, value] of estimateMap.entries()) {
+        if (key.includes(productNameLower) || productNameLower.includes(key)) {
+          estimate = value;
+          break;
         }
       }
     }
     
-    for (const product of originalProducts) {
-      // Try to find estimate by product name (case-insensitive)
-      const productNameLower = product.productName.toLowerCase().trim();
-      let estimate = estimateMap.get(productNameLower);
-      
-      // If not found, try partial matching
-      if (!estimate) {
-        for (const [key, value] of estimateMap.entries()) {
-          if (key.includes(productNameLower) || productNameLower.includes(key)) {
-            estimate = value;
-            break;
-          }
-        }
-      }
-      
-      if (estimate && estimate.length && estimate.width && estimate.height) {
-        results.push({
-          orderId: product.orderId,
-          productName: product.productName,
-          estimatedL: parseFloat(estimate.length),
-          estimatedW: parseFloat(estimate.width),
-          estimatedH: parseFloat(estimate.height),
-          totalCUIN: parseFloat(estimate.length) * parseFloat(estimate.width) * parseFloat(estimate.height),
-          confidence: (estimate.confidence || 'medium').toLowerCase(),
-          notes: estimate.reasoning || "AI packaging analysis",
-        });
-      } else {
-        // If GPT didn't provide an estimate, throw an error
-        throw new Error(`AI did not provide dimensions for product: ${product.productName}`);
-      }
+    if (estimate && estimate.length && estimate.width && estimate.height) {
+      results.push({
+        orderId: product.orderId,
+        sku: product.sku,
+        productName: product.productName,
+        estimatedL: estimate.length,
+        estimatedW: estimate.width,
+        estimatedH: estimate.height,
+        totalCUIN: estimate.length * estimate.width * estimate.height,
+        confidence: (estimate.confidence || 'medium').toLowerCase(),
+        notes: estimate.reasoning || "AI packaging analysis",
+        ...parseSpecAttributes(estimate),
+      });
+    } else {
+      // If GPT didn't provide an estimate, throw an error
+      console.error('GPT estimates were:', gptResponse.estimates.map(est => est.product));
+      throw new Error(`AI did not provide dimensions for product: ${product.productName}`);
     }
-    
-    return results;
-  } catch (error) {
-    console.error('Error parsing GPT response:', error);
-    console.error('GPT Response was:', gptResponse);
-    throw new Error(`Failed to parse GPT response: ${error}`);
   }
+  
+  return results;
 }
 
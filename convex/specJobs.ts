@@ -0,0 +1,603 @@
+import { v } from "convex/values";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type MutationCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { specJobResultValidator } from "./schema";
+import {
+  CHUNK_SIZE,
+  generateSpecsForProducts,
+  normalizeConfidence,
+  parseProductCSV,
+} from "./specGenerator";
+import { lookupEstimatesForUser, saveEstimatesForUser } from "./specEstimateCache";
+import { categorySamplesForUser, queueCandidatesForUser } from "./specCandidates";
+import {
+  buildCategoryPriors,
+  normalizeProductName,
+  type CategorySample,
+} from "../src/lib/calculations/specPriors";
+import { pickSpecAttributes } from "../src/lib/calculations/specAttributes";
+import {
+  canResumeJob,
+  chunkFailureOutcome,
+  completionOutcome,
+  isJobActive,
+  isJobStalled,
+  nextItemAttempt,
+} from "../src/lib/calculations/specJobs";
+import { LLMError } from "../src/lib/llm";
+
+// Largest catalog a single job accepts (every product is one queued row)
+const MAX_JOB_ITEMS = 5000;
+
+interface SpecJobChunk {
+  job: Doc<"specJobs">;
+  items: Doc<"specJobItems">[];
+  cache: Doc<"specEstimateCache">[];
+  samples: CategorySample[];
+}
+
+// Schedule the next chunk, or finish the job once no items are pending
+async function continueJob(ctx: MutationCtx, jobId: Id<"specJobs">, run: number, delayMs: number) {
+  const nextItem = await ctx.db
+    .query("specJobItems")
+    .withIndex("by_job_status", (q) => q.eq("jobId", jobId).eq("status", "pending"))
+    .first();
+
+  if (nextItem) {
+    await ctx.scheduler.runAfter(delayMs, internal.specJobs.processSpecJobChunk, { jobId, run });
+    return;
+  }
+
+  const job = await ctx.db.get(jobId);
+  if (!job) return;
+
+  const now = Date.now();
+  const outcome = completionOutcome(job);
+  const usage = {
+    status: outcome.status,
+    results: { productCount: job.totalItems, failedCount: job.failedItems },
+    completedAt: now,
+  };
+
+  // Analysis record for usage tracking (no results); a resumed job updates the one it already has
+  let analysisId = job.analysisId;
+  if (analysisId && await ctx.db.get(analysisId)) {
+    await ctx.db.patch(analysisId, usage);
+  } else {
+    analysisId = await ctx.db.insert("analyses", {
+      userId: job.userId,
+      type: "spec_generator",
+      name: `Spec Generation - ${job.totalItems} products`,
+      inputFiles: [],
+      createdAt: job.createdAt,
+      ...usage,
+    });
+  }
+
+  await ctx.db.patch(jobId, {
+    status: outcome.status,
+    error: outcome.error,
+    analysisId,
+    updatedAt: now,
+    completedAt: now,
+  });
+}
+
+// ==========================================
+// JOB CONTROL
+// ==========================================
+
+// Queue a product CSV as a Spec Job; chunks are processed by scheduled actions
+export const startSpecJob = mutation({
+  args: {
+    productData: v.string(),
+    boundingDimensions: v.object({
+      min: v.object({ l: v.number(), w: v.number(), h: v.number() }),
+      max: v.object({ l: v.number(), w: v.number(), h: v.number() }),
+    }),
+    additionalInfo: v.optional(v.object({
+      category: v.optional(v.string()),
+      material: v.optional(v.string()),
+      size: v.optional(v.string()),
+    })),
+    name: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const products = parseProductCSV(args.productData);
+    if (products.length > MAX_JOB_ITEMS) {
+      throw new Error(`Spec jobs are limited to ${MAX_JOB_ITEMS} products; split the file and start one job per part`);
+    }
+
+    const now = Date.now();
+    const jobId = await ctx.db.insert("specJobs", {
+      userId: user._id,
+      name: args.name || `Spec Generation - ${products.length} products`,
+      status: "queued",
+      totalItems: products.length,
+      completedItems: 0,
+      failedItems: 0,
+      cachedItems: 0,
+      boundingDimensions: args.boundingDimensions,
+      additionalInfo: args.additionalInfo,
+      run: 0,
+      retries: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    for (const [index, product] of products.entries()) {
+      await ctx.db.insert("specJobItems", {
+        jobId,
+        index,
+        orderId: product.orderId,
+        sku: product.sku,
+        productName: product.productName,
+        category: product.category,
+        status: "pending",
+        attempts: 0,
+      });
+    }
+
+    await ctx.scheduler.runAfter(0, internal.specJobs.processSpecJobChunk, { jobId, run: 0 });
+    return jobId;
+  },
+});
+
+// Continue a failed, cancelled or stalled job; failed items are queued again
+export const resumeSpecJob = mutation({
+  args: { jobId: v.id("specJobs") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    const job = await ctx.db.get(args.jobId);
+    if (!user || !job || job.userId !== user._id) {
+      throw new Error("Spec job not found");
+    }
+
+    if (!canResumeJob(job, Date.now())) {
+      throw new Error(`Spec job is ${job.status} and cannot be resumed`);
+    }
+
+    const failedItems = await ctx.db
+      .query("specJobItems")
+      .withIndex("by_job_status", (q) => q.eq("jobId", job._id).eq("status", "failed"))
+      .collect();
+    for (const item of failedItems) {
+      await ctx.db.patch(item._id, { status: "pending", error: undefined, attempts: 0 });
+    }
+
+    const run = job.run + 1;
+    await ctx.db.patch(job._id, {
+      status: "queued",
+      failedItems: job.failedItems - failedItems.length,
+      run,
+      retries: 0,
+      error: undefined,
+      updatedAt: Date.now(),
+      completedAt: undefined,
+    });
+
+    await continueJob(ctx, job._id, run, 0);
+    return job._id;
+  },
+});
+
+// Stop scheduling chunks; pending items are kept so the job can be resumed
+export const cancelSpecJob = mutation({
+  args: { jobId: v.id("specJobs") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    const job = await ctx.db.get(args.jobId);
+    if (!user || !job || job.userId !== user._id) {
+      throw new Error("Spec job not found");
+    }
+
+    if (isJobActive(job)) {
+      await ctx.db.patch(job._id, { status: "cancelled", updatedAt: Date.now() });
+    }
+    return job._id;
+  },
+});
+
+// ==========================================
+// PROGRESS AND RESULTS
+// ==========================================
+
+// Get job progress (mirrors getAnalysisProgress for the Suite Analyzer)
+export const getSpecJobProgress = query({
+  args: { jobId: v.id("specJobs") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return null;
+    }
+
+    const job = await ctx.db.get(args.jobId);
+    if (!job) {
+      return null;
+    }
+
+    // Verify user has access
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user || job.userId !== user._id) {
+      return null;
+    }
+
+    const processedItems = job.completedItems + job.failedItems;
+    return {
+      jobId: job._id,
+      name: job.name,
+      status: job.status,
+      totalItems: job.totalItems,
+      completedItems: job.completedItems,
+      failedItems: job.failedItems,
+      cachedItems: job.cachedItems,
+      pendingItems: job.totalItems - processedItems,
+      percentage: job.totalItems > 0 ? Math.round((processedItems / job.totalItems) * 100) : 100,
+      error: job.error,
+      stalled: isJobStalled(job, Date.now()),
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      completedAt: job.completedAt,
+    };
+  },
+});
+
+// Get the estimates recorded so far, in CSV order, plus the items that failed
+export const getSpecJobResults = query({
+  args: { jobId: v.id("specJobs") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return null;
+    }
+
+    const job = await ctx.db.get(args.jobId);
+    if (!job) {
+      return null;
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user || job.userId !== user._id) {
+      return null;
+    }
+
+    const items = await ctx.db
+      .query("specJobItems")
+      .withIndex("by_job", (q) => q.eq("jobId", job._id))
+      .collect();
+
+    return {
+      results: items
+        .filter((item) => item.status === "completed" && item.result)
+        .map((item) => ({
+          orderId: item.orderId,
+          sku: item.sku,
+          productName: item.productName,
+          ...item.result!,
+          category: item.result!.category ?? item.category,
+        })),
+      failed: items
+        .filter((item) => item.status === "failed")
+        .map((item) => ({ index: item.index, productName: item.productName, error: item.error })),
+    };
+  },
+});
+
+// Get the user's recent Spec Jobs, newest first
+export const getSpecJobs = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("specJobs")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .take(args.limit || 10);
+  },
+});
+
+// ==========================================
+// WORKER
+// ==========================================
+
+// Next pending items for a job with the cache entries and category samples they need
+export const _getJobChunk = internalQuery({
+  args: { jobId: v.id("specJobs"), run: v.number() },
+  handler: async (ctx, args): Promise<SpecJobChunk | null> => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || job.run !== args.run || !isJobActive(job)) {
+      return null;
+    }
+
+    const items = await ctx.db
+      .query("specJobItems")
+      .withIndex("by_job_status", (q) => q.eq("jobId", job._id).eq("status", "pending"))
+      .take(CHUNK_SIZE);
+
+    return {
+      job,
+      items,
+      cache: await lookupEstimatesForUser(
+        ctx,
+        job.userId,
+        items.map((item) => normalizeProductName(item.productName))
+      ),
+      samples: await categorySamplesForUser(ctx, job.userId),
+    };
+  },
+});
+
+// Store a chunk's estimates and count failed batches against their items, update the cache and review queue, then move on
+export const _recordChunk = internalMutation({
+  args: {
+    jobId: v.id("specJobs"),
+    run: v.number(),
+    results: v.array(v.object({
+      itemId: v.id("specJobItems"),
+      result: specJobResultValidator,
+    })),
+    failures: v.array(v.object({
+      itemId: v.id("specJobItems"),
+      error: v.string(),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || job.run !== args.run || !isJobActive(job)) {
+      return;
+    }
+
+    const recorded: Array<{ item: Doc<"specJobItems">; result: (typeof args.results)[number]["result"] }> = [];
+    for (const { itemId, result } of args.results) {
+      const item = await ctx.db.get(itemId);
+      if (!item || item.jobId !== job._id || item.status !== "pending") continue;
+
+      await ctx.db.patch(itemId, { status: "completed", result, error: undefined, attempts: item.attempts + 1 });
+      recorded.push({ item, result });
+    }
+
+    let newlyFailed = 0;
+    for (const { itemId, error } of args.failures) {
+      const item = await ctx.db.get(itemId);
+      if (!item || item.jobId !== job._id || item.status !== "pending") continue;
+
+      const { attempts, failed } = nextItemAttempt(item.attempts);
+      if (failed) {
+        await ctx.db.patch(itemId, { status: "failed", error, attempts });
+        newlyFailed++;
+      } else {
+        await ctx.db.patch(itemId, { attempts });
+      }
+    }
+
+    const cachedKeys = recorded
+      .filter(({ result }) => result.cached)
+      .map(({ item }) => normalizeProductName(item.productName));
+    const acceptedKeys = new Set(
+      (await lookupEstimatesForUser(ctx, job.userId, cachedKeys))
+        .filter((entry) => entry.accepted)
+        .map((entry) => entry.nameKey)
+    );
+
+    await saveEstimatesForUser(
+      ctx,
+      job.userId,
+      recorded
+        .filter(({ result }) => !result.cached)
+        .map(({ item, result }) => ({
+          nameKey: normalizeProductName(item.productName),
+          productName: item.productName,
+          category: result.category,
+          length: result.estimatedL,
+          width: result.estimatedW,
+          height: result.estimatedH,
+          confidence: normalizeConfidence(result.confidence),
+          notes: result.notes,
+          ...pickSpecAttributes(result),
+        })),
+      cachedKeys
+    );
+
+    // Queue the estimates for review before they can enter the SKU catalog (accepted ones already have)
+    await queueCandidatesForUser(
+      ctx,
+      job.userId,
+      recorded
+        .filter(({ item }) => !acceptedKeys.has(normalizeProductName(item.productName)))
+        .map(({ item, result }) => ({
+          sku: item.sku || item.productName,
+          productName: item.productName,
+          orderId: item.orderId,
+          category: result.category,
+          length: result.estimatedL,
+          width: result.estimatedW,
+          height: result.estimatedH,
+          confidence: normalizeConfidence(result.confidence),
+          notes: result.notes,
+          ...pickSpecAttributes(result),
+        }))
+    );
+
+    await ctx.db.patch(job._id, {
+      status: "running",
+      completedItems: job.completedItems + recorded.length,
+      failedItems: job.failedItems + newlyFailed,
+      cachedItems: job.cachedItems + cachedKeys.length,
+      retries: 0,
+      error: undefined,
+      updatedAt: Date.now(),
+    });
+
+    await continueJob(ctx, job._id, job.run, 0);
+  },
+});
+
+// Count a failed chunk against its items and retry with backoff, or stop the job
+export const _recordChunkFailure = internalMutation({
+  args: {
+    jobId: v.id("specJobs"),
+    run: v.number(),
+    itemIds: v.array(v.id("specJobItems")),
+    error: v.string(),
+    fatal: v.boolean(),
+    retryAfterMs: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || job.run !== args.run || !isJobActive(job)) {
+      return;
+    }
+
+    // Configuration problems fail every chunk the same way; stop until they are fixed
+    if (args.fatal) {
+      await ctx.db.patch(job._id, { status: "failed", error: args.error, updatedAt: Date.now() });
+      return;
+    }
+
+    let newlyFailed = 0;
+    for (const itemId of args.itemIds) {
+      const item = await ctx.db.get(itemId);
+      if (!item || item.jobId !== job._id || item.status !== "pending") continue;
+
+      const { attempts, failed } = nextItemAttempt(item.attempts);
+      if (failed) {
+        await ctx.db.patch(itemId, { status: "failed", error: args.error, attempts });
+        newlyFailed++;
+      } else {
+        await ctx.db.patch(itemId, { attempts });
+      }
+    }
+
+    const { retries, giveUp, delayMs } = chunkFailureOutcome(job.retries, args.retryAfterMs);
+    await ctx.db.patch(job._id, {
+      status: giveUp ? "failed" : "running",
+      failedItems: job.failedItems + newlyFailed,
+      retries,
+      error: args.error,
+      updatedAt: Date.now(),
+    });
+
+    if (!giveUp) {
+      await continueJob(ctx, job._id, job.run, delayMs);
+    }
+  },
+});
+
+// Estimate one chunk of pending items and record the outcome
+export const processSpecJobChunk = internalAction({
+  args: { jobId: v.id("specJobs"), run: v.number() },
+  handler: async (ctx, args) => {
+    const chunk: SpecJobChunk | null = await ctx.runQuery(internal.specJobs._getJobChunk, args);
+    if (!chunk) {
+      return; // Finished, cancelled or superseded by a resumed run
+    }
+
+    const { job, items } = chunk;
+    console.log(`📦 Spec job ${job._id}: estimating ${items.length} products (${job.completedItems + job.failedItems}/${job.totalItems} done)`);
+
+    try {
+      const generated = await generateSpecsForProducts(
+        items.map(({ orderId, sku, productName, category }) => ({ orderId, sku, productName, category })),
+        job.boundingDimensions,
+        job.additionalInfo,
+        0,
+        new Map(chunk.cache.map((entry) => [entry.nameKey, entry])),
+        buildCategoryPriors(chunk.samples)
+      );
+
+      // Results skip the products of failed batches, so pair them with the items that were answered
+      const failedIndexes = new Set(generated.failedProducts.map((failure) => failure.index));
+      const answered = items.filter((_, index) => !failedIndexes.has(index));
+
+      await ctx.runMutation(internal.specJobs._recordChunk, {
+        ...args,
+        failures: generated.failedProducts.map(({ index, error }) => ({ itemId: items[index]._id, error })),
+        results: generated.results.map((result, index) => ({
+          itemId: answered[index]._id,
+          result: {
+            category: result.category,
+            estimatedL: result.estimatedL,
+            estimatedW: result.estimatedW,
+            estimatedH: result.estimatedH,
+            totalCUIN: result.totalCUIN,
+            confidence: result.confidence,
+            notes: result.notes,
+            cached: result.cached,
+            ...pickSpecAttributes(result),
+          },
+        })),
+      });
+    } catch (error) {
+      console.error(`❌ Spec job ${job._id} chunk failed:`, error);
+
+      await ctx.runMutation(internal.specJobs._recordChunkFailure, {
+        ...args,
+        itemIds: items.map((item) => item._id),
+        error: error instanceof Error ? error.message : "Failed to generate specifications",
+        fatal: error instanceof LLMError && (error.kind === "auth" || error.kind === "config"),
+        retryAfterMs: error instanceof LLMError ? error.retryAfterMs : undefined,
+      });
+    }
+  },
+});
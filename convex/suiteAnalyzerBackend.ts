@@ -1,6 +1,16 @@
 import { v } from "convex/values";
-import { mutation, query, action } from "./_generated/server";
+import { mutation, query, action, type ActionCtx } from "./_generated/server";
 import { api } from "./_generated/api";
+import { parseCSVRows } from "../src/lib/data/csvReader";
+import { calculateShippingCosts, type RateCard } from "../src/lib/calculations/costAnalysis";
+import { resolveRowZone, type ZoneChart } from "../src/lib/calculations/zoneResolver";
+import {
+  DEFAULT_SURCHARGE_RULES,
+  calculateSurchargeSummary,
+  evaluateSurcharges,
+  type SurchargeRule
+} from "../src/lib/calculations/surcharges";
+import { SuiteAnalyzer } from "../src/lib/suiteAnalyzer/analyzer";
 
 // ==========================================
 // SUITE ANALYZER BACKEND - COMPLETE REBUILD
@@ -65,6 +75,11 @@ export const processBatchOrders = action({
     
     try {
       console.log(`Processing batch ${args.batchIndex + 1}/${args.totalBatches} with ${args.orderBatch.length} orders`);
+      const config = {
+        ...args.config,
+        rateCard: await loadRateCard(ctx, args.config.includeShippingCosts),
+        surchargeRules: await loadSurchargeRules(ctx)
+      };
       
       // Update progress
       const progress = 70 + ((args.batchIndex / args.totalBatches) * 20); // 70-90% range
@@ -82,9 +97,9 @@ export const processBatchOrders = action({
       // Process this batch of orders
       const batchAllocations = [];
       for (const order of args.orderBatch) {
-        const bestPackage = findBestPackage(order, args.packagingSuite, args.config);
+        const bestPackage = findBestPackage(order, args.packagingSuite, config);
         if (bestPackage) {
-          const allocation = createAllocation(order, bestPackage);
+          const allocation = createAllocation(order, bestPackage, config);
           batchAllocations.push(allocation);
         }
       }
@@ -579,8 +594,42 @@ export const processSuiteAnalysis = action({
   },
   handler: async (ctx, args) => {
     const startTime = Date.now();
+    const config = {
+      ...args.config,
+      rateCard: await loadRateCard(ctx, args.config.includeShippingCosts),
+      surchargeRules: await loadSurchargeRules(ctx),
+      zoneCharts: await loadZoneCharts(ctx)
+    };
     await processAnalysis(ctx, args.analysisId, args.orderHistoryCSV, args.packagingSuiteCSV, 
-      args.baselineMixCSV, args.fallbackDimensions, args.config, startTime);
+      args.baselineMixCSV, args.fallbackDimensions, config, startTime);
+  }
+});
+
+/**
+ * Propose a rationalized suite of N boxes from order history, compared with the current suite
+ */
+export const rationalizeSuite = action({
+  args: {
+    orderHistoryCSV: v.string(),
+    packagingSuiteCSV: v.string(),
+    targetSuiteSize: v.number()
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const analyzer = new SuiteAnalyzer({
+      rateCard: await loadRateCard(ctx, true),
+      surchargeRules: await loadSurchargeRules(ctx),
+      zoneCharts: await loadZoneCharts(ctx)
+    });
+    return await analyzer.rationalizeSuite({
+      orderHistoryCSV: args.orderHistoryCSV,
+      packagingSuiteCSV: args.packagingSuiteCSV,
+      options: { targetSuiteSize: args.targetSuiteSize }
+    });
   }
 });
 
@@ -588,6 +637,25 @@ export const processSuiteAnalysis = action({
 // HELPER FUNCTIONS
 // ==========================================
 
+// The user's default rate card, when shipping costs are included and one has been uploaded
+async function loadRateCard(ctx: ActionCtx, includeShippingCosts: boolean): Promise<RateCard | undefined> {
+  if (!includeShippingCosts) return undefined;
+  const rateCard = await ctx.runQuery(api.rateCards.getDefaultRateCard);
+  return rateCard ? { name: rateCard.name, services: rateCard.services } : undefined;
+}
+
+// The user's surcharge rules, or the built-in list-rate rules when they have not set their own
+async function loadSurchargeRules(ctx: ActionCtx): Promise<SurchargeRule[]> {
+  const rules: SurchargeRule[] | null = await ctx.runQuery(api.surchargeRules.getSurchargeRules);
+  return rules || DEFAULT_SURCHARGE_RULES;
+}
+
+// The user's zone charts, used to assign zones from destination ZIPs
+async function loadZoneCharts(ctx: ActionCtx): Promise<ZoneChart[]> {
+  const zoneCharts = await ctx.runQuery(api.zoneCharts.getZoneCharts);
+  return zoneCharts.map((chart: ZoneChart) => ({ name: chart.name, originZip: chart.originZip, zones: chart.zones }));
+}
+
 // Common processing logic extracted to avoid duplication
 async function processAnalysis(
   ctx: any, 
@@ -604,7 +672,7 @@ async function processAnalysis(
 
     // Phase 1: Parse CSV data
     await updateProgress(ctx, analysisId, "parsing", 10, 1, 5, "Parsing order history...", startTime);
-    const orderHistory = parseOrderHistoryCSV(orderHistoryCSV, fallbackDimensions);
+    const orderHistory = parseOrderHistoryCSV(orderHistoryCSV, fallbackDimensions, config.zoneCharts);
     
     await updateProgress(ctx, analysisId, "parsing", 30, 2, 5, "Parsing packaging suite...", startTime);
     const packagingSuite = parsePackagingSuiteCSV(packagingSuiteCSV);
@@ -695,25 +763,22 @@ async function updateProgress(
   });
 }
 
-function parseOrderHistoryCSV(csv: string, fallbackDimensions?: any) {
+function parseOrderHistoryCSV(csv: string, fallbackDimensions?: any, zoneCharts: ZoneChart[] = []) {
   console.log("Parsing order history CSV, first 500 chars:", csv.substring(0, 500));
-  const lines = csv.trim().split('\n').filter(line => line.trim() !== '');
-  console.log("Total lines in CSV (including header):", lines.length);
+  const rows = parseCSVRows(csv);
+  console.log("Total rows in CSV (including header):", rows.length);
   
-  if (lines.length === 0) {
+  if (rows.length === 0) {
     console.error("CSV is empty!");
     return [];
   }
   
-  const headers = lines[0].split(',').map(h => h.trim());
+  const headers = rows[0];
   console.log("Order CSV Headers:", headers);
   
   const orders = [];
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue; // Skip empty lines
-    
-    const values = line.split(',').map(v => v.trim());
+  for (let i = 1; i < rows.length; i++) {
+    const values = rows[i];
     const order: any = {};
     
     headers.forEach((header, index) => {
@@ -769,7 +834,7 @@ function parseOrderHistoryCSV(csv: string, fallbackDimensions?: any) {
         weight: parseFloat(order.weight) || 1,
         category: order.category || 'General',
         priority: order.priority || 'standard',
-        zone: order.zone || 'domestic'
+        zone: resolveRowZone(zoneCharts, order) || 'domestic'
       };
       
       orders.push(parsedOrder);
@@ -782,20 +847,20 @@ function parseOrderHistoryCSV(csv: string, fallbackDimensions?: any) {
     }
   }
   
-  console.log(`Successfully parsed ${orders.length} valid orders from ${lines.length - 1} data rows`);
+  console.log(`Successfully parsed ${orders.length} valid orders from ${rows.length - 1} data rows`);
   return orders;
 }
 
 function parsePackagingSuiteCSV(csv: string) {
   console.log("Parsing packaging suite CSV, first 500 chars:", csv.substring(0, 500));
-  const lines = csv.trim().split('\n');
-  const headers = lines[0].split(',').map(h => h.trim());
+  const rows = parseCSVRows(csv);
+  const headers = rows[0] || [];
   console.log("Package CSV Headers:", headers);
   console.log("Headers after transformation:", headers.map(h => h.toLowerCase().replace(/\s+/g, '_')));
   
   const packages = [];
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
+  for (let i = 1; i < rows.length; i++) {
+    const values = rows[i];
     const pkg: any = {};
     
     headers.forEach((header, index) => {
@@ -837,12 +902,12 @@ function parsePackagingSuiteCSV(csv: string) {
 }
 
 function parseBaselineMixCSV(csv: string) {
-  const lines = csv.trim().split('\n');
-  const headers = lines[0].split(',').map(h => h.trim());
+  const rows = parseCSVRows(csv);
+  const headers = rows[0] || [];
   
   const baseline = [];
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
+  for (let i = 1; i < rows.length; i++) {
+    const values = rows[i];
     const item: any = {};
     
     headers.forEach((header, index) => {
@@ -908,7 +973,7 @@ async function processOrderAllocations(
     const bestPackage = findBestPackage(order, packagingSuite, config);
     
     if (bestPackage) {
-      const allocation = createAllocation(order, bestPackage);
+      const allocation = createAllocation(order, bestPackage, config);
       allocations.push(allocation);
       
       // Stream batch when we reach batch size
@@ -1087,11 +1152,26 @@ function calculatePackageDistribution(allocations: any[]) {
   return percentages;
 }
 
-function createAllocation(order: any, packageOption: any) {
+function createAllocation(
+  order: any,
+  packageOption: any,
+  config: { includeShippingCosts: boolean; rateCard?: RateCard; surchargeRules?: SurchargeRule[] }
+) {
   const orderVolume = order.originalVolume || (order.length * order.width * order.height);
   const packageVolume = packageOption.length * packageOption.width * packageOption.height;
   const fillRate = (orderVolume / packageVolume) * 100;
   const efficiency = fillRate > 0 ? Math.min(100, fillRate * 1.2) : 0;
+
+  // Quote shipping from the rate card, falling back to default rates without one.
+  // Carrier surcharges on the box are reported either way.
+  const dimensions = { length: packageOption.length, width: packageOption.width, height: packageOption.height, unit: 'in' as const };
+  const weight = order.weight + packageOption.packageWeight;
+  const surchargeRules = config.surchargeRules || DEFAULT_SURCHARGE_RULES;
+  const shipping = config.includeShippingCosts
+    ? calculateShippingCosts(dimensions, weight, order.zone, order.priority, undefined, config.rateCard, surchargeRules)
+    : null;
+  const shippingCost = shipping ? shipping.totalCost : 0;
+  const surcharges = shipping ? shipping.surcharges : evaluateSurcharges(dimensions, weight, surchargeRules).surcharges;
   
   return {
     orderId: order.orderId,
@@ -1114,9 +1194,12 @@ function createAllocation(order: any, packageOption: any) {
     efficiency,
     costBreakdown: {
       packageCost: packageOption.costPerUnit,
-      totalCost: packageOption.costPerUnit,
+      shippingCost,
+      surchargeCost: surcharges.reduce((sum, surcharge) => sum + surcharge.amount, 0),
+      totalCost: packageOption.costPerUnit + shippingCost,
       usingDefaultCost: packageOption.usingDefaultCost
-    }
+    },
+    surcharges
   };
 }
 
@@ -1139,6 +1222,7 @@ function generateAnalysisResults(
   const failedOrders = orderHistory.length - processedOrders;
   const averageFillRate = processedOrders > 0 ? 
     allocations.reduce((sum, alloc) => sum + alloc.fillRate, 0) / processedOrders : 0;
+  const totalShippingCost = allocations.reduce((sum, alloc) => sum + alloc.costBreakdown.shippingCost, 0);
   
   console.log("Analysis summary:", {
     totalOrders: orderHistory.length,
@@ -1184,12 +1268,14 @@ function generateAnalysisResults(
       totalOrders: orderHistory.length,
       processedOrders,
       failedOrders,
-      averageFillRate
+      averageFillRate,
+      totalShippingCost
     },
     allocations,
     baselineDistribution,
     optimizedDistribution,
     recommendations,
+    surchargeSummary: calculateSurchargeSummary(allocations),
     metrics
   };
 }
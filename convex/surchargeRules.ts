@@ -0,0 +1,104 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { surchargeRuleValidator } from "./schema";
+
+// Get the current user's surcharge rules, or null when the built-in defaults apply
+export const getSurchargeRules = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return null;
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      return null;
+    }
+
+    const saved = await ctx.db
+      .query("surchargeRules")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .first();
+
+    return saved ? saved.rules : null;
+  },
+});
+
+// Save the user's surcharge rules, replacing any saved before
+export const saveSurchargeRules = mutation({
+  args: { rules: v.array(surchargeRuleValidator) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    for (const rule of args.rules) {
+      if (!(rule.amount >= 0)) {
+        throw new Error(`Surcharge "${rule.name}" needs a fee of zero or more`);
+      }
+      if (Object.values(rule.conditions).every((threshold) => threshold === undefined)) {
+        throw new Error(`Surcharge "${rule.name}" needs at least one threshold`);
+      }
+    }
+
+    const saved = await ctx.db
+      .query("surchargeRules")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .first();
+
+    if (saved) {
+      await ctx.db.patch(saved._id, { rules: args.rules, updatedAt: Date.now() });
+      return saved._id;
+    }
+
+    return await ctx.db.insert("surchargeRules", {
+      userId: user._id,
+      rules: args.rules,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Drop the user's surcharge rules so the built-in defaults apply again
+export const resetSurchargeRules = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const saved = await ctx.db
+      .query("surchargeRules")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .first();
+
+    if (saved) {
+      await ctx.db.delete(saved._id);
+    }
+  },
+});
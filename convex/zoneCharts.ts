@@ -0,0 +1,106 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+
+// Get zone charts for the current user, oldest first so the first chart is the default origin
+export const getZoneCharts = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      return [];
+    }
+
+    const zoneCharts = await ctx.db
+      .query("zoneCharts")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    return zoneCharts.sort((a, b) => a.createdAt - b.createdAt);
+  },
+});
+
+// Save zone charts for one or more origins, replacing existing charts for the same origin
+export const saveZoneCharts = mutation({
+  args: {
+    zoneCharts: v.array(v.object({
+      name: v.string(),
+      originZip: v.string(),
+      zones: v.record(v.string(), v.string()),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const existingCharts = await ctx.db
+      .query("zoneCharts")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const insertedCharts = [];
+    for (const zoneChart of args.zoneCharts) {
+      const existing = existingCharts.find((chart) => chart.originZip === zoneChart.originZip);
+      if (existing) {
+        await ctx.db.patch(existing._id, { name: zoneChart.name, zones: zoneChart.zones });
+        insertedCharts.push(existing._id);
+      } else {
+        insertedCharts.push(await ctx.db.insert("zoneCharts", {
+          userId: user._id,
+          name: zoneChart.name,
+          originZip: zoneChart.originZip,
+          zones: zoneChart.zones,
+          createdAt: Date.now(),
+        }));
+      }
+    }
+
+    return insertedCharts;
+  },
+});
+
+// Delete a zone chart
+export const deleteZoneChart = mutation({
+  args: { zoneChartId: v.id("zoneCharts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const zoneChart = await ctx.db.get(args.zoneChartId);
+    if (!zoneChart || zoneChart.userId !== user._id) {
+      throw new Error("Zone chart not found or access denied");
+    }
+
+    await ctx.db.delete(args.zoneChartId);
+  },
+});
@@ -15,6 +15,9 @@ import {
   Download
 } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { parseCSVRows } from '@/lib/data/csvReader';
+import { isWorkbookFile, readTabularFile } from '@/lib/data/xlsxReader';
+import { WorkbookSheetSelect } from '@/components/WorkbookSheetSelect';
 
 interface ParsedOrder {
   orderId: string;
@@ -66,6 +69,7 @@ export const ClientSideAnalyzer = () => {
   const [progress, setProgress] = useState(0);
   const [results, setResults] = useState<AnalysisResults | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [workbookSheets, setWorkbookSheets] = useState<Partial<Record<'order' | 'package', { names: string[]; selected?: string }>>>({});
   
   const workerRef = useRef<Worker | null>(null);
 
@@ -77,16 +81,34 @@ export const ClientSideAnalyzer = () => {
     { name: 'Large Box', id: 'LG', length: '18', width: '12', height: '8', cost: '6.50', maxWeight: '25' }
   ]);
 
-  const handleFileUpload = (type: 'order' | 'package', file: File | null) => {
-    if (type === 'order') {
-      setOrderFile(file);
-    } else {
-      setPackageFile(file);
-    }
+  const handleFileUpload = async (type: 'order' | 'package', file: File | null) => {
+    const setFile = type === 'order' ? setOrderFile : setPackageFile;
+    setFile(file);
+    setWorkbookSheets(prev => ({ ...prev, [type]: undefined }));
     setError(null);
     setResults(null);
+
+    if (file && isWorkbookFile(file)) {
+      try {
+        const { sheetNames, sheetName } = await readTabularFile(file);
+        setWorkbookSheets(prev => ({ ...prev, [type]: { names: sheetNames, selected: sheetName } }));
+      } catch (err) {
+        setFile(null);
+        setError(err instanceof Error ? err.message : 'Failed to read workbook');
+      }
+    }
   };
 
+  const renderSheetSelect = (type: 'order' | 'package') => (
+    <WorkbookSheetSelect
+      id={`${type}-sheet`}
+      sheetNames={workbookSheets[type]?.names || []}
+      value={workbookSheets[type]?.selected}
+      onChange={(sheetName) => setWorkbookSheets(prev => ({ ...prev, [type]: { names: prev[type]?.names || [], selected: sheetName } }))}
+      className="mt-3 max-w-xs"
+    />
+  );
+
   const addPackageRow = () => {
     setManualPackages([...manualPackages, { 
       name: '', id: '', length: '', width: '', height: '', cost: '', maxWeight: '' 
@@ -103,38 +125,16 @@ export const ClientSideAnalyzer = () => {
     setManualPackages(updated);
   };
 
-  const parseCSVLine = (line: string): string[] => {
-    const result = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    
-    result.push(current.trim());
-    return result;
-  };
-
   const parseOrderCSV = (csvText: string): ParsedOrder[] => {
-    const lines = csvText.split('\n').filter(line => line.trim());
-    if (lines.length < 2) throw new Error('CSV must have header and data rows');
+    const rows = parseCSVRows(csvText);
+    if (rows.length < 2) throw new Error('CSV must have header and data rows');
     
-    const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase().replace(/\s+/g, '_').replace(/[()]/g, ''));
+    const headers = rows[0].map(h => h.toLowerCase().replace(/\s+/g, '_').replace(/[()]/g, ''));
     console.log('Order CSV Headers:', headers);
     const orders: ParsedOrder[] = [];
     
-    for (let i = 1; i < lines.length; i++) {
-      const values = parseCSVLine(lines[i]);
+    for (let i = 1; i < rows.length; i++) {
+      const values = rows[i];
       if (values.length !== headers.length) continue;
       
       const row: any = {};
@@ -185,14 +185,14 @@ export const ClientSideAnalyzer = () => {
   };
 
   const parsePackageCSV = (csvText: string): ParsedPackage[] => {
-    const lines = csvText.split('\n').filter(line => line.trim());
-    if (lines.length < 2) throw new Error('Package CSV must have header and data rows');
+    const rows = parseCSVRows(csvText);
+    if (rows.length < 2) throw new Error('Package CSV must have header and data rows');
     
-    const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase().replace(/\s+/g, '_'));
+    const headers = rows[0].map(h => h.toLowerCase().replace(/\s+/g, '_'));
     const packages: ParsedPackage[] = [];
     
-    for (let i = 1; i < lines.length; i++) {
-      const values = parseCSVLine(lines[i]);
+    for (let i = 1; i < rows.length; i++) {
+      const values = rows[i];
       if (values.length !== headers.length) continue;
       
       const row: any = {};
@@ -239,13 +239,10 @@ export const ClientSideAnalyzer = () => {
       }));
   };
 
-  const readFileAsText = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as string);
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
-    });
+  // CSV files are read as-is; workbooks are read from the selected sheet
+  const readFileAsText = async (type: 'order' | 'package', file: File): Promise<string> => {
+    const { csv } = await readTabularFile(file, workbookSheets[type]?.selected);
+    return csv;
   };
 
   const processAnalysis = async () => {
@@ -277,7 +274,7 @@ export const ClientSideAnalyzer = () => {
     try {
       // Read and parse files
       setProgress(10);
-      const orderText = await readFileAsText(orderFile);
+      const orderText = await readFileAsText('order', orderFile);
       const orders = parseOrderCSV(orderText);
       
       setProgress(20);
@@ -285,7 +282,7 @@ export const ClientSideAnalyzer = () => {
       if (useManualPackages) {
         packages = createManualPackages();
       } else {
-        const packageText = await readFileAsText(packageFile!);
+        const packageText = await readFileAsText('package', packageFile!);
         packages = parsePackageCSV(packageText);
       }
 
@@ -384,13 +381,13 @@ export const ClientSideAnalyzer = () => {
                 <label className="block">
                   <input
                     type="file"
-                    accept=".csv"
+                    accept=".csv,.xlsx"
                     onChange={(e) => handleFileUpload('order', e.target.files?.[0] || null)}
                     className="hidden"
                   />
                   <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-blue-500 cursor-pointer">
                     <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                    <p className="text-gray-600">Click to upload order CSV</p>
+                    <p className="text-gray-600">Click to upload order CSV or Excel file</p>
                     <p className="text-sm text-gray-500 mt-1">Supports up to 1M+ orders</p>
                   </div>
                 </label>
@@ -409,6 +406,7 @@ export const ClientSideAnalyzer = () => {
                       Remove
                     </Button>
                   </div>
+                  {renderSheetSelect('order')}
                 </div>
               )}
             </CardContent>
@@ -448,13 +446,13 @@ export const ClientSideAnalyzer = () => {
                   <label className="block">
                     <input
                       type="file"
-                      accept=".csv"
+                      accept=".csv,.xlsx"
                       onChange={(e) => handleFileUpload('package', e.target.files?.[0] || null)}
                       className="hidden"
                     />
                     <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-blue-500 cursor-pointer">
                       <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
-                      <p className="text-gray-600">Upload package CSV</p>
+                      <p className="text-gray-600">Upload package CSV or Excel file</p>
                     </div>
                   </label>
                 ) : (
@@ -472,6 +470,7 @@ export const ClientSideAnalyzer = () => {
                         Remove
                       </Button>
                     </div>
+                    {renderSheetSelect('package')}
                   </div>
                 )
               ) : (
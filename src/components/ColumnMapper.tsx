@@ -0,0 +1,291 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TableCellsIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import {
+  applyColumnMapping,
+  detectFieldMappings,
+  findMatchingProfile,
+  getHeaderSignature,
+  getMissingRequiredFields,
+  MAPPING_SCHEMAS,
+  resolveProfileMappings,
+  type ColumnTransform,
+  type FieldMapping,
+  type MappingFieldKind,
+  type MappingSchemaId
+} from '@/lib/data/columnMapping';
+
+interface ColumnMapperProps {
+  schema: MappingSchemaId;
+  rows: string[][];                      // Uploaded rows, header first
+  onChange: (rows: string[][]) => void;  // Rows rewritten with canonical headers
+  className?: string;
+}
+
+const UNMAPPED = '__unmapped__';
+const NO_UNIT = '__none__';
+const PREVIEW_ROWS = 3;
+
+const UNIT_OPTIONS: Partial<Record<MappingFieldKind, { value: string; label: string }[]>> = {
+  length: [
+    { value: 'in', label: 'in' }, { value: 'cm', label: 'cm' }, { value: 'mm', label: 'mm' },
+    { value: 'ft', label: 'ft' }, { value: 'm', label: 'm' }
+  ],
+  weight: [
+    { value: 'lb', label: 'lb' }, { value: 'oz', label: 'oz' }, { value: 'kg', label: 'kg' }, { value: 'g', label: 'g' }
+  ]
+};
+
+// Interactive column mapping step: previews detected columns, lets the user
+// override them and saves the result as a profile for the same header layout
+export const ColumnMapper = ({ schema, rows, onChange, className }: ColumnMapperProps) => {
+  const profiles = useQuery(api.columnMappings.getProfiles);
+  const saveProfile = useMutation(api.columnMappings.saveProfile);
+  const deleteProfile = useMutation(api.columnMappings.deleteProfile);
+
+  const headers = useMemo(() => (rows[0] || []).filter(header => header.trim() !== ''), [rows]);
+  const signature = useMemo(() => getHeaderSignature(headers), [headers]);
+  const fields = MAPPING_SCHEMAS[schema];
+
+  const [mappings, setMappings] = useState<FieldMapping[]>(() => detectFieldMappings(headers, schema));
+  const [appliedProfile, setAppliedProfile] = useState<{ id: Id<'columnMappingProfiles'>; name: string } | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const initializedSignature = useRef<string | null>(null);
+
+  // Start from a saved profile for this header layout, otherwise from detection.
+  // Runs once per upload so later edits and profile saves are not overwritten.
+  useEffect(() => {
+    if (profiles === undefined || initializedSignature.current === signature) return;
+    initializedSignature.current = signature;
+
+    const profile = findMatchingProfile<(typeof profiles)[number]>(headers, schema, profiles);
+    if (profile) {
+      setMappings(resolveProfileMappings(profile, headers, schema));
+      setAppliedProfile({ id: profile._id, name: profile.name });
+      setProfileName(profile.name);
+      toast.success(`Applied column mapping "${profile.name}"`);
+    } else {
+      setMappings(detectFieldMappings(headers, schema));
+      setAppliedProfile(null);
+      setProfileName('');
+    }
+  }, [profiles, signature, headers, schema]);
+
+  const mappedRows = useMemo(() => applyColumnMapping(rows, mappings, schema), [rows, mappings, schema]);
+  const missingFields = getMissingRequiredFields(mappings, schema);
+
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  useEffect(() => {
+    onChangeRef.current(mappedRows);
+  }, [mappedRows]);
+
+  const updateMapping = (field: string, update: Partial<FieldMapping>) => {
+    setMappings(prev => prev.map(mapping => mapping.field === field ? { ...mapping, ...update } : mapping));
+  };
+
+  const updateTransform = (field: string, update: Partial<ColumnTransform>) => {
+    setMappings(prev => prev.map(mapping => {
+      if (mapping.field !== field) return mapping;
+      const transform = { ...mapping.transform, ...update };
+      (Object.keys(transform) as (keyof ColumnTransform)[]).forEach(key => {
+        if (transform[key] === undefined) delete transform[key];
+      });
+      return { ...mapping, transform: Object.keys(transform).length > 0 ? transform : undefined };
+    }));
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) {
+      toast.error('Enter a name for this mapping profile');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const id = await saveProfile({
+        name: profileName.trim(),
+        schema,
+        headerSignature: signature,
+        mappings: mappings.filter(mapping => mapping.column)
+      });
+      setAppliedProfile({ id, name: profileName.trim() });
+      toast.success(`Saved mapping profile "${profileName.trim()}"`);
+    } catch (error) {
+      toast.error(`Failed to save mapping profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!appliedProfile) return;
+    try {
+      await deleteProfile({ profileId: appliedProfile.id });
+      toast.success(`Deleted mapping profile "${appliedProfile.name}"`);
+      setAppliedProfile(null);
+    } catch (error) {
+      toast.error(`Failed to delete mapping profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  if (headers.length === 0) return null;
+
+  const previewFields = fields.filter(definition => mappedRows[0]?.includes(definition.header));
+
+  return (
+    <div className={cn('border border-gray-200 rounded-3xl p-6 bg-white space-y-4', className)}>
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <TableCellsIcon className="h-5 w-5 text-gray-500" />
+          <h4 className="font-medium text-gray-900">Column Mapping</h4>
+        </div>
+        {appliedProfile && (
+          <div className="flex items-center gap-1 text-xs text-emerald-700">
+            <span>Profile: {appliedProfile.name}</span>
+            <Button variant="ghost" size="sm" onClick={handleDeleteProfile} className="h-6 w-6 p-0 rounded-full">
+              <TrashIcon className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {fields.map(definition => {
+          const mapping = mappings.find(candidate => candidate.field === definition.field) || { field: definition.field };
+          const unitOptions = UNIT_OPTIONS[definition.kind];
+          const isNumeric = definition.kind === 'number' || definition.kind === 'length' || definition.kind === 'weight';
+
+          return (
+            <div key={definition.field} className="grid grid-cols-12 gap-2 items-center">
+              <Label className="col-span-3 text-sm text-gray-700">
+                {definition.label}
+                {definition.required && <span className="text-red-500"> *</span>}
+              </Label>
+              <div className="col-span-4">
+                <Select
+                  value={mapping.column ?? UNMAPPED}
+                  onValueChange={(column) => updateMapping(definition.field, { column: column === UNMAPPED ? undefined : column })}
+                >
+                  <SelectTrigger className="h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                    {headers.map(header => (
+                      <SelectItem key={header} value={header}>{header}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {mapping.column && (
+                <div className="col-span-5 flex items-center gap-2">
+                  {unitOptions && (
+                    <Select
+                      value={mapping.transform?.unit ?? NO_UNIT}
+                      onValueChange={(unit) => updateTransform(definition.field, {
+                        unit: unit === NO_UNIT ? undefined : unit as ColumnTransform['unit']
+                      })}
+                    >
+                      <SelectTrigger className="h-8 text-sm w-24">
+                        <SelectValue placeholder="Unit" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_UNIT}>{definition.kind === 'length' ? 'in' : 'lb'} (as is)</SelectItem>
+                        {unitOptions.map(option => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {isNumeric && (
+                    <Input
+                      type="number"
+                      step="any"
+                      placeholder="× 1"
+                      value={mapping.transform?.multiplier ?? ''}
+                      onChange={(e) => updateTransform(definition.field, {
+                        multiplier: e.target.value === '' ? undefined : parseFloat(e.target.value)
+                      })}
+                      className="h-8 text-sm w-24"
+                    />
+                  )}
+                  {definition.kind === 'text' && (
+                    <Select
+                      value={mapping.transform?.concatColumns?.[0] ?? UNMAPPED}
+                      onValueChange={(column) => updateTransform(definition.field, {
+                        concatColumns: column === UNMAPPED ? undefined : [column]
+                      })}
+                    >
+                      <SelectTrigger className="h-8 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>No concatenation</SelectItem>
+                        {headers.filter(header => header !== mapping.column).map(header => (
+                          <SelectItem key={header} value={header}>+ {header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {missingFields.length > 0 && (
+        <p className="text-sm text-red-600">
+          Map a column for: {missingFields.map(definition => definition.label).join(', ')}
+        </p>
+      )}
+
+      {previewFields.length > 0 && mappedRows.length > 1 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                {previewFields.map(definition => <th key={definition.field} className="py-1 pr-3 font-medium">{definition.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {mappedRows.slice(1, 1 + PREVIEW_ROWS).map((row, rowIndex) => (
+                <tr key={rowIndex} className="text-gray-700 border-t border-gray-100">
+                  {previewFields.map(definition => (
+                    <td key={definition.field} className="py-1 pr-3">{row[mappedRows[0].indexOf(definition.header)]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <Label htmlFor={`${schema}-mapping-profile`} className="text-xs text-gray-600">Save as profile</Label>
+          <Input
+            id={`${schema}-mapping-profile`}
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="e.g. ERP carton export"
+            className="h-8 text-sm mt-1"
+          />
+        </div>
+        <Button size="sm" onClick={handleSaveProfile} disabled={isSaving} className="rounded-full">
+          {isSaving ? 'Saving...' : 'Save Profile'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { Button } from '@/components/ui/button';
+import { Target, Lightbulb } from 'lucide-react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine } from 'recharts';
+
+interface ForecastAccuracyPanelProps {
+  currentBuffer: number;
+  onApplyBuffer: (buffer: number) => void;
+}
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+// How past Demand Planner forecasts compared with the usage logged since
+export const ForecastAccuracyPanel = ({ currentBuffer, onApplyBuffer }: ForecastAccuracyPanelProps) => {
+  const accuracy = useQuery(api.improvedDemandPlanner.getForecastAccuracy);
+
+  if (!accuracy || accuracy.backtests.length === 0) {
+    return null;
+  }
+
+  const { backtests, suggestion } = accuracy;
+  const latest = backtests[backtests.length - 1];
+  const trend = backtests.map(backtest => ({
+    name: new Date(backtest.generatedAt).toLocaleDateString(),
+    mape: backtest.mape === null ? null : Math.round(backtest.mape * 10) / 10,
+    bias: backtest.bias === null ? null : Math.round(backtest.bias * 10) / 10
+  }));
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="px-6 py-4 bg-gray-50 border-b flex items-center gap-2">
+        <Target className="h-5 w-5 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Forecast Accuracy</h3>
+        <span className="text-sm text-gray-500">
+          {backtests.length} past forecast{backtests.length === 1 ? '' : 's'} checked against actual usage
+        </span>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {trend.length > 1 && (
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart data={trend} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+              <YAxis unit="%" tick={{ fontSize: 12 }} />
+              <Tooltip formatter={(value: number) => `${value}%`} />
+              <Legend />
+              <ReferenceLine y={0} stroke="#9ca3af" />
+              <Line type="monotone" dataKey="mape" name="MAPE" stroke="#2563eb" strokeWidth={2} connectNulls />
+              <Line type="monotone" dataKey="bias" name="Bias" stroke="#f59e0b" strokeWidth={2} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+
+        <div>
+          <div className="flex items-baseline justify-between mb-2">
+            <h4 className="font-medium text-gray-900">{latest.name}</h4>
+            <span className="text-sm text-gray-500">
+              MAPE {latest.mape === null ? '—' : `${latest.mape.toFixed(1)}%`} • Bias {formatPercent(latest.bias)}
+            </span>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                <th className="py-2 font-medium">Package Type</th>
+                <th className="py-2 font-medium text-right">Forecast</th>
+                <th className="py-2 font-medium text-right">Actual</th>
+                <th className="py-2 font-medium text-right">Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {latest.packages.map(pkg => (
+                <tr key={pkg.packageType}>
+                  <td className="py-1 text-gray-900">{pkg.packageType}</td>
+                  <td className="py-1 text-right">{pkg.forecast.toLocaleString()}</td>
+                  <td className="py-1 text-right">{pkg.actual.toLocaleString()}</td>
+                  <td className={`py-1 text-right ${pkg.error < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {pkg.error > 0 ? '+' : ''}{pkg.error.toLocaleString()} ({formatPercent(pkg.percentError)})
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">
+            Positive bias and error mean the forecast ran above actual usage.
+          </p>
+        </div>
+
+        {suggestion && (
+          <div className="flex items-center justify-between gap-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
+            <div className="flex items-start gap-2">
+              <Lightbulb className="h-5 w-5 text-blue-600 mt-0.5" />
+              <p className="text-sm text-blue-900">
+                A {suggestion.suggestedBuffer}% safety buffer would have covered actual usage in 90% of{' '}
+                {suggestion.observations} past package forecasts
+                {suggestion.suggestedBuffer === currentBuffer ? ', matching your current buffer.' : ` (currently ${currentBuffer}%).`}
+              </p>
+            </div>
+            {suggestion.suggestedBuffer !== currentBuffer && (
+              <Button size="sm" variant="outline" onClick={() => onApplyBuffer(suggestion.suggestedBuffer)}>
+                Use {suggestion.suggestedBuffer}%
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -15,16 +15,32 @@ import { toast } from 'sonner';
 import { useQuery, useMutation, useAction } from 'convex/react';
 import { api } from '../../convex/_generated/api';
 import { useTokenGuard } from '@/hooks/useTokenGuard';
-
-interface PackagingType {
+import { readTabularFile } from '@/lib/data/xlsxReader';
+import { buildCatalogIndex, fillFromCatalog } from '@/lib/data/productCatalog';
+import { WorkbookSheetSelect } from '@/components/WorkbookSheetSelect';
+import { formatPriceBreaks, parsePriceBreaks, type SupplierTerms } from '@/lib/calculations/supplierTerms';
+import { PurchaseOrdersPanel } from '@/components/PurchaseOrdersPanel';
+import { ForecastAccuracyPanel } from '@/components/ForecastAccuracyPanel';
+import { DEFAULT_SAFETY_BUFFER } from '@/lib/calculations/forecastAccuracy';
+import type { Id } from '../../convex/_generated/dataModel';
+
+interface PackagingType extends SupplierTerms {
   name: string;
   length: number;
   width: number;
   height: number;
   cost: number;
   weight: number;
+  onHand?: number;
+  leadTimeDays?: number;
+  orderingCost?: number;
+  holdingCostRate?: number;
 }
 
+type InventoryField = 'onHand' | 'leadTimeDays' | 'orderingCost' | 'holdingCostRate';
+
+type SupplierQuantityField = 'caseQuantity' | 'palletQuantity' | 'minimumOrderQuantity';
+
 interface QuarterData {
   quarter: string;
   packageType: string;
@@ -48,8 +64,61 @@ interface DemandResults {
   finalQuantity: number;
   estimatedCost: number;
   estimatedWeight: number;
+  forecast?: {
+    model: string;
+    holdoutError: number | null;
+    periods: Array<{ label: string; forecast: number; lower: number; upper: number }>;
+  };
+  inventory?: {
+    safetyStock: number | null;
+    safetyStockMethod: 'variability' | 'buffer' | null;
+    reorderPoint: number | null;
+    economicOrderQuantity: number | null;
+    daysOfCover: number | null;
+    reorderDate: string | null;
+    stockOutDate: string | null;
+    needsReorder: boolean;
+  };
+  supplier?: string;
+  ordering?: {
+    rawQuantity: number;
+    rawCost: number;
+    orderQuantity: number;
+    unitPrice: number;
+    orderCost: number;
+    cases: number | null;
+    pallets: number | null;
+    reason: 'case' | 'minimum' | 'pallet' | 'price_break' | null;
+  };
 }
 
+const INVENTORY_FIELDS: Array<{ key: InventoryField; label: string; step: string }> = [
+  { key: 'onHand', label: 'On Hand', step: '1' },
+  { key: 'leadTimeDays', label: 'Lead Time (days)', step: '1' },
+  { key: 'orderingCost', label: 'Order Cost ($)', step: '0.01' },
+  { key: 'holdingCostRate', label: 'Holding (%/yr)', step: '0.1' }
+];
+
+const SUPPLIER_QUANTITY_FIELDS: Array<{ key: SupplierQuantityField; label: string }> = [
+  { key: 'caseQuantity', label: 'Case Pack' },
+  { key: 'palletQuantity', label: 'Pallet Qty' },
+  { key: 'minimumOrderQuantity', label: 'MOQ' }
+];
+
+const ORDERING_REASONS: Record<string, string> = {
+  case: 'rounded to full cases',
+  minimum: 'raised to MOQ',
+  pallet: 'full pallet is cheaper',
+  price_break: 'price break is cheaper'
+};
+
+const FORECAST_MODEL_LABELS: Record<string, string> = {
+  moving_average: 'Moving average',
+  exponential_smoothing: 'Exponential smoothing',
+  holt: 'Holt trend',
+  holt_winters: 'Holt-Winters'
+};
+
 export const ImprovedPackagingDemandPlanner = () => {
   const { user } = useUser();
   const { checkAndConsumeToken } = useTokenGuard();
@@ -71,11 +140,26 @@ export const ImprovedPackagingDemandPlanner = () => {
   const [quarterNames, setQuarterNames] = useState<string[]>(['Q1', 'Q2', 'Q3', 'Q4']);
   const [editingQuarter, setEditingQuarter] = useState<number | null>(null);
   const [showUsageFormatInfo, setShowUsageFormatInfo] = useState(false);
+  const [workbookSheets, setWorkbookSheets] = useState<Record<string, { file: File; names: string[]; selected?: string }>>({});
   const [forecastParams, setForecastParams] = useState({
     totalOrders: '',
-    safetyBuffer: '10'
+    safetyBuffer: String(DEFAULT_SAFETY_BUFFER)
+  });
+  const [forecastMode, setForecastMode] = useState<'orders' | 'timeseries'>('orders');
+  const [forecastOptions, setForecastOptions] = useState({
+    source: 'quarterly' as 'quarterly' | 'usage',
+    horizon: '4',
+    confidenceLevel: '0.95'
+  });
+  const [inventoryPolicy, setInventoryPolicy] = useState({
+    serviceLevel: '0.95',
+    periodDays: '90'
   });
+  const [settingsChanged, setSettingsChanged] = useState(false);
+  const [priceBreakDrafts, setPriceBreakDrafts] = useState<Record<string, string>>({});
   const [results, setResults] = useState<DemandResults[]>([]);
+  const [analysisId, setAnalysisId] = useState<Id<'analyses'> | null>(null);
+  const [isCreatingOrders, setIsCreatingOrders] = useState(false);
   const [newPackageType, setNewPackageType] = useState<PackagingType>({
     name: '',
     length: 0,
@@ -90,12 +174,14 @@ export const ImprovedPackagingDemandPlanner = () => {
   const storedQuarterlyData = useQuery(api.improvedDemandPlanner.getQuarterlyData);
   const storedManualMix = useQuery(api.improvedDemandPlanner.getManualMix);
   const calculatedMix = useQuery(api.improvedDemandPlanner.calculateMixFromQuarterly);
+  const products = useQuery(api.products.getProducts);
   
   const storePackagingTypes = useMutation(api.improvedDemandPlanner.storePackagingTypes);
   const storeQuarterlyData = useMutation(api.improvedDemandPlanner.storeQuarterlyData);
   const storeManualMix = useMutation(api.improvedDemandPlanner.storeManualMix);
   const calculateDemand = useAction(api.improvedDemandPlanner.calculateDemandForecast);
   const clearAllData = useMutation(api.improvedDemandPlanner.clearAllUserData);
+  const createPurchaseOrders = useMutation(api.purchaseOrders.createPurchaseOrdersFromAnalysis);
 
   // Load data from Convex on mount
   useEffect(() => {
@@ -106,7 +192,16 @@ export const ImprovedPackagingDemandPlanner = () => {
         width: pt.width,
         height: pt.height,
         cost: pt.cost,
-        weight: pt.weight
+        weight: pt.weight,
+        onHand: pt.onHand,
+        leadTimeDays: pt.leadTimeDays,
+        orderingCost: pt.orderingCost,
+        holdingCostRate: pt.holdingCostRate,
+        supplier: pt.supplier,
+        caseQuantity: pt.caseQuantity,
+        palletQuantity: pt.palletQuantity,
+        minimumOrderQuantity: pt.minimumOrderQuantity,
+        priceBreaks: pt.priceBreaks
       })));
     }
   }, [storedPackagingTypes]);
@@ -147,7 +242,11 @@ export const ImprovedPackagingDemandPlanner = () => {
     )) ||
     (selectedMethod === 'historical' && Object.keys(currentMix).length > 0)
   );
-  const isStep3Valid = forecastParams.totalOrders && parseInt(forecastParams.totalOrders) > 0;
+  // Time-series mode projects from history instead of a typed order count
+  const isTimeSeries = selectedMethod === 'historical' && forecastMode === 'timeseries';
+  const isStep3Valid = isTimeSeries
+    ? parseInt(forecastOptions.horizon) > 0
+    : forecastParams.totalOrders && parseInt(forecastParams.totalOrders) > 0;
 
   const steps = [
     { 
@@ -178,102 +277,108 @@ export const ImprovedPackagingDemandPlanner = () => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const csv = e.target?.result as string;
-        const lines = csv.split('\n').filter(line => line.trim());
-
-        // Find the actual header row by looking for expected column names
-        let headerRowIndex = -1;
-        let delimiter = ',';
-        let headers: string[] = [];
-
-        // Check first 5 lines to find the header row
-        for (let i = 0; i < Math.min(5, lines.length); i++) {
-          const line = lines[i];
-          // Auto-detect delimiter
-          const testDelimiter = line.includes('\t') ? '\t' :
-                               line.includes(';') ? ';' : ',';
-
-          const testHeaders = line.toLowerCase().split(testDelimiter).map(h => h.trim());
-
-          // Check if this line contains expected header keywords
-          const hasPackageType = testHeaders.some(h =>
-            ['package type', 'packaging', 'type', 'name', 'package'].includes(h) ||
-            h.includes('package') || h.includes('type')
-          );
-
-          const hasOtherHeaders = testHeaders.some(h =>
-            ['length', 'width', 'height', 'cost', 'weight', 'l', 'w', 'h'].includes(h) ||
-            h.includes('length') || h.includes('width') || h.includes('height')
-          );
-
-          if (hasPackageType || hasOtherHeaders) {
-            headerRowIndex = i;
-            delimiter = testDelimiter;
-            headers = testHeaders;
-            break;
-          }
-        }
+    importPackagingTypes(file);
+  };
 
-        if (headerRowIndex === -1) {
-          toast.error('Could not find header row with expected column names');
-          return;
-        }
+  // Remember uploaded workbooks so another sheet can be imported from the same file
+  const rememberWorkbook = (key: string, file: File, sheetNames: string[], sheetName?: string) => {
+    setWorkbookSheets(prev => ({ ...prev, [key]: { file, names: sheetNames, selected: sheetName } }));
+  };
 
-        const nameIndex = headers.findIndex(h => ['package type', 'packaging', 'type', 'name', 'package'].includes(h) || h.includes('package'));
-        const lengthIndex = headers.findIndex(h => ['length', 'l', 'len'].includes(h) || h.includes('length'));
-        const widthIndex = headers.findIndex(h => ['width', 'w', 'wid'].includes(h) || h.includes('width'));
-        const heightIndex = headers.findIndex(h => ['height', 'h', 'depth', 'hgt'].includes(h) || h.includes('height'));
-        const costIndex = headers.findIndex(h => ['cost', 'price', '$', 'unit cost'].includes(h) || h.includes('cost'));
-        const weightIndex = headers.findIndex(h => ['weight', 'wt', 'lbs', 'pounds'].includes(h) || h.includes('weight'));
+  const importPackagingTypes = async (file: File, sheetName?: string) => {
+    try {
+      const { rows, sheetNames, sheetName: importedSheet } = await readTabularFile(file, sheetName);
+      rememberWorkbook('packagingTypes', file, sheetNames, importedSheet);
 
-        if (nameIndex === -1) {
-          toast.error('Package Type column not found in header row');
-          return;
-        }
+      // Find the actual header row by looking for expected column names
+      let headerRowIndex = -1;
+      let headers: string[] = [];
 
-        const types: PackagingType[] = [];
-        // Start processing from the row after the header
-        for (let i = headerRowIndex + 1; i < lines.length; i++) {
-          const values = lines[i].split(delimiter).map(v => v.trim());
-
-          // Skip empty rows
-          if (!values[nameIndex] || values[nameIndex] === '') continue;
-
-          const type: PackagingType = {
-            name: values[nameIndex] || `Package ${types.length + 1}`,
-            length: lengthIndex !== -1 ? parseFloat(values[lengthIndex]?.trim().replace(/[^0-9.]/g, '')) || 0 : 0,
-            width: widthIndex !== -1 ? parseFloat(values[widthIndex]?.trim().replace(/[^0-9.]/g, '')) || 0 : 0,
-            height: heightIndex !== -1 ? parseFloat(values[heightIndex]?.trim().replace(/[^0-9.]/g, '')) || 0 : 0,
-            cost: costIndex !== -1 ? parseFloat(values[costIndex]?.trim().replace(/[^0-9.]/g, '')) || 0 : 0,
-            weight: weightIndex !== -1 ? parseFloat(values[weightIndex]?.trim().replace(/[^0-9.]/g, '')) || 0 : 0,
-          };
-          types.push(type);
-        }
+      // Check first 5 lines to find the header row
+      for (let i = 0; i < Math.min(5, rows.length); i++) {
+        const testHeaders = rows[i].map(h => h.toLowerCase());
 
-        if (types.length === 0) {
-          toast.error('No valid packaging data found in the file');
-          return;
+        // Check if this line contains expected header keywords
+        const hasPackageType = testHeaders.some(h =>
+          ['package type', 'packaging', 'type', 'name', 'package'].includes(h) ||
+          h.includes('package') || h.includes('type')
+        );
+
+        const hasOtherHeaders = testHeaders.some(h =>
+          ['length', 'width', 'height', 'cost', 'weight', 'l', 'w', 'h'].includes(h) ||
+          h.includes('length') || h.includes('width') || h.includes('height')
+        );
+
+        if (hasPackageType || hasOtherHeaders) {
+          headerRowIndex = i;
+          headers = testHeaders;
+          break;
         }
+      }
 
-        setPackagingTypes(types);
-
-        // Store in Convex
-        storePackagingTypes({ packagingTypes: types })
-          .then(() => {
-            toast.success(`Loaded ${types.length} packaging types`);
-          })
-          .catch((error) => {
-            console.error('Failed to store packaging types:', error);
-            toast.error('Failed to save packaging types to database');
-          });
-      } catch (error) {
-        toast.error('Failed to parse CSV file');
+      if (headerRowIndex === -1) {
+        toast.error('Could not find header row with expected column names');
+        return;
       }
-    };
-    reader.readAsText(file);
+
+      const nameIndex = headers.findIndex(h => ['package type', 'packaging', 'type', 'name', 'package'].includes(h) || h.includes('package'));
+      const lengthIndex = headers.findIndex(h => ['length', 'l', 'len'].includes(h) || h.includes('length'));
+      const widthIndex = headers.findIndex(h => ['width', 'w', 'wid'].includes(h) || h.includes('width'));
+      const heightIndex = headers.findIndex(h => ['height', 'h', 'depth', 'hgt'].includes(h) || h.includes('height'));
+      const costIndex = headers.findIndex(h => ['cost', 'price', '$', 'unit cost'].includes(h) || h.includes('cost'));
+      const weightIndex = headers.findIndex(h => ['weight', 'wt', 'lbs', 'pounds'].includes(h) || h.includes('weight'));
+      const skuIndex = headers.findIndex(h => h === 'sku' || h.includes('sku'));
+
+      if (nameIndex === -1) {
+        toast.error('Package Type column not found in header row');
+        return;
+      }
+
+      const types: PackagingType[] = [];
+      const catalogIndex = buildCatalogIndex(products || []);
+      let filledFromCatalog = 0;
+      // Start processing from the row after the header
+      for (let i = headerRowIndex + 1; i < rows.length; i++) {
+        const values = rows[i];
+
+        // Skip empty rows
+        if (!values[nameIndex] || values[nameIndex] === '') continue;
+
+        const type: PackagingType = {
+          name: values[nameIndex] || `Package ${types.length + 1}`,
+          length: lengthIndex !== -1 ? parseFloat(values[lengthIndex]?.trim().replace(/[^0-9.]/g, '')) || 0 : 0,
+          width: widthIndex !== -1 ? parseFloat(values[widthIndex]?.trim().replace(/[^0-9.]/g, '')) || 0 : 0,
+          height: heightIndex !== -1 ? parseFloat(values[heightIndex]?.trim().replace(/[^0-9.]/g, '')) || 0 : 0,
+          cost: costIndex !== -1 ? parseFloat(values[costIndex]?.trim().replace(/[^0-9.]/g, '')) || 0 : 0,
+          weight: weightIndex !== -1 ? parseFloat(values[weightIndex]?.trim().replace(/[^0-9.]/g, '')) || 0 : 0,
+        };
+
+        // Packaging SKUs missing dimensions take them from the product catalog
+        const { record, filled } = fillFromCatalog(type, skuIndex !== -1 && values[skuIndex] ? values[skuIndex] : type.name, catalogIndex);
+        if (filled) filledFromCatalog++;
+        types.push(record);
+      }
+
+      if (types.length === 0) {
+        toast.error('No valid packaging data found in the file');
+        return;
+      }
+
+      setPackagingTypes(types);
+
+      // Store in Convex
+      storePackagingTypes({ packagingTypes: types })
+        .then(() => {
+          toast.success(`Loaded ${types.length} packaging types` +
+            (filledFromCatalog > 0 ? ` (${filledFromCatalog} filled from product catalog)` : ''));
+        })
+        .catch((error) => {
+          console.error('Failed to store packaging types:', error);
+          toast.error('Failed to save packaging types to database');
+        });
+    } catch (error) {
+      toast.error('Failed to parse packaging types file');
+    }
   };
 
   // Handle quarterly data upload
@@ -285,138 +390,129 @@ export const ImprovedPackagingDemandPlanner = () => {
     }
 
     console.log(`Processing ${file.name} for ${quarter}`);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const csv = e.target?.result as string;
-        const lines = csv.split('\n').filter(line => line.trim());
-
-        // Find the actual header row by looking for expected column names
-        let headerRowIndex = -1;
-        let delimiter = ',';
-        let headers: string[] = [];
-
-        // Check first 5 lines to find the header row
-        for (let i = 0; i < Math.min(5, lines.length); i++) {
-          const line = lines[i];
-          // Auto-detect delimiter
-          const testDelimiter = line.includes('\t') ? '\t' :
-                               line.includes(';') ? ';' : ',';
-
-          const testHeaders = line.toLowerCase().split(testDelimiter).map(h => h.trim());
-
-          // Check if this line contains expected header keywords for quarterly data
-          const hasPackageType = testHeaders.some(h =>
-            ['package type', 'packaging', 'type', 'name', 'package id', 'packaging name', 'package name', 'package'].includes(h) ||
-            h.includes('package') || h.includes('packaging')
-          );
-
-          const hasQuantity = testHeaders.some(h =>
-            ['quantity', 'qty', 'amount', 'count', 'used', 'usage amount', 'usage count'].includes(h) ||
-            h.includes('quantity') || h.includes('qty') || h.includes('used') ||
-            h.includes('usage') || h.includes('amount') || h.includes('count')
-          );
-
-          if (hasPackageType || hasQuantity) {
-            headerRowIndex = i;
-            delimiter = testDelimiter;
-            headers = testHeaders;
-            break;
-          }
-        }
+    importQuarterlyData(quarter, file);
 
-        if (headerRowIndex === -1) {
-          toast.error('Could not find header row with expected column names for quarterly data');
-          return;
-        }
+    // Clear the file input to allow re-uploading
+    event.target.value = '';
+  };
+
+  const importQuarterlyData = async (quarter: string, file: File, sheetName?: string) => {
+    try {
+      const { rows, sheetNames, sheetName: importedSheet } = await readTabularFile(file, sheetName);
+      rememberWorkbook(quarter, file, sheetNames, importedSheet);
+
+      // Find the actual header row by looking for expected column names
+      let headerRowIndex = -1;
+      let headers: string[] = [];
+
+      // Check first 5 lines to find the header row
+      for (let i = 0; i < Math.min(5, rows.length); i++) {
+        const testHeaders = rows[i].map(h => h.toLowerCase());
 
-        const typeIndex = headers.findIndex(h =>
-          ['package type', 'packaging', 'type', 'name', 'package id', 'packaging name', 'package name'].includes(h) ||
+        // Check if this line contains expected header keywords for quarterly data
+        const hasPackageType = testHeaders.some(h =>
+          ['package type', 'packaging', 'type', 'name', 'package id', 'packaging name', 'package name', 'package'].includes(h) ||
           h.includes('package') || h.includes('packaging')
         );
-        const qtyIndex = headers.findIndex(h =>
+
+        const hasQuantity = testHeaders.some(h =>
           ['quantity', 'qty', 'amount', 'count', 'used', 'usage amount', 'usage count'].includes(h) ||
           h.includes('quantity') || h.includes('qty') || h.includes('used') ||
           h.includes('usage') || h.includes('amount') || h.includes('count')
         );
 
-        if (typeIndex === -1 || qtyIndex === -1) {
-          console.log('Available columns:', headers);
-          toast.error(`Required columns not found. Found: ${headers.join(', ')}`);
-          return;
+        if (hasPackageType || hasQuantity) {
+          headerRowIndex = i;
+          headers = testHeaders;
+          break;
         }
+      }
+
+      if (headerRowIndex === -1) {
+        toast.error('Could not find header row with expected column names for quarterly data');
+        return;
+      }
+
+      const typeIndex = headers.findIndex(h =>
+        ['package type', 'packaging', 'type', 'name', 'package id', 'packaging name', 'package name'].includes(h) ||
+        h.includes('package') || h.includes('packaging')
+      );
+      const qtyIndex = headers.findIndex(h =>
+        ['quantity', 'qty', 'amount', 'count', 'used', 'usage amount', 'usage count'].includes(h) ||
+        h.includes('quantity') || h.includes('qty') || h.includes('used') ||
+        h.includes('usage') || h.includes('amount') || h.includes('count')
+      );
+
+      if (typeIndex === -1 || qtyIndex === -1) {
+        console.log('Available columns:', headers);
+        toast.error(`Required columns not found. Found: ${headers.join(', ')}`);
+        return;
+      }
+
+      const newQuarterData: QuarterData[] = [];
+      // Start processing from the row after the header
+      for (let i = headerRowIndex + 1; i < rows.length; i++) {
+        const values = rows[i];
+
+        // Skip empty rows
+        if (!values[typeIndex] || values[typeIndex] === '') continue;
 
-        const newQuarterData: QuarterData[] = [];
-        // Start processing from the row after the header
-        for (let i = headerRowIndex + 1; i < lines.length; i++) {
-          const values = lines[i].split(delimiter).map(v => v.trim());
-
-          // Skip empty rows
-          if (!values[typeIndex] || values[typeIndex] === '') continue;
-
-          let packageTypeName = values[typeIndex];
-
-          // Try to match with existing packaging types for consistency
-          // This ensures quarterly data uses the same names as packaging types
-          if (packagingTypes.length > 0) {
-            const packageTypeLower = packageTypeName.toLowerCase();
-
-            // Find exact match first
-            let matchedType = packagingTypes.find(pt => pt.name === packageTypeName);
-
-            // If no exact match, try case-insensitive partial matching
-            if (!matchedType) {
-              matchedType = packagingTypes.find(pt => {
-                const nameLower = pt.name.toLowerCase();
-                // Check if either contains the other (handles "Small" vs "Small Box" cases)
-                return nameLower.includes(packageTypeLower) || packageTypeLower.includes(nameLower);
-              });
-            }
-
-            // Use the matched packaging type name if found
-            if (matchedType) {
-              packageTypeName = matchedType.name;
-            }
+        let packageTypeName = values[typeIndex];
+
+        // Try to match with existing packaging types for consistency
+        // This ensures quarterly data uses the same names as packaging types
+        if (packagingTypes.length > 0) {
+          const packageTypeLower = packageTypeName.toLowerCase();
+
+          // Find exact match first
+          let matchedType = packagingTypes.find(pt => pt.name === packageTypeName);
+
+          // If no exact match, try case-insensitive partial matching
+          if (!matchedType) {
+            matchedType = packagingTypes.find(pt => {
+              const nameLower = pt.name.toLowerCase();
+              // Check if either contains the other (handles "Small" vs "Small Box" cases)
+              return nameLower.includes(packageTypeLower) || packageTypeLower.includes(nameLower);
+            });
           }
 
-          newQuarterData.push({
-            quarter,
-            packageType: packageTypeName,
-            quantity: parseFloat(values[qtyIndex]?.trim().replace(/[^0-9.]/g, '')) || 0
-          });
+          // Use the matched packaging type name if found
+          if (matchedType) {
+            packageTypeName = matchedType.name;
+          }
         }
 
-        if (newQuarterData.length === 0) {
-          toast.error('No valid quarterly data found in the file');
-          return;
-        }
+        newQuarterData.push({
+          quarter,
+          packageType: packageTypeName,
+          quantity: parseFloat(values[qtyIndex]?.trim().replace(/[^0-9.]/g, '')) || 0
+        });
+      }
 
-        // Remove existing data for this quarter and add new data
-        const filteredData = quarterlyData.filter(d => d.quarter !== quarter);
-        const updatedData = [...filteredData, ...newQuarterData];
-        setQuarterlyData(updatedData);
-
-        // Store in Convex
-        storeQuarterlyData({ quarter, usageData: newQuarterData })
-          .then(() => {
-            // Recalculate mix percentages
-            updateMixFromQuarterlyData(updatedData);
-            toast.success(`${quarter} data uploaded successfully`);
-
-            // Clear the file input to allow re-uploading
-            if (event.target) {
-              event.target.value = '';
-            }
-          })
-          .catch((error) => {
-            console.error('Failed to store quarterly data:', error);
-            toast.error('Failed to save quarterly data to database');
-          });
-      } catch (error) {
-        toast.error('Failed to parse quarterly data');
+      if (newQuarterData.length === 0) {
+        toast.error('No valid quarterly data found in the file');
+        return;
       }
-    };
-    reader.readAsText(file);
+
+      // Remove existing data for this quarter and add new data
+      const filteredData = quarterlyData.filter(d => d.quarter !== quarter);
+      const updatedData = [...filteredData, ...newQuarterData];
+      setQuarterlyData(updatedData);
+
+      // Store in Convex
+      storeQuarterlyData({ quarter, usageData: newQuarterData })
+        .then(() => {
+          // Recalculate mix percentages
+          updateMixFromQuarterlyData(updatedData);
+          toast.success(`${quarter} data uploaded successfully`);
+        })
+        .catch((error) => {
+          console.error('Failed to store quarterly data:', error);
+          toast.error('Failed to save quarterly data to database');
+        });
+    } catch (error) {
+      toast.error('Failed to parse quarterly data');
+    }
   };
 
   // Update mix percentages from quarterly data
@@ -596,6 +692,39 @@ export const ImprovedPackagingDemandPlanner = () => {
     }
   };
 
+  // Edit a package type's inventory or supplier settings; they are saved before the next calculation
+  const updatePackagingSetting = (index: number, field: InventoryField | SupplierQuantityField, value: string) => {
+    const parsed = parseFloat(value);
+    setPackagingTypes(prev => prev.map((type, i) =>
+      i === index ? { ...type, [field]: Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined } : type
+    ));
+    setSettingsChanged(true);
+  };
+
+  const updateSupplier = (index: number, supplier: string) => {
+    setPackagingTypes(prev => prev.map((type, i) =>
+      i === index ? { ...type, supplier: supplier.trim() ? supplier : undefined } : type
+    ));
+    setSettingsChanged(true);
+  };
+
+  // Price breaks are typed as "qty:price" pairs and parsed when the field loses focus
+  const commitPriceBreaks = (index: number) => {
+    const name = packagingTypes[index].name;
+    const draft = priceBreakDrafts[name];
+    if (draft === undefined) return;
+
+    const priceBreaks = parsePriceBreaks(draft);
+    setPackagingTypes(prev => prev.map((type, i) =>
+      i === index ? { ...type, priceBreaks: priceBreaks.length > 0 ? priceBreaks : undefined } : type
+    ));
+    setPriceBreakDrafts(prev => {
+      const { [name]: _, ...rest } = prev;
+      return rest;
+    });
+    setSettingsChanged(true);
+  };
+
   // Export demand forecast results to CSV
   const exportResults = () => {
     if (results.length === 0) {
@@ -603,14 +732,27 @@ export const ImprovedPackagingDemandPlanner = () => {
       return;
     }
 
-    // Create CSV content
+    // Create CSV content; time-series results add the model and each projected period
+    const forecastPeriods = results.find(result => result.forecast)?.forecast?.periods.map(period => period.label) || [];
     const headers = [
       'Package Type',
       'Usage %',
       'Base Quantity',
       'Final Quantity',
       'Estimated Cost',
-      'Estimated Weight'
+      'Estimated Weight',
+      'Supplier',
+      'Order Quantity',
+      'Unit Price',
+      'Order Cost',
+      ...(forecastPeriods.length > 0 ? ['Model'] : []),
+      ...forecastPeriods.flatMap(label => [`"${label} Forecast"`, `"${label} Low"`, `"${label} High"`]),
+      'Safety Stock',
+      'Reorder Point',
+      'EOQ',
+      'Days of Cover',
+      'Reorder By',
+      'Stock-out Date'
     ];
 
     const csvRows = [
@@ -621,7 +763,19 @@ export const ImprovedPackagingDemandPlanner = () => {
         result.baseQuantity,
         result.finalQuantity,
         result.estimatedCost.toFixed(2),
-        result.estimatedWeight.toFixed(1)
+        result.estimatedWeight.toFixed(1),
+        `"${result.supplier || ''}"`,
+        result.ordering?.orderQuantity ?? '',
+        result.ordering?.unitPrice.toFixed(2) ?? '',
+        result.ordering?.orderCost.toFixed(2) ?? '',
+        ...(forecastPeriods.length > 0 ? [FORECAST_MODEL_LABELS[result.forecast?.model || ''] || ''] : []),
+        ...(result.forecast?.periods.flatMap(period => [period.forecast, period.lower, period.upper]) || []),
+        result.inventory?.safetyStock ?? '',
+        result.inventory?.reorderPoint ?? '',
+        result.inventory?.economicOrderQuantity ?? '',
+        result.inventory?.daysOfCover ?? '',
+        result.inventory?.reorderDate ?? '',
+        result.inventory?.stockOutDate ?? ''
       ].join(','))
     ];
 
@@ -667,6 +821,7 @@ export const ImprovedPackagingDemandPlanner = () => {
       setManualMix([]);
       setCurrentMix({});
       setResults([]);
+      setAnalysisId(null);
       setSelectedMethod(null);
       setCurrentStep(1);
       
@@ -685,19 +840,34 @@ export const ImprovedPackagingDemandPlanner = () => {
 
     try {
       const result = await checkAndConsumeToken('demand_planner', async () => {
-        const totalOrders = parseInt(forecastParams.totalOrders);
+        const totalOrders = isTimeSeries ? 0 : parseInt(forecastParams.totalOrders);
         const safetyBuffer = parseFloat(forecastParams.safetyBuffer);
 
         // Prepare manual mix if using manual method
         const manualMixData = selectedMethod === 'manual' ? manualMix : undefined;
 
+        // Persist edited inventory and supplier settings so the calculation uses them
+        if (settingsChanged) {
+          await storePackagingTypes({ packagingTypes });
+          setSettingsChanged(false);
+        }
+
         const response = await calculateDemand({
-          method: selectedMethod!,
+          method: isTimeSeries ? 'forecast' : selectedMethod!,
           forecastParams: {
             totalOrders,
             safetyBuffer
           },
-          manualMix: manualMixData
+          manualMix: manualMixData,
+          forecastOptions: isTimeSeries ? {
+            source: forecastOptions.source,
+            horizon: parseInt(forecastOptions.horizon),
+            confidenceLevel: parseFloat(forecastOptions.confidenceLevel)
+          } : undefined,
+          inventoryPolicy: {
+            serviceLevel: parseFloat(inventoryPolicy.serviceLevel),
+            periodDays: isTimeSeries ? undefined : parseInt(inventoryPolicy.periodDays) || undefined
+          }
         });
 
         return response;
@@ -705,6 +875,7 @@ export const ImprovedPackagingDemandPlanner = () => {
 
       if (result.success && result.result) {
         setResults(result.result.results);
+        setAnalysisId(result.result.analysisId ?? null);
         toast.success('Demand forecast calculated successfully');
       } else if (result.error === 'NO_TOKENS') {
         toast.error('No tokens remaining. Please upgrade your plan.');
@@ -713,11 +884,30 @@ export const ImprovedPackagingDemandPlanner = () => {
       setIsProcessing(false);
     } catch (error) {
       console.error('Failed to calculate demand:', error);
-      toast.error('Failed to calculate demand forecast');
+      toast.error(isTimeSeries && error instanceof Error
+        ? `Failed to calculate demand forecast: ${error.message}`
+        : 'Failed to calculate demand forecast');
       setIsProcessing(false);
     }
   };
 
+  // Draft one purchase order per supplier from the last calculated forecast
+  const handleCreatePurchaseOrders = async () => {
+    if (!analysisId) return;
+
+    setIsCreatingOrders(true);
+    try {
+      const { created, skipped } = await createPurchaseOrders({ analysisId });
+      toast.success(`Drafted ${created} purchase order${created === 1 ? '' : 's'}` +
+        (skipped > 0 ? ` (${skipped} supplier${skipped === 1 ? '' : 's'} already sent)` : ''));
+    } catch (error) {
+      console.error('Failed to create purchase orders:', error);
+      toast.error(`Failed to create purchase orders: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsCreatingOrders(false);
+    }
+  };
+
   const renderStepHeader = () => (
     <div className="mb-8">
       {/* Progress Steps */}
@@ -858,6 +1048,15 @@ export const ImprovedPackagingDemandPlanner = () => {
                 Choose File
               </span>
             </label>
+            {workbookSheets.packagingTypes && (
+              <WorkbookSheetSelect
+                id="packaging-types-sheet"
+                sheetNames={workbookSheets.packagingTypes.names}
+                value={workbookSheets.packagingTypes.selected}
+                onChange={(sheetName) => importPackagingTypes(workbookSheets.packagingTypes.file, sheetName)}
+                className="mt-4 max-w-xs mx-auto"
+              />
+            )}
           </div>
         </>
       )}
@@ -1191,6 +1390,15 @@ export const ImprovedPackagingDemandPlanner = () => {
                           key={`${quarter}-upload`}
                         />
                       </label>
+                      {workbookSheets[quarter] && (
+                        <WorkbookSheetSelect
+                          id={`${quarter}-sheet`}
+                          sheetNames={workbookSheets[quarter].names}
+                          value={workbookSheets[quarter].selected}
+                          onChange={(sheetName) => importQuarterlyData(quarter, workbookSheets[quarter].file, sheetName)}
+                          className="mt-2"
+                        />
+                      )}
                     </div>
                   );
                 })}
@@ -1386,8 +1594,80 @@ export const ImprovedPackagingDemandPlanner = () => {
     <div className="max-w-2xl mx-auto space-y-6">
       <div className="bg-white border border-gray-200 rounded-lg p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Forecast Parameters</h3>
+
+        {selectedMethod === 'historical' && (
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            <Button
+              variant={forecastMode === 'orders' ? 'default' : 'outline'}
+              onClick={() => setForecastMode('orders')}
+            >
+              <Calculator className="h-4 w-4 mr-2" />
+              Mix × Order Count
+            </Button>
+            <Button
+              variant={forecastMode === 'timeseries' ? 'default' : 'outline'}
+              onClick={() => setForecastMode('timeseries')}
+            >
+              <TrendingUp className="h-4 w-4 mr-2" />
+              Project From History
+            </Button>
+          </div>
+        )}
         
         <div className="grid gap-4">
+          {isTimeSeries ? (
+          <>
+          <div>
+            <Label htmlFor="forecastSource" className="text-gray-700 font-medium">
+              History
+            </Label>
+            <select
+              id="forecastSource"
+              className="w-full h-10 px-3 mt-1 text-sm border border-gray-200 rounded-md"
+              value={forecastOptions.source}
+              onChange={(e) => setForecastOptions(prev => ({ ...prev, source: e.target.value as 'quarterly' | 'usage' }))}
+            >
+              <option value="quarterly">Quarterly usage uploads</option>
+              <option value="usage">Usage logs (monthly)</option>
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="forecastHorizon" className="text-gray-700 font-medium">
+                Periods to Forecast
+              </Label>
+              <Input
+                id="forecastHorizon"
+                type="number"
+                min="1"
+                max="24"
+                value={forecastOptions.horizon}
+                onChange={(e) => setForecastOptions(prev => ({ ...prev, horizon: e.target.value }))}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="confidenceLevel" className="text-gray-700 font-medium">
+                Prediction Interval
+              </Label>
+              <select
+                id="confidenceLevel"
+                className="w-full h-10 px-3 mt-1 text-sm border border-gray-200 rounded-md"
+                value={forecastOptions.confidenceLevel}
+                onChange={(e) => setForecastOptions(prev => ({ ...prev, confidenceLevel: e.target.value }))}
+              >
+                <option value="0.8">80%</option>
+                <option value="0.9">90%</option>
+                <option value="0.95">95%</option>
+              </select>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Moving average, exponential smoothing, Holt and Holt-Winters models are compared on your latest periods and the most accurate one is used for each package type.
+          </p>
+          </>
+          ) : (
           <div>
             <Label htmlFor="totalOrders" className="text-gray-700 font-medium">
               Total Forecasted Orders
@@ -1405,6 +1685,7 @@ export const ImprovedPackagingDemandPlanner = () => {
               Total number of orders expected for the forecast period
             </p>
           </div>
+          )}
 
           <div>
             <Label htmlFor="safetyBuffer" className="text-gray-700 font-medium">
@@ -1421,11 +1702,139 @@ export const ImprovedPackagingDemandPlanner = () => {
               className="mt-1"
             />
             <p className="text-xs text-gray-500 mt-1">
-              Additional buffer to account for demand variability
+              Additional buffer to account for demand variability; also sizes safety stock when there is no usage history
             </p>
           </div>
         </div>
 
+        <div className="mt-6 pt-4 border-t">
+          <h4 className="font-medium text-gray-900 mb-3">Inventory Policy</h4>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <Label htmlFor="serviceLevel" className="text-gray-700 font-medium">
+                Service Level
+              </Label>
+              <select
+                id="serviceLevel"
+                className="w-full h-10 px-3 mt-1 text-sm border border-gray-200 rounded-md"
+                value={inventoryPolicy.serviceLevel}
+                onChange={(e) => setInventoryPolicy(prev => ({ ...prev, serviceLevel: e.target.value }))}
+              >
+                <option value="0.9">90%</option>
+                <option value="0.95">95%</option>
+                <option value="0.975">97.5%</option>
+                <option value="0.99">99%</option>
+              </select>
+            </div>
+            {!isTimeSeries && (
+              <div>
+                <Label htmlFor="periodDays" className="text-gray-700 font-medium">
+                  Forecast Period (days)
+                </Label>
+                <Input
+                  id="periodDays"
+                  type="number"
+                  min="1"
+                  value={inventoryPolicy.periodDays}
+                  onChange={(e) => setInventoryPolicy(prev => ({ ...prev, periodDays: e.target.value }))}
+                  className="mt-1"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-2 pr-2 font-medium">Package</th>
+                  {INVENTORY_FIELDS.map(field => (
+                    <th key={field.key} className="py-2 px-1 font-medium">{field.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {packagingTypes.map((type, index) => (
+                  <tr key={type.name}>
+                    <td className="py-1 pr-2 text-gray-900 whitespace-nowrap">{type.name}</td>
+                    {INVENTORY_FIELDS.map(field => (
+                      <td key={field.key} className="py-1 px-1">
+                        <Input
+                          type="number"
+                          min="0"
+                          step={field.step}
+                          value={type[field.key] ?? ''}
+                          onChange={(e) => updatePackagingSetting(index, field.key, e.target.value)}
+                          className="h-8"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Safety stock uses usage variability over the supplier lead time; order and holding costs give the economic order quantity.
+          </p>
+        </div>
+
+        <div className="mt-6 pt-4 border-t">
+          <h4 className="font-medium text-gray-900 mb-3">Supplier Terms</h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-2 pr-2 font-medium">Package</th>
+                  <th className="py-2 px-1 font-medium">Supplier</th>
+                  {SUPPLIER_QUANTITY_FIELDS.map(field => (
+                    <th key={field.key} className="py-2 px-1 font-medium">{field.label}</th>
+                  ))}
+                  <th className="py-2 px-1 font-medium">Price Breaks (qty:price)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {packagingTypes.map((type, index) => (
+                  <tr key={type.name}>
+                    <td className="py-1 pr-2 text-gray-900 whitespace-nowrap">{type.name}</td>
+                    <td className="py-1 px-1">
+                      <Input
+                        value={type.supplier ?? ''}
+                        onChange={(e) => updateSupplier(index, e.target.value)}
+                        className="h-8"
+                      />
+                    </td>
+                    {SUPPLIER_QUANTITY_FIELDS.map(field => (
+                      <td key={field.key} className="py-1 px-1">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={type[field.key] ?? ''}
+                          onChange={(e) => updatePackagingSetting(index, field.key, e.target.value)}
+                          className="h-8"
+                        />
+                      </td>
+                    ))}
+                    <td className="py-1 px-1">
+                      <Input
+                        placeholder="500:0.72, 1000:0.65"
+                        value={priceBreakDrafts[type.name] ?? formatPriceBreaks(type.priceBreaks)}
+                        onChange={(e) => setPriceBreakDrafts(prev => ({ ...prev, [type.name]: e.target.value }))}
+                        onBlur={() => commitPriceBreaks(index)}
+                        className="h-8 min-w-[10rem]"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Quantities are rounded up to whole cases and the MOQ; a full pallet or higher price break is ordered when it costs less.
+          </p>
+        </div>
+
         <div className="mt-6 pt-4 border-t">
           <Button
             onClick={handleCalculateDemand}
@@ -1452,10 +1861,18 @@ export const ImprovedPackagingDemandPlanner = () => {
           <div className="px-6 py-4 bg-gray-50 border-b">
             <div className="flex items-center justify-between">
               <h3 className="text-lg font-semibold text-gray-900">Demand Forecast Results</h3>
-              <Button variant="outline" size="sm" onClick={exportResults}>
-                <Download className="h-4 w-4 mr-2" />
-                Export
-              </Button>
+              <div className="flex gap-2">
+                {analysisId && (
+                  <Button variant="outline" size="sm" onClick={handleCreatePurchaseOrders} disabled={isCreatingOrders}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    {isCreatingOrders ? 'Drafting...' : 'Create Purchase Orders'}
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={exportResults}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+              </div>
             </div>
           </div>
           
@@ -1478,6 +1895,12 @@ export const ImprovedPackagingDemandPlanner = () => {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Est. Cost
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Order Qty
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Order Cost
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Est. Weight
                   </th>
@@ -1485,9 +1908,16 @@ export const ImprovedPackagingDemandPlanner = () => {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {results.map((result, index) => (
-                  <tr key={index} className="hover:bg-gray-50">
+                  <React.Fragment key={index}>
+                  <tr className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="font-medium text-gray-900">{result.packageType}</div>
+                      {result.forecast && (
+                        <div className="text-xs text-gray-500">
+                          {FORECAST_MODEL_LABELS[result.forecast.model] || result.forecast.model}
+                          {result.forecast.holdoutError !== null && ` · holdout error ±${result.forecast.holdoutError.toFixed(0)}`}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">{result.usagePercentage.toFixed(1)}%</div>
@@ -1501,17 +1931,102 @@ export const ImprovedPackagingDemandPlanner = () => {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">${result.estimatedCost.toFixed(2)}</div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {result.ordering ? (
+                        <>
+                          <div className="font-medium text-gray-900">{result.ordering.orderQuantity.toLocaleString()}</div>
+                          {result.ordering.reason && (
+                            <div className="text-xs text-gray-500">{ORDERING_REASONS[result.ordering.reason]}</div>
+                          )}
+                        </>
+                      ) : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {result.ordering ? (
+                        <>
+                          <div className="text-sm text-gray-900">${result.ordering.orderCost.toFixed(2)}</div>
+                          <div className="text-xs text-gray-500">${result.ordering.unitPrice.toFixed(2)}/unit</div>
+                        </>
+                      ) : '—'}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">{result.estimatedWeight.toFixed(1)} lbs</div>
                     </td>
                   </tr>
+                  {result.forecast && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={8} className="px-6 py-2">
+                        <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-600">
+                          {result.forecast.periods.map(period => (
+                            <span key={period.label}>
+                              <span className="font-medium text-gray-900">{period.label}:</span>{' '}
+                              {period.forecast.toLocaleString()} ({period.lower.toLocaleString()}–{period.upper.toLocaleString()})
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
           </div>
+
+          {results.some(result => result.inventory) && (
+            <div className="overflow-x-auto border-t">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    {['Package Type', 'Safety Stock', 'Reorder Point', 'EOQ', 'Days of Cover', 'Reorder By', 'Stock-out'].map(heading => (
+                      <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {results.map((result, index) => result.inventory && (
+                    <tr key={index} className={result.inventory.needsReorder ? 'bg-red-50' : 'hover:bg-gray-50'}>
+                      <td className="px-6 py-3 whitespace-nowrap">
+                        <div className="font-medium text-gray-900">{result.packageType}</div>
+                        {result.inventory.needsReorder && (
+                          <div className="text-xs text-red-600 flex items-center">
+                            <AlertCircle className="h-3 w-3 mr-1" />
+                            At or below reorder point
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {result.inventory.safetyStock?.toLocaleString() ?? '—'}
+                        {result.inventory.safetyStockMethod === 'buffer' && (
+                          <span className="text-xs text-gray-500"> (buffer)</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {result.inventory.reorderPoint?.toLocaleString() ?? '—'}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {result.inventory.economicOrderQuantity?.toLocaleString() ?? '—'}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {result.inventory.daysOfCover ?? '—'}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {result.inventory.reorderDate ?? '—'}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {result.inventory.stockOutDate ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
           
           <div className="px-6 py-4 bg-gray-50 border-t">
-            <div className="grid grid-cols-3 gap-4 text-center">
+            <div className="grid grid-cols-4 gap-4 text-center">
               <div>
                 <div className="text-lg font-semibold text-gray-900">
                   {results.reduce((sum, r) => sum + r.finalQuantity, 0).toLocaleString()}
@@ -1524,6 +2039,12 @@ export const ImprovedPackagingDemandPlanner = () => {
                 </div>
                 <div className="text-xs text-gray-500">Total Cost</div>
               </div>
+              <div>
+                <div className="text-lg font-semibold text-gray-900">
+                  ${results.reduce((sum, r) => sum + (r.ordering?.orderCost ?? r.estimatedCost), 0).toFixed(2)}
+                </div>
+                <div className="text-xs text-gray-500">Orderable Cost</div>
+              </div>
               <div>
                 <div className="text-lg font-semibold text-gray-900">
                   {results.reduce((sum, r) => sum + r.estimatedWeight, 0).toFixed(1)} lbs
@@ -1534,6 +2055,16 @@ export const ImprovedPackagingDemandPlanner = () => {
           </div>
         </div>
       )}
+
+      <ForecastAccuracyPanel
+        currentBuffer={parseFloat(forecastParams.safetyBuffer) || 0}
+        onApplyBuffer={(buffer) => {
+          setForecastParams(prev => ({ ...prev, safetyBuffer: String(buffer) }));
+          toast.success(`Safety buffer set to ${buffer}%`);
+        }}
+      />
+
+      <PurchaseOrdersPanel />
     </div>
   );
 
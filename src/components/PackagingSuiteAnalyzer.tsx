@@ -1,4 +1,6 @@
 import { useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,6 +8,8 @@ import { Label } from '@/components/ui/label';
 import { Upload, FileSpreadsheet, BarChart3, Package, TrendingUp, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
 import { SuiteAnalyzer } from '@/lib/suiteAnalyzer';
 import type { SuiteAnalysisResult, ProcessingProgress } from '@/lib/suiteAnalyzer/types';
+import { isWorkbookFile, readTabularFile } from '@/lib/data/xlsxReader';
+import { WorkbookSheetSelect } from '@/components/WorkbookSheetSelect';
 
 export const PackagingSuiteAnalyzer = () => {
   const [files, setFiles] = useState<{
@@ -17,25 +21,47 @@ export const PackagingSuiteAnalyzer = () => {
     packagingSuite: null,
     baselineMix: null,
   });
+  const [workbookSheets, setWorkbookSheets] = useState<Partial<Record<keyof typeof files, { names: string[]; selected?: string }>>>({});
 
 
+  const defaultRateCard = useQuery(api.rateCards.getDefaultRateCard);
+  const zoneCharts = useQuery(api.zoneCharts.getZoneCharts);
+
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [progress, setProgress] = useState<ProcessingProgress | null>(null);
   const [results, setResults] = useState<SuiteAnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const handleFileUpload = (type: keyof typeof files, file: File | null) => {
+  const handleFileUpload = async (type: keyof typeof files, file: File | null) => {
     setFiles(prev => ({ ...prev, [type]: file }));
+    setWorkbookSheets(prev => ({ ...prev, [type]: undefined }));
     setError(null);
+
+    if (file && isWorkbookFile(file)) {
+      try {
+        const { sheetNames, sheetName } = await readTabularFile(file);
+        setWorkbookSheets(prev => ({ ...prev, [type]: { names: sheetNames, selected: sheetName } }));
+      } catch (err) {
+        setFiles(prev => ({ ...prev, [type]: null }));
+        setError(err instanceof Error ? err.message : 'Failed to read workbook');
+      }
+    }
   };
 
-  const readFileAsText = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as string);
-      reader.onerror = (e) => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
-    });
+  const renderSheetSelect = (type: keyof typeof files) => (
+    <WorkbookSheetSelect
+      id={`${type}-sheet`}
+      sheetNames={workbookSheets[type]?.names || []}
+      value={workbookSheets[type]?.selected}
+      onChange={(sheetName) => setWorkbookSheets(prev => ({ ...prev, [type]: { names: prev[type]?.names || [], selected: sheetName } }))}
+      className="mt-3 max-w-xs mx-auto"
+    />
+  );
+
+  // CSV files are read as-is; workbooks are read from the selected sheet
+  const readFileAsText = async (type: keyof typeof files, file: File): Promise<string> => {
+    const { csv } = await readTabularFile(file, workbookSheets[type]?.selected);
+    return csv;
   };
 
   const handleAnalyze = async () => {
@@ -51,9 +77,9 @@ export const PackagingSuiteAnalyzer = () => {
 
     try {
       // Read file contents
-      const orderHistoryCSV = await readFileAsText(files.orderHistory);
-      const packagingSuiteCSV = await readFileAsText(files.packagingSuite);
-      const baselineMixCSV = files.baselineMix ? await readFileAsText(files.baselineMix) : undefined;
+      const orderHistoryCSV = await readFileAsText('orderHistory', files.orderHistory);
+      const packagingSuiteCSV = await readFileAsText('packagingSuite', files.packagingSuite);
+      const baselineMixCSV = files.baselineMix ? await readFileAsText('baselineMix', files.baselineMix) : undefined;
 
 
       // Create analyzer instance
@@ -62,7 +88,11 @@ export const PackagingSuiteAnalyzer = () => {
           allowRotation: true,
           allowStacking: true,
           includeShippingCosts: true,
-          minimumFillRate: 30
+          minimumFillRate: 30,
+          rateCard: defaultRateCard
+            ? { name: defaultRateCard.name, services: defaultRateCard.services }
+            : undefined,
+          zoneCharts: zoneCharts?.map(chart => ({ name: chart.name, originZip: chart.originZip, zones: chart.zones }))
         },
         (progressUpdate) => setProgress(progressUpdate)
       );
@@ -158,6 +188,7 @@ export const PackagingSuiteAnalyzer = () => {
                       </div>
                     )}
                   </Button>
+                  {renderSheetSelect('orderHistory')}
                 </div>
               </div>
 
@@ -183,6 +214,7 @@ export const PackagingSuiteAnalyzer = () => {
                   >
                     {files.packagingSuite ? files.packagingSuite.name : 'Choose File'}
                   </Button>
+                  {renderSheetSelect('packagingSuite')}
                 </div>
               </div>
 
@@ -205,6 +237,7 @@ export const PackagingSuiteAnalyzer = () => {
                   >
                     {files.baselineMix ? files.baselineMix.name : 'Upload Baseline Mix'}
                   </Button>
+                  {renderSheetSelect('baselineMix')}
                 </div>
               </div>
             </CardContent>
@@ -344,6 +377,37 @@ export const PackagingSuiteAnalyzer = () => {
                     ))}
                   </div>
                 </div>
+
+                {/* Carrier Surcharges */}
+                {results.surchargeSummary && results.surchargeSummary.length > 0 && (
+                  <div>
+                    <h3 className="text-base font-medium text-gray-900 mb-4">Carrier Surcharges</h3>
+                    <div className="space-y-3">
+                      {results.surchargeSummary.map((summary) => (
+                        <div key={summary.packageName} className="bg-gray-50 p-4 rounded-lg">
+                          <div className="flex items-start justify-between">
+                            <div className="flex-1">
+                              <div className="text-sm font-medium text-gray-900 mb-1">{summary.packageName}</div>
+                              <p className="text-sm text-gray-600">
+                                {Object.entries(summary.bySurcharge)
+                                  .map(([name, entry]) => `${name}: ${entry.orders} orders`)
+                                  .join(' · ')}
+                              </p>
+                            </div>
+                            <div className="text-right ml-4">
+                              <div className="text-sm font-medium text-red-600">
+                                ${Math.round(summary.surchargeCost)}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                {summary.ordersWithSurcharges} orders affected
+                              </div>
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
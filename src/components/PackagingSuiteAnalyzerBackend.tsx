@@ -1,8 +1,9 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   ArrowUpTrayIcon as Upload,
   DocumentIcon as FileSpreadsheet,
@@ -19,14 +20,22 @@ import {
 import { ProductManual } from '@/components/ui/ProductManual';
 import { CSVFormatGuide } from '@/components/ui/CSVFormatGuide';
 import { useTokenGuard } from '@/hooks/useTokenGuard';
-import { useMutation } from 'convex/react';
+import { trackSuiteRationalization } from '@/hooks/useSuiteRationalization';
+import { useAction, useMutation, useQuery } from 'convex/react';
 import { api } from '../../convex/_generated/api';
+import { parseCSVRows } from '@/lib/data/csvReader';
+import { isWorkbookFile, readTabularFile, rowsToCSV } from '@/lib/data/xlsxReader';
+import { WorkbookSheetSelect } from '@/components/WorkbookSheetSelect';
+import { ColumnMapper } from '@/components/ColumnMapper';
+import { applyCatalogToOrderRows } from '@/lib/data/productCatalog';
+import { resolveRowZone } from '@/lib/calculations/zoneResolver';
 
 
 export const PackagingSuiteAnalyzerBackend = () => {
   const navigate = useNavigate();
   const { checkAndConsumeToken, tokenBalance } = useTokenGuard();
   const createAnalysis = useMutation(api.analyses.create);
+  const rationalizeSuite = useAction(api.suiteAnalyzerBackend.rationalizeSuite);
   const [showHelpModal, setShowHelpModal] = useState(true); // Show automatically on load
   const [files, setFiles] = useState<{
     orderHistory: File | null;
@@ -35,12 +44,32 @@ export const PackagingSuiteAnalyzerBackend = () => {
     orderHistory: null,
     packagingSuite: null,
   });
+  const [workbookSheets, setWorkbookSheets] = useState<Partial<Record<keyof typeof files, { names: string[]; selected?: string }>>>({});
+  // Order rows as uploaded, and as rewritten by the column mapping step
+  const [orderRows, setOrderRows] = useState<string[][] | null>(null);
+  const [mappedOrderRows, setMappedOrderRows] = useState<string[][] | null>(null);
+
+  // Fill missing dimensions from the SKU master catalog
+  const products = useQuery(api.products.getProducts);
+  // Shipping is quoted from the user's default rate card, when they have one
+  const defaultRateCard = useQuery(api.rateCards.getDefaultRateCard);
+  const surchargeRules = useQuery(api.surchargeRules.getSurchargeRules);
+  // Zones come from destination ZIPs when the user has uploaded zone charts
+  const zoneCharts = useQuery(api.zoneCharts.getZoneCharts);
+  const catalogJoin = useMemo(
+    () => mappedOrderRows && products ? applyCatalogToOrderRows(mappedOrderRows, products) : null,
+    [mappedOrderRows, products]
+  );
 
   const [manualPackages, setManualPackages] = useState([
     { name: '', id: '', length: '', width: '', height: '', cost: '', weight: '', usage: '' }
   ]);
   const [useManualPackageInput, setUseManualPackageInput] = useState(false);
 
+  // Optionally propose an N-box suite alongside the allocation
+  const [rationalizeEnabled, setRationalizeEnabled] = useState(false);
+  const [targetSuiteSize, setTargetSuiteSize] = useState('5');
+
   // Step interface state
   const [currentStep, setCurrentStep] = useState(1);
   
@@ -56,7 +85,7 @@ export const PackagingSuiteAnalyzerBackend = () => {
   // Step validation
   const isStep1Valid = files.orderHistory !== null;
   const isStep2Valid = files.packagingSuite !== null || (useManualPackageInput && manualPackages.some(pkg => pkg.name && pkg.length && pkg.width && pkg.height));
-  const isStep3Valid = isStep1Valid && isStep2Valid;
+  const isStep3Valid = isStep1Valid && isStep2Valid && (!rationalizeEnabled || parseInt(targetSuiteSize) >= 1);
 
   const steps = [
     { 
@@ -87,22 +116,20 @@ export const PackagingSuiteAnalyzerBackend = () => {
     console.log('Parsing CSV with length:', csv.length);
     console.log('First 500 chars of CSV:', csv.substring(0, 500));
     
-    const lines = csv.trim().split('\n').filter(line => line.trim() !== '');
-    console.log('Total lines in CSV:', lines.length);
+    const rows = parseCSVRows(csv);
+    console.log('Total rows in CSV:', rows.length);
     
-    if (lines.length === 0) return [];
+    if (rows.length === 0) return [];
     
-    const headers = lines[0].split(',').map(h => h.trim());
+    const headers = rows[0];
     console.log('CSV Headers:', headers);
     
     // Map to aggregate orders by Order ID
     const orderMap = new Map<string, any>();
+    const charts = (zoneCharts || []).map(chart => ({ name: chart.name, originZip: chart.originZip, zones: chart.zones }));
     
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-      
-      const values = line.split(',').map(v => v.trim());
+    for (let i = 1; i < rows.length; i++) {
+      const values = rows[i];
       const order: any = {};
       
       headers.forEach((header, index) => {
@@ -190,7 +217,8 @@ export const PackagingSuiteAnalyzerBackend = () => {
             weight: parseFloat(order.weight) || 1,
             category: order.category || 'General',
             priority: order.priority || 'standard',
-            zone: order.zone || 'domestic',
+            zone: resolveRowZone(charts, order) || 'domestic',
+            orderDate: Date.parse(order.order_date || order.orderdate || order.date || order.created_at || ''),
             items: [{
               sku: order.sku,
               volume: volumeNum,
@@ -210,7 +238,7 @@ export const PackagingSuiteAnalyzerBackend = () => {
     // Convert map to array
     const orders = Array.from(orderMap.values());
     
-    console.log(`Aggregated ${orders.length} unique orders from ${lines.length - 1} data rows`);
+    console.log(`Aggregated ${orders.length} unique orders from ${rows.length - 1} data rows`);
     orders.slice(0, 3).forEach(order => {
       console.log(`Order ${order.orderId}:`, {
         totalVolume: order.originalVolume,
@@ -224,14 +252,14 @@ export const PackagingSuiteAnalyzerBackend = () => {
 
   const parsePackagingSuiteCSV = (csv: string) => {
     console.log('Parsing packaging CSV with length:', csv.length);
-    const lines = csv.trim().split('\n');
+    const rows = parseCSVRows(csv);
 
     // Find the header row (skip title rows if they exist)
     let headerIndex = 0;
     const expectedHeaders = ['package', 'type', 'name', 'length', 'width', 'height', 'cost', 'weight', 'price'];
 
-    for (let i = 0; i < Math.min(5, lines.length); i++) {
-      const potentialHeaders = lines[i].toLowerCase();
+    for (let i = 0; i < Math.min(5, rows.length); i++) {
+      const potentialHeaders = rows[i].join(',').toLowerCase();
       if (expectedHeaders.some(h => potentialHeaders.includes(h))) {
         headerIndex = i;
         console.log(`Found headers at row ${i + 1}`);
@@ -239,12 +267,12 @@ export const PackagingSuiteAnalyzerBackend = () => {
       }
     }
 
-    const headers = lines[headerIndex].split(',').map(h => h.trim());
+    const headers = rows[headerIndex] || [];
     console.log('Package CSV Headers:', headers);
 
     const packages = [];
-    for (let i = headerIndex + 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim());
+    for (let i = headerIndex + 1; i < rows.length; i++) {
+      const values = rows[i];
       const pkg: any = {};
       
       headers.forEach((header, index) => {
@@ -306,9 +334,45 @@ export const PackagingSuiteAnalyzerBackend = () => {
   };
 
 
-  const handleFileUpload = (type: keyof typeof files, file: File | null) => {
+  const handleFileUpload = async (type: keyof typeof files, file: File | null) => {
     setFiles(prev => ({ ...prev, [type]: file }));
+    setWorkbookSheets(prev => ({ ...prev, [type]: undefined }));
     setError(null);
+    if (type === 'orderHistory') {
+      setOrderRows(null);
+      setMappedOrderRows(null);
+    }
+
+    // Order data is read up front so its columns can be mapped before analysis
+    if (file && (isWorkbookFile(file) || type === 'orderHistory')) {
+      try {
+        const { rows, sheetNames, sheetName } = await readTabularFile(file);
+        setWorkbookSheets(prev => ({ ...prev, [type]: { names: sheetNames, selected: sheetName } }));
+        if (type === 'orderHistory') setOrderRows(rows);
+      } catch (err) {
+        setFiles(prev => ({ ...prev, [type]: null }));
+        setError(err instanceof Error ? err.message : 'Failed to read file');
+      }
+    }
+  };
+
+  const handleSheetChange = async (type: keyof typeof files, sheetName: string) => {
+    setWorkbookSheets(prev => ({ ...prev, [type]: { names: prev[type]?.names || [], selected: sheetName } }));
+
+    const file = files[type];
+    if (type === 'orderHistory' && file) {
+      setError(null);
+      try {
+        const { rows } = await readTabularFile(file, sheetName);
+        setOrderRows(rows);
+      } catch (err) {
+        setFiles(prev => ({ ...prev, [type]: null }));
+        setWorkbookSheets(prev => ({ ...prev, [type]: undefined }));
+        setOrderRows(null);
+        setMappedOrderRows(null);
+        setError(err instanceof Error ? err.message : 'Failed to read file');
+      }
+    }
   };
 
   const addPackageRow = () => {
@@ -325,13 +389,10 @@ export const PackagingSuiteAnalyzerBackend = () => {
     setManualPackages(updated);
   };
 
-  const readFileAsText = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as string);
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
-    });
+  // CSV files are read as-is; workbooks are read from the selected sheet
+  const readFileAsText = async (type: keyof typeof files, file: File): Promise<string> => {
+    const { csv } = await readTabularFile(file, workbookSheets[type]?.selected);
+    return csv;
   };
 
   const handleAnalyze = async () => {
@@ -369,7 +430,9 @@ export const PackagingSuiteAnalyzerBackend = () => {
       
       // Read file contents
       console.log('Reading order data...');
-      const orderHistoryCSV = await readFileAsText(files.orderHistory);
+      const orderHistoryCSV = mappedOrderRows
+        ? rowsToCSV(catalogJoin?.rows || mappedOrderRows)
+        : await readFileAsText('orderHistory', files.orderHistory);
       
       console.log('Reading/creating packaging suite...');
       let packagingSuiteCSV: string;
@@ -392,7 +455,7 @@ export const PackagingSuiteAnalyzerBackend = () => {
         packagingSuiteCSV = [headers.join(','), ...rows].join('\n');
         console.log('Created packaging suite CSV from manual input:', packagingSuiteCSV);
       } else {
-        packagingSuiteCSV = await readFileAsText(files.packagingSuite);
+        packagingSuiteCSV = await readFileAsText('packagingSuite', files.packagingSuite);
       }
       
       // Start Web Worker analysis with token check
@@ -429,6 +492,14 @@ export const PackagingSuiteAnalyzerBackend = () => {
         // Generate analysis ID for navigation
         const analysisId = `client-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
 
+        // Rationalization runs on the server; the results page shows it as pending until it finishes
+        if (rationalizeEnabled) {
+          trackSuiteRationalization(
+            analysisId,
+            rationalizeSuite({ orderHistoryCSV, packagingSuiteCSV, targetSuiteSize: parseInt(targetSuiteSize) })
+          );
+        }
+
         // Start Web Worker processing
         console.log('Starting Web Worker processing...');
         setIsProcessing(true);
@@ -509,7 +580,9 @@ export const PackagingSuiteAnalyzerBackend = () => {
             weight: order.weight || 1,
             length: order.hasActualDimensions ? order.length : undefined,
             width: order.hasActualDimensions ? order.width : undefined,
-            height: order.hasActualDimensions ? order.height : undefined
+            height: order.hasActualDimensions ? order.height : undefined,
+            zone: order.zone,
+            orderDate: Number.isNaN(order.orderDate) ? undefined : order.orderDate
           }));
 
           // Log package costs before sending to worker
@@ -523,7 +596,11 @@ export const PackagingSuiteAnalyzerBackend = () => {
           // Send data to worker
           workerRef.current.postMessage({
             orders: workerOrders,
-            packages
+            packages,
+            rateCard: defaultRateCard
+              ? { name: defaultRateCard.name, services: defaultRateCard.services }
+              : undefined,
+            surchargeRules: surchargeRules || undefined
           });
         }).catch((error) => {
           console.error('Failed to load Web Worker:', error);
@@ -623,7 +700,7 @@ export const PackagingSuiteAnalyzerBackend = () => {
           <label className="relative block">
             <input
               type="file"
-              accept=".csv"
+              accept=".csv,.xlsx"
               onChange={(e) => handleFileUpload('orderHistory', e.target.files?.[0] || null)}
               className="hidden"
             />
@@ -633,7 +710,7 @@ export const PackagingSuiteAnalyzerBackend = () => {
               </div>
               <h4 className="text-lg font-semibold text-gray-900 mb-2">Upload Order History CSV</h4>
               <p className="text-gray-600 mb-1">Click to browse or drag and drop your file</p>
-              <p className="text-sm text-gray-500">CSV file with the format shown above</p>
+              <p className="text-sm text-gray-500">CSV or Excel file with the format shown above</p>
             </div>
           </label>
         ) : (
@@ -654,8 +731,28 @@ export const PackagingSuiteAnalyzerBackend = () => {
                 <X className="h-4 w-4" />
               </Button>
             </div>
+            <WorkbookSheetSelect
+              id="order-history-sheet"
+              sheetNames={workbookSheets.orderHistory?.names || []}
+              value={workbookSheets.orderHistory?.selected}
+              onChange={(sheetName) => handleSheetChange('orderHistory', sheetName)}
+              className="mt-4 max-w-xs"
+            />
           </div>
         )}
+
+        {files.orderHistory && orderRows && (
+          <ColumnMapper schema="orders" rows={orderRows} onChange={setMappedOrderRows} className="mt-6" />
+        )}
+
+        {catalogJoin && catalogJoin.matchedRows > 0 && (
+          <p className="mt-3 text-sm text-gray-600">
+            Product catalog: {catalogJoin.filledRows.toLocaleString()} of {catalogJoin.matchedRows.toLocaleString()} matched
+            rows filled with catalog dimensions
+            {catalogJoin.estimatedRows > 0 && ` (${catalogJoin.estimatedRows.toLocaleString()} from AI estimates)`}
+            {catalogJoin.unmatchedSkus.length > 0 && ` · ${catalogJoin.unmatchedSkus.length.toLocaleString()} SKUs not in catalog`}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -714,7 +811,7 @@ export const PackagingSuiteAnalyzerBackend = () => {
               <label className="relative block">
                 <input
                   type="file"
-                  accept=".csv"
+                  accept=".csv,.xlsx"
                   onChange={(e) => handleFileUpload('packagingSuite', e.target.files?.[0] || null)}
                   className="hidden"
                 />
@@ -724,7 +821,7 @@ export const PackagingSuiteAnalyzerBackend = () => {
                   </div>
                   <h4 className="text-lg font-semibold text-gray-900 mb-2">Upload Packaging Types CSV</h4>
                   <p className="text-gray-600 mb-1">Click to browse or drag and drop your file</p>
-                  <p className="text-sm text-gray-500">CSV file with the format shown above</p>
+                  <p className="text-sm text-gray-500">CSV or Excel file with the format shown above</p>
                 </div>
               </label>
           ) : (
@@ -745,6 +842,13 @@ export const PackagingSuiteAnalyzerBackend = () => {
                   <X className="h-4 w-4" />
                 </Button>
               </div>
+              <WorkbookSheetSelect
+                id="packaging-suite-sheet"
+                sheetNames={workbookSheets.packagingSuite?.names || []}
+                value={workbookSheets.packagingSuite?.selected}
+                onChange={(sheetName) => handleSheetChange('packagingSuite', sheetName)}
+                className="mt-4 max-w-xs"
+              />
             </div>
           )}
           </>
@@ -900,6 +1004,40 @@ export const PackagingSuiteAnalyzerBackend = () => {
             </div>
           </div>
 
+          <div className="border border-gray-200 rounded-xl p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="rationalize" className="font-medium text-gray-900">
+                  Propose a Rationalized Suite
+                </Label>
+                <p className="text-sm text-gray-600 mt-1">
+                  Design the set of boxes that best covers your orders and compare it with your current suite
+                </p>
+              </div>
+              <Switch
+                id="rationalize"
+                checked={rationalizeEnabled}
+                onCheckedChange={setRationalizeEnabled}
+              />
+            </div>
+            {rationalizeEnabled && (
+              <div className="flex items-center gap-3 mt-4">
+                <Label htmlFor="target-suite-size" className="text-sm">
+                  Number of boxes
+                </Label>
+                <Input
+                  id="target-suite-size"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={targetSuiteSize}
+                  onChange={(e) => setTargetSuiteSize(e.target.value)}
+                  className="w-24"
+                />
+              </div>
+            )}
+          </div>
+
           {currentAnalysisId && (
             <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
               <div className="flex items-center gap-2 text-yellow-800">
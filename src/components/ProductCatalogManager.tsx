@@ -0,0 +1,354 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Package, Trash2, Download, Pencil, History, Check, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { parseProductCatalogData, generateCSVTemplate } from '@/lib/data/csvParser';
+import { readTabularFile } from '@/lib/data/xlsxReader';
+import { SpecReviewQueue } from '@/components/SpecReviewQueue';
+
+const IMPORT_BATCH_SIZE = 500;
+const VISIBLE_PRODUCTS = 50;
+
+type ProductDraft = {
+  name: string;
+  category: string;
+  length: string;
+  width: string;
+  height: string;
+  weight: string;
+  fragile: boolean;
+};
+
+const formatValue = (value: string | number | boolean | undefined) =>
+  value === undefined ? '—' : typeof value === 'boolean' ? (value ? 'yes' : 'no') : String(value);
+
+const ProductHistory = ({ productId }: { productId: Id<'products'> }) => {
+  const history = useQuery(api.products.getProductHistory, { productId });
+
+  if (history === undefined) {
+    return <p className="text-xs text-gray-500">Loading history...</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs text-gray-600">
+      {history.map(entry => (
+        <li key={entry._id}>
+          <span className="font-medium text-gray-800">{new Date(entry.changedAt).toLocaleString()}</span>
+          {' · '}{entry.action} ({entry.source})
+          {entry.action === 'updated' && ': ' + entry.changes
+            .map(change => `${change.field} ${formatValue(change.before)} → ${formatValue(change.after)}`)
+            .join(', ')}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+// SKU master catalog: import, search, edit and history of product dimensions
+export const ProductCatalogManager = () => {
+  const products = useQuery(api.products.getProducts);
+  const importProducts = useMutation(api.products.importProducts);
+  const updateProduct = useMutation(api.products.updateProduct);
+  const deleteProduct = useMutation(api.products.deleteProduct);
+
+  const [search, setSearch] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [editing, setEditing] = useState<{ id: Id<'products'>; draft: ProductDraft } | null>(null);
+  const [historyFor, setHistoryFor] = useState<Id<'products'> | null>(null);
+
+  const filteredProducts = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return (products || []).filter(product =>
+      !term ||
+      product.sku.toLowerCase().includes(term) ||
+      product.name.toLowerCase().includes(term) ||
+      (product.category || '').toLowerCase().includes(term)
+    );
+  }, [products, search]);
+
+  const handleUpload = async (file: File | null) => {
+    if (!file) return;
+
+    setIsUploading(true);
+    setParseErrors([]);
+    try {
+      const { rows } = await readTabularFile(file);
+      const parsed = parseProductCatalogData(rows);
+      const messages = parsed.errors.map(error => `Row ${error.row}: ${error.message}`);
+      if (!parsed.success) {
+        setParseErrors(messages.slice(0, 5));
+        toast.error('Catalog could not be imported');
+        return;
+      }
+      setParseErrors(messages.slice(0, 5));
+
+      const totals = { created: 0, updated: 0, unchanged: 0 };
+      for (let i = 0; i < parsed.data.length; i += IMPORT_BATCH_SIZE) {
+        const batch = parsed.data.slice(i, i + IMPORT_BATCH_SIZE).map(entry => ({
+          sku: entry.sku,
+          name: entry.name,
+          description: entry.description,
+          category: entry.category || undefined,
+          length: entry.dimensions!.length,
+          width: entry.dimensions!.width,
+          height: entry.dimensions!.height,
+          weight: entry.weight,
+          fragile: entry.fragile
+        }));
+        const result = await importProducts({ products: batch });
+        totals.created += result.created;
+        totals.updated += result.updated;
+        totals.unchanged += result.unchanged;
+      }
+
+      toast.success(`Catalog imported: ${totals.created} new, ${totals.updated} updated, ${totals.unchanged} unchanged`);
+    } catch (error) {
+      console.error('Failed to import catalog:', error);
+      toast.error(`Failed to import catalog: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const blob = new Blob([generateCSVTemplate('catalog')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'product_catalog_template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const startEditing = (product: Doc<'products'>) => {
+    setEditing({
+      id: product._id,
+      draft: {
+        name: product.name,
+        category: product.category || '',
+        length: String(product.length),
+        width: String(product.width),
+        height: String(product.height),
+        weight: product.weight !== undefined ? String(product.weight) : '',
+        fragile: product.fragile
+      }
+    });
+  };
+
+  const updateDraft = (update: Partial<ProductDraft>) => {
+    setEditing(prev => prev ? { ...prev, draft: { ...prev.draft, ...update } } : prev);
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const { draft } = editing;
+    try {
+      await updateProduct({
+        productId: editing.id,
+        name: draft.name,
+        category: draft.category.trim() || undefined,
+        length: parseFloat(draft.length),
+        width: parseFloat(draft.width),
+        height: parseFloat(draft.height),
+        weight: draft.weight.trim() ? parseFloat(draft.weight) : undefined,
+        fragile: draft.fragile
+      });
+      setEditing(null);
+      toast.success('Product updated');
+    } catch (error) {
+      toast.error(`Failed to update product: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDelete = async (productId: Id<'products'>) => {
+    try {
+      await deleteProduct({ productId });
+      toast.success('Product deleted');
+    } catch (error) {
+      toast.error(`Failed to delete product: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Product Catalog</h2>
+        <p className="text-sm text-gray-500">
+          Upload your SKU master data so orders without dimensions are filled from real product measurements.
+        </p>
+      </div>
+
+      <div className="p-4 border border-gray-200 rounded-3xl space-y-3">
+        <div className="grid gap-3 md:grid-cols-2">
+          <div>
+            <Label htmlFor="catalogFile" className="text-gray-700 font-medium">Catalog (CSV or Excel)</Label>
+            <Input
+              id="catalogFile"
+              type="file"
+              accept=".csv,.xlsx"
+              className="mt-2"
+              disabled={isUploading}
+              onChange={(e) => {
+                handleUpload(e.target.files?.[0] || null);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          <div>
+            <Label htmlFor="catalogSearch" className="text-gray-700 font-medium">Search</Label>
+            <Input
+              id="catalogSearch"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="mt-2"
+              placeholder="SKU, name or category"
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>Columns: sku, length, width, height. Optional: name, category, weight, fragile, unit columns.</span>
+          <Button variant="ghost" size="sm" onClick={handleDownloadTemplate} className="rounded-full">
+            <Download className="h-4 w-4 mr-1" />
+            Template
+          </Button>
+        </div>
+        {parseErrors.length > 0 && (
+          <ul className="text-sm text-red-600 space-y-1">
+            {parseErrors.map((message, index) => <li key={index}>{message}</li>)}
+          </ul>
+        )}
+      </div>
+
+      <SpecReviewQueue />
+
+      {products === undefined ? (
+        <p className="text-sm text-gray-500">Loading catalog...</p>
+      ) : products.length === 0 ? (
+        <div className="p-6 text-center border border-dashed border-gray-200 rounded-3xl">
+          <Package className="h-6 w-6 text-gray-400 mx-auto mb-2" />
+          <p className="text-sm text-gray-500">No products yet. Orders without dimensions use fallback averages.</p>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-3xl overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                <th className="px-4 py-2 font-medium">SKU</th>
+                <th className="px-4 py-2 font-medium">Name</th>
+                <th className="px-4 py-2 font-medium">L × W × H (in)</th>
+                <th className="px-4 py-2 font-medium">Weight (lb)</th>
+                <th className="px-4 py-2 font-medium">Fragile</th>
+                <th className="px-4 py-2 font-medium">Source</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {filteredProducts.slice(0, VISIBLE_PRODUCTS).map(product => {
+                const draft = editing?.id === product._id ? editing.draft : null;
+                return [
+                  <tr key={product._id} className="border-b border-gray-100 text-gray-700">
+                    <td className="px-4 py-2 font-medium text-gray-900">{product.sku}</td>
+                    {draft ? (
+                      <>
+                        <td className="px-4 py-2">
+                          <Input value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} className="h-8 text-sm" />
+                        </td>
+                        <td className="px-4 py-2">
+                          <div className="flex gap-1">
+                            {(['length', 'width', 'height'] as const).map(side => (
+                              <Input
+                                key={side}
+                                type="number"
+                                step="any"
+                                value={draft[side]}
+                                onChange={(e) => updateDraft({ [side]: e.target.value })}
+                                className="h-8 text-sm w-16"
+                              />
+                            ))}
+                          </div>
+                        </td>
+                        <td className="px-4 py-2">
+                          <Input
+                            type="number"
+                            step="any"
+                            value={draft.weight}
+                            onChange={(e) => updateDraft({ weight: e.target.value })}
+                            className="h-8 text-sm w-20"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="checkbox"
+                            checked={draft.fragile}
+                            onChange={(e) => updateDraft({ fragile: e.target.checked })}
+                          />
+                        </td>
+                      </>
+                    ) : (
+                      <>
+                        <td className="px-4 py-2">{product.name}</td>
+                        <td className="px-4 py-2">{product.length} × {product.width} × {product.height}</td>
+                        <td className="px-4 py-2">{product.weight ?? '—'}</td>
+                        <td className="px-4 py-2">{product.fragile ? 'Yes' : 'No'}</td>
+                      </>
+                    )}
+                    <td className="px-4 py-2 text-xs text-gray-500">
+                      {product.source === 'ai' ? `AI estimate (${product.confidence ?? 'medium'})` : product.source}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex justify-end gap-1">
+                        {draft ? (
+                          <>
+                            <Button variant="ghost" size="sm" className="rounded-full" onClick={handleSave}>
+                              <Check className="h-4 w-4 text-emerald-600" />
+                            </Button>
+                            <Button variant="ghost" size="sm" className="rounded-full" onClick={() => setEditing(null)}>
+                              <X className="h-4 w-4 text-gray-500" />
+                            </Button>
+                          </>
+                        ) : (
+                          <Button variant="ghost" size="sm" className="rounded-full" onClick={() => startEditing(product)}>
+                            <Pencil className="h-4 w-4 text-gray-500" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="rounded-full"
+                          onClick={() => setHistoryFor(historyFor === product._id ? null : product._id)}
+                        >
+                          <History className="h-4 w-4 text-gray-500" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="rounded-full" onClick={() => handleDelete(product._id)}>
+                          <Trash2 className="h-4 w-4 text-gray-500" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>,
+                  historyFor === product._id && (
+                    <tr key={`${product._id}-history`} className="border-b border-gray-100 bg-gray-50">
+                      <td colSpan={7} className="px-4 py-3">
+                        <ProductHistory productId={product._id} />
+                      </td>
+                    </tr>
+                  )
+                ];
+              })}
+            </tbody>
+          </table>
+          <p className="px-4 py-2 text-xs text-gray-500">
+            {filteredProducts.length > VISIBLE_PRODUCTS
+              ? `Showing ${VISIBLE_PRODUCTS} of ${filteredProducts.length} products; search to narrow the list.`
+              : `${filteredProducts.length} of ${products.length} products`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
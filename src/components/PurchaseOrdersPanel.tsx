@@ -0,0 +1,135 @@
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import { Button } from '@/components/ui/button';
+import { ClipboardList, Download, FileText, Send, PackageCheck, Undo2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { exportPurchaseOrdersToCSV, exportPurchaseOrderToPDF } from '@/lib/demandPlannerExport';
+
+type PurchaseOrderStatus = Doc<'purchaseOrders'>['status'];
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-50 text-blue-700',
+  received: 'bg-emerald-50 text-emerald-700'
+};
+
+// Purchase orders drafted from Demand Planner results, with their draft → sent → received lifecycle
+export const PurchaseOrdersPanel = () => {
+  const orders = useQuery(api.purchaseOrders.getPurchaseOrders, {});
+  const updateStatus = useMutation(api.purchaseOrders.updatePurchaseOrderStatus);
+  const deleteOrder = useMutation(api.purchaseOrders.deletePurchaseOrder);
+
+  if (!orders || orders.length === 0) {
+    return null;
+  }
+
+  const handleStatus = async (order: Doc<'purchaseOrders'>, status: PurchaseOrderStatus) => {
+    try {
+      await updateStatus({ purchaseOrderId: order._id, status });
+      if (status === 'received') {
+        toast.success(`${order.poNumber} received; on-hand stock updated`);
+      }
+    } catch (error) {
+      toast.error(`Failed to update ${order.poNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDelete = async (purchaseOrderId: Id<'purchaseOrders'>) => {
+    try {
+      await deleteOrder({ purchaseOrderId });
+    } catch (error) {
+      toast.error(`Failed to delete purchase order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const openOrders = orders.filter(order => order.status !== 'received');
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="px-6 py-4 bg-gray-50 border-b flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Purchase Orders</h3>
+          <span className="text-sm text-gray-500">{openOrders.length} open</span>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => exportPurchaseOrdersToCSV(openOrders)} disabled={openOrders.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export Open
+        </Button>
+      </div>
+
+      <div className="divide-y divide-gray-200">
+        {orders.map(order => (
+          <div key={order._id} className="px-6 py-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{order.poNumber}</span>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[order.status]}`}>{order.status}</span>
+                </div>
+                <p className="text-sm text-gray-500">
+                  {order.supplier} • {order.lines.length} line{order.lines.length === 1 ? '' : 's'} • ${order.totalCost.toFixed(2)} • deliver by {order.requestedDeliveryDate}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {order.status === 'draft' && (
+                  <>
+                    <Button size="sm" variant="outline" onClick={() => handleStatus(order, 'sent')}>
+                      <Send className="h-4 w-4 mr-1" />
+                      Mark Sent
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(order._id)} className="text-red-600 border-red-300 hover:bg-red-50">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                {order.status === 'sent' && (
+                  <>
+                    <Button size="sm" variant="outline" onClick={() => handleStatus(order, 'draft')}>
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Recall
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleStatus(order, 'received')}>
+                      <PackageCheck className="h-4 w-4 mr-1" />
+                      Mark Received
+                    </Button>
+                  </>
+                )}
+                <Button size="sm" variant="outline" onClick={() => exportPurchaseOrdersToCSV([order])}>
+                  <Download className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => exportPurchaseOrderToPDF(order)}>
+                  <FileText className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <table className="w-full text-sm mt-3">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-1 font-medium">Package Type</th>
+                  <th className="py-1 font-medium text-right">Qty</th>
+                  <th className="py-1 font-medium text-right">Unit Price</th>
+                  <th className="py-1 font-medium text-right">Extended</th>
+                  <th className="py-1 pl-4 font-medium">Deliver By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {order.lines.map(line => (
+                  <tr key={line.packageType}>
+                    <td className="py-1 text-gray-900">{line.packageType}</td>
+                    <td className="py-1 text-right">{line.quantity.toLocaleString()}</td>
+                    <td className="py-1 text-right">${line.unitPrice.toFixed(2)}</td>
+                    <td className="py-1 text-right">${line.extendedCost.toFixed(2)}</td>
+                    <td className="py-1 pl-4 text-gray-600">{line.requestedDeliveryDate}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
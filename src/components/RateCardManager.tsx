@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { designSystem } from '@/lib/design-system';
+import { Upload, Truck, Trash2, CheckCircle2, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { parseRateCardData, generateCSVTemplate } from '@/lib/data/csvParser';
+import { buildRateCard } from '@/lib/calculations/rateEngine';
+
+export const RateCardManager = () => {
+  const rateCards = useQuery(api.rateCards.getRateCards);
+  const saveRateCard = useMutation(api.rateCards.saveRateCard);
+  const setDefaultRateCard = useMutation(api.rateCards.setDefaultRateCard);
+  const deleteRateCard = useMutation(api.rateCards.deleteRateCard);
+
+  const [name, setName] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+
+  const handleUpload = async (file: File | null) => {
+    if (!file) return;
+
+    setIsUploading(true);
+    setParseErrors([]);
+    try {
+      const parsed = parseRateCardData(await file.text());
+      if (!parsed.success) {
+        setParseErrors(parsed.errors.slice(0, 5).map(error => `Row ${error.row}: ${error.message}`));
+        toast.error('Rate card could not be imported');
+        return;
+      }
+
+      const rateCard = buildRateCard(parsed.data, name.trim() || file.name.replace(/\.csv$/i, ''));
+      await saveRateCard({ name: rateCard.name, services: rateCard.services });
+      setName('');
+      toast.success(`Imported ${rateCard.services.length} service${rateCard.services.length === 1 ? '' : 's'} from ${file.name}`);
+    } catch (error) {
+      console.error('Failed to import rate card:', error);
+      toast.error(`Failed to import rate card: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const blob = new Blob([generateCSVTemplate('rate_card')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'rate_card_template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSetDefault = async (rateCardId: Id<'rateCards'>) => {
+    try {
+      await setDefaultRateCard({ rateCardId });
+      toast.success('Default rate card updated');
+    } catch (error) {
+      toast.error(`Failed to update rate card: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDelete = async (rateCardId: Id<'rateCards'>) => {
+    try {
+      await deleteRateCard({ rateCardId });
+      toast.success('Rate card deleted');
+    } catch (error) {
+      toast.error(`Failed to delete rate card: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Carrier Rates</h2>
+        <p className="text-sm text-gray-500">
+          Upload your negotiated carrier rate tables. The default card prices every parcel in Suite Analyzer and cost calculations.
+        </p>
+      </div>
+
+      <div className="p-4 border border-gray-200 rounded-3xl space-y-3">
+        <div className="grid gap-3 md:grid-cols-2">
+          <div>
+            <Label htmlFor="rateCardName" className="text-gray-700 font-medium">Rate Card Name</Label>
+            <Input
+              id="rateCardName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-2"
+              placeholder="e.g. UPS 2025 contract"
+            />
+          </div>
+          <div>
+            <Label htmlFor="rateCardFile" className="text-gray-700 font-medium">Rate Table (CSV)</Label>
+            <Input
+              id="rateCardFile"
+              type="file"
+              accept=".csv"
+              className="mt-2"
+              disabled={isUploading}
+              onChange={(e) => {
+                handleUpload(e.target.files?.[0] || null);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>Columns: service, zone, weight, price. Optional: carrier, dim_divisor, min_weight, rounding, fuel_surcharge.</span>
+          <Button variant="ghost" size="sm" onClick={handleDownloadTemplate} className="rounded-full">
+            <Download className="h-4 w-4 mr-1" />
+            Template
+          </Button>
+        </div>
+        {parseErrors.length > 0 && (
+          <ul className="text-sm text-red-600 space-y-1">
+            {parseErrors.map((message, index) => <li key={index}>{message}</li>)}
+          </ul>
+        )}
+      </div>
+
+      {rateCards === undefined ? (
+        <p className="text-sm text-gray-500">Loading rate cards...</p>
+      ) : rateCards.length === 0 ? (
+        <div className="p-6 text-center border border-dashed border-gray-200 rounded-3xl">
+          <Upload className="h-6 w-6 text-gray-400 mx-auto mb-2" />
+          <p className="text-sm text-gray-500">No rate cards yet. Built-in estimates are used until you upload one.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {rateCards.map((card) => (
+            <div key={card._id} className="flex items-center justify-between p-4 border border-gray-200 rounded-3xl">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-full flex items-center justify-center" style={{ backgroundColor: designSystem.colors.primaryLight }}>
+                  <Truck className="h-5 w-5" style={{ color: designSystem.colors.primary }} />
+                </div>
+                <div>
+                  <p className="font-medium text-gray-900">{card.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {card.services.map(service => `${service.carrier} ${service.service}`.trim()).join(', ')}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {card.isDefault ? (
+                  <span className="flex items-center gap-1 text-xs font-medium text-emerald-700">
+                    <CheckCircle2 className="h-4 w-4" />
+                    Default
+                  </span>
+                ) : (
+                  <Button variant="outline" size="sm" className="rounded-full" onClick={() => handleSetDefault(card._id)}>
+                    Make Default
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" className="rounded-full" onClick={() => handleDelete(card._id)}>
+                  <Trash2 className="h-4 w-4 text-gray-500" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
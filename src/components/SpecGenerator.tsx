@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -19,50 +19,50 @@ import {
   CheckIcon as Check,
   PlusIcon as Plus
 } from '@heroicons/react/24/outline';
-import { useAction } from 'convex/react';
+import { useConvexAuth, useMutation, useQuery } from 'convex/react';
 import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
 import { toast } from 'sonner';
 import { useTokenGuard } from '@/hooks/useTokenGuard';
 import { CSVFormatGuide } from '@/components/ui/CSVFormatGuide';
+import { parseCSVRows } from '@/lib/data/csvReader';
+import { readTabularFile, rowsToCSV } from '@/lib/data/xlsxReader';
+import { ColumnMapper } from '@/components/ColumnMapper';
+import { WorkbookSheetSelect } from '@/components/WorkbookSheetSelect';
+import { buildSpecExportRows, type SpecAttributes } from '@/lib/calculations/specAttributes';
 
-interface SpecResult {
+interface SpecResult extends SpecAttributes {
   orderId?: string;
+  sku?: string;
   productName: string;
+  category?: string;
   estimatedL: number;
   estimatedW: number;
   estimatedH: number;
   totalCUIN: number;
   confidence: 'high' | 'medium' | 'low';
   notes: string;
+  cached?: boolean;
 }
 
-interface SpecGenerationResponse {
-  results: Array<{
-    orderId?: string;
-    productName: string;
-    estimatedL: number;
-    estimatedW: number;
-    estimatedH: number;
-    totalCUIN: number;
-    confidence: string;
-    notes: string;
-  }>;
-  totalProducts: number;
-  processedProducts: number;
-  hasMoreProducts: boolean;
-  remainingProducts: number;
-}
+// The running job survives reloads and closed tabs; its id is kept to reattach to it
+const JOB_STORAGE_KEY = 'specGenerator.jobId';
+
+const storedJobId = () => localStorage.getItem(JOB_STORAGE_KEY) as Id<'specJobs'> | null;
 
 export const SpecGenerator = () => {
   const { checkAndConsumeToken } = useTokenGuard();
   
   // Step interface state
-  const [currentStep, setCurrentStep] = useState(1);
+  const [currentStep, setCurrentStep] = useState(() => (storedJobId() ? 3 : 1));
   const [showHelpModal, setShowHelpModal] = useState(true);
   
   // State
   const [productFile, setProductFile] = useState<File | null>(null);
   const [csvContent, setCsvContent] = useState<string>('');
+  const [productRows, setProductRows] = useState<string[][] | null>(null);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState<string | undefined>();
   const [useManualEntry, setUseManualEntry] = useState(false);
   const [manualProducts, setManualProducts] = useState([
     { name: '', description: '', category: '' }
@@ -76,18 +76,69 @@ export const SpecGenerator = () => {
     material: '',
     size: '',
   });
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [results, setResults] = useState<SpecResult[] | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
   const [selectedNote, setSelectedNote] = useState<{ product: string; notes: string } | null>(null);
   
-  // Chunked processing state
-  const [totalProducts, setTotalProducts] = useState<number>(0);
-  const [processedProducts, setProcessedProducts] = useState<number>(0);
-  const [currentChunk, setCurrentChunk] = useState<number>(0);
-  const [processingProgress, setProcessingProgress] = useState<string>('');
+  // Server-side job state
+  const [jobId, setJobId] = useState<Id<'specJobs'> | null>(storedJobId);
+  const previousJobStatus = useRef<string | null>(null);
 
   // Convex hooks
-  const generateSpecs = useAction(api.specGenerator.generateSpecs);
+  const { isAuthenticated } = useConvexAuth();
+  const startSpecJob = useMutation(api.specJobs.startSpecJob);
+  const resumeSpecJob = useMutation(api.specJobs.resumeSpecJob);
+  const cancelSpecJob = useMutation(api.specJobs.cancelSpecJob);
+  const jobProgress = useQuery(api.specJobs.getSpecJobProgress, jobId ? { jobId } : 'skip');
+  const jobResults = useQuery(api.specJobs.getSpecJobResults, jobId ? { jobId } : 'skip');
+
+  // Partial results are shown as chunks complete
+  const results: SpecResult[] | null = jobResults && jobResults.results.length > 0
+    ? jobResults.results.map(r => ({
+      ...r,
+      confidence: (r.confidence as 'high' | 'medium' | 'low') || 'medium'
+    }))
+    : null;
+  const jobActive = jobProgress?.status === 'queued' || jobProgress?.status === 'running';
+  const isProcessing = isStarting || jobActive;
+  const totalProducts = jobProgress?.totalItems ?? 0;
+  const processedProducts = jobProgress ? jobProgress.completedItems + jobProgress.failedItems : 0;
+  const currentChunk = Math.min(Math.floor(processedProducts / 50) + 1, Math.ceil(totalProducts / 50));
+
+  // Forget a stored job that no longer exists (deleted, or belongs to another account)
+  useEffect(() => {
+    if (isAuthenticated && jobId && jobProgress === null) {
+      localStorage.removeItem(JOB_STORAGE_KEY);
+      setJobId(null);
+    }
+  }, [isAuthenticated, jobId, jobProgress]);
+
+  // Announce when the job finishes or stops
+  useEffect(() => {
+    if (!jobProgress) return;
+    const previous = previousJobStatus.current;
+    previousJobStatus.current = jobProgress.status;
+    if (previous !== 'queued' && previous !== 'running') return;
+
+    if (jobProgress.status === 'completed') {
+      toast.success(`Generated specs for ${jobProgress.completedItems} products!`);
+      if (jobProgress.failedItems > 0) {
+        toast.warning(`${jobProgress.failedItems} products could not be estimated. Use Resume to retry them.`);
+      }
+      if (jobProgress.cachedItems > 0) {
+        toast.info(`${jobProgress.cachedItems} products were answered from earlier estimates without an AI call`);
+      }
+      toast.info('Estimates were added to the review queue in Settings → Product Catalog');
+    } else if (jobProgress.status === 'failed') {
+      const errorMessage = jobProgress.error || 'Unknown error';
+      if (errorMessage.includes('API key')) {
+        toast.error('AI provider API key issue. Please check the configuration.');
+      } else if (errorMessage.includes('rate limit')) {
+        toast.error('API rate limit reached. Resume the job in a few minutes.');
+      } else {
+        toast.error(`Failed to generate specifications: ${errorMessage}`);
+      }
+    }
+  }, [jobProgress]);
 
   // Manual entry helper functions
   const addProductRow = () => {
@@ -140,16 +191,16 @@ export const SpecGenerator = () => {
   ];
 
   // File upload handler
-  const handleFileUpload = async (file: File) => {
+  const handleFileUpload = async (file: File, sheetName?: string) => {
     setProductFile(file);
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
+
+    try {
+      const { rows, csv, sheetNames: names, sheetName: importedSheet } = await readTabularFile(file, sheetName);
+      setSheetNames(names);
+      setSelectedSheet(importedSheet);
 
       // Validate product count
-      const lines = content.trim().split('\n');
-      const productCount = Math.max(0, lines.length - 1);
+      const productCount = Math.max(0, rows.length - 1);
 
       if (productCount > 20) {
         toast.error(`Too many products! Your CSV contains ${productCount} products, but the maximum allowed is 20. Please reduce your file size or use multiple generations.`);
@@ -165,11 +216,14 @@ export const SpecGenerator = () => {
         return;
       }
 
-      setCsvContent(content);
+      setProductRows(rows);
+      setCsvContent(csv);
       toast.success(`📄 File loaded: ${productCount} products detected`);
-    };
-    
-    reader.readAsText(file);
+    } catch (error) {
+      toast.error(`Failed to read file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setProductFile(null);
+      setCsvContent('');
+    }
   };
 
   // Validate form
@@ -222,10 +276,7 @@ export const SpecGenerator = () => {
   const handleGenerateSpecs = async () => {
     if (!validateForm()) return;
 
-    setIsProcessing(true);
-    setResults(null);
-    setProcessedProducts(0);
-    setCurrentChunk(0);
+    setIsStarting(true);
 
     // Get CSV content - either from file or manual entries
     let productData = csvContent;
@@ -242,20 +293,17 @@ export const SpecGenerator = () => {
     }
 
     // Validate CSV format BEFORE consuming token
-    const lines = productData.trim().split('\n');
-    if (lines.length < 2) {
+    const csvRows = parseCSVRows(productData);
+    if (csvRows.length < 2) {
       toast.error('Invalid CSV', {
         description: 'CSV must contain header and at least one data row'
       });
-      setIsProcessing(false);
+      setIsStarting(false);
       return;
     }
 
     // Check if CSV has product name column
-    const firstLine = lines[0];
-    const isTabSeparated = firstLine.includes('\t');
-    const delimiter = isTabSeparated ? '\t' : ',';
-    const headers = firstLine.toLowerCase().split(delimiter).map(h => h.trim());
+    const headers = csvRows[0].map(h => h.toLowerCase());
     const hasProductColumn = headers.some(h =>
       h.includes('product') || h.includes('name') || h.includes('description') || h.includes('item')
     );
@@ -264,12 +312,11 @@ export const SpecGenerator = () => {
       toast.error('Invalid CSV Format', {
         description: 'CSV must contain a column with product names (e.g., "Product Name", "Item", "Description")'
       });
-      setIsProcessing(false);
+      setIsStarting(false);
       return;
     }
 
-    const totalCount = Math.max(0, lines.length - 1); // Minus header
-    setTotalProducts(totalCount);
+    const totalCount = Math.max(0, csvRows.length - 1); // Minus header
 
     try {
       // Check token before starting (validation passed)
@@ -287,128 +334,67 @@ export const SpecGenerator = () => {
           },
         };
 
-        await processChunkedSpecs(bounds, totalCount, productData);
+        const newJobId = await startSpecJob({
+          productData,
+          boundingDimensions: bounds,
+          additionalInfo: {
+            category: additionalInfo.category || undefined,
+            material: additionalInfo.material || undefined,
+            size: additionalInfo.size || undefined,
+          },
+        });
+        localStorage.setItem(JOB_STORAGE_KEY, newJobId);
+        setJobId(newJobId);
         return { success: true };
       });
       
       if (!tokenResult.success) {
-        setIsProcessing(false);
         return;
       }
+
+      toast.info(
+        totalCount > 50
+          ? `${totalCount} products queued in chunks of 50. You can leave this page; the job keeps running.`
+          : `Processing ${totalCount} products`
+      );
     } catch (error) {
       console.error('Error generating specs:', error);
       
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
-      if (errorMessage.includes('timeout') || errorMessage.includes('timed out')) {
-        toast.error(
-          'Processing timed out. The OpenAI API is not responding. Please try again with a smaller file.'
-        );
-      } else if (errorMessage.includes('OpenAI API key')) {
-        toast.error('OpenAI API key issue. Please check the configuration.');
-      } else if (errorMessage.includes('rate limit')) {
-        toast.error('API rate limit reached. Please wait a moment and try again.');
-      } else {
-        toast.error(`Failed to generate specifications: ${errorMessage}`);
-      }
+      toast.error(`Failed to start spec generation: ${errorMessage}`);
     } finally {
-      setIsProcessing(false);
-      setProcessingProgress('');
+      setIsStarting(false);
     }
   };
-  
-  // Process specs in chunks for large files
-  const processChunkedSpecs = async (bounds: any, totalCount: number, productData: string) => {
-    let allResults: SpecResult[] = [];
-    let chunk = 0;
-    let processedSoFar = 0;
-    let hasMoreProducts = true;
-    
-    if (totalCount <= 50) {
-      setProcessingProgress('Processing single batch...');
-      toast.info(`Processing ${totalCount} products in a single batch`);
-    } else {
-      const estimatedChunks = Math.ceil(totalCount / 50);
-      setProcessingProgress(`Processing large file in ~${estimatedChunks} chunks...`);
-      toast.info(`Large file detected: ${totalCount} products will be processed in ~${estimatedChunks} chunks of 50`);
-    }
-    
-    while (hasMoreProducts && processedSoFar < totalCount) {
-      chunk++;
-      setCurrentChunk(chunk);
-      
-      const chunkStart = processedSoFar + 1;
-      const expectedChunkSize = Math.min(50, totalCount - processedSoFar);
-      
-      setProcessingProgress(`Processing chunk ${chunk}: products ${chunkStart}-${chunkStart + expectedChunkSize - 1}`);
-      
-      const response: SpecGenerationResponse = await generateSpecs({
-        productData: productData,
-        boundingDimensions: bounds,
-        additionalInfo: {
-          category: additionalInfo.category || undefined,
-          material: additionalInfo.material || undefined,
-          size: additionalInfo.size || undefined,
-        },
-        startIndex: processedSoFar, // Tell backend which products to process
-      });
-      
-      // Add new results to existing ones (convert confidence to proper type)
-      const convertedResults: SpecResult[] = response.results.map(r => ({
-        ...r,
-        confidence: (r.confidence as 'high' | 'medium' | 'low') || 'medium'
-      }));
-      allResults = [...allResults, ...convertedResults];
-      setResults([...allResults]);
-      
-      // Update progress tracking
-      processedSoFar += response.processedProducts;
-      setProcessedProducts(processedSoFar);
-      hasMoreProducts = response.hasMoreProducts;
-      
-      const progressPercent = Math.round((processedSoFar / totalCount) * 100);
-      
-      if (response.hasMoreProducts) {
-        toast.success(
-          `Chunk ${chunk} complete: ${response.processedProducts} products analyzed. ` +
-          `Progress: ${processedSoFar}/${totalCount} (${progressPercent}%)`
-        );
-        setProcessingProgress(`Chunk ${chunk} complete. Continuing with next batch...`);
-        
-        // Brief pause between chunks to avoid rate limits
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      } else {
-        // Final chunk completed
-        if (totalCount > 50) {
-          toast.success(
-            `All chunks complete! Generated specs for ${processedSoFar} products across ${chunk} chunks.`
-          );
-        } else {
-          toast.success(`Generated specs for ${processedSoFar} products!`);
-        }
-        setProcessingProgress(`Complete: ${processedSoFar} products processed`);
-        break;
-      }
+
+  // Continue a failed, cancelled or stalled job from where it stopped
+  const handleResumeJob = async () => {
+    if (!jobId) return;
+    try {
+      await resumeSpecJob({ jobId });
+      toast.info('Resuming spec generation');
+    } catch (error) {
+      toast.error(`Failed to resume: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
+  const handleCancelJob = async () => {
+    if (!jobId) return;
+    try {
+      await cancelSpecJob({ jobId });
+      toast.info('Spec generation paused. Resume it to process the remaining products.');
+    } catch (error) {
+      toast.error(`Failed to cancel: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+  
   // Export to CSV
   const exportToCSV = () => {
     if (!results || results.length === 0) return;
 
-    const headers = ['Order ID', 'Product Name', 'Length (in)', 'Width (in)', 'Height (in)', 'Total CUIN', 'Confidence', 'Notes'];
-    const rows = results.map(r => [
-      r.orderId || '',
-      r.productName,
-      r.estimatedL.toFixed(2),
-      r.estimatedW.toFixed(2),
-      r.estimatedH.toFixed(2),
-      r.totalCUIN.toFixed(2),
-      r.confidence.toUpperCase(),
-      r.notes,
-    ]);
-
-    const csv = [headers, ...rows].map(row => row.join(',')).join('\n');
+    // Same columns as an order file, so the export can be loaded straight into the Suite Analyzer
+    const csv = rowsToCSV(buildSpecExportRows(results));
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -424,18 +410,16 @@ export const SpecGenerator = () => {
   const resetForm = () => {
     setProductFile(null);
     setCsvContent('');
-    setResults(null);
+    setProductRows(null);
+    setSheetNames([]);
+    localStorage.removeItem(JOB_STORAGE_KEY);
+    setJobId(null);
+    previousJobStatus.current = null;
     setBoundingDimensions({
       min: { l: '', w: '', h: '' },
       max: { l: '', w: '', h: '' },
     });
     setAdditionalInfo({ category: '', material: '', size: '' });
-    
-    // Reset chunked processing state
-    setTotalProducts(0);
-    setProcessedProducts(0);
-    setCurrentChunk(0);
-    setProcessingProgress('');
     setCurrentStep(1);
   };
 
@@ -528,7 +512,7 @@ export const SpecGenerator = () => {
           <label className="relative block">
             <input
               type="file"
-              accept=".csv"
+              accept=".csv,.xlsx"
               onChange={(e) => {
                 const file = e.target.files?.[0];
                 if (file) handleFileUpload(file);
@@ -541,7 +525,7 @@ export const SpecGenerator = () => {
               </div>
               <h4 className="text-lg font-semibold text-gray-900 mb-2">Upload Product List CSV</h4>
               <p className="text-gray-600 mb-1">Click to browse or drag and drop your file</p>
-              <p className="text-sm text-gray-500">CSV file with the format shown above</p>
+              <p className="text-sm text-gray-500">CSV or Excel file with the format shown above</p>
             </div>
           </label>
         ) : (
@@ -560,12 +544,29 @@ export const SpecGenerator = () => {
                 onClick={() => {
                   setProductFile(null);
                   setCsvContent('');
+                  setProductRows(null);
+                  setSheetNames([]);
                 }}
               >
                 <X className="h-4 w-4" />
               </Button>
             </div>
+            <WorkbookSheetSelect
+              id="product-list-sheet"
+              sheetNames={sheetNames}
+              value={selectedSheet}
+              onChange={(sheetName) => handleFileUpload(productFile, sheetName)}
+              className="mt-4 max-w-xs"
+            />
           </div>
+        )}
+        {productFile && productRows && (
+          <ColumnMapper
+            schema="catalog"
+            rows={productRows}
+            onChange={(mappedRows) => setCsvContent(rowsToCSV(mappedRows))}
+            className="mt-6"
+          />
         )}
           </>
         ) : (
@@ -765,7 +766,7 @@ export const SpecGenerator = () => {
               <p className="text-sm text-gray-600">
                 {useManualEntry
                   ? `${manualProducts.filter(p => p.name.trim() !== '').length} products entered`
-                  : `${Math.max(0, csvContent.trim().split('\n').length - 1)} products detected`
+                  : `${Math.max(0, parseCSVRows(csvContent).length - 1)} products detected`
                 }
               </p>
             </div>
@@ -778,9 +779,22 @@ export const SpecGenerator = () => {
                 <Loader2 className="h-4 w-4 animate-spin" />
                 <span className="font-medium">Processing Your Products</span>
               </div>
-              <p className="text-sm text-yellow-700 mb-3">
-                {processingProgress || 'Initializing...'}
-              </p>
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <p className="text-sm text-yellow-700">
+                  {jobProgress
+                    ? `${jobProgress.completedItems} estimated` +
+                      (jobProgress.cachedItems > 0 ? ` (${jobProgress.cachedItems} from earlier estimates)` : '') +
+                      (jobProgress.failedItems > 0 ? `, ${jobProgress.failedItems} failed` : '') +
+                      '. You can leave this page; progress is saved.'
+                    : 'Initializing...'}
+                </p>
+                {jobActive && (
+                  <Button variant="outline" size="sm" onClick={handleCancelJob} className="border-yellow-300">
+                    <X className="h-4 w-4 mr-1" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
               
               {totalProducts > 0 && (
                 <div className="space-y-2">
@@ -806,6 +820,32 @@ export const SpecGenerator = () => {
             </div>
           )}
 
+          {/* Stopped Job */}
+          {jobProgress && (
+            jobProgress.status === 'failed' ||
+            jobProgress.status === 'cancelled' ||
+            jobProgress.stalled ||
+            (jobProgress.status === 'completed' && jobProgress.failedItems > 0)
+          ) && (
+            <Alert className="border-orange-200 bg-orange-50">
+              <AlertDescription className="flex items-center justify-between gap-3 text-orange-800">
+                <span>
+                  {jobProgress.status === 'cancelled'
+                    ? `Paused with ${jobProgress.pendingItems} products remaining.`
+                    : jobProgress.stalled
+                    ? 'This job has stopped making progress.'
+                    : jobProgress.status === 'completed'
+                    ? `${jobProgress.failedItems} products could not be estimated.`
+                    : `Stopped: ${jobProgress.error || 'Unknown error'}`}
+                </span>
+                <Button variant="outline" size="sm" onClick={handleResumeJob} className="border-orange-300">
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Resume
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Results Display */}
           {results && results.length > 0 && (
             <div className="space-y-4">
@@ -839,6 +879,9 @@ export const SpecGenerator = () => {
                       <th className="px-4 py-3 text-center font-medium text-gray-700">H (in)</th>
                       <th className="px-4 py-3 text-center font-medium text-gray-700">CUIN</th>
                       <th className="px-4 py-3 text-center font-medium text-gray-700">Confidence</th>
+                      <th className="px-4 py-3 text-center font-medium text-gray-700">Weight</th>
+                      <th className="px-4 py-3 text-center font-medium text-gray-700">Handling</th>
+                      <th className="px-4 py-3 text-center font-medium text-gray-700">Packaging</th>
                       <th className="px-4 py-3 text-left font-medium text-gray-700">Notes</th>
                     </tr>
                   </thead>
@@ -866,6 +909,31 @@ export const SpecGenerator = () => {
                             {result.confidence.toUpperCase()}
                           </span>
                         </td>
+                        <td className="px-4 py-3 text-center text-gray-700">
+                          {result.weight !== undefined ? (
+                            <>
+                              {result.weight} {result.weightUnit}
+                              <div className="text-xs text-gray-400">{result.weightConfidence}</div>
+                            </>
+                          ) : '—'}
+                        </td>
+                        <td className="px-4 py-3 text-center text-gray-700 text-xs">
+                          {result.fragile !== undefined ? (
+                            <>
+                              {result.fragile ? 'Fragile' : 'Durable'}
+                              {result.orientation && result.orientation !== 'any' && `, ${result.orientation.replace(/_/g, ' ')}`}
+                              <div className="text-gray-400">{result.fragilityConfidence}</div>
+                            </>
+                          ) : '—'}
+                        </td>
+                        <td className="px-4 py-3 text-center text-gray-700 text-xs">
+                          {result.packagingClass ? (
+                            <>
+                              {result.packagingClass.replace(/_/g, ' ')}
+                              <div className="text-gray-400">{result.packagingConfidence}</div>
+                            </>
+                          ) : '—'}
+                        </td>
                         <td className="px-4 py-3 text-gray-600 text-xs">
                           <div className="whitespace-pre-wrap text-wrap max-w-md">
                             {result.notes}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Sparkles, Check, X, Pencil } from 'lucide-react';
+import { toast } from 'sonner';
+
+const VISIBLE_CANDIDATES = 25;
+
+type DimensionDraft = { length: string; width: string; height: string };
+
+const CONFIDENCE_STYLES: Record<Doc<'specCandidates'>['confidence'], string> = {
+  high: 'bg-emerald-50 text-emerald-700',
+  medium: 'bg-amber-50 text-amber-700',
+  low: 'bg-red-50 text-red-700'
+};
+
+// Review queue for Spec Generator estimates: accept, edit or reject before they enter the catalog
+export const SpecReviewQueue = () => {
+  const candidates = useQuery(api.specCandidates.getSpecCandidates, {});
+  const acceptCandidate = useMutation(api.specCandidates.acceptSpecCandidate);
+  const rejectCandidate = useMutation(api.specCandidates.rejectSpecCandidate);
+
+  const [editing, setEditing] = useState<{ id: Id<'specCandidates'>; draft: DimensionDraft } | null>(null);
+
+  if (!candidates || candidates.length === 0) {
+    return null;
+  }
+
+  const handleAccept = async (candidate: Doc<'specCandidates'>) => {
+    const draft = editing?.id === candidate._id ? editing.draft : null;
+    try {
+      await acceptCandidate({
+        candidateId: candidate._id,
+        ...(draft ? {
+          length: parseFloat(draft.length),
+          width: parseFloat(draft.width),
+          height: parseFloat(draft.height)
+        } : {})
+      });
+      if (draft) setEditing(null);
+      toast.success(`${candidate.sku} added to the catalog as an AI estimate`);
+    } catch (error) {
+      toast.error(`Failed to accept estimate: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleReject = async (candidateId: Id<'specCandidates'>) => {
+    try {
+      await rejectCandidate({ candidateId });
+    } catch (error) {
+      toast.error(`Failed to reject estimate: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="border border-amber-200 rounded-3xl overflow-x-auto">
+      <div className="px-4 py-3 flex items-center gap-2 border-b border-amber-100">
+        <Sparkles className="h-4 w-4 text-amber-600" />
+        <span className="text-sm font-medium text-gray-900">
+          {candidates.length} AI estimate{candidates.length === 1 ? '' : 's'} awaiting review
+        </span>
+        <span className="text-xs text-gray-500">from the Spec Generator</span>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+            <th className="px-4 py-2 font-medium">SKU</th>
+            <th className="px-4 py-2 font-medium">Product</th>
+            <th className="px-4 py-2 font-medium">L × W × H (in)</th>
+            <th className="px-4 py-2 font-medium">Confidence</th>
+            <th className="px-4 py-2 font-medium">Notes</th>
+            <th className="px-4 py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {candidates.slice(0, VISIBLE_CANDIDATES).map(candidate => {
+            const draft = editing?.id === candidate._id ? editing.draft : null;
+            return (
+              <tr key={candidate._id} className="border-b border-gray-100 text-gray-700">
+                <td className="px-4 py-2 font-medium text-gray-900">{candidate.sku}</td>
+                <td className="px-4 py-2">{candidate.productName}</td>
+                <td className="px-4 py-2">
+                  {draft ? (
+                    <div className="flex gap-1">
+                      {(['length', 'width', 'height'] as const).map(side => (
+                        <Input
+                          key={side}
+                          type="number"
+                          step="any"
+                          value={draft[side]}
+                          onChange={(e) => setEditing({ id: candidate._id, draft: { ...draft, [side]: e.target.value } })}
+                          className="h-8 text-sm w-16"
+                        />
+                      ))}
+                    </div>
+                  ) : (
+                    `${candidate.length} × ${candidate.width} × ${candidate.height}`
+                  )}
+                </td>
+                <td className="px-4 py-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${CONFIDENCE_STYLES[candidate.confidence]}`}>
+                    {candidate.confidence}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-xs text-gray-500 max-w-xs truncate" title={candidate.notes}>
+                  {candidate.notes}
+                </td>
+                <td className="px-4 py-2">
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="sm" className="rounded-full" onClick={() => handleAccept(candidate)}>
+                      <Check className="h-4 w-4 text-emerald-600" />
+                    </Button>
+                    {!draft && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="rounded-full"
+                        onClick={() => setEditing({
+                          id: candidate._id,
+                          draft: {
+                            length: String(candidate.length),
+                            width: String(candidate.width),
+                            height: String(candidate.height)
+                          }
+                        })}
+                      >
+                        <Pencil className="h-4 w-4 text-gray-500" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="rounded-full"
+                      onClick={() => draft ? setEditing(null) : handleReject(candidate._id)}
+                    >
+                      <X className="h-4 w-4 text-gray-500" />
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {candidates.length > VISIBLE_CANDIDATES && (
+        <p className="px-4 py-2 text-xs text-gray-500">
+          Showing {VISIBLE_CANDIDATES} of {candidates.length}; review these to see the rest.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { RotateCcw, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DEFAULT_SURCHARGE_RULES,
+  type SurchargeConditions,
+  type SurchargeRule
+} from '@/lib/calculations/surcharges';
+
+// Editable thresholds, in the order the columns are shown
+const CONDITION_COLUMNS: Array<{ key: keyof SurchargeConditions; label: string }> = [
+  { key: 'longestSideOver', label: 'Longest side (in)' },
+  { key: 'secondLongestSideOver', label: 'Second side (in)' },
+  { key: 'lengthPlusGirthOver', label: 'Length + girth (in)' },
+  { key: 'weightOver', label: 'Weight (lbs)' }
+];
+
+const parseOptionalNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || isNaN(parsed) ? undefined : parsed;
+};
+
+export const SurchargeRuleManager = () => {
+  const savedRules = useQuery(api.surchargeRules.getSurchargeRules);
+  const saveSurchargeRules = useMutation(api.surchargeRules.saveSurchargeRules);
+  const resetSurchargeRules = useMutation(api.surchargeRules.resetSurchargeRules);
+
+  const [rules, setRules] = useState<SurchargeRule[]>(DEFAULT_SURCHARGE_RULES);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved rules once they load, or the built-in ones
+  useEffect(() => {
+    if (savedRules !== undefined) {
+      setRules(savedRules || DEFAULT_SURCHARGE_RULES);
+    }
+  }, [savedRules]);
+
+  const updateRule = (ruleId: string, update: (rule: SurchargeRule) => SurchargeRule) => {
+    setRules(current => current.map(rule => (rule.id === ruleId ? update(rule) : rule)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveSurchargeRules({ rules });
+      toast.success('Surcharge rules saved');
+    } catch (error) {
+      toast.error(`Failed to save surcharge rules: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await resetSurchargeRules();
+      setRules(DEFAULT_SURCHARGE_RULES);
+      toast.success('Surcharge rules reset to the defaults');
+    } catch (error) {
+      toast.error(`Failed to reset surcharge rules: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Carrier Surcharges</h2>
+        <p className="text-sm text-gray-500">
+          Fees a parcel triggers when any threshold is exceeded. Suite Analyzer uses typical list-rate values until you enter your contract's.
+        </p>
+      </div>
+
+      {savedRules === undefined ? (
+        <p className="text-sm text-gray-500">Loading surcharge rules...</p>
+      ) : (
+        <div className="p-4 border border-gray-200 rounded-3xl space-y-3">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-700">
+                  <th className="py-2 pr-3 font-medium">Surcharge</th>
+                  <th className="py-2 pr-3 font-medium">Fee ($)</th>
+                  {CONDITION_COLUMNS.map(column => (
+                    <th key={column.key} className="py-2 pr-3 font-medium">{column.label}</th>
+                  ))}
+                  <th className="py-2 font-medium">Min billable (lbs)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map(rule => (
+                  <tr key={rule.id} className="border-b border-gray-100">
+                    <td className="py-2 pr-3 text-gray-900">{rule.name}</td>
+                    <td className="py-2 pr-3">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={rule.amount}
+                        onChange={(e) => updateRule(rule.id, current => ({ ...current, amount: parseOptionalNumber(e.target.value) ?? 0 }))}
+                        className="w-24"
+                      />
+                    </td>
+                    {CONDITION_COLUMNS.map(column => (
+                      <td key={column.key} className="py-2 pr-3">
+                        <Input
+                          type="number"
+                          min="0"
+                          value={rule.conditions[column.key] ?? ''}
+                          onChange={(e) => updateRule(rule.id, current => ({
+                            ...current,
+                            conditions: { ...current.conditions, [column.key]: parseOptionalNumber(e.target.value) }
+                          }))}
+                          className="w-24"
+                          placeholder="—"
+                        />
+                      </td>
+                    ))}
+                    <td className="py-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        value={rule.minimumBillableWeight ?? ''}
+                        onChange={(e) => updateRule(rule.id, current => ({
+                          ...current,
+                          minimumBillableWeight: parseOptionalNumber(e.target.value)
+                        }))}
+                        className="w-24"
+                        placeholder="—"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">
+              {savedRules ? 'Using your saved rules.' : 'Using the built-in list-rate rules.'} Leave a threshold empty to ignore it.
+            </span>
+            <div className="flex gap-2">
+              {savedRules && (
+                <Button variant="ghost" size="sm" onClick={handleReset} className="rounded-full">
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Reset
+                </Button>
+              )}
+              <Button size="sm" onClick={handleSave} disabled={isSaving} className="rounded-full">
+                <Save className="h-4 w-4 mr-1" />
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+interface WorkbookSheetSelectProps {
+  id: string;
+  sheetNames: string[];
+  value?: string;
+  onChange: (sheetName: string) => void;
+  className?: string;
+}
+
+// Sheet picker for uploaded workbooks; hidden for CSV files and single-sheet workbooks
+export const WorkbookSheetSelect = ({ id, sheetNames, value, onChange, className }: WorkbookSheetSelectProps) => {
+  if (sheetNames.length <= 1) return null;
+
+  return (
+    <div className={cn('flex items-center gap-2 text-left', className)}>
+      <Label htmlFor={id} className="text-xs text-gray-600 whitespace-nowrap">Sheet</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id} className="h-8 text-sm">
+          <SelectValue placeholder="Choose a sheet" />
+        </SelectTrigger>
+        <SelectContent>
+          {sheetNames.map(sheetName => (
+            <SelectItem key={sheetName} value={sheetName}>{sheetName}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { designSystem } from '@/lib/design-system';
+import { MapPin, Trash2, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { parseZoneChartData, generateCSVTemplate } from '@/lib/data/csvParser';
+import { buildZoneCharts } from '@/lib/calculations/zoneResolver';
+
+export const ZoneChartManager = () => {
+  const zoneCharts = useQuery(api.zoneCharts.getZoneCharts);
+  const saveZoneCharts = useMutation(api.zoneCharts.saveZoneCharts);
+  const deleteZoneChart = useMutation(api.zoneCharts.deleteZoneChart);
+
+  const [warehouseName, setWarehouseName] = useState('');
+  const [originZip, setOriginZip] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+
+  const handleUpload = async (file: File | null) => {
+    if (!file) return;
+
+    setIsUploading(true);
+    setParseErrors([]);
+    try {
+      const parsed = parseZoneChartData(await file.text());
+      if (!parsed.success) {
+        setParseErrors(parsed.errors.slice(0, 5).map(error => `Row ${error.row}: ${error.message}`));
+        toast.error('Zone chart could not be imported');
+        return;
+      }
+
+      const needsOrigin = parsed.data.some(entry => !entry.originZip);
+      if (needsOrigin && !originZip.trim()) {
+        setParseErrors(['Enter the origin warehouse ZIP code for this chart']);
+        return;
+      }
+
+      const charts = buildZoneCharts(parsed.data, {
+        name: warehouseName.trim() || file.name.replace(/\.csv$/i, ''),
+        originZip: originZip.trim()
+      });
+      await saveZoneCharts({ zoneCharts: charts });
+      setWarehouseName('');
+      setOriginZip('');
+      toast.success(`Imported zone chart${charts.length === 1 ? '' : 's'} for ${charts.map(chart => chart.originZip).join(', ')}`);
+    } catch (error) {
+      console.error('Failed to import zone chart:', error);
+      toast.error(`Failed to import zone chart: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const blob = new Blob([generateCSVTemplate('zone_chart')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'zone_chart_template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = async (zoneChartId: Id<'zoneCharts'>) => {
+    try {
+      await deleteZoneChart({ zoneChartId });
+      toast.success('Zone chart deleted');
+    } catch (error) {
+      toast.error(`Failed to delete zone chart: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Zone Charts</h2>
+        <p className="text-sm text-gray-500">
+          Upload a zone chart for each warehouse so orders with destination ZIP codes are priced in the right zone.
+        </p>
+      </div>
+
+      <div className="p-4 border border-gray-200 rounded-3xl space-y-3">
+        <div className="grid gap-3 md:grid-cols-3">
+          <div>
+            <Label htmlFor="warehouseName" className="text-gray-700 font-medium">Warehouse</Label>
+            <Input
+              id="warehouseName"
+              value={warehouseName}
+              onChange={(e) => setWarehouseName(e.target.value)}
+              className="mt-2"
+              placeholder="e.g. Reno DC"
+            />
+          </div>
+          <div>
+            <Label htmlFor="originZip" className="text-gray-700 font-medium">Origin ZIP</Label>
+            <Input
+              id="originZip"
+              value={originZip}
+              onChange={(e) => setOriginZip(e.target.value)}
+              className="mt-2"
+              placeholder="e.g. 89502"
+            />
+          </div>
+          <div>
+            <Label htmlFor="zoneChartFile" className="text-gray-700 font-medium">Zone Chart (CSV)</Label>
+            <Input
+              id="zoneChartFile"
+              type="file"
+              accept=".csv"
+              className="mt-2"
+              disabled={isUploading}
+              onChange={(e) => {
+                handleUpload(e.target.files?.[0] || null);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>Columns: dest_zip (ZIP3 prefix or range like 004-005), zone. Optional: origin_zip.</span>
+          <Button variant="ghost" size="sm" onClick={handleDownloadTemplate} className="rounded-full">
+            <Download className="h-4 w-4 mr-1" />
+            Template
+          </Button>
+        </div>
+        {parseErrors.length > 0 && (
+          <ul className="text-sm text-red-600 space-y-1">
+            {parseErrors.map((message, index) => <li key={index}>{message}</li>)}
+          </ul>
+        )}
+      </div>
+
+      {zoneCharts === undefined ? (
+        <p className="text-sm text-gray-500">Loading zone charts...</p>
+      ) : zoneCharts.length === 0 ? (
+        <div className="p-6 text-center border border-dashed border-gray-200 rounded-3xl">
+          <MapPin className="h-6 w-6 text-gray-400 mx-auto mb-2" />
+          <p className="text-sm text-gray-500">No zone charts yet. Orders use the zone column from your export.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {zoneCharts.map((chart, index) => (
+            <div key={chart._id} className="flex items-center justify-between p-4 border border-gray-200 rounded-3xl">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-full flex items-center justify-center" style={{ backgroundColor: designSystem.colors.primaryLight }}>
+                  <MapPin className="h-5 w-5" style={{ color: designSystem.colors.primary }} />
+                </div>
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {chart.name}
+                    {index === 0 && <span className="ml-2 text-xs font-medium text-emerald-700">Default origin</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Origin {chart.originZip} · {Object.keys(chart.zones).length} ZIP prefixes
+                  </p>
+                </div>
+              </div>
+              <Button variant="ghost" size="sm" className="rounded-full" onClick={() => handleDelete(chart._id)}>
+                <Trash2 className="h-4 w-4 text-gray-500" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import type { SuiteRationalizationResult } from '@/lib/suiteAnalyzer/types';
+
+export interface SuiteRationalizationState {
+  status: 'none' | 'pending' | 'done';
+  result: SuiteRationalizationResult | null;
+  error: string | null;
+}
+
+// Router state can't carry a promise, so rationalizations still running are kept here by analysis ID
+const rationalizations = new Map<string, Promise<Omit<SuiteRationalizationState, 'status'>>>();
+
+// Remember a rationalization started for an analysis so its results page can wait for it
+export const trackSuiteRationalization = (analysisId: string, rationalization: Promise<SuiteRationalizationResult>) => {
+  rationalizations.set(
+    analysisId,
+    rationalization
+      .then(result => ({ result, error: null }))
+      .catch((err) => {
+        console.error('Suite rationalization failed:', err);
+        return { result: null, error: err instanceof Error ? err.message : 'Suite rationalization failed' };
+      })
+  );
+};
+
+// The rationalization for an analysis: none requested, still running, or finished with a result or error
+export const useSuiteRationalization = (analysisId: string | undefined): SuiteRationalizationState => {
+  const pending = analysisId ? rationalizations.get(analysisId) : undefined;
+  const [state, setState] = useState<SuiteRationalizationState>({
+    status: pending ? 'pending' : 'none',
+    result: null,
+    error: null
+  });
+
+  useEffect(() => {
+    if (!pending) return;
+
+    let active = true;
+    setState({ status: 'pending', result: null, error: null });
+    pending.then((outcome) => {
+      if (active) setState({ status: 'done', ...outcome });
+    });
+    return () => {
+      active = false;
+    };
+  }, [pending]);
+
+  return state;
+};
@@ -0,0 +1,293 @@
+/**
+ * Packing Optimizer Tests
+ *
+ * Test suite for the container packing algorithms
+ */
+
+import {
+  bestFitDecreasing,
+  firstFitDecreasing,
+  geneticAlgorithmPacking,
+  type PackingResult,
+  type PackingItem,
+  type PackingContainer,
+} from '../packingOptimizer';
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const containers: PackingContainer[] = [
+  {
+    id: 'small',
+    name: 'Small Box',
+    dimensions: { length: 8, width: 6, height: 4, unit: 'in' },
+    maxWeight: 20,
+    cost: 0.5,
+    category: 'box'
+  },
+  {
+    id: 'medium',
+    name: 'Medium Box',
+    dimensions: { length: 12, width: 10, height: 8, unit: 'in' },
+    maxWeight: 40,
+    cost: 1.2,
+    category: 'box'
+  },
+  {
+    id: 'large',
+    name: 'Large Box',
+    dimensions: { length: 20, width: 16, height: 12, unit: 'in' },
+    maxWeight: 60,
+    cost: 2.5,
+    category: 'box'
+  }
+];
+
+function makeItems(count: number, dimensions = { length: 5, width: 4, height: 3 }): PackingItem[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `item_${index + 1}`,
+    dimensions: { ...dimensions, unit: 'in' as const },
+    weight: 1,
+    quantity: 1,
+    stackable: true,
+    rotatable: true
+  }));
+}
+
+function makeContainer(id: string, length: number, width: number, height: number): PackingContainer {
+  return {
+    id,
+    name: id,
+    dimensions: { length, width, height, unit: 'in' },
+    maxWeight: 100,
+    cost: 1,
+    category: 'box'
+  };
+}
+
+/**
+ * Oriented size of a packed unit - each orientation letter names the item side
+ * running along the container's length, width and height
+ */
+function orientedSize(packed: PackingResult['packedItems'][number]): [number, number, number] {
+  const sides = { L: packed.item.dimensions.length, W: packed.item.dimensions.width, H: packed.item.dimensions.height };
+  return packed.orientation.split('').map(side => sides[side as keyof typeof sides]) as [number, number, number];
+}
+
+function expectGeometricallyValid(solution: PackingResult) {
+  const { length, width, height } = solution.container.dimensions;
+  const boxes = solution.packedItems.map(packed => {
+    const [l, w, h] = orientedSize(packed);
+    return { ...packed.position, l, w, h };
+  });
+
+  for (const box of boxes) {
+    expect(box.x + box.l).toBeLessThanOrEqual(length);
+    expect(box.y + box.w).toBeLessThanOrEqual(width);
+    expect(box.z + box.h).toBeLessThanOrEqual(height);
+  }
+
+  for (let i = 0; i < boxes.length; i++) {
+    for (let j = i + 1; j < boxes.length; j++) {
+      const a = boxes[i];
+      const b = boxes[j];
+      const overlaps = a.x < b.x + b.l && b.x < a.x + a.l &&
+                       a.y < b.y + b.w && b.y < a.y + a.w &&
+                       a.z < b.z + b.h && b.z < a.z + a.h;
+      expect(overlaps).toBe(false);
+    }
+  }
+}
+
+// ==========================================
+// GEOMETRIC PLACEMENT TESTS
+// ==========================================
+
+describe('Geometric Placement', () => {
+  test('produces non-overlapping placements inside the container', () => {
+    const items = [
+      ...makeItems(5),
+      ...makeItems(4, { length: 3, width: 3, height: 3 }).map(item => ({ ...item, id: `cube_${item.id}` }))
+    ];
+
+    const results = [
+      bestFitDecreasing(items, containers),
+      firstFitDecreasing(items, containers),
+      geneticAlgorithmPacking(items, containers, {}, { generations: 10 })
+    ];
+
+    for (const result of results) {
+      expect(result.unpackedItems).toHaveLength(0);
+      result.solutions.forEach(expectGeometricallyValid);
+    }
+  });
+
+  test('rejects placements that fit by volume but not by geometry', () => {
+    // Four 6" cubes are 864 cu in, well under a 1000 cu in box, but only one fits
+    const items = makeItems(4, { length: 6, width: 6, height: 6 });
+    const result = bestFitDecreasing(items, [makeContainer('cube', 10, 10, 10)]);
+
+    expect(result.totalContainers).toBe(4);
+    result.solutions.forEach(solution => expect(solution.packedItems).toHaveLength(1));
+  });
+
+  test('does not stack on non-stackable items', () => {
+    const box = makeContainer('tall', 5, 5, 4);
+    const stackable = makeItems(2, { length: 5, width: 5, height: 2 });
+    const fragile = stackable.map(item => ({ ...item, stackable: false }));
+
+    expect(bestFitDecreasing(stackable, [box]).totalContainers).toBe(1);
+    expect(bestFitDecreasing(fragile, [box]).totalContainers).toBe(2);
+  });
+
+  test('keeps non-rotatable items in their original orientation', () => {
+    const box = makeContainer('flat', 8, 4, 4);
+    const upright = makeItems(1, { length: 2, width: 2, height: 8 });
+
+    expect(bestFitDecreasing(upright, [box]).unpackedItems).toHaveLength(0);
+    expect(bestFitDecreasing(upright.map(item => ({ ...item, rotatable: false })), [box]).unpackedItems)
+      .toHaveLength(1);
+  });
+
+  test('places each unit of a multi-quantity item', () => {
+    const items = [{ ...makeItems(1, { length: 4, width: 4, height: 4 })[0], quantity: 3 }];
+    const result = bestFitDecreasing(items, [makeContainer('bin', 8, 8, 4)]);
+
+    expect(result.totalContainers).toBe(1);
+    expect(result.solutions[0].packedItems).toHaveLength(3);
+    expectGeometricallyValid(result.solutions[0]);
+  });
+});
+
+// ==========================================
+// ORIENTATION AND LOAD CONSTRAINT TESTS
+// ==========================================
+
+describe('Orientation Constraints', () => {
+  test('considers all six axis permutations', () => {
+    // Only fits with the 8" side along the length and the 2" side vertical (HWL)
+    const item = makeItems(1, { length: 2, width: 4, height: 8 });
+    const result = bestFitDecreasing(item, [makeContainer('slot', 8, 4, 2)]);
+
+    expect(result.unpackedItems).toHaveLength(0);
+    expect(result.solutions[0].packedItems[0].orientation).toBe('HWL');
+  });
+
+  test('keeps this-side-up items upright', () => {
+    const bottle = makeItems(1, { length: 3, width: 3, height: 9 });
+    const lowBox = makeContainer('low', 10, 10, 4);
+
+    expect(bestFitDecreasing(bottle, [lowBox]).unpackedItems).toHaveLength(0);
+    expect(bestFitDecreasing(bottle.map(item => ({ ...item, thisSideUp: true })), [lowBox]).unpackedItems)
+      .toHaveLength(1);
+  });
+
+  test('only uses the orientations an item allows', () => {
+    const carton = makeItems(1, { length: 6, width: 2, height: 4 }).map(item => ({
+      ...item,
+      allowedOrientations: ['WLH' as const]
+    }));
+    const result = bestFitDecreasing(carton, [makeContainer('box', 6, 6, 6)]);
+
+    expect(result.solutions[0].packedItems[0].orientation).toBe('WLH');
+  });
+
+  test('applies constraint-level orientation defaults', () => {
+    const item = makeItems(1, { length: 3, width: 3, height: 9 });
+    const result = bestFitDecreasing(item, [makeContainer('low', 10, 10, 4)], {
+      allowedOrientations: ['LWH', 'WLH']
+    });
+
+    expect(result.unpackedItems).toHaveLength(1);
+  });
+
+  test('respects load-bearing limits', () => {
+    const column = makeContainer('column', 4, 4, 12);
+    const items = makeItems(3, { length: 4, width: 4, height: 4 }).map(item => ({
+      ...item,
+      weight: 5,
+      rotatable: false,
+      maxLoadOnTop: 5
+    }));
+
+    // The bottom unit would carry 10 lbs with all three stacked
+    const result = bestFitDecreasing(items, [column]);
+    expect(result.totalContainers).toBe(2);
+    result.solutions.forEach(expectGeometricallyValid);
+  });
+});
+
+// ==========================================
+// GENETIC ALGORITHM TESTS
+// ==========================================
+
+describe('Genetic Algorithm Packing', () => {
+  test('packs every item that fits a container', () => {
+    const items = makeItems(6);
+    const result = geneticAlgorithmPacking(items, containers, {}, { generations: 20, populationSize: 12 });
+
+    const packedCount = result.solutions.reduce((sum, sol) => sum + sol.packedItems.length, 0);
+    expect(packedCount).toBe(6);
+    expect(result.unpackedItems).toHaveLength(0);
+  });
+
+  test('reports real iteration counts', () => {
+    const items = makeItems(4);
+    const result = geneticAlgorithmPacking(items, containers, {}, { generations: 15, populationSize: 8 });
+
+    expect(result.metadata?.algorithm).toBe('genetic-algorithm');
+    expect(result.metadata?.iterations).toBeGreaterThan(0);
+    expect(result.metadata?.iterations).toBeLessThanOrEqual(15);
+    expect(result.solutions[0].metadata.iterations).toBe(result.metadata?.iterations);
+  });
+
+  test('is reproducible for a given seed', () => {
+    const items = [
+      ...makeItems(3),
+      ...makeItems(2, { length: 9, width: 7, height: 5 }).map(item => ({ ...item, id: `big_${item.id}` }))
+    ];
+
+    const first = geneticAlgorithmPacking(items, containers, {}, { seed: 7, generations: 25 });
+    const second = geneticAlgorithmPacking(items, containers, {}, { seed: 7, generations: 25 });
+
+    expect(first.totalCost).toBe(second.totalCost);
+    expect(first.solutions.map(s => s.container.id)).toEqual(second.solutions.map(s => s.container.id));
+  });
+
+  test('never costs more than packing each item on its own', () => {
+    const items = makeItems(8, { length: 4, width: 3, height: 2 });
+    const result = geneticAlgorithmPacking(items, containers, {}, { generations: 30 });
+
+    expect(result.totalCost).toBeLessThanOrEqual(items.length * containers[0].cost);
+    expect(result.savings.cost_reduction).toBeGreaterThanOrEqual(0);
+  });
+
+  test('matches or beats best fit decreasing on container cost', () => {
+    const items = [
+      ...makeItems(4, { length: 7, width: 5, height: 3 }),
+      ...makeItems(4, { length: 3, width: 3, height: 3 }).map(item => ({ ...item, id: `cube_${item.id}` }))
+    ];
+
+    const bfd = bestFitDecreasing(items, containers);
+    const ga = geneticAlgorithmPacking(items, containers, {}, { generations: 40 });
+
+    expect(ga.unpackedItems.length).toBeLessThanOrEqual(bfd.unpackedItems.length);
+    expect(ga.totalCost).toBeLessThanOrEqual(bfd.totalCost);
+  });
+
+  test('reports oversize items as unpacked', () => {
+    const items = makeItems(1, { length: 30, width: 30, height: 30 });
+    const result = geneticAlgorithmPacking(items, containers, {}, { generations: 5 });
+
+    expect(result.solutions).toHaveLength(0);
+    expect(result.unpackedItems).toHaveLength(1);
+  });
+
+  test('handles empty input', () => {
+    const result = geneticAlgorithmPacking([], containers);
+
+    expect(result.totalContainers).toBe(0);
+    expect(result.metadata?.iterations).toBe(0);
+  });
+});
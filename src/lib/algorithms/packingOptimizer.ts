@@ -22,6 +22,13 @@ import {
   STANDARD_PACKAGES
 } from '../calculations/packaging';
 
+import {
+  createPlacementState,
+  findPlacement,
+  commitPlacement,
+  type PlacementState
+} from './placementEngine';
+
 // ==========================================
 // TYPES AND INTERFACES
 // ==========================================
@@ -36,6 +43,9 @@ export interface PackingItem {
   category?: string;
   stackable?: boolean;
   rotatable?: boolean;
+  allowedOrientations?: OrientationCode[]; // Defaults to PackingConstraints.allowedOrientations, then all six
+  thisSideUp?: boolean;                    // Height must stay vertical
+  maxLoadOnTop?: number;                   // Maximum weight (lbs) that may rest on top of one unit
 }
 
 export interface PackingContainer {
@@ -51,10 +61,25 @@ export interface PackingContainer {
 export interface PackedItem {
   item: PackingItem;
   position: Position3D;
-  orientation: 'original' | 'rotated_x' | 'rotated_y' | 'rotated_z';
+  orientation: OrientationCode;
   level: number;
 }
 
+/**
+ * Axis permutation of an item inside a container. Each letter names the item
+ * side (Length, Width, Height) that runs along the container's length, width
+ * and height axes, so 'LWH' is the item as specified and 'WLH' is the same
+ * item turned about the vertical axis.
+ */
+export type OrientationCode = 'LWH' | 'WLH' | 'LHW' | 'HLW' | 'WHL' | 'HWL';
+
+export const ALL_ORIENTATIONS: OrientationCode[] = ['LWH', 'WLH', 'LHW', 'HLW', 'WHL', 'HWL'];
+
+/**
+ * Orientations that keep the item's height axis vertical ("this side up")
+ */
+export const UPRIGHT_ORIENTATIONS: OrientationCode[] = ['LWH', 'WLH'];
+
 export interface Position3D {
   x: number;
   y: number;
@@ -88,12 +113,18 @@ export interface MultiOrderPackingResult {
     container_reduction: number;
     cost_reduction: number;
   };
+  metadata?: {
+    algorithm: string;
+    processingTime: number;
+    iterations: number;
+  };
 }
 
 export interface PackingConstraints {
   maxWeight?: number;
   maxDimensions?: Dimensions;
   allowRotation?: boolean;
+  allowedOrientations?: OrientationCode[];
   allowStacking?: boolean;
   fragileHandling?: 'bottom_only' | 'separate' | 'padded';
   categorySegregation?: boolean;
@@ -164,9 +195,8 @@ export function bestFitDecreasing(
     if (bestSolution && bestSolution.packedItems.length > 0) {
       solutions.push(bestSolution);
       
-      // Remove packed items from remaining items
-      const packedItemIds = new Set(bestSolution.packedItems.map(p => p.item.id));
-      remainingItems = remainingItems.filter(item => !packedItemIds.has(item.id));
+      // Continue with whatever did not fit, including partially packed items
+      remainingItems = bestSolution.unpackedItems;
     } else {
       // Can't pack any more items
       unpackedItems.push(...remainingItems);
@@ -194,7 +224,9 @@ export function bestFitDecreasing(
 }
 
 /**
- * Pack items into a single container using 3D bin packing
+ * Pack items into a single container using 3D bin packing.
+ * Each packed entry represents one unit; items that only partly fit are
+ * returned in unpackedItems with the remaining quantity.
  */
 function packItemsInContainer(
   items: PackingItem[],
@@ -203,6 +235,7 @@ function packItemsInContainer(
 ): PackingResult {
   const startTime = Date.now();
   const packedItems: PackedItem[] = [];
+  const unpackedItems: PackingItem[] = [];
   const containerInches = convertToInches(container.dimensions);
   
   console.log('packItemsInContainer called:', {
@@ -230,111 +263,82 @@ function packItemsInContainer(
     });
   }
   
-  // Available space tracking
-  const availableSpaces: AvailableSpace[] = [{
-    x: 0,
-    y: 0,
-    z: 0,
-    width: containerInches.length,  // Fixed: container length maps to space width
-    height: containerInches.height,
-    depth: containerInches.width    // Fixed: container width maps to space depth
-  }];
-  
+  const placementState = createPlacementState(containerInches);
   let totalWeight = 0;
-  let currentLevel = 0;
   
-  // Try to pack each item with enhanced constraint checking
   for (const item of items) {
-    // Enhanced weight constraint checking
-    const itemTotalWeight = item.weight * item.quantity;
-    if (totalWeight + itemTotalWeight > container.maxWeight) {
-      continue; // Skip if weight limit exceeded
-    }
-    
-    const itemInches = convertToInches(item.dimensions);
-    
-    // Pre-check if item can physically fit in container (any orientation)
-    const maxItemDim = Math.max(itemInches.length, itemInches.width, itemInches.height);
-    const maxContainerDim = Math.max(containerInches.length, containerInches.width, containerInches.height);
-    
-    if (maxItemDim > maxContainerDim) {
-      continue; // Item is fundamentally too large for this container
-    }
-    
-    let packed = false;
-    
-    // Try different orientations if rotation allowed
-    const orientations = getItemOrientations(itemInches, constraints.allowRotation);
+    const orientations = getItemOrientations(
+      convertToInches(item.dimensions),
+      resolveAllowedOrientations(item, constraints)
+    );
     
-    for (const orientation of orientations) {
-      // Enhanced dimensional fit checking
-      if (!canItemFitInContainer(orientation.dimensions, containerInches)) {
-        continue; // Skip orientation that doesn't fit
-      }
-      
-      const position = findBestPosition(orientation.dimensions, availableSpaces, constraints);
-      
-      if (position) {
-        // Pack the item
-        const packedItem: PackedItem = {
+    // Skip the placement search for items that cannot fit in any allowed orientation
+    const packedUnits = anyOrientationFits(orientations, containerInches)
+      ? placeItemUnits(
+          placementState,
           item,
-          position: position.position,
-          orientation: orientation.name,
-          level: currentLevel
-        };
-        
-        packedItems.push(packedItem);
-        totalWeight += itemTotalWeight;
-        
-        // Update available spaces
-        updateAvailableSpaces(availableSpaces, position.position, orientation.dimensions);
-        
-        packed = true;
-        break;
-      }
-    }
+          item.quantity,
+          orientations,
+          container.maxWeight - totalWeight,
+          constraints
+        )
+      : [];
+    
+    packedItems.push(...packedUnits);
+    totalWeight += packedUnits.length * item.weight;
     
-    if (!packed && constraints.allowStacking !== false) {
-      // Try next level
-      currentLevel++;
-      // Implementation for stacking logic would go here
+    if (packedUnits.length < item.quantity) {
+      unpackedItems.push(packedUnits.length === 0
+        ? item
+        : { ...item, quantity: item.quantity - packedUnits.length });
     }
   }
   
-  // Calculate metrics
+  return buildPackingResult(container, packedItems, unpackedItems, {
+    algorithm: 'best-fit-decreasing',
+    processingTime: Date.now() - startTime,
+    iterations: items.length
+  });
+}
+
+/**
+ * Assemble a PackingResult with fill, weight and efficiency metrics
+ */
+function buildPackingResult(
+  container: PackingContainer,
+  packedItems: PackedItem[],
+  unpackedItems: PackingItem[],
+  metadata: PackingResult['metadata']
+): PackingResult {
   const containerVolume = calculateCUIN(container.dimensions);
   const packedVolume = packedItems.reduce((sum, packed) => {
     return sum + (calculateCUIN(packed.item.dimensions) * packed.item.quantity);
   }, 0);
+  const totalWeight = packedItems.reduce(
+    (sum, packed) => sum + (packed.item.weight * packed.item.quantity), 0
+  );
   
   const fillRate = (packedVolume / containerVolume) * 100;
   const weightUtilization = (totalWeight / container.maxWeight) * 100;
   const efficiency = (fillRate + weightUtilization) / 2;
   
-  // Generate recommendations
   const recommendations = generatePackingRecommendations(
-    packedItems, 
-    items.length - packedItems.length, 
-    fillRate, 
+    packedItems,
+    unpackedItems.reduce((sum, item) => sum + item.quantity, 0),
+    fillRate,
     weightUtilization
   );
   
   return {
     container,
     packedItems,
-    unpackedItems: items.filter(item => 
-      !packedItems.some(packed => packed.item.id === item.id)
-    ),
+    unpackedItems,
     fillRate,
     weightUtilization,
     totalCost: container.cost,
     efficiency,
     recommendations,
-    metadata: {
-      algorithm: 'best-fit-decreasing',
-      processingTime: Date.now() - startTime,
-      iterations: items.length
-    }
+    metadata
   };
 }
 
@@ -342,17 +346,8 @@ function packItemsInContainer(
 // 3D SPACE MANAGEMENT
 // ==========================================
 
-interface AvailableSpace {
-  x: number;
-  y: number;
-  z: number;
-  width: number;
-  height: number;
-  depth: number;
-}
-
 interface ItemOrientation {
-  name: 'original' | 'rotated_x' | 'rotated_y' | 'rotated_z';
+  name: OrientationCode;
   dimensions: {
     length: number;
     width: number;
@@ -360,61 +355,55 @@ interface ItemOrientation {
   };
 }
 
-interface PositionResult {
-  position: Position3D;
-  space: AvailableSpace;
-}
-
 /**
- * Get all possible orientations for an item
+ * Get the oriented dimensions for each allowed orientation of an item
  */
 function getItemOrientations(
   itemDimensions: { length: number; width: number; height: number },
-  allowRotation: boolean = true
+  allowedOrientations: OrientationCode[] = ALL_ORIENTATIONS
 ): ItemOrientation[] {
-  const orientations: ItemOrientation[] = [
-    {
-      name: 'original',
-      dimensions: itemDimensions
-    }
-  ];
-  
-  if (allowRotation) {
-    // Rotate around different axes
-    orientations.push(
-      {
-        name: 'rotated_x',
-        dimensions: {
-          length: itemDimensions.length,
-          width: itemDimensions.height,
-          height: itemDimensions.width
-        }
-      },
-      {
-        name: 'rotated_y',
-        dimensions: {
-          length: itemDimensions.height,
-          width: itemDimensions.width,
-          height: itemDimensions.length
-        }
-      },
-      {
-        name: 'rotated_z',
-        dimensions: {
-          length: itemDimensions.width,
-          width: itemDimensions.length,
-          height: itemDimensions.height
-        }
-      }
-    );
-  }
-  
-  return orientations;
+  return allowedOrientations.map(code => ({
+    name: code,
+    dimensions: getOrientedDimensions(itemDimensions, code)
+  }));
+}
+
+/**
+ * Dimensions of an item as placed in the given orientation. Each letter of the
+ * code names the item side that runs along the container's length, width and
+ * height axes respectively.
+ */
+function getOrientedDimensions(
+  itemDimensions: { length: number; width: number; height: number },
+  orientation: OrientationCode
+): { length: number; width: number; height: number } {
+  const sides = { L: itemDimensions.length, W: itemDimensions.width, H: itemDimensions.height };
+  const [alongLength, alongWidth, alongHeight] = orientation.split('') as Array<keyof typeof sides>;
+
+  return {
+    length: sides[alongLength],
+    width: sides[alongWidth],
+    height: sides[alongHeight]
+  };
 }
 
 /**
- * Find the best position for an item in available spaces
+ * Resolve the orientations an item may be packed in. Rotation switches act as
+ * a hard lock to the original orientation; otherwise the item's own set wins
+ * over the constraint default, and "this side up" removes any orientation
+ * that tips the item over.
  */
+function resolveAllowedOrientations(item: PackingItem, constraints: PackingConstraints): OrientationCode[] {
+  if (constraints.allowRotation === false || item.rotatable === false) {
+    return ['LWH'];
+  }
+
+  const allowed = item.allowedOrientations ?? constraints.allowedOrientations ?? ALL_ORIENTATIONS;
+  return item.thisSideUp
+    ? allowed.filter(code => UPRIGHT_ORIENTATIONS.includes(code))
+    : allowed;
+}
+
 /**
  * Enhanced item fit checking for container
  */
@@ -423,21 +412,10 @@ function canItemFitInContainer(
   containerDimensions: { length: number; width: number; height: number }
 ): boolean {
   // Check if item can fit in any orientation (allowing rotation)
-  const itemDims = [itemDimensions.length, itemDimensions.width, itemDimensions.height];
-  const containerDims = [containerDimensions.length, containerDimensions.width, containerDimensions.height];
-  
-  // Sort dimensions to check if largest item dimension fits in largest container dimension
-  itemDims.sort((a, b) => b - a);
-  containerDims.sort((a, b) => b - a);
-  
-  const canFit = itemDims[0] <= containerDims[0] &&
-                 itemDims[1] <= containerDims[1] &&
-                 itemDims[2] <= containerDims[2];
+  const canFit = dimensionsFitSorted(itemDimensions, containerDimensions);
   
   if (!canFit) {
     console.log('Item cannot fit:', {
-      itemDims: itemDims,
-      containerDims: containerDims,
       itemOriginal: itemDimensions,
       containerOriginal: containerDimensions
     });
@@ -447,109 +425,103 @@ function canItemFitInContainer(
 }
 
 /**
- * Enhanced best position finding with better scoring
+ * Compare sorted dimensions - largest item side against largest container side, and so on
  */
-function findBestPosition(
+function dimensionsFitSorted(
   itemDimensions: { length: number; width: number; height: number },
-  availableSpaces: AvailableSpace[],
-  constraints: PackingConstraints
-): PositionResult | null {
-  let bestPosition: PositionResult | null = null;
-  let bestScore = -1;
-  
-  for (const space of availableSpaces) {
-    // Enhanced fit checking with stricter dimensional validation
-    if (itemDimensions.length <= space.width &&
-        itemDimensions.width <= space.depth &&
-        itemDimensions.height <= space.height) {
-      
-      const position: Position3D = {
-        x: space.x,
-        y: space.y,
-        z: space.z
-      };
-      
-      // Enhanced scoring algorithm
-      // 1. Prefer bottom-left-front positioning (stability)
-      const stabilityScore = (1000 - position.z) * 3 + (1000 - position.x) + (1000 - position.y);
-      
-      // 2. Prefer tighter fits (less wasted space)
-      const wastedVolume = (space.width - itemDimensions.length) * 
-                          (space.depth - itemDimensions.width) * 
-                          (space.height - itemDimensions.height);
-      const wasteScore = Math.max(0, 10000 - wastedVolume);
-      
-      // 3. Combine scores
-      const totalScore = stabilityScore + wasteScore;
-      
-      if (totalScore > bestScore) {
-        bestScore = totalScore;
-        bestPosition = { position, space };
-      }
-    }
-  }
-  
-  return bestPosition;
+  containerDimensions: { length: number; width: number; height: number }
+): boolean {
+  const itemDims = [itemDimensions.length, itemDimensions.width, itemDimensions.height].sort((a, b) => b - a);
+  const containerDims = [containerDimensions.length, containerDimensions.width, containerDimensions.height].sort((a, b) => b - a);
+
+  return itemDims[0] <= containerDims[0] &&
+         itemDims[1] <= containerDims[1] &&
+         itemDims[2] <= containerDims[2];
 }
 
 /**
- * Update available spaces after placing an item
+ * Whether any of the allowed orientations fits inside an empty container
  */
-function updateAvailableSpaces(
-  availableSpaces: AvailableSpace[],
-  position: Position3D,
-  itemDimensions: { length: number; width: number; height: number }
-): void {
-  // Find the space that was used
-  const usedSpaceIndex = availableSpaces.findIndex(space =>
-    space.x === position.x && space.y === position.y && space.z === position.z
+function anyOrientationFits(
+  orientations: ItemOrientation[],
+  containerDimensions: { length: number; width: number; height: number }
+): boolean {
+  return orientations.some(({ dimensions }) =>
+    dimensions.length <= containerDimensions.length &&
+    dimensions.width <= containerDimensions.width &&
+    dimensions.height <= containerDimensions.height
   );
+}
+
+/**
+ * Place up to `units` units of an item using the extreme-point engine.
+ * Orientations are tried in the order given at each candidate point, and
+ * placement stops at the first unit that has no feasible position or would
+ * exceed the remaining weight capacity.
+ */
+function placeItemUnits(
+  state: PlacementState,
+  item: PackingItem,
+  units: number,
+  orientations: ItemOrientation[],
+  weightCapacity: number,
+  constraints: PackingConstraints
+): PackedItem[] {
+  const packedUnits: PackedItem[] = [];
+  const unit: PackingItem = { ...item, quantity: 1 };
+  const candidates = orientations.map(orientation => ({
+    dimensions: orientation.dimensions,
+    tag: orientation.name
+  }));
+  let remainingWeight = weightCapacity;
   
-  if (usedSpaceIndex === -1) return;
-  
-  const usedSpace = availableSpaces[usedSpaceIndex];
-  availableSpaces.splice(usedSpaceIndex, 1);
-  
-  // Create new available spaces around the placed item
-  const newSpaces: AvailableSpace[] = [];
-  
-  // Right space
-  if (position.x + itemDimensions.length < usedSpace.x + usedSpace.width) {
-    newSpaces.push({
-      x: position.x + itemDimensions.length,
-      y: position.y,
-      z: position.z,
-      width: usedSpace.width - itemDimensions.length,
-      height: usedSpace.height,
-      depth: usedSpace.depth
+  for (let i = 0; i < units; i++) {
+    if (item.weight > remainingWeight) break;
+    
+    const placement = findPlacement(state, candidates, item.weight, { allowStacking: constraints.allowStacking });
+    if (!placement) break;
+    
+    commitPlacement(state, {
+      id: item.id,
+      position: placement.position,
+      dimensions: placement.dimensions,
+      weight: item.weight,
+      stackable: item.stackable !== false,
+      maxLoad: item.maxLoadOnTop,
+      level: placement.level
     });
-  }
-  
-  // Top space
-  if (position.z + itemDimensions.height < usedSpace.z + usedSpace.height) {
-    newSpaces.push({
-      x: position.x,
-      y: position.y,
-      z: position.z + itemDimensions.height,
-      width: itemDimensions.length,
-      height: usedSpace.height - itemDimensions.height,
-      depth: itemDimensions.width
+    
+    packedUnits.push({
+      item: unit,
+      position: placement.position,
+      orientation: placement.tag,
+      level: placement.level
     });
+    remainingWeight -= item.weight;
   }
   
-  // Back space
-  if (position.y + itemDimensions.width < usedSpace.y + usedSpace.depth) {
-    newSpaces.push({
-      x: position.x,
-      y: position.y + itemDimensions.width,
-      z: position.z,
-      width: itemDimensions.length,
-      height: itemDimensions.height,
-      depth: usedSpace.depth - itemDimensions.width
+  return packedUnits;
+}
+
+/**
+ * Rebuild the placement state of an existing solution from its packed items
+ */
+function restorePlacementState(solution: PackingResult): PlacementState {
+  const state = createPlacementState(convertToInches(solution.container.dimensions));
+  
+  for (const packed of solution.packedItems) {
+    commitPlacement(state, {
+      id: packed.item.id,
+      position: packed.position,
+      dimensions: getOrientedDimensions(convertToInches(packed.item.dimensions), packed.orientation),
+      weight: packed.item.weight * packed.item.quantity,
+      stackable: packed.item.stackable !== false,
+      maxLoad: packed.item.maxLoadOnTop,
+      level: packed.level
     });
   }
   
-  availableSpaces.push(...newSpaces);
+  return state;
 }
 
 // ==========================================
@@ -571,25 +543,22 @@ export function firstFitDecreasing(
   });
   
   const solutions: PackingResult[] = [];
-  const remainingItems = [...sortedItems];
+  const unpackedItems: PackingItem[] = [];
+  let remainingItems = [...sortedItems];
   
   while (remainingItems.length > 0) {
     let packed = false;
     
     // Try to add to existing containers first
     for (const solution of solutions) {
-      const additionalItems = tryAddItemsToContainer(
+      const additionalUnits = tryAddItemsToContainer(
         remainingItems, 
         solution, 
         constraints
       );
       
-      if (additionalItems.length > 0) {
-        // Remove packed items
-        additionalItems.forEach(item => {
-          const index = remainingItems.findIndex(r => r.id === item.id);
-          if (index !== -1) remainingItems.splice(index, 1);
-        });
+      if (additionalUnits.length > 0) {
+        remainingItems = removePackedUnits(remainingItems, additionalUnits);
         packed = true;
         break;
       }
@@ -597,13 +566,19 @@ export function firstFitDecreasing(
     
     // If no existing container can fit more items, create new one
     if (!packed) {
-      const bestContainer = findBestContainerForItems(remainingItems, containers);
-      if (bestContainer) {
-        const solution = packItemsInContainer([remainingItems[0]], bestContainer, constraints);
+      const bestContainer = findBestContainerForItems(remainingItems, containers) ||
+        findBestContainerForItems([remainingItems[0]], containers);
+      const solution = bestContainer
+        ? packItemsInContainer([remainingItems[0]], bestContainer, constraints)
+        : null;
+      
+      if (solution && solution.packedItems.length > 0) {
         solutions.push(solution);
-        remainingItems.shift();
+        remainingItems = removePackedUnits(remainingItems, solution.packedItems);
       } else {
-        break; // No suitable container found
+        // No container can hold this item - set it aside and carry on
+        unpackedItems.push(remainingItems[0]);
+        remainingItems = remainingItems.slice(1);
       }
     }
   }
@@ -613,7 +588,7 @@ export function firstFitDecreasing(
     totalCost: solutions.reduce((sum, sol) => sum + sol.totalCost, 0),
     totalContainers: solutions.length,
     averageFillRate: solutions.reduce((sum, sol) => sum + sol.fillRate, 0) / solutions.length,
-    unpackedItems: remainingItems,
+    unpackedItems,
     savings: {
       compared_to_individual: 0,
       container_reduction: 0,
@@ -622,24 +597,398 @@ export function firstFitDecreasing(
   };
 }
 
+/**
+ * Options for the genetic algorithm search
+ */
+export interface GeneticAlgorithmOptions {
+  populationSize?: number;
+  generations?: number;
+  mutationRate?: number;
+  crossoverRate?: number;
+  eliteCount?: number;
+  tournamentSize?: number;
+  seed?: number;
+  stallGenerations?: number; // Stop early after this many generations without improvement
+}
+
+/**
+ * Chromosome encoding: the order in which items are fed to the packer plus a
+ * preferred orientation per item (indexed by item, not by position)
+ */
+interface Chromosome {
+  order: number[];
+  orientations: number[];
+  fitness: number;
+  result: MultiOrderPackingResult;
+}
+
+interface OpenBin {
+  container: PackingContainer;
+  placement: PlacementState;
+  packedItems: PackedItem[];
+  weight: number;
+}
+
+const ORIENTATION_GENE_COUNT = 6;
+
 /**
  * Genetic Algorithm for complex multi-item optimization
+ *
+ * Evolves item-order/orientation chromosomes with tournament selection, order
+ * crossover, swap/orientation mutation and elitism. Each chromosome is decoded
+ * by a sequential first-fit packer, so better orderings translate directly into
+ * fewer or cheaper containers. The RNG is seeded, making runs reproducible.
  */
 export function geneticAlgorithmPacking(
   items: PackingItem[],
   containers: PackingContainer[],
   constraints: PackingConstraints = {},
-  options: {
-    populationSize?: number;
-    generations?: number;
-    mutationRate?: number;
-  } = {}
+  options: GeneticAlgorithmOptions = {}
 ): MultiOrderPackingResult {
-  const { populationSize = 50, generations = 100, mutationRate = 0.1 } = options;
-  
-  // For now, fallback to best fit decreasing
-  // Full genetic algorithm implementation would require more complex chromosome encoding
-  return bestFitDecreasing(items, containers, constraints);
+  const startTime = Date.now();
+  const {
+    populationSize = 50,
+    generations = 100,
+    mutationRate = 0.1,
+    crossoverRate = 0.9,
+    eliteCount = 2,
+    tournamentSize = 3,
+    seed = 1,
+    stallGenerations = Math.max(10, Math.floor(generations / 4))
+  } = options;
+
+  if (items.length === 0 || containers.length === 0) {
+    return {
+      solutions: [],
+      totalCost: 0,
+      totalContainers: 0,
+      averageFillRate: 0,
+      unpackedItems: [...items],
+      savings: { compared_to_individual: 0, container_reduction: 0, cost_reduction: 0 },
+      metadata: { algorithm: 'genetic-algorithm', processingTime: Date.now() - startTime, iterations: 0 }
+    };
+  }
+
+  const random = createSeededRandom(seed);
+  const penalty = Math.max(...containers.map(c => c.cost)) * 10 + 1000;
+  const evaluate = (order: number[], orientations: number[]): Chromosome => {
+    const result = decodeChromosome(order, orientations, items, containers, constraints);
+    return { order, orientations, fitness: calculatePackingFitness(result, penalty), result };
+  };
+
+  // Seed the population with the volume-descending order BFD would use,
+  // then fill the rest with random permutations
+  const decreasingOrder = items
+    .map((item, index) => ({ index, volume: calculateCUIN(item.dimensions) * item.quantity }))
+    .sort((a, b) => b.volume - a.volume)
+    .map(entry => entry.index);
+
+  const population: Chromosome[] = [evaluate(decreasingOrder, items.map(() => 0))];
+  while (population.length < Math.max(2, populationSize)) {
+    population.push(evaluate(
+      shuffle(items.map((_, index) => index), random),
+      items.map(() => Math.floor(random() * ORIENTATION_GENE_COUNT))
+    ));
+  }
+  population.sort((a, b) => a.fitness - b.fitness);
+
+  let best = population[0];
+  let iterations = 0;
+  let stall = 0;
+
+  for (let generation = 0; generation < generations; generation++) {
+    iterations++;
+    const nextPopulation: Chromosome[] = population.slice(0, Math.min(eliteCount, population.length));
+
+    while (nextPopulation.length < population.length) {
+      const parentA = tournamentSelect(population, tournamentSize, random);
+      const parentB = tournamentSelect(population, tournamentSize, random);
+
+      let order = [...parentA.order];
+      let orientations = [...parentA.orientations];
+      if (random() < crossoverRate) {
+        order = orderCrossover(parentA.order, parentB.order, random);
+        orientations = parentA.orientations.map((gene, index) =>
+          random() < 0.5 ? gene : parentB.orientations[index]
+        );
+      }
+
+      mutateChromosome(order, orientations, mutationRate, random);
+      nextPopulation.push(evaluate(order, orientations));
+    }
+
+    nextPopulation.sort((a, b) => a.fitness - b.fitness);
+    population.splice(0, population.length, ...nextPopulation);
+
+    if (population[0].fitness < best.fitness) {
+      best = population[0];
+      stall = 0;
+    } else if (++stall >= stallGenerations) {
+      break;
+    }
+  }
+
+  const processingTime = Date.now() - startTime;
+  const solutions = best.result.solutions.map(solution => ({
+    ...solution,
+    metadata: { algorithm: 'genetic-algorithm', processingTime, iterations }
+  }));
+
+  // Calculate savings compared to individual packing
+  const individualCost = calculateIndividualPackingCost(items, containers);
+  const totalCost = solutions.reduce((sum, sol) => sum + sol.totalCost, 0);
+  const costReduction = individualCost > 0 ? ((individualCost - totalCost) / individualCost) * 100 : 0;
+
+  return {
+    ...best.result,
+    solutions,
+    totalCost,
+    savings: {
+      compared_to_individual: costReduction,
+      container_reduction: items.length - solutions.length,
+      cost_reduction: costReduction
+    },
+    metadata: { algorithm: 'genetic-algorithm', processingTime, iterations }
+  };
+}
+
+/**
+ * Decode a chromosome into a packing using a sequential first-fit packer.
+ * Items go into the first open container with room; otherwise a new container
+ * is opened, preferring the cheapest one per usable cubic inch.
+ */
+function decodeChromosome(
+  order: number[],
+  orientations: number[],
+  items: PackingItem[],
+  containers: PackingContainer[],
+  constraints: PackingConstraints
+): MultiOrderPackingResult {
+  const bins: OpenBin[] = [];
+  const unpackedItems: PackingItem[] = [];
+  let remainingVolume = order.reduce(
+    (sum, index) => sum + calculateCUIN(items[index].dimensions) * items[index].quantity, 0
+  );
+
+  for (const index of order) {
+    const item = items[index];
+    const unitVolume = calculateCUIN(item.dimensions);
+    const candidates = getItemOrientations(
+      convertToInches(item.dimensions),
+      resolveAllowedOrientations(item, constraints)
+    );
+
+    // Try the gene's preferred orientation first, then the rest
+    const preferred = candidates.length > 0 ? orientations[index] % candidates.length : 0;
+    const orderedOrientations = [...candidates.slice(preferred), ...candidates.slice(0, preferred)];
+
+    let remainingUnits = item.quantity;
+    for (const bin of bins) {
+      if (remainingUnits === 0) break;
+      const placed = placeInBin(bin, item, remainingUnits, orderedOrientations, constraints);
+      remainingUnits -= placed;
+      remainingVolume -= placed * unitVolume;
+    }
+
+    // Open new containers until every unit is placed or nothing more fits
+    while (remainingUnits > 0) {
+      const container = selectContainerForNewBin(orderedOrientations, item.weight, remainingVolume, containers);
+      if (!container) break;
+
+      const bin: OpenBin = {
+        container,
+        placement: createPlacementState(convertToInches(container.dimensions)),
+        packedItems: [],
+        weight: 0
+      };
+      const placed = placeInBin(bin, item, remainingUnits, orderedOrientations, constraints);
+      if (placed === 0) break;
+
+      bins.push(bin);
+      remainingUnits -= placed;
+      remainingVolume -= placed * unitVolume;
+    }
+
+    if (remainingUnits > 0) {
+      unpackedItems.push(remainingUnits === item.quantity ? item : { ...item, quantity: remainingUnits });
+      remainingVolume -= remainingUnits * unitVolume;
+    }
+  }
+
+  const solutions: PackingResult[] = bins.map(bin =>
+    buildPackingResult(bin.container, bin.packedItems, [], {
+      algorithm: 'genetic-algorithm',
+      processingTime: 0,
+      iterations: 0
+    })
+  );
+
+  return {
+    solutions,
+    totalCost: solutions.reduce((sum, sol) => sum + sol.totalCost, 0),
+    totalContainers: solutions.length,
+    averageFillRate: solutions.length > 0
+      ? solutions.reduce((sum, sol) => sum + sol.fillRate, 0) / solutions.length
+      : 0,
+    unpackedItems,
+    savings: { compared_to_individual: 0, container_reduction: 0, cost_reduction: 0 }
+  };
+}
+
+/**
+ * Place up to `units` units of an item into an open bin, respecting the
+ * bin's remaining weight capacity. Returns the number of units placed.
+ */
+function placeInBin(
+  bin: OpenBin,
+  item: PackingItem,
+  units: number,
+  orientations: ItemOrientation[],
+  constraints: PackingConstraints
+): number {
+  const packedUnits = placeItemUnits(
+    bin.placement,
+    item,
+    units,
+    orientations,
+    bin.container.maxWeight - bin.weight,
+    constraints
+  );
+  bin.packedItems.push(...packedUnits);
+  bin.weight += packedUnits.length * item.weight;
+  return packedUnits.length;
+}
+
+/**
+ * Choose the container for a new bin: it must hold the item, and among those
+ * the one with the lowest cost per usable cubic inch wins. Usable volume is
+ * capped by what is still left to pack, so the tail of the sequence goes into
+ * smaller boxes.
+ */
+function selectContainerForNewBin(
+  orientations: ItemOrientation[],
+  itemWeight: number,
+  remainingVolume: number,
+  containers: PackingContainer[]
+): PackingContainer | null {
+  let bestContainer: PackingContainer | null = null;
+  let bestScore = Infinity;
+
+  for (const container of containers) {
+    if (container.maxWeight < itemWeight) continue;
+    if (!anyOrientationFits(orientations, convertToInches(container.dimensions))) continue;
+
+    const usableVolume = Math.min(calculateCUIN(container.dimensions), remainingVolume);
+    const score = usableVolume > 0 ? container.cost / usableVolume : container.cost;
+    if (score < bestScore) {
+      bestScore = score;
+      bestContainer = container;
+    }
+  }
+
+  return bestContainer;
+}
+
+/**
+ * Fitness to minimise: container cost, a heavy penalty per unpacked item and a
+ * small bonus for fuller containers as a tie-breaker
+ */
+function calculatePackingFitness(result: MultiOrderPackingResult, unpackedPenalty: number): number {
+  return result.totalCost +
+    result.unpackedItems.reduce((sum, item) => sum + item.quantity, 0) * unpackedPenalty -
+    result.averageFillRate * 0.0001;
+}
+
+/**
+ * Tournament selection - the fittest of `size` random individuals
+ */
+function tournamentSelect(population: Chromosome[], size: number, random: () => number): Chromosome {
+  let winner = population[Math.floor(random() * population.length)];
+  for (let i = 1; i < size; i++) {
+    const challenger = population[Math.floor(random() * population.length)];
+    if (challenger.fitness < winner.fitness) {
+      winner = challenger;
+    }
+  }
+  return winner;
+}
+
+/**
+ * Order crossover (OX1): keep a slice of parent A and fill the remaining
+ * positions with the missing genes in parent B's order
+ */
+function orderCrossover(parentA: number[], parentB: number[], random: () => number): number[] {
+  const size = parentA.length;
+  if (size < 2) return [...parentA];
+
+  let start = Math.floor(random() * size);
+  let end = Math.floor(random() * size);
+  if (start > end) [start, end] = [end, start];
+
+  const child: number[] = new Array(size).fill(-1);
+  const inChild = new Set<number>();
+  for (let i = start; i <= end; i++) {
+    child[i] = parentA[i];
+    inChild.add(parentA[i]);
+  }
+
+  let position = (end + 1) % size;
+  for (let i = 0; i < size; i++) {
+    const gene = parentB[(end + 1 + i) % size];
+    if (inChild.has(gene)) continue;
+    child[position] = gene;
+    inChild.add(gene);
+    position = (position + 1) % size;
+  }
+
+  return child;
+}
+
+/**
+ * Swap mutation on the order genes and random reassignment of orientation genes
+ */
+function mutateChromosome(
+  order: number[],
+  orientations: number[],
+  mutationRate: number,
+  random: () => number
+): void {
+  for (let i = 0; i < order.length; i++) {
+    if (random() < mutationRate) {
+      const j = Math.floor(random() * order.length);
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+  }
+  for (let i = 0; i < orientations.length; i++) {
+    if (random() < mutationRate) {
+      orientations[i] = Math.floor(random() * ORIENTATION_GENE_COUNT);
+    }
+  }
+}
+
+/**
+ * Fisher-Yates shuffle using the supplied RNG
+ */
+function shuffle<T>(values: T[], random: () => number): T[] {
+  for (let i = values.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+  return values;
+}
+
+/**
+ * Deterministic PRNG (mulberry32) so GA runs are reproducible for a given seed
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
 
 // ==========================================
@@ -647,36 +996,78 @@ export function geneticAlgorithmPacking(
 // ==========================================
 
 /**
- * Try to add items to an existing container solution
+ * Try to add items to an existing container solution. The solution's
+ * placements are replayed into a placement state so new units only go into
+ * geometrically free space; the solution is updated in place and the newly
+ * packed units are returned.
  */
 function tryAddItemsToContainer(
   items: PackingItem[],
   existingSolution: PackingResult,
   constraints: PackingConstraints
-): PackingItem[] {
-  // Simplified implementation - would need to track available space
-  const addedItems: PackingItem[] = [];
-  const currentWeight = existingSolution.packedItems.reduce(
+): PackedItem[] {
+  const { container } = existingSolution;
+  const containerInches = convertToInches(container.dimensions);
+  const placementState = restorePlacementState(existingSolution);
+  const addedUnits: PackedItem[] = [];
+  let currentWeight = existingSolution.packedItems.reduce(
     (sum, packed) => sum + (packed.item.weight * packed.item.quantity), 0
   );
   
   for (const item of items) {
-    if (currentWeight + (item.weight * item.quantity) <= existingSolution.container.maxWeight) {
-      // Check if there's space (simplified check)
-      const currentVolume = existingSolution.packedItems.reduce(
-        (sum, packed) => sum + (calculateCUIN(packed.item.dimensions) * packed.item.quantity), 0
-      );
-      const containerVolume = calculateCUIN(existingSolution.container.dimensions);
-      const itemVolume = calculateCUIN(item.dimensions) * item.quantity;
-      
-      if (currentVolume + itemVolume <= containerVolume * 0.9) { // 90% fill limit
-        addedItems.push(item);
-        break; // Only add one item at a time for simplicity
-      }
+    const orientations = getItemOrientations(
+      convertToInches(item.dimensions),
+      resolveAllowedOrientations(item, constraints)
+    );
+    if (!anyOrientationFits(orientations, containerInches)) continue;
+    
+    const packedUnits = placeItemUnits(
+      placementState,
+      item,
+      item.quantity,
+      orientations,
+      container.maxWeight - currentWeight,
+      constraints
+    );
+    addedUnits.push(...packedUnits);
+    currentWeight += packedUnits.length * item.weight;
+  }
+  
+  if (addedUnits.length > 0) {
+    Object.assign(existingSolution, buildPackingResult(
+      container,
+      [...existingSolution.packedItems, ...addedUnits],
+      existingSolution.unpackedItems,
+      existingSolution.metadata
+    ));
+  }
+  
+  return addedUnits;
+}
+
+/**
+ * Reduce item quantities by the units that were packed, dropping items
+ * with nothing left
+ */
+function removePackedUnits(items: PackingItem[], packedUnits: PackedItem[]): PackingItem[] {
+  const packedCounts = new Map<string, number>();
+  for (const packed of packedUnits) {
+    packedCounts.set(packed.item.id, (packedCounts.get(packed.item.id) || 0) + packed.item.quantity);
+  }
+  
+  const remaining: PackingItem[] = [];
+  for (const item of items) {
+    const packedCount = Math.min(packedCounts.get(item.id) || 0, item.quantity);
+    packedCounts.set(item.id, (packedCounts.get(item.id) || 0) - packedCount);
+    
+    if (packedCount === 0) {
+      remaining.push(item);
+    } else if (packedCount < item.quantity) {
+      remaining.push({ ...item, quantity: item.quantity - packedCount });
     }
   }
   
-  return addedItems;
+  return remaining;
 }
 
 /**
@@ -700,8 +1091,14 @@ function findBestContainerForItems(
   
   for (const container of containers) {
     const containerVolume = calculateCUIN(container.dimensions);
+    const containerInches = convertToInches(container.dimensions);
     
-    if (containerVolume >= totalVolume && container.maxWeight >= totalWeight) {
+    // Volume alone is not enough - every item must physically fit
+    const allItemsFit = items.every(item =>
+      dimensionsFitSorted(convertToInches(item.dimensions), containerInches)
+    );
+    
+    if (allItemsFit && containerVolume >= totalVolume && container.maxWeight >= totalWeight) {
       const fillRate = (totalVolume / containerVolume) * 100;
       const weightUtilization = (totalWeight / container.maxWeight) * 100;
       const score = fillRate + weightUtilization - (container.cost * 10); // Prefer cheaper containers
@@ -770,16 +1167,121 @@ function generatePackingRecommendations(
   return recommendations;
 }
 
+/**
+ * Maximum number of units of an item (up to its quantity) that fit in one
+ * empty container, respecting geometry, weight and orientation constraints
+ */
+export function calculateContainerCapacity(
+  item: PackingItem,
+  container: PackingContainer,
+  constraints: PackingConstraints = {}
+): number {
+  const containerInches = convertToInches(container.dimensions);
+  const orientations = getItemOrientations(
+    convertToInches(item.dimensions),
+    resolveAllowedOrientations(item, constraints)
+  );
+  if (!anyOrientationFits(orientations, containerInches)) return 0;
+  
+  return placeItemUnits(
+    createPlacementState(containerInches),
+    item,
+    item.quantity,
+    orientations,
+    container.maxWeight,
+    constraints
+  ).length;
+}
+
+// Footprints tried per load before settling on the most compact one
+const MAX_LOAD_FOOTPRINTS = 24;
+
+/**
+ * Bounding box of a mixed load, so multi-SKU orders can be treated as a
+ * single carton-sized shipment. Units are placed on a footprint that starts
+ * as wide as the largest item side and grows in item-side steps while the
+ * stack is still taller than it is wide; the footprint giving the smallest
+ * longest side (then volume) wins. Units that still do not place are stacked
+ * on top of the footprint.
+ */
+export function calculateLoadDimensions(
+  items: PackingItem[],
+  constraints: PackingConstraints = {}
+): Dimensions {
+  const itemsInches = items.map(item => ({ item, dimensions: convertToInches(item.dimensions) }));
+  const sides = itemsInches.flatMap(({ dimensions }) => [dimensions.length, dimensions.width, dimensions.height]);
+  const side = Math.max(0, ...sides);
+  if (side === 0) return { length: 0, width: 0, height: 0, unit: 'in' };
+
+  const volume = ({ length, width, height }: { length: number; width: number; height: number }) => length * width * height;
+  const sorted = [...itemsInches].sort((a, b) => volume(b.dimensions) - volume(a.dimensions));
+  const stackHeight = itemsInches.reduce((sum, { item, dimensions }) =>
+    sum + Math.max(dimensions.length, dimensions.width, dimensions.height) * item.quantity, 0
+  );
+
+  const packOnFootprint = (length: number, width: number): Dimensions => {
+    const state = createPlacementState({ length, width, height: stackHeight });
+    let unplacedHeight = 0;
+
+    for (const { item, dimensions } of sorted) {
+      const orientations = getItemOrientations(dimensions, resolveAllowedOrientations(item, constraints));
+      const placed = placeItemUnits(state, item, item.quantity, orientations, Infinity, { ...constraints, allowStacking: true });
+      unplacedHeight += (item.quantity - placed.length) * Math.min(dimensions.length, dimensions.width, dimensions.height);
+    }
+
+    const extent = (axis: 'x' | 'y' | 'z', size: 'length' | 'width' | 'height') =>
+      Math.max(0, ...state.boxes.map(box => box.position[axis] + box.dimensions[size]));
+
+    return {
+      length: extent('x', 'length') || length,
+      width: extent('y', 'width') || width,
+      height: extent('z', 'height') + unplacedHeight,
+      unit: 'in'
+    };
+  };
+
+  // Footprint sides are whole multiples of item sides, up to twice the side of a cube holding the load
+  const loadVolume = itemsInches.reduce((sum, { item, dimensions }) => sum + volume(dimensions) * item.quantity, 0);
+  const limit = Math.max(side, 2 * Math.cbrt(loadVolume));
+  const steps = new Set<number>([side]);
+  for (const step of sides.filter(value => value > 0)) {
+    for (let multiple = step; multiple <= limit; multiple += step) {
+      if (multiple >= side) steps.add(multiple);
+    }
+  }
+  const footprints = [...steps].sort((a, b) => a - b);
+
+  const longestSide = (load: Dimensions) => Math.max(load.length, load.width, load.height);
+  let length = side;
+  let width = side;
+  let best = packOnFootprint(length, width);
+  let current = best;
+
+  for (let tried = 1; tried < MAX_LOAD_FOOTPRINTS && current.height > Math.max(current.length, current.width); tried++) {
+    // Widen the narrower side of the footprint to the next step
+    const next = footprints.find(value => value > width);
+    if (next === undefined) break;
+    [length, width] = next > length ? [next, length] : [length, next];
+
+    current = packOnFootprint(length, width);
+    if (longestSide(current) < longestSide(best) ||
+        (longestSide(current) === longestSide(best) && volume(current) < volume(best))) {
+      best = current;
+    }
+  }
+
+  return best;
+}
+
 /**
  * Convert packing items from order items
  */
 export function convertOrderItemsToPacking(orderItems: OrderItem[]): PackingItem[] {
   return orderItems.map(item => ({
-    id: item.sku,
+    id: item.id,
     dimensions: item.dimensions,
     weight: item.weight,
     quantity: item.quantity,
-    value: item.value,
     fragile: item.fragile,
     category: item.category,
     stackable: !item.fragile, // Assume non-fragile items are stackable
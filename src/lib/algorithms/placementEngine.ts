@@ -0,0 +1,373 @@
+/**
+ * Extreme-Point Placement Engine
+ *
+ * Geometric placement of boxes inside a container:
+ * - Extreme-point candidate generation with axis projections
+ * - Exact non-overlap and containment checks
+ * - Support checks for items resting on other items
+ * - Stackability rules (nothing placed on top of non-stackable items)
+ * - Load-bearing limits, with weight passed down through supporting items
+ *
+ * All coordinates are in inches. Length runs along x, width along y and
+ * height along z, with the origin at the bottom-left-back corner.
+ */
+
+import type { Position3D } from './packingOptimizer';
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export interface BoxDimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+export interface PlacedBox {
+  id: string;
+  position: Position3D;
+  dimensions: BoxDimensions;
+  weight: number;
+  stackable: boolean;
+  level: number;
+  maxLoad?: number; // Maximum weight (lbs) that may rest on top of this box
+  load: number;     // Weight currently resting on top, directly or indirectly
+}
+
+export interface PlacementState {
+  container: BoxDimensions;
+  boxes: PlacedBox[];
+  extremePoints: Position3D[];
+}
+
+export interface PlacementCandidate<T> {
+  dimensions: BoxDimensions;
+  tag: T;
+}
+
+export interface PlacementOptions {
+  allowStacking?: boolean;
+  minimumSupportRatio?: number; // Fraction of the base that must rest on something
+}
+
+export interface Placement<T> {
+  position: Position3D;
+  dimensions: BoxDimensions;
+  tag: T;
+  level: number;
+}
+
+// ==========================================
+// CONSTANTS
+// ==========================================
+
+const EPSILON = 1e-6;
+const DEFAULT_SUPPORT_RATIO = 0.6;
+
+// ==========================================
+// STATE MANAGEMENT
+// ==========================================
+
+/**
+ * Create an empty placement state for a container
+ */
+export function createPlacementState(container: BoxDimensions): PlacementState {
+  return {
+    container,
+    boxes: [],
+    extremePoints: [{ x: 0, y: 0, z: 0 }]
+  };
+}
+
+/**
+ * Find the first feasible placement, scanning extreme points bottom-back-left
+ * and trying candidate orientations in the order given. The weight is used to
+ * check load-bearing limits of the boxes underneath.
+ */
+export function findPlacement<T>(
+  state: PlacementState,
+  candidates: PlacementCandidate<T>[],
+  weight: number,
+  options: PlacementOptions = {}
+): Placement<T> | null {
+  const points = [...state.extremePoints].sort((a, b) =>
+    a.z - b.z || a.y - b.y || a.x - b.x
+  );
+
+  for (const point of points) {
+    if (options.allowStacking === false && point.z > EPSILON) continue;
+
+    for (const candidate of candidates) {
+      const level = checkPlacement(state, point, candidate.dimensions, weight, options);
+      if (level !== null) {
+        return {
+          position: { ...point },
+          dimensions: candidate.dimensions,
+          tag: candidate.tag,
+          level
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Commit a placement to the state, pass its weight down to the boxes
+ * underneath and refresh the extreme points
+ */
+export function commitPlacement(
+  state: PlacementState,
+  box: Omit<PlacedBox, 'level' | 'load'> & { level?: number }
+): PlacedBox {
+  const placed: PlacedBox = {
+    ...box,
+    level: box.level ?? getSupportingBoxes(state, box.position, box.dimensions)
+      .reduce((max, support) => Math.max(max, support.level + 1), 0),
+    load: 0
+  };
+
+  for (const [support, load] of computeLoadTransfer(state, box.position, box.dimensions, box.weight)) {
+    support.load += load;
+  }
+
+  state.boxes.push(placed);
+  state.extremePoints = updateExtremePoints(state, placed);
+  return placed;
+}
+
+/**
+ * Total volume of all placed boxes in cubic inches
+ */
+export function getUsedVolume(state: PlacementState): number {
+  return state.boxes.reduce(
+    (sum, box) => sum + box.dimensions.length * box.dimensions.width * box.dimensions.height, 0
+  );
+}
+
+// ==========================================
+// FEASIBILITY CHECKS
+// ==========================================
+
+/**
+ * Check whether a box can go at a point. Returns the stacking level on
+ * success and null when the placement is infeasible.
+ */
+function checkPlacement(
+  state: PlacementState,
+  point: Position3D,
+  dimensions: BoxDimensions,
+  weight: number,
+  options: PlacementOptions
+): number | null {
+  const { container } = state;
+
+  // Containment
+  if (point.x + dimensions.length > container.length + EPSILON ||
+      point.y + dimensions.width > container.width + EPSILON ||
+      point.z + dimensions.height > container.height + EPSILON) {
+    return null;
+  }
+
+  // Non-overlap
+  for (const box of state.boxes) {
+    if (boxesOverlap(point, dimensions, box.position, box.dimensions)) {
+      return null;
+    }
+  }
+
+  // Items on the floor are always supported
+  if (point.z <= EPSILON) {
+    return 0;
+  }
+
+  const supports = getSupportingBoxes(state, point, dimensions);
+  if (supports.length === 0 || supports.some(support => !support.stackable)) {
+    return null;
+  }
+
+  const supportedArea = supports.reduce(
+    (sum, support) => sum + overlapArea(point, dimensions, support.position, support.dimensions), 0
+  );
+  const baseArea = dimensions.length * dimensions.width;
+  const minimumSupportRatio = options.minimumSupportRatio ?? DEFAULT_SUPPORT_RATIO;
+
+  if (supportedArea + EPSILON < baseArea * minimumSupportRatio) {
+    return null;
+  }
+
+  // Load bearing
+  for (const [support, load] of computeLoadTransfer(state, point, dimensions, weight)) {
+    if (support.maxLoad !== undefined && support.load + load > support.maxLoad + EPSILON) {
+      return null;
+    }
+  }
+
+  return supports.reduce((max, support) => Math.max(max, support.level + 1), 0);
+}
+
+/**
+ * Boxes whose top face touches the bottom face of the given box
+ */
+function getSupportingBoxes(
+  state: PlacementState,
+  point: Position3D,
+  dimensions: BoxDimensions
+): PlacedBox[] {
+  if (point.z <= EPSILON) return [];
+
+  return state.boxes.filter(box =>
+    Math.abs(box.position.z + box.dimensions.height - point.z) <= EPSILON &&
+    overlapArea(point, dimensions, box.position, box.dimensions) > EPSILON
+  );
+}
+
+/**
+ * Distribute a box's weight over its supports in proportion to the shared
+ * footprint, then keep passing each share down to the floor. Returns the
+ * additional load each box underneath would carry.
+ */
+function computeLoadTransfer(
+  state: PlacementState,
+  point: Position3D,
+  dimensions: BoxDimensions,
+  weight: number
+): Map<PlacedBox, number> {
+  const loads = new Map<PlacedBox, number>();
+  if (weight <= 0) return loads;
+
+  const pending = [{ point, dimensions, weight }];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    const supports = getSupportingBoxes(state, current.point, current.dimensions);
+    const areas = supports.map(support =>
+      overlapArea(current.point, current.dimensions, support.position, support.dimensions)
+    );
+    const totalArea = areas.reduce((sum, area) => sum + area, 0);
+    if (totalArea <= 0) continue;
+
+    supports.forEach((support, index) => {
+      const share = current.weight * (areas[index] / totalArea);
+      loads.set(support, (loads.get(support) || 0) + share);
+      pending.push({ point: support.position, dimensions: support.dimensions, weight: share });
+    });
+  }
+
+  return loads;
+}
+
+/**
+ * Axis-aligned overlap test (touching faces do not count as overlap)
+ */
+function boxesOverlap(
+  aPos: Position3D,
+  aDims: BoxDimensions,
+  bPos: Position3D,
+  bDims: BoxDimensions
+): boolean {
+  return aPos.x < bPos.x + bDims.length - EPSILON && bPos.x < aPos.x + aDims.length - EPSILON &&
+         aPos.y < bPos.y + bDims.width - EPSILON && bPos.y < aPos.y + aDims.width - EPSILON &&
+         aPos.z < bPos.z + bDims.height - EPSILON && bPos.z < aPos.z + aDims.height - EPSILON;
+}
+
+/**
+ * Area of the xy-footprint overlap between two boxes
+ */
+function overlapArea(
+  aPos: Position3D,
+  aDims: BoxDimensions,
+  bPos: Position3D,
+  bDims: BoxDimensions
+): number {
+  const overlapX = Math.min(aPos.x + aDims.length, bPos.x + bDims.length) - Math.max(aPos.x, bPos.x);
+  const overlapY = Math.min(aPos.y + aDims.width, bPos.y + bDims.width) - Math.max(aPos.y, bPos.y);
+  return overlapX > 0 && overlapY > 0 ? overlapX * overlapY : 0;
+}
+
+// ==========================================
+// EXTREME POINT GENERATION
+// ==========================================
+
+/**
+ * Generate the new extreme points created by a placed box and drop any
+ * points that are now covered by a box or fall outside the container
+ */
+function updateExtremePoints(state: PlacementState, placed: PlacedBox): Position3D[] {
+  const { x, y, z } = placed.position;
+  const { length, width, height } = placed.dimensions;
+
+  const cornerRight = { x: x + length, y, z };
+  const cornerFront = { x, y: y + width, z };
+  const cornerTop = { x, y, z: z + height };
+
+  const generated: Position3D[] = [
+    cornerRight,
+    projectAlong(state, cornerRight, 'y'),
+    projectAlong(state, cornerRight, 'z'),
+    cornerFront,
+    projectAlong(state, cornerFront, 'x'),
+    projectAlong(state, cornerFront, 'z'),
+    cornerTop,
+    projectAlong(state, cornerTop, 'x'),
+    projectAlong(state, cornerTop, 'y')
+  ];
+
+  const points: Position3D[] = [];
+  for (const point of [...state.extremePoints, ...generated]) {
+    if (point.x >= state.container.length - EPSILON ||
+        point.y >= state.container.width - EPSILON ||
+        point.z >= state.container.height - EPSILON) {
+      continue;
+    }
+    if (state.boxes.some(box => pointInsideBox(point, box))) {
+      continue;
+    }
+    if (points.some(existing =>
+      Math.abs(existing.x - point.x) <= EPSILON &&
+      Math.abs(existing.y - point.y) <= EPSILON &&
+      Math.abs(existing.z - point.z) <= EPSILON
+    )) {
+      continue;
+    }
+    points.push(point);
+  }
+
+  return points;
+}
+
+/**
+ * Slide a point towards the origin along one axis until it meets a box face
+ * or the container wall
+ */
+function projectAlong(state: PlacementState, point: Position3D, axis: 'x' | 'y' | 'z'): Position3D {
+  let limit = 0;
+
+  for (const box of state.boxes) {
+    const far = axis === 'x' ? box.position.x + box.dimensions.length
+      : axis === 'y' ? box.position.y + box.dimensions.width
+      : box.position.z + box.dimensions.height;
+
+    if (far > point[axis] + EPSILON || far <= limit) continue;
+
+    const inX = axis === 'x' || (point.x >= box.position.x - EPSILON && point.x < box.position.x + box.dimensions.length - EPSILON);
+    const inY = axis === 'y' || (point.y >= box.position.y - EPSILON && point.y < box.position.y + box.dimensions.width - EPSILON);
+    const inZ = axis === 'z' || (point.z >= box.position.z - EPSILON && point.z < box.position.z + box.dimensions.height - EPSILON);
+
+    if (inX && inY && inZ) {
+      limit = far;
+    }
+  }
+
+  return { ...point, [axis]: limit };
+}
+
+/**
+ * Whether a point lies strictly inside a box (faces excluded)
+ */
+function pointInsideBox(point: Position3D, box: PlacedBox): boolean {
+  return point.x > box.position.x + EPSILON && point.x < box.position.x + box.dimensions.length - EPSILON &&
+         point.y > box.position.y + EPSILON && point.y < box.position.y + box.dimensions.width - EPSILON &&
+         point.z > box.position.z + EPSILON && point.z < box.position.z + box.dimensions.height - EPSILON;
+}
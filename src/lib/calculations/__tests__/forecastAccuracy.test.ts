@@ -0,0 +1,102 @@
+/**
+ * Forecast Accuracy Tests
+ *
+ * Test suite for backtesting stored forecasts and the safety buffer suggestion
+ */
+
+import { backtestForecast, suggestSafetyBuffer, type ActualUsage } from '../forecastAccuracy';
+
+describe('Forecast Accuracy', () => {
+  const generatedAt = Date.UTC(2024, 0, 1);
+  const now = Date.UTC(2024, 2, 1);
+
+  const actuals: ActualUsage = {
+    quarterly: [
+      { quarter: 'Q1 2024', packageType: 'Small', quantity: 120, createdAt: generatedAt + 1000 },
+      { quarter: 'Q1 2024', packageType: 'Large', quantity: 40, createdAt: generatedAt + 1000 },
+      { quarter: 'Q4 2023', packageType: 'Small', quantity: 90, createdAt: generatedAt - 1000 }
+    ],
+    usage: [
+      { date: '2024-01-05', packageType: 'Small', quantityUsed: 80 },
+      { date: '2024-01-20', packageType: 'Small', quantityUsed: 30 },
+      { date: '2024-02-10', packageType: 'Large', quantityUsed: 15 }
+    ]
+  };
+
+  test('compares time-series forecasts with periods uploaded afterwards', () => {
+    const backtest = backtestForecast({
+      id: 'a1',
+      name: 'Quarterly forecast',
+      generatedAt,
+      method: 'forecast',
+      source: 'quarterly',
+      results: [
+        { packageType: 'Small', baseQuantity: 300, forecast: { periods: [{ label: 'Q1 2024', forecast: 100 }, { label: 'Q2 2024', forecast: 200 }] } },
+        { packageType: 'Large', baseQuantity: 100, forecast: { periods: [{ label: 'Q1 2024', forecast: 50 }, { label: 'Q2 2024', forecast: 50 }] } }
+      ]
+    }, actuals, now);
+
+    expect(backtest.comparisons).toHaveLength(2);
+    expect(backtest.mape).toBeCloseTo(20.83, 2);
+    expect(backtest.bias).toBeCloseTo(-6.25, 2);
+    expect(backtest.packages.map(pkg => [pkg.packageType, pkg.error])).toEqual([['Small', -20], ['Large', 10]]);
+  });
+
+  test('only counts completed months of usage logs', () => {
+    const backtest = backtestForecast({
+      id: 'a2',
+      name: 'Monthly forecast',
+      generatedAt,
+      method: 'forecast',
+      source: 'usage',
+      results: [
+        { packageType: 'Small', baseQuantity: 300, forecast: { periods: ['2024-01', '2024-02', '2024-03'].map(label => ({ label, forecast: 100 })) } }
+      ]
+    }, actuals, now);
+
+    expect(backtest.comparisons.map(comparison => [comparison.period, comparison.actual])).toEqual([['2024-01', 110], ['2024-02', 0]]);
+  });
+
+  test('checks order-count forecasts once their window has passed', () => {
+    const forecast = {
+      id: 'a3',
+      name: 'Order forecast',
+      generatedAt,
+      method: 'historical',
+      periodDays: 30,
+      results: [{ packageType: 'Small', baseQuantity: 100 }, { packageType: 'Large', baseQuantity: 20 }]
+    };
+
+    const backtest = backtestForecast(forecast, actuals, now);
+
+    expect(backtest.comparisons.map(comparison => comparison.actual)).toEqual([110, 0]);
+    expect(backtest.mape).toBeCloseTo(9.09, 2);
+    expect(backtest.bias).toBeCloseTo(9.09, 2);
+    expect(backtestForecast({ ...forecast, periodDays: 90 }, actuals, now).comparisons).toEqual([]);
+  });
+
+  test('suggests the buffer that would have covered most shortfalls', () => {
+    const backtest = backtestForecast({
+      id: 'a4',
+      name: 'Quarterly forecast',
+      generatedAt,
+      method: 'forecast',
+      source: 'quarterly',
+      results: [
+        { packageType: 'Small', baseQuantity: 100, forecast: { periods: [{ label: 'Q1 2024', forecast: 100 }] } },
+        { packageType: 'Large', baseQuantity: 50, forecast: { periods: [{ label: 'Q1 2024', forecast: 50 }] } }
+      ]
+    }, actuals, now);
+    const orders = backtestForecast({
+      id: 'a5',
+      name: 'Order forecast',
+      generatedAt,
+      method: 'manual',
+      periodDays: 30,
+      results: [{ packageType: 'Small', baseQuantity: 100 }]
+    }, actuals, now);
+
+    expect(suggestSafetyBuffer([backtest], 10)).toBeNull();
+    expect(suggestSafetyBuffer([backtest, orders], 10)).toEqual({ currentBuffer: 10, suggestedBuffer: 20, observations: 3 });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Demand Forecasting Tests
+ *
+ * Test suite for model selection, prediction intervals and period handling
+ */
+
+import {
+  buildMonthlySeries,
+  buildQuarterlySeries,
+  forecastPeriodSeries,
+  forecastSeries,
+  nextQuarterLabels
+} from '../forecasting';
+
+describe('Demand Forecasting', () => {
+  test('picks a trend model for steadily growing usage', () => {
+    const history = [100, 110, 120, 130, 140, 150, 160, 170];
+
+    const result = forecastSeries(history, { horizon: 2 });
+
+    expect(result.model).toBe('holt');
+    expect(result.points.map(point => Math.round(point.forecast))).toEqual([180, 190]);
+    expect(result.candidates.find(candidate => candidate.model === 'moving_average')?.error).toBeGreaterThan(result.holdoutError!);
+  });
+
+  test('picks Holt-Winters for seasonal usage and widens intervals with the horizon', () => {
+    const cycle = [200, 120, 150, 400];
+    const history = [...cycle, ...cycle.map(value => value + 20), ...cycle.map(value => value + 40)];
+
+    const result = forecastSeries(history, { horizon: 4, seasonLength: 4 });
+    const widths = result.points.map(point => point.upper - point.lower);
+
+    expect(result.model).toBe('holt_winters');
+    expect(result.points[3].forecast).toBeGreaterThan(result.points[1].forecast * 2);
+    expect(widths[3]).toBeGreaterThanOrEqual(widths[0]);
+    expect(result.points.every(point => point.lower <= point.forecast && point.forecast <= point.upper)).toBe(true);
+  });
+
+  test('falls back to a moving average for very short histories', () => {
+    const result = forecastSeries([40, 60], { horizon: 3 });
+
+    expect(result.model).toBe('moving_average');
+    expect(result.holdoutError).toBeNull();
+    expect(result.points.map(point => point.forecast)).toEqual([50, 50, 50]);
+  });
+
+  test('orders quarters chronologically and labels the projected periods', () => {
+    const history = buildQuarterlySeries([
+      { quarter: 'Q1 2025', packageType: 'Small', quantity: 30, createdAt: 1 },
+      { quarter: 'Q3 2024', packageType: 'Small', quantity: 10, createdAt: 2 },
+      { quarter: 'Q4 2024', packageType: 'Small', quantity: 20, createdAt: 3 },
+      { quarter: 'Q4 2024', packageType: 'Large', quantity: 5, createdAt: 3 }
+    ]);
+
+    expect(history.periods).toEqual(['Q3 2024', 'Q4 2024', 'Q1 2025']);
+    expect(history.series).toEqual({ Small: [10, 20, 30], Large: [0, 5, 0] });
+    expect(nextQuarterLabels('Q3 2025', 3)).toEqual(['Q4 2025', 'Q1 2026', 'Q2 2026']);
+
+    const [small] = forecastPeriodSeries(history, { horizon: 2 });
+    expect(small.periods.map(period => period.label)).toEqual(['Q2 2025', 'Q3 2025']);
+    expect(small.total).toBeCloseTo(small.periods[0].forecast + small.periods[1].forecast, 6);
+  });
+
+  test('buckets usage logs into months and fills gaps', () => {
+    const history = buildMonthlySeries([
+      { date: '2024-11-03', packageType: 'Mailer', quantityUsed: 4 },
+      { date: '2024-11-20', packageType: 'Mailer', quantityUsed: 6 },
+      { date: '2025-01-15', packageType: 'Mailer', quantityUsed: 12 }
+    ]);
+
+    expect(history.periods).toEqual(['2024-11', '2024-12', '2025-01']);
+    expect(history.series.Mailer).toEqual([10, 0, 12]);
+  });
+});
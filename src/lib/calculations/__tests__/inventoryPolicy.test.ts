@@ -0,0 +1,69 @@
+/**
+ * Inventory Policy Tests
+ *
+ * Test suite for safety stock, reorder point, EOQ and stock-out projection
+ */
+
+import { calculateInventoryPolicy, demandVariability } from '../inventoryPolicy';
+
+describe('Inventory Policy', () => {
+  const asOf = Date.UTC(2024, 0, 1);
+
+  test('sizes safety stock from demand variability, lead time and service level', () => {
+    const variability = demandVariability([90, 110], 10);
+
+    const policy = calculateInventoryPolicy({
+      demand: 900,
+      periodDays: 90,
+      unitCost: 2,
+      serviceLevel: 0.95,
+      variability,
+      onHand: 300,
+      leadTimeDays: 14,
+      orderingCost: 50,
+      holdingCostRate: 25,
+      asOf
+    });
+
+    expect(variability?.coefficientOfVariation).toBeCloseTo(0.1414, 4);
+    expect(policy.dailyDemand).toBe(10);
+    expect(policy.safetyStock).toBe(28);
+    expect(policy.safetyStockMethod).toBe('variability');
+    expect(policy.reorderPoint).toBe(168);
+    expect(policy.economicOrderQuantity).toBe(854);
+    expect(policy.daysOfCover).toBe(30);
+    expect(policy.reorderDate).toBe('2024-01-14');
+    expect(policy.stockOutDate).toBe('2024-01-31');
+    expect(policy.needsReorder).toBe(false);
+  });
+
+  test('falls back to the flat buffer without history and flags low stock', () => {
+    const policy = calculateInventoryPolicy({
+      demand: 900,
+      periodDays: 90,
+      unitCost: 2,
+      variability: demandVariability([120], 91.25),
+      fallbackSafetyPercent: 10,
+      onHand: 100,
+      leadTimeDays: 14,
+      asOf
+    });
+
+    expect(policy.safetyStock).toBe(14);
+    expect(policy.safetyStockMethod).toBe('buffer');
+    expect(policy.reorderPoint).toBe(154);
+    expect(policy.reorderDate).toBe('2024-01-01');
+    expect(policy.needsReorder).toBe(true);
+    expect(policy.economicOrderQuantity).toBeNull();
+  });
+
+  test('leaves outputs empty when their inputs are missing', () => {
+    const policy = calculateInventoryPolicy({ demand: 500, periodDays: 30, unitCost: 1, serviceLevel: 0.8 });
+
+    expect(policy.serviceLevel).toBe(0.95);
+    expect(policy.safetyStock).toBeNull();
+    expect(policy.reorderPoint).toBeNull();
+    expect(policy.stockOutDate).toBeNull();
+    expect(policy.needsReorder).toBe(false);
+  });
+});
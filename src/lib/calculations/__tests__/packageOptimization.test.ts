@@ -0,0 +1,90 @@
+/**
+ * Package Optimization Tests
+ *
+ * Test suite for custom box design recommendations
+ */
+
+import { designCustomBoxes } from '../packageOptimization';
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const packages = [
+  { name: 'Large Box', dimensions: { length: 18, width: 14, height: 12 }, cost: 2.2, weight: 1.2 },
+  { name: 'Medium Box', dimensions: { length: 12, width: 10, height: 8 }, cost: 1.2, weight: 0.7 }
+];
+
+function makeAllocation(index: number, item: { length: number; width: number; height: number }, packageName: string) {
+  const pkg = packages.find(p => p.name === packageName)!;
+  const itemVolume = item.length * item.width * item.height;
+  const packageVolume = pkg.dimensions.length * pkg.dimensions.width * pkg.dimensions.height;
+
+  return {
+    orderId: `order_${index}`,
+    recommendedPackage: packageName,
+    itemDimensions: { ...item, volume: itemVolume },
+    packageDimensions: { ...pkg.dimensions, volume: packageVolume },
+    fillRate: (itemVolume / packageVolume) * 100,
+    costBreakdown: { packageCost: pkg.cost, shippingCost: 0, totalCost: pkg.cost }
+  };
+}
+
+// Twenty small items stuck in the large box, plus well-filled medium orders
+const allocations = [
+  ...Array.from({ length: 20 }, (_, i) =>
+    makeAllocation(i, { length: 6 + (i % 3) * 0.2, width: 4, height: 3 }, 'Large Box')
+  ),
+  ...Array.from({ length: 10 }, (_, i) =>
+    makeAllocation(100 + i, { length: 11, width: 9, height: 7 }, 'Medium Box')
+  )
+];
+
+// ==========================================
+// CUSTOM BOX DESIGN TESTS
+// ==========================================
+
+describe('Custom Box Design', () => {
+  test('recommends a box for a poorly served cluster', () => {
+    const [recommendation] = designCustomBoxes(allocations, packages);
+
+    expect(recommendation).toBeDefined();
+    expect(recommendation.clusterOrders).toBe(20);
+    expect(recommendation.currentPackages).toEqual({ 'Large Box': recommendation.coveredOrders });
+    expect(recommendation.projectedFillRate).toBeGreaterThan(recommendation.averageCurrentFillRate);
+  });
+
+  test('rounds dimensions to supplier-friendly sizes', () => {
+    const [recommendation] = designCustomBoxes(allocations, packages);
+    const { length, width, height } = recommendation.dimensions;
+
+    for (const side of [length, width, height]) {
+      expect(side <= 6 ? (side * 2) % 1 : side % 1).toBe(0);
+    }
+    expect(length).toBeGreaterThanOrEqual(6.4);
+  });
+
+  test('estimates cost from board area and projects annual savings', () => {
+    const [recommendation] = designCustomBoxes(allocations, packages, { periodMonths: 3 });
+
+    expect(recommendation.boardArea).toBeGreaterThan(0);
+    expect(recommendation.estimatedUnitCost).toBeLessThan(2.2);
+    expect(recommendation.projectedAnnualSavings.total)
+      .toBeCloseTo(recommendation.savingsPerOrder.total * recommendation.coveredOrders * 4, 6);
+  });
+
+  test('designs a separate box for each group of item sizes', () => {
+    const flatItems = Array.from({ length: 10 }, (_, i) =>
+      makeAllocation(200 + i, { length: 10, width: 8, height: 1 + (i % 2) * 0.1 }, 'Large Box')
+    );
+    const recommendations = designCustomBoxes([...allocations, ...flatItems], packages);
+
+    expect(recommendations).toHaveLength(2);
+    expect(recommendations.map(r => r.clusterOrders).sort((a, b) => a - b)).toEqual([10, 20]);
+  });
+
+  test('ignores well-filled orders and small clusters', () => {
+    expect(designCustomBoxes(allocations.slice(20), packages)).toHaveLength(0);
+    expect(designCustomBoxes(allocations.slice(0, 3), packages)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Purchase Orders Tests
+ *
+ * Test suite for grouping planner results into draft POs and the status lifecycle
+ */
+
+import { buildDraftPurchaseOrders, canTransition, UNASSIGNED_SUPPLIER } from '../purchaseOrders';
+
+describe('Purchase Orders', () => {
+  const asOf = Date.UTC(2024, 0, 1);
+
+  test('groups results by supplier with orderable quantities and delivery dates', () => {
+    const orders = buildDraftPurchaseOrders([
+      {
+        packageType: 'Small Box',
+        supplier: 'Acme Corrugated',
+        leadTimeDays: 14,
+        finalQuantity: 430,
+        estimatedCost: 430,
+        ordering: { orderQuantity: 500, unitPrice: 0.8, orderCost: 400 }
+      },
+      { packageType: 'Mailer', finalQuantity: 200, estimatedCost: 50 },
+      {
+        packageType: 'Large Box',
+        supplier: 'Acme Corrugated',
+        leadTimeDays: 21,
+        finalQuantity: 100,
+        estimatedCost: 250,
+        ordering: { orderQuantity: 100, unitPrice: 2.5, orderCost: 250 }
+      },
+      { packageType: 'Unused', supplier: 'Box Co', finalQuantity: 0, estimatedCost: 0 }
+    ], asOf);
+
+    expect(orders.map(order => order.supplier)).toEqual(['Acme Corrugated', UNASSIGNED_SUPPLIER]);
+    expect(orders[0].lines.map(line => [line.packageType, line.quantity, line.requestedDeliveryDate])).toEqual([
+      ['Small Box', 500, '2024-01-15'],
+      ['Large Box', 100, '2024-01-22']
+    ]);
+    expect(orders[0].totalCost).toBe(650);
+    expect(orders[0].requestedDeliveryDate).toBe('2024-01-22');
+    expect([orders[1].lines[0].unitPrice, orders[1].requestedDeliveryDate]).toEqual([0.25, '2024-01-01']);
+  });
+
+  test('only allows forward moves, with sent orders recallable to draft', () => {
+    expect(canTransition('draft', 'sent')).toBe(true);
+    expect(canTransition('draft', 'received')).toBe(false);
+    expect(canTransition('sent', 'draft')).toBe(true);
+    expect(canTransition('received', 'sent')).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Rate Engine Tests
+ *
+ * Test suite for carrier rate card import and parcel pricing
+ */
+
+import { parseRateCardData } from '../../data/csvParser';
+import { buildRateCard, normalizeZone, quoteShipment } from '../rateEngine';
+import { calculateShippingCosts } from '../costAnalysis';
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const RATE_CSV = `Carrier,Service,Zone,Weight Break,Price,Fuel Surcharge
+UPS,Ground,Zone 2,1,$10.00,10
+UPS,Ground,Zone 2,2,$11.00,10
+UPS,Ground,Zone 2,5,$14.00,10
+UPS,Ground,Zone 5,1,$12.00,10
+UPS,Ground,Zone 5,5,$18.00,10
+UPS,Next Day Air,Zone 2,1,$30.00,10
+UPS,Next Day Air,Zone 2,5,$45.00,10
+USPS,Priority Mail,2,1,$8.00,
+USPS,Priority Mail,2,5,$12.00,
+USPS,Priority Mail,2,20,$30.00,`;
+
+function loadRateCard() {
+  const parsed = parseRateCardData(RATE_CSV);
+  expect(parsed.success).toBe(true);
+  return buildRateCard(parsed.data, 'Contract rates');
+}
+
+const smallBox = { length: 5, width: 5, height: 4, unit: 'in' as const };  // 100 cu in
+const largeBox = { length: 20, width: 14, height: 12, unit: 'in' as const }; // 3360 cu in
+
+// ==========================================
+// IMPORT TESTS
+// ==========================================
+
+describe('Rate Card Import', () => {
+  test('groups rows into services with zone weight tiers', () => {
+    const card = loadRateCard();
+    const ground = card.services.find(service => service.service === 'Ground')!;
+
+    expect(card.services).toHaveLength(3);
+    expect(Object.keys(ground.zones).sort()).toEqual(['2', '5']);
+    expect(ground.zones['2'].rates.map(tier => tier.maxWeight)).toEqual([1, 2, 5]);
+    expect(ground.fuelSurcharge).toBeCloseTo(0.1);
+    expect(ground.dimFactor).toBe(139);
+  });
+
+  test('reports rows with invalid prices and missing columns', () => {
+    const badRow = parseRateCardData('service,zone,weight,price\nGround,2,1,abc');
+    expect(badRow.success).toBe(false);
+    expect(badRow.errors[0].row).toBe(2);
+
+    const missing = parseRateCardData('service,zone,price\nGround,2,10');
+    expect(missing.success).toBe(false);
+    expect(missing.errors[0].message).toContain('weight');
+  });
+
+  test('normalises zone labels', () => {
+    expect(normalizeZone('Zone 02')).toBe('2');
+    expect(normalizeZone('zone_5')).toBe('5');
+    expect(normalizeZone('Canada')).toBe('canada');
+  });
+});
+
+// ==========================================
+// PRICING TESTS
+// ==========================================
+
+describe('Parcel Pricing', () => {
+  test('applies the minimum billable weight and rounds up to the next break', () => {
+    const card = loadRateCard();
+
+    const light = quoteShipment(card, { dimensions: smallBox, weight: 0.3, zone: '2', carrier: 'ups_ground' })!;
+    expect(light.billableWeight).toBe(1);
+    expect(light.totalCost).toBeCloseTo(11);
+
+    const between = quoteShipment(card, { dimensions: smallBox, weight: 2.2, zone: '2', carrier: 'ups_ground' })!;
+    expect(between.billableWeight).toBe(3);
+    expect(between.baseCost).toBeCloseTo(14);
+  });
+
+  test('bills on dimensional weight with the carrier divisor', () => {
+    const card = loadRateCard();
+    const quote = quoteShipment(card, { dimensions: largeBox, weight: 4, zone: '2', carrier: 'ups_ground' })!;
+
+    // 3360 / 139 = 24.2 lbs, billed at 25 lbs beyond the 5 lb break
+    expect(quote.billableWeight).toBe(25);
+    expect(quote.baseCost).toBeCloseTo(14 + 20 * 1);
+    expect(quote.dimensionalWeightPenalty).toBeGreaterThan(0);
+  });
+
+  test('skips DIM weight for USPS parcels under one cubic foot', () => {
+    const card = loadRateCard();
+    const quote = quoteShipment(card, {
+      dimensions: { length: 12, width: 12, height: 11, unit: 'in' },
+      weight: 2,
+      zone: '2',
+      carrier: 'usps_priority_mail'
+    })!;
+
+    expect(quote.dimensionalWeight).toBe(0);
+    expect(quote.billableWeight).toBe(2);
+  });
+
+  test('selects services by priority and falls back to the middle zone', () => {
+    const card = loadRateCard();
+
+    const overnight = quoteShipment(card, { dimensions: smallBox, weight: 1, zone: '2', priority: 'overnight' })!;
+    expect(overnight.service).toBe('Next Day Air');
+
+    const standard = quoteShipment(card, { dimensions: smallBox, weight: 1, zone: 'domestic', priority: 'standard' })!;
+    expect(standard.service).toBe('Ground');
+    expect(standard.zone).toBe('2');
+  });
+
+  test('calculateShippingCosts prices from the rate card when one is supplied', () => {
+    const card = loadRateCard();
+    const withCard = calculateShippingCosts(smallBox, 0.5, '5', 'standard', 'ups_ground', card);
+    const withoutCard = calculateShippingCosts(smallBox, 0.5, '5', 'standard', 'ups_ground');
+
+    expect(withCard.totalCost).toBeCloseTo(12 * 1.1);
+    expect(withCard.chargeableWeight).toBe(1);
+    expect(withoutCard.totalCost).not.toBe(withCard.totalCost);
+  });
+
+  test('calculateShippingCosts picks the cheapest service for the priority unless a carrier is given', () => {
+    const card = buildRateCard(parseRateCardData(`Carrier,Service,Zone,Weight Break,Price
+UPS,Ground,2,5,$10.00
+UPS,Next Day Air,2,5,$60.00
+FedEx,Ground,2,5,$8.00`).data, 'Mixed carriers');
+
+    expect(calculateShippingCosts(smallBox, 1, '2', 'standard', undefined, card).totalCost).toBeCloseTo(8);
+    expect(calculateShippingCosts(smallBox, 1, '2', 'overnight', undefined, card).totalCost).toBeCloseTo(60);
+    expect(calculateShippingCosts(smallBox, 1, '2', 'standard', 'ups_ground', card).totalCost).toBeCloseTo(10);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Spec Attributes Tests
+ *
+ * Test suite for weight, handling and packaging estimates and their export
+ */
+
+import { buildSpecExportRows, parseSpecAttributes, specWeightInPounds } from '../specAttributes';
+import { parseOrderData } from '../../data/csvParser';
+import { rowsToCSV } from '../../data/xlsxReader';
+
+describe('Spec Attributes', () => {
+  test('normalises free-form model answers with a confidence per attribute', () => {
+    const attributes = parseSpecAttributes({
+      weight: '12',
+      weightUnit: 'Ounces',
+      weightConfidence: 'HIGH',
+      fragile: 'yes',
+      orientation: 'This side up',
+      packagingClass: 'Cushioned Box',
+      packagingConfidence: 'LOW'
+    });
+
+    expect(attributes).toEqual({
+      weight: 12,
+      weightUnit: 'oz',
+      weightConfidence: 'high',
+      fragile: true,
+      orientation: 'this_side_up',
+      fragilityConfidence: 'medium',
+      packagingClass: 'cushioned_box',
+      packagingConfidence: 'low'
+    });
+    expect(specWeightInPounds(attributes)).toBe(0.75);
+  });
+
+  test('leaves out missing values and derives the packaging class from fragility', () => {
+    expect(parseSpecAttributes({ weight: -1, orientation: 'sideways' })).toEqual({});
+    expect(parseSpecAttributes({ fragile: false, packagingClass: 'crate' })).toEqual({
+      fragile: false,
+      orientation: 'any',
+      fragilityConfidence: 'medium',
+      packagingClass: 'standard_box',
+      packagingConfidence: 'low'
+    });
+  });
+
+  test('exports rows that parseOrderData reads back', () => {
+    const csv = rowsToCSV(buildSpecExportRows([
+      {
+        orderId: 'SO-1',
+        sku: 'MUG-01',
+        productName: 'Ceramic Mug, 12oz',
+        estimatedL: 5,
+        estimatedW: 4,
+        estimatedH: 4.5,
+        confidence: 'high',
+        notes: 'Boxed mug',
+        weight: 500,
+        weightUnit: 'g',
+        fragile: true,
+        packagingClass: 'cushioned_box'
+      },
+      { productName: 'Tote Bag', estimatedL: 12, estimatedW: 10, estimatedH: 1, confidence: 'low', notes: '' }
+    ]));
+
+    const result = parseOrderData(csv);
+    const [mug] = result.data[0].items;
+
+    expect(result.data).toHaveLength(2);
+    expect(mug.sku).toBe('MUG-01');
+    expect(mug.productName).toBe('Ceramic Mug, 12oz');
+    expect([mug.dimensions.length, mug.dimensions.width, mug.dimensions.height]).toEqual([5, 4, 4.5]);
+    expect(mug.weight).toBeCloseTo(1.102, 3);
+    expect(mug.fragile).toBe(true);
+    expect(result.data[1].items[0].weight).toBe(0);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Spec Job Tests
+ *
+ * Test suite for Spec Job retry, completion and resume decisions
+ */
+
+import {
+  canResumeJob,
+  chunkFailureOutcome,
+  completionOutcome,
+  nextItemAttempt,
+  MAX_CHUNK_RETRIES,
+  RETRY_BASE_DELAY_MS,
+  STALE_JOB_MS,
+  type SpecJobState
+} from '../specJobs';
+
+describe('Spec Jobs', () => {
+  const now = Date.UTC(2024, 0, 1);
+  const job = (overrides: Partial<SpecJobState>): SpecJobState => ({
+    status: 'running',
+    completedItems: 0,
+    failedItems: 0,
+    updatedAt: now,
+    ...overrides
+  });
+
+  test('gives an item up after its third failed attempt', () => {
+    expect(nextItemAttempt(0)).toEqual({ attempts: 1, failed: false });
+    expect(nextItemAttempt(1)).toEqual({ attempts: 2, failed: false });
+    expect(nextItemAttempt(2)).toEqual({ attempts: 3, failed: true });
+  });
+
+  test('backs off between failed chunks and stops after too many in a row', () => {
+    expect(chunkFailureOutcome(0)).toEqual({ retries: 1, giveUp: false, delayMs: RETRY_BASE_DELAY_MS });
+    expect(chunkFailureOutcome(2).delayMs).toBe(RETRY_BASE_DELAY_MS * 4);
+    expect(chunkFailureOutcome(0, 60000).delayMs).toBe(60000);
+    expect(chunkFailureOutcome(MAX_CHUNK_RETRIES)).toEqual({ retries: MAX_CHUNK_RETRIES + 1, giveUp: true, delayMs: 0 });
+  });
+
+  test('fails a finished job only when nothing was estimated', () => {
+    expect(completionOutcome(job({ completedItems: 8, failedItems: 2 }))).toEqual({ status: 'completed' });
+    expect(completionOutcome(job({ failedItems: 3 }))).toEqual({ status: 'failed', error: 'No products could be estimated' });
+    expect(completionOutcome(job({ failedItems: 3, error: 'Rate limited' })).error).toBe('Rate limited');
+  });
+
+  test('resumes failed, cancelled, stalled and partly failed jobs only', () => {
+    expect(canResumeJob(job({ status: 'failed' }), now)).toBe(true);
+    expect(canResumeJob(job({ status: 'cancelled' }), now)).toBe(true);
+    expect(canResumeJob(job({ status: 'completed', completedItems: 5, failedItems: 1 }), now)).toBe(true);
+    expect(canResumeJob(job({ status: 'completed', completedItems: 5 }), now)).toBe(false);
+    expect(canResumeJob(job({ status: 'running' }), now)).toBe(false);
+    expect(canResumeJob(job({ status: 'running', updatedAt: now - STALE_JOB_MS - 1 }), now)).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Spec Priors Tests
+ *
+ * Test suite for estimate cache keys and category prior clamping
+ */
+
+import { applyCategoryPrior, buildCategoryPriors, normalizeProductName } from '../specPriors';
+
+describe('Spec Priors', () => {
+  test('normalises product names for cache lookups', () => {
+    expect(normalizeProductName('Water Bottle, 32oz')).toBe('water bottle 32 oz');
+    expect(normalizeProductName('  WATER   bottle - 32 OZ ')).toBe('water bottle 32 oz');
+    expect(normalizeProductName('Vitamin C 1.5g')).toBe('vitamin c 1.5 g');
+  });
+
+  test('builds priors only for categories with enough accepted samples', () => {
+    const priors = buildCategoryPriors([
+      { category: 'Mugs', length: 4, width: 4, height: 5 },
+      { category: 'mugs ', length: 5, width: 4, height: 4 },
+      { category: 'MUGS', length: 6, width: 5, height: 4 },
+      { category: 'Lamps', length: 12, width: 8, height: 8 },
+      { length: 1, width: 1, height: 1 }
+    ]);
+
+    expect([...priors.keys()]).toEqual(['mugs']);
+    expect(priors.get('mugs')?.median).toEqual([5, 4, 4]);
+    expect(priors.get('mugs')?.sampleCount).toBe(3);
+  });
+
+  test('clamps estimates far outside the category prior', () => {
+    const prior = { category: 'mugs', sampleCount: 3, median: [5, 4, 4] as [number, number, number] };
+
+    expect(applyCategoryPrior({ length: 6, width: 4, height: 3 }, prior).clamped).toBe(false);
+    expect(applyCategoryPrior({ length: 60, width: 4, height: 3 }, undefined).clamped).toBe(false);
+
+    const checked = applyCategoryPrior({ length: 4, width: 60, height: 3 }, prior);
+    expect(checked.clamped).toBe(true);
+    expect([checked.length, checked.width, checked.height]).toEqual([15, 4, 3]);
+    expect(checked.note).toContain('3 accepted mugs estimates');
+  });
+});
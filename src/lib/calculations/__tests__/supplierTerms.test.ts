@@ -0,0 +1,43 @@
+/**
+ * Supplier Terms Tests
+ *
+ * Test suite for MOQ, case-pack, pallet and price-break rounding
+ */
+
+import { parsePriceBreaks, toOrderableQuantity } from '../supplierTerms';
+
+describe('Supplier Terms', () => {
+  test('rounds up to whole cases and the minimum order quantity', () => {
+    const cased = toOrderableQuantity(430, 1, { caseQuantity: 25 });
+    const minimum = toOrderableQuantity(60, 1, { caseQuantity: 25, minimumOrderQuantity: 100 });
+
+    expect([cased.orderQuantity, cased.cases, cased.orderCost, cased.reason]).toEqual([450, 18, 450, 'case']);
+    expect(cased.rawCost).toBe(430);
+    expect([minimum.orderQuantity, minimum.reason]).toEqual([100, 'minimum']);
+  });
+
+  test('orders a full pallet or a higher tier when it costs less', () => {
+    const pallet = toOrderableQuantity(430, 1, {
+      caseQuantity: 25,
+      palletQuantity: 500,
+      priceBreaks: [{ minQuantity: 500, unitPrice: 0.8 }]
+    });
+    const tier = toOrderableQuantity(430, 1, {
+      caseQuantity: 25,
+      priceBreaks: [{ minQuantity: 1000, unitPrice: 0.4 }, { minQuantity: 2000, unitPrice: 0.35 }]
+    });
+    const noSaving = toOrderableQuantity(430, 1, { caseQuantity: 25, priceBreaks: [{ minQuantity: 1000, unitPrice: 0.9 }] });
+
+    expect([pallet.orderQuantity, pallet.pallets, pallet.orderCost]).toEqual([500, 1, 400]);
+    expect(pallet.priceBreak).toEqual({ minQuantity: 500, unitPrice: 0.8 });
+    expect([tier.orderQuantity, tier.unitPrice, tier.reason]).toEqual([1000, 0.4, 'price_break']);
+    expect([noSaving.orderQuantity, noSaving.unitPrice]).toEqual([450, 1]);
+  });
+
+  test('parses typed price breaks and skips unreadable entries', () => {
+    expect(parsePriceBreaks('500:0.72, 100@$0.85; junk')).toEqual([
+      { minQuantity: 100, unitPrice: 0.85 },
+      { minQuantity: 500, unitPrice: 0.72 }
+    ]);
+  });
+});
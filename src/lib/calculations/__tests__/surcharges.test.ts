@@ -0,0 +1,133 @@
+/**
+ * Surcharge Tests
+ *
+ * Test suite for carrier accessorial surcharge rules and their effect on allocations
+ */
+
+import { calculateShippingCosts } from '../costAnalysis';
+import { calculateLengthPlusGirth, calculateSurchargeSummary, evaluateSurcharges, type SurchargeRule } from '../surcharges';
+import { PackagingAllocationEngine } from '../../suiteAnalyzer/allocation';
+import type { OrderHistoryItem, PackagingOption } from '../../suiteAnalyzer/types';
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const inches = (length: number, width: number, height: number) =>
+  ({ length, width, height, unit: 'in' as const });
+
+function createPackage(packageId: string, length: number, width: number, height: number): PackagingOption {
+  return {
+    packageId,
+    packageName: packageId,
+    length,
+    width,
+    height,
+    unit: 'in',
+    costPerUnit: 1,
+    packageWeight: 1,
+    maxWeight: 150,
+    type: 'box'
+  };
+}
+
+function createOrder(orderId: string, length: number, width: number, height: number, weight = 5): OrderHistoryItem {
+  return { orderId, quantity: 1, length, width, height, unit: 'in', weight };
+}
+
+// ==========================================
+// RULE EVALUATION TESTS
+// ==========================================
+
+describe('Surcharge Rules', () => {
+  test('measures length plus girth from the longest side', () => {
+    expect(calculateLengthPlusGirth(inches(10, 50, 20))).toBe(110);
+  });
+
+  test('standard parcels trigger no surcharges', () => {
+    const result = evaluateSurcharges(inches(12, 10, 8), 5);
+
+    expect(result.surcharges).toEqual([]);
+    expect(result.total).toBe(0);
+  });
+
+  test('additional handling triggers on the second-longest side', () => {
+    const result = evaluateSurcharges(inches(40, 32, 6), 10);
+
+    expect(result.surcharges.map(surcharge => surcharge.ruleId)).toEqual(['additional_handling_dimensions']);
+    expect(result.surcharges[0].reason).toContain('second-longest side');
+  });
+
+  test('large package supersedes additional handling and sets a billable minimum', () => {
+    const result = evaluateSurcharges(inches(60, 30, 20), 60);
+
+    expect(result.surcharges.map(surcharge => surcharge.ruleId)).toEqual(['large_package']);
+    expect(result.minimumBillableWeight).toBe(90);
+  });
+
+  test('carrier-specific rules only apply to that carrier', () => {
+    const rules: SurchargeRule[] = [
+      { id: 'fedex_ahs', name: 'AHS', type: 'additional_handling', carrier: 'fedex', conditions: { weightOver: 50 }, amount: 40 }
+    ];
+
+    expect(evaluateSurcharges(inches(12, 12, 12), 60, rules, 'fedex_ground').total).toBe(40);
+    expect(evaluateSurcharges(inches(12, 12, 12), 60, rules, 'ups_ground').total).toBe(0);
+  });
+
+  test('shipping costs include surcharges and the large package minimum weight', () => {
+    const dimensions = inches(60, 30, 20);
+    const base = calculateShippingCosts(dimensions, 60);
+    const withSurcharges = calculateShippingCosts(dimensions, 60, undefined, undefined, undefined, undefined, [
+      { id: 'large_package', name: 'Large Package', type: 'large_package', conditions: { longestSideOver: 50 }, amount: 100, minimumBillableWeight: 300 }
+    ]);
+
+    expect(base.accessorialSurcharges).toBe(0);
+    expect(withSurcharges.chargeableWeight).toBe(300);
+    expect(withSurcharges.accessorialSurcharges).toBe(100);
+    expect(withSurcharges.totalCost).toBeGreaterThan(base.totalCost + 100);
+  });
+});
+
+// ==========================================
+// ALLOCATION TESTS
+// ==========================================
+
+describe('Allocation Surcharges', () => {
+  test('summarises surcharged orders per box', async () => {
+    const engine = new PackagingAllocationEngine([createPackage('LONG', 50, 12, 12)]);
+    const result = await engine.allocateOptimalPackaging([
+      createOrder('A-1', 46, 10, 10),
+      createOrder('A-2', 46, 10, 10),
+      createOrder('A-3', 46, 10, 10, 55)
+    ]);
+
+    expect(result.allocations[0].costBreakdown.surchargeCost).toBe(28);
+    expect(result.metrics.surchargeSummary).toEqual([{
+      packageName: 'LONG',
+      parcelsShipped: 3,
+      ordersWithSurcharges: 3,
+      surchargeCost: 28 * 3 + 45,
+      bySurcharge: {
+        'Additional Handling - Dimensions': { orders: 3, cost: 84 },
+        'Additional Handling - Weight': { orders: 1, cost: 45 }
+      }
+    }]);
+  });
+
+  test('counts a split order once per box and surcharge', () => {
+    const fee = evaluateSurcharges(inches(50, 12, 12), 10).surcharges;
+    const summary = calculateSurchargeSummary([
+      { orderId: 'A-1', recommendedPackage: 'LONG', parcels: [{ packageName: 'LONG', surcharges: fee }, { packageName: 'LONG', surcharges: fee }] },
+      { orderId: 'A-2', recommendedPackage: 'LONG' },
+      { orderId: 'A-3', recommendedPackage: 'SMALL' }
+    ]);
+
+    expect(summary).toEqual([{
+      packageName: 'LONG',
+      parcelsShipped: 3,
+      ordersWithSurcharges: 1,
+      surchargeCost: 56,
+      bySurcharge: { 'Additional Handling - Dimensions': { orders: 1, cost: 56 } }
+    }]);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Zone Resolver Tests
+ *
+ * Test suite for ZIP-to-zone resolution from uploaded zone charts
+ */
+
+import { parseOrderData, parseZoneChartData } from '../../data/csvParser';
+import { OrderHistoryProcessor } from '../../suiteAnalyzer/processor';
+import { buildZoneCharts, getZip3, getZoneDistribution, resolveRowZone, resolveZone } from '../zoneResolver';
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const RENO_CHART = `Dest. ZIP,Ground
+004-005,8
+010-013,Zone 7
+100-119,8
+894-895,2
+970,-`;
+
+function loadCharts() {
+  const parsed = parseZoneChartData(RENO_CHART);
+  expect(parsed.success).toBe(true);
+
+  const reno = buildZoneCharts(parsed.data, { name: 'Reno DC', originZip: '89502' });
+  const newark = buildZoneCharts(
+    parseZoneChartData('dest_zip,zone\n100-119,2\n894-895,8').data,
+    { name: 'Newark DC', originZip: '07102' }
+  );
+  return [...reno, ...newark];
+}
+
+// ==========================================
+// ZONE CHART TESTS
+// ==========================================
+
+describe('Zone Charts', () => {
+  test('expands ZIP3 ranges and skips unserviced prefixes', () => {
+    const [reno] = loadCharts();
+
+    expect(reno.zones['004']).toBe('8');
+    expect(reno.zones['012']).toBe('7');
+    expect(reno.zones['119']).toBe('8');
+    expect(reno.zones['970']).toBeUndefined();
+  });
+
+  test('extracts ZIP3 prefixes from ZIP+4 and zero-stripped codes', () => {
+    expect(getZip3('10001-1234')).toBe('100');
+    expect(getZip3('2134')).toBe('021');
+    expect(getZip3('ABC')).toBeNull();
+  });
+
+  test('resolves zones per origin warehouse', () => {
+    const charts = loadCharts();
+
+    expect(resolveZone(charts, { destinationZip: '10001' })).toBe('8');
+    expect(resolveZone(charts, { destinationZip: '10001', originZip: '07102' })).toBe('2');
+    expect(resolveZone(charts, { destinationZip: '99501' })).toBeUndefined();
+  });
+
+  test('summarises the zone distribution', () => {
+    expect(getZoneDistribution(['2', '2', '8', undefined])).toEqual({ '2': 50, '8': 25, unknown: 25 });
+  });
+});
+
+// ==========================================
+// ORDER ASSIGNMENT TESTS
+// ==========================================
+
+describe('Order Zone Assignment', () => {
+  test('parseOrderData assigns zones from destination ZIP codes', () => {
+    const csv = `order_id,sku,quantity,zip_code
+A-1,SKU-1,1,10001
+A-2,SKU-2,1,89501
+A-3,SKU-3,1,99501`;
+
+    const result = parseOrderData(csv, { zoneCharts: loadCharts() });
+    const zones = result.data.map(order => order.items[0].shippingZone);
+
+    expect(zones).toEqual(['8', '2', undefined]);
+    expect(result.data[0].shippingInfo?.zone).toBe('8');
+  });
+
+  test('resolves order rows from their ZIP columns, keeping the zone otherwise', () => {
+    const charts = loadCharts();
+
+    expect(resolveRowZone(charts, { ship_to_zip: '10001', fc_zip: '07102', zone: '5' })).toBe('2');
+    expect(resolveRowZone(charts, { zone: '10001' })).toBe('8');
+    expect(resolveRowZone(charts, { zip: '99501', zone: '5' })).toBe('5');
+    expect(resolveRowZone([], { zip: '10001', zone: '5' })).toBe('5');
+  });
+
+  test('Suite Analyzer order processing resolves zones with the order origin', async () => {
+    const csv = `order_id,quantity,length,width,height,ship_to_zip,origin_zip
+A-1,1,10,8,4,10001,07102
+A-2,1,10,8,4,10001,`;
+
+    const processor = new OrderHistoryProcessor(undefined, undefined, loadCharts());
+    const result = await processor.processOrderHistory(csv);
+
+    expect(result.validOrders.map(order => order.zone)).toEqual(['2', '8']);
+  });
+});
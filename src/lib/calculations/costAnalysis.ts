@@ -12,6 +12,8 @@
 import { calculateCUIN, calculateDimensionalWeight, type Dimensions } from './cuin';
 import type { PackageType, OrderItem, PackingResult } from './packaging';
 import type { PackingItem, PackingContainer, MultiOrderPackingResult } from '../algorithms/packingOptimizer';
+import { quoteShipment } from './rateEngine';
+import { evaluateSurcharges, type AppliedSurcharge, type SurchargeRule } from './surcharges';
 
 // ==========================================
 // TYPES AND INTERFACES
@@ -82,8 +84,18 @@ export interface ShippingRates {
   service: string;
   zones: Record<string, ZoneRates>;
   dimFactor: number;
-  fuelSurcharge: number;
-  baseRate: number;
+  fuelSurcharge: number;           // Fraction of the transportation charge, e.g. 0.145
+  baseRate: number;                // Per-lb charge beyond the heaviest weight break
+  minimumBillableWeight?: number;  // lbs
+  weightRounding?: WeightRoundingRule;
+  dimThreshold?: number;           // cu in at or below which DIM weight is not applied
+}
+
+export type WeightRoundingRule = 'up_to_lb' | 'up_to_half_lb' | 'up_to_oz' | 'none';
+
+export interface RateCard {
+  name: string;
+  services: ShippingRates[];
 }
 
 export interface ZoneRates {
@@ -119,14 +131,21 @@ export interface OperationalCosts {
 // ==========================================
 
 /**
- * Calculate comprehensive shipping costs with realistic zone and priority pricing
+ * Calculate comprehensive shipping costs with realistic zone and priority pricing.
+ * When a rate card is supplied the parcel is priced from the uploaded carrier
+ * tables; the built-in estimates are only used when no card is available.
+ * Without an explicit carrier the card's cheapest service for the priority is
+ * used, and the estimates assume UPS Ground.
+ * Accessorial surcharges are added when surcharge rules are supplied.
  */
 export function calculateShippingCosts(
   dimensions: Dimensions,
   weight: number,
   zone: string = 'domestic',
   priority: string = 'standard',
-  carrier: string = 'ups_ground'
+  carrier?: string,
+  rateCard?: RateCard,
+  surchargeRules?: SurchargeRule[]
 ): {
   actualWeight: number;
   dimensionalWeight: number;
@@ -135,12 +154,53 @@ export function calculateShippingCosts(
   zoneSurcharge: number;
   prioritySurcharge: number;
   fuelSurcharge: number;
+  accessorialSurcharges: number;
   totalCost: number;
   savings?: number;
+  surcharges: AppliedSurcharge[];
   breakdown: ShippingCostBreakdown;
 } {
+  // Large packages are billed at a minimum weight on top of the fee itself
+  const accessorials = surchargeRules
+    ? evaluateSurcharges(dimensions, weight, surchargeRules, carrier)
+    : { surcharges: [], total: 0, minimumBillableWeight: 0 };
+
+  const quote = rateCard
+    ? quoteShipment(rateCard, {
+        dimensions,
+        weight: Math.max(weight, accessorials.minimumBillableWeight),
+        zone,
+        priority,
+        carrier
+      })
+    : null;
+
+  if (quote) {
+    return {
+      actualWeight: weight,
+      dimensionalWeight: quote.dimensionalWeight,
+      chargeableWeight: quote.billableWeight,
+      baseCost: quote.baseCost,
+      zoneSurcharge: 0, // Zone pricing is already part of the rate table
+      prioritySurcharge: 0,
+      fuelSurcharge: quote.fuelSurcharge,
+      accessorialSurcharges: accessorials.total,
+      totalCost: quote.totalCost + accessorials.total,
+      savings: quote.dimensionalWeightPenalty,
+      surcharges: accessorials.surcharges,
+      breakdown: {
+        baseShipping: quote.baseCost,
+        zoneAdjustment: 0,
+        priorityFee: 0,
+        fuelSurcharge: quote.fuelSurcharge,
+        dimensionalWeightPenalty: quote.dimensionalWeightPenalty,
+        accessorialSurcharges: accessorials.total
+      }
+    };
+  }
+
   const dimensionalWeight = calculateDimensionalWeight(dimensions, 139);
-  const chargeableWeight = Math.max(weight, dimensionalWeight);
+  const chargeableWeight = Math.max(weight, dimensionalWeight, accessorials.minimumBillableWeight);
   
   // Enhanced rate calculation with realistic pricing
   const baseRates: Record<string, number> = {
@@ -173,14 +233,14 @@ export function calculateShippingCosts(
     'economy': -2.50 // Discount for slower service
   };
   
-  const baseRate = baseRates[carrier] || 2.25;
+  const baseRate = baseRates[carrier || 'ups_ground'] || 2.25;
   const zoneMultiplier = zoneMultipliers[zone] || 1.0;
   const prioritySurcharge = prioritySurcharges[priority] || 0;
   
   const baseCost = chargeableWeight * baseRate;
   const zoneSurcharge = baseCost * (zoneMultiplier - 1);
   const fuelSurcharge = (baseCost + zoneSurcharge) * 0.145; // 14.5% fuel surcharge
-  const totalCost = baseCost + zoneSurcharge + prioritySurcharge + fuelSurcharge;
+  const totalCost = baseCost + zoneSurcharge + prioritySurcharge + fuelSurcharge + accessorials.total;
   
   // Calculate potential savings with better packaging
   const potentialSavings = dimensionalWeight > weight ? 
@@ -192,7 +252,8 @@ export function calculateShippingCosts(
     priorityFee: prioritySurcharge,
     fuelSurcharge: fuelSurcharge,
     dimensionalWeightPenalty: dimensionalWeight > weight ? 
-      (dimensionalWeight - weight) * baseRate * 0.5 : 0
+      (dimensionalWeight - weight) * baseRate * 0.5 : 0,
+    accessorialSurcharges: accessorials.total
   };
   
   return {
@@ -203,8 +264,10 @@ export function calculateShippingCosts(
     zoneSurcharge,
     prioritySurcharge,
     fuelSurcharge,
+    accessorialSurcharges: accessorials.total,
     totalCost,
     savings: potentialSavings,
+    surcharges: accessorials.surcharges,
     breakdown
   };
 }
@@ -215,6 +278,7 @@ export interface ShippingCostBreakdown {
   priorityFee: number;
   fuelSurcharge: number;
   dimensionalWeightPenalty: number;
+  accessorialSurcharges: number; // Additional handling, large package and over-maximum fees
 }
 
 /**
@@ -279,14 +343,19 @@ export function calculateTotalCostOfOwnership(
   items: OrderItem[],
   packaging: PackingResult[],
   shipping: any,
-  operationalCosts: OperationalCosts = getDefaultOperationalCosts()
+  operationalCosts: OperationalCosts = getDefaultOperationalCosts(),
+  rateCard?: RateCard
 ): CostComponents {
   const packagingCost = packaging.reduce((sum, pack) => sum + pack.cost, 0);
   
   const shippingCost = packaging.reduce((sum, pack) => {
     const shipCost = calculateShippingCosts(
       pack.packageType.dimensions,
-      pack.actualWeight || 0
+      pack.actualWeight || 0,
+      undefined,
+      undefined,
+      undefined,
+      rateCard
     );
     return sum + shipCost.totalCost;
   }, 0);
@@ -317,13 +386,14 @@ export function performCostAnalysis(
   orders: OrderItem[][],
   currentPackaging: PackingResult[],
   optimizedPackaging: MultiOrderPackingResult,
-  monthlyVolume: number = 100
+  monthlyVolume: number = 100,
+  rateCard?: RateCard
 ): CostAnalysisResult {
   // Calculate current costs
-  const currentCosts = calculateCurrentCosts(orders, currentPackaging);
+  const currentCosts = calculateCurrentCosts(orders, currentPackaging, rateCard);
   
   // Calculate optimized costs
-  const optimizedCosts = calculateOptimizedCosts(orders, optimizedPackaging);
+  const optimizedCosts = calculateOptimizedCosts(orders, optimizedPackaging, rateCard);
   
   // Calculate savings
   const savings = calculateSavings(currentCosts, optimizedCosts, monthlyVolume);
@@ -464,13 +534,18 @@ export function performScenarioAnalysis(
 
 function calculateCurrentCosts(
   orders: OrderItem[][],
-  currentPackaging: PackingResult[]
+  currentPackaging: PackingResult[],
+  rateCard?: RateCard
 ): CostComponents {
   const packaging = currentPackaging.reduce((sum, pack) => sum + pack.cost, 0);
   const shipping = currentPackaging.reduce((sum, pack) => {
     const shipCost = calculateShippingCosts(
       pack.packageType.dimensions,
-      pack.actualWeight || 0
+      pack.actualWeight || 0,
+      undefined,
+      undefined,
+      undefined,
+      rateCard
     );
     return sum + shipCost.totalCost;
   }, 0);
@@ -485,13 +560,18 @@ function calculateCurrentCosts(
 
 function calculateOptimizedCosts(
   orders: OrderItem[][],
-  optimizedPackaging: MultiOrderPackingResult
+  optimizedPackaging: MultiOrderPackingResult,
+  rateCard?: RateCard
 ): CostComponents {
   const packaging = optimizedPackaging.solutions.reduce((sum, sol) => sum + sol.totalCost, 0);
   const shipping = optimizedPackaging.solutions.reduce((sum, sol) => {
     const shipCost = calculateShippingCosts(
       sol.container.dimensions,
-      sol.packedItems.reduce((weight, item) => weight + item.item.weight, 0)
+      sol.packedItems.reduce((weight, item) => weight + item.item.weight, 0),
+      undefined,
+      undefined,
+      undefined,
+      rateCard
     );
     return sum + shipCost.totalCost;
   }, 0);
@@ -13,6 +13,7 @@
 // ==========================================
 
 export type LengthUnit = 'in' | 'ft' | 'cm' | 'mm' | 'm';
+export type WeightUnit = 'lb' | 'oz' | 'kg' | 'g';
 
 export interface Dimensions {
   length: number;
@@ -46,6 +47,14 @@ export const UNIT_TO_INCHES: ConversionFactors = {
   'm': 39.3701,      // meters to inches
 };
 
+// Conversion factors to pounds
+export const WEIGHT_UNIT_TO_POUNDS: Record<WeightUnit, number> = {
+  'lb': 1,
+  'oz': 0.0625,
+  'kg': 2.20462,
+  'g': 0.00220462,
+};
+
 // Common packaging size ranges (in inches) for validation
 export const PACKAGING_LIMITS = {
   MIN_DIMENSION: 0.1,      // 0.1 inch minimum
@@ -171,6 +180,13 @@ export function convertFromInches(length: number, width: number, height: number,
   };
 }
 
+/**
+ * Converts a weight to pounds
+ */
+export function convertToPounds(value: number, fromUnit: WeightUnit): number {
+  return value * WEIGHT_UNIT_TO_POUNDS[fromUnit];
+}
+
 // ==========================================
 // CORE CALCULATION FUNCTIONS
 // ==========================================
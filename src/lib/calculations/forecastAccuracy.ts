@@ -0,0 +1,194 @@
+/**
+ * Forecast Accuracy
+ *
+ * Backtests stored Demand Planner forecasts against usage logged afterwards:
+ * - Time-series forecasts are checked period by period against quarterly
+ *   uploads made after the forecast, or against completed months of usage logs
+ * - Order-count forecasts are checked against usage logs dated inside their
+ *   forecast window, once the window has passed
+ * - MAPE, bias and per-package error, plus a safety buffer suggestion from
+ *   how far actual usage ran above the forecasts
+ */
+
+import { nextMonthLabels } from './forecasting';
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export interface StoredForecast {
+  id: string;
+  name: string;
+  generatedAt: number;
+  method: string;                   // historical | manual | forecast
+  source?: 'quarterly' | 'usage';   // History a time-series forecast projected from
+  periodDays?: number;              // Window covered by an order-count forecast
+  results: Array<{
+    packageType: string;
+    baseQuantity: number;
+    forecast?: { periods: Array<{ label: string; forecast: number }> };
+  }>;
+}
+
+export interface ActualUsage {
+  quarterly: Array<{ quarter: string; packageType: string; quantity: number; createdAt: number }>;
+  usage: Array<{ date: string; packageType: string; quantityUsed: number }>;
+}
+
+export interface ForecastComparison {
+  packageType: string;
+  period: string;
+  forecast: number;
+  actual: number;
+}
+
+export interface PackageError {
+  packageType: string;
+  forecast: number;
+  actual: number;
+  error: number;               // Forecast minus actual; positive means over-forecast
+  percentError: number | null; // Error as a % of actual
+}
+
+export interface ForecastBacktest {
+  id: string;
+  name: string;
+  generatedAt: number;
+  method: string;
+  comparisons: ForecastComparison[];
+  mape: number | null;  // Mean absolute % error over package-periods with usage
+  bias: number | null;  // Total forecast vs total actual, as a % of actual
+  packages: PackageError[];
+}
+
+export interface BufferSuggestion {
+  currentBuffer: number;
+  suggestedBuffer: number;
+  observations: number;
+}
+
+// Safety buffer % the Demand Planner starts from
+export const DEFAULT_SAFETY_BUFFER = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WINDOW_DAYS = 90;
+const MIN_OBSERVATIONS = 3;
+const BUFFER_COVERAGE = 0.9; // Share of past package-periods the suggested buffer would have covered
+
+// ==========================================
+// COMPARISONS
+// ==========================================
+
+const sumUsage = (records: ActualUsage['usage'], packageType: string) =>
+  records.filter(record => record.packageType === packageType).reduce((sum, record) => sum + record.quantityUsed, 0);
+
+/**
+ * Pair a stored forecast's quantities with the usage logged for the same
+ * periods. Periods with nothing logged yet are left out rather than
+ * counted as zero usage.
+ */
+export function collectComparisons(forecast: StoredForecast, actuals: ActualUsage, now: number = Date.now()): ForecastComparison[] {
+  const comparisons: ForecastComparison[] = [];
+
+  if (forecast.method === 'forecast') {
+    for (const result of forecast.results) {
+      for (const period of result.forecast?.periods || []) {
+        if (forecast.source === 'usage') {
+          // Only completed months count
+          if (Date.parse(`${nextMonthLabels(period.label, 1)[0]}-01`) > now) continue;
+          const logs = actuals.usage.filter(record => record.date.startsWith(period.label));
+          if (logs.length === 0) continue;
+          comparisons.push({ packageType: result.packageType, period: period.label, forecast: period.forecast, actual: sumUsage(logs, result.packageType) });
+        } else {
+          const uploads = actuals.quarterly.filter(record => record.quarter === period.label && record.createdAt > forecast.generatedAt);
+          if (uploads.length === 0) continue;
+          const actual = uploads
+            .filter(record => record.packageType === result.packageType)
+            .reduce((sum, record) => sum + record.quantity, 0);
+          comparisons.push({ packageType: result.packageType, period: period.label, forecast: period.forecast, actual });
+        }
+      }
+    }
+    return comparisons;
+  }
+
+  const windowEnd = forecast.generatedAt + (forecast.periodDays ?? DEFAULT_WINDOW_DAYS) * DAY_MS;
+  if (windowEnd > now) return comparisons;
+
+  const period = new Date(forecast.generatedAt).toISOString().slice(0, 10);
+  const logs = actuals.usage.filter(record => record.date >= period && Date.parse(record.date) < windowEnd);
+  if (logs.length === 0) return comparisons;
+
+  for (const result of forecast.results) {
+    comparisons.push({ packageType: result.packageType, period, forecast: result.baseQuantity, actual: sumUsage(logs, result.packageType) });
+  }
+  return comparisons;
+}
+
+// ==========================================
+// METRICS
+// ==========================================
+
+/**
+ * MAPE, bias and per-package error for one stored forecast
+ */
+export function backtestForecast(forecast: StoredForecast, actuals: ActualUsage, now: number = Date.now()): ForecastBacktest {
+  const comparisons = collectComparisons(forecast, actuals, now);
+
+  const withUsage = comparisons.filter(comparison => comparison.actual > 0);
+  const mape = withUsage.length > 0
+    ? withUsage.reduce((sum, comparison) => sum + Math.abs(comparison.forecast - comparison.actual) / comparison.actual, 0) / withUsage.length * 100
+    : null;
+
+  const totalForecast = comparisons.reduce((sum, comparison) => sum + comparison.forecast, 0);
+  const totalActual = comparisons.reduce((sum, comparison) => sum + comparison.actual, 0);
+  const bias = totalActual > 0 ? (totalForecast - totalActual) / totalActual * 100 : null;
+
+  const byPackage = new Map<string, { forecast: number; actual: number }>();
+  for (const comparison of comparisons) {
+    const totals = byPackage.get(comparison.packageType) || { forecast: 0, actual: 0 };
+    byPackage.set(comparison.packageType, {
+      forecast: totals.forecast + comparison.forecast,
+      actual: totals.actual + comparison.actual
+    });
+  }
+  const packages = [...byPackage.entries()].map(([packageType, totals]) => ({
+    packageType,
+    forecast: totals.forecast,
+    actual: totals.actual,
+    error: totals.forecast - totals.actual,
+    percentError: totals.actual > 0 ? (totals.forecast - totals.actual) / totals.actual * 100 : null
+  }));
+
+  return {
+    id: forecast.id,
+    name: forecast.name,
+    generatedAt: forecast.generatedAt,
+    method: forecast.method,
+    comparisons,
+    mape,
+    bias,
+    packages
+  };
+}
+
+/**
+ * Buffer that would have covered actual usage in 90% of past package-periods,
+ * or null until there are enough comparisons to go on
+ */
+export function suggestSafetyBuffer(backtests: ForecastBacktest[], currentBuffer: number): BufferSuggestion | null {
+  const shortfalls = backtests
+    .flatMap(backtest => backtest.comparisons)
+    .filter(comparison => comparison.forecast > 0)
+    .map(comparison => Math.max(0, (comparison.actual / comparison.forecast - 1) * 100))
+    .sort((a, b) => a - b);
+
+  if (shortfalls.length < MIN_OBSERVATIONS) return null;
+
+  const rank = Math.ceil(BUFFER_COVERAGE * shortfalls.length) - 1;
+  return {
+    currentBuffer,
+    suggestedBuffer: Math.round(shortfalls[rank]),
+    observations: shortfalls.length
+  };
+}
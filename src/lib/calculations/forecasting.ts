@@ -0,0 +1,354 @@
+/**
+ * Demand Forecasting
+ *
+ * Projects package consumption from usage history for the Demand Planner:
+ * - Moving average, simple exponential smoothing, Holt's linear trend and
+ *   additive Holt-Winters seasonality
+ * - Automatic model choice by error on a holdout of the latest periods
+ * - Per-period forecasts with prediction intervals
+ * - Period series from quarterly uploads ("Q1 2024") and dated usage logs
+ */
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export type ForecastModel = 'moving_average' | 'exponential_smoothing' | 'holt' | 'holt_winters';
+
+export type PeriodKind = 'quarter' | 'month';
+
+export interface ForecastOptions {
+  horizon: number;          // Periods to project
+  seasonLength?: number;    // Periods per seasonal cycle (4 for quarters, 12 for months)
+  confidenceLevel?: number; // 0.8, 0.9 or 0.95
+  models?: ForecastModel[]; // Candidates, simplest first; defaults to all
+}
+
+export interface ForecastPoint {
+  step: number; // 1 = first period after the history
+  forecast: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ModelScore {
+  model: ForecastModel;
+  error: number | null; // Mean absolute error on the holdout; null when the model could not be fitted
+}
+
+export interface SeriesForecast {
+  model: ForecastModel;
+  parameters: Record<string, number>;
+  holdoutError: number | null;
+  candidates: ModelScore[];
+  points: ForecastPoint[];
+}
+
+export interface PeriodSeries {
+  kind: PeriodKind;
+  periods: string[];               // Oldest first
+  series: Record<string, number[]>; // Quantity per package type, aligned with periods
+}
+
+export interface PackageForecast {
+  packageType: string;
+  model: ForecastModel;
+  holdoutError: number | null;
+  total: number;
+  periods: Array<{ label: string; forecast: number; lower: number; upper: number }>;
+}
+
+interface FittedModel {
+  parameters: Record<string, number>;
+  residuals: number[]; // One-step-ahead errors over the fitted history
+  forecast: (steps: number) => number[];
+}
+
+export const FORECAST_MODELS: ForecastModel[] = ['moving_average', 'exponential_smoothing', 'holt', 'holt_winters'];
+
+const SEASON_LENGTHS: Record<PeriodKind, number> = { quarter: 4, month: 12 };
+
+const Z_SCORES: Record<string, number> = { '0.8': 1.2816, '0.9': 1.6449, '0.95': 1.96 };
+
+const MOVING_AVERAGE_WINDOW = 3;
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+const TREND_GRID = [0.05, 0.1, 0.2, 0.3, 0.5];
+
+// ==========================================
+// MODELS
+// ==========================================
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const sumOfSquares = (values: number[]) => values.reduce((sum, value) => sum + value * value, 0);
+
+// Lowest in-sample squared error wins
+function bestFit(fits: FittedModel[]): FittedModel {
+  return fits.reduce((best, fit) => sumOfSquares(fit.residuals) < sumOfSquares(best.residuals) ? fit : best);
+}
+
+function movingAverage(series: number[]): FittedModel {
+  const window = Math.min(MOVING_AVERAGE_WINDOW, series.length);
+  const residuals: number[] = [];
+  for (let t = window; t < series.length; t++) {
+    residuals.push(series[t] - mean(series.slice(t - window, t)));
+  }
+  const level = mean(series.slice(-window));
+
+  return { parameters: { window }, residuals, forecast: steps => Array(steps).fill(level) };
+}
+
+function exponentialSmoothing(series: number[], alpha: number): FittedModel {
+  let level = series[0];
+  const residuals: number[] = [];
+  for (let t = 1; t < series.length; t++) {
+    const error = series[t] - level;
+    residuals.push(error);
+    level += alpha * error;
+  }
+
+  return { parameters: { alpha }, residuals, forecast: steps => Array(steps).fill(level) };
+}
+
+function holt(series: number[], alpha: number, beta: number): FittedModel {
+  let level = series[0];
+  let trend = series[1] - series[0];
+  const residuals: number[] = [];
+  for (let t = 1; t < series.length; t++) {
+    if (t > 1) residuals.push(series[t] - (level + trend)); // t = 1 is fitted exactly by the initial trend
+    const nextLevel = alpha * series[t] + (1 - alpha) * (level + trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * trend;
+    level = nextLevel;
+  }
+
+  return {
+    parameters: { alpha, beta },
+    residuals,
+    forecast: steps => Array.from({ length: steps }, (_, i) => level + (i + 1) * trend)
+  };
+}
+
+// Additive seasonality, initialised from the first two cycles
+function holtWinters(series: number[], seasonLength: number, alpha: number, beta: number, gamma: number): FittedModel {
+  const m = seasonLength;
+  let level = mean(series.slice(0, m));
+  let trend = (mean(series.slice(m, 2 * m)) - level) / m;
+  const seasonals = series.slice(0, m).map(value => value - level);
+  const residuals: number[] = [];
+
+  for (let t = m; t < series.length; t++) {
+    const seasonal = seasonals[t - m];
+    residuals.push(series[t] - (level + trend + seasonal));
+    const nextLevel = alpha * (series[t] - seasonal) + (1 - alpha) * (level + trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * trend;
+    seasonals.push(gamma * (series[t] - nextLevel) + (1 - gamma) * seasonal);
+    level = nextLevel;
+  }
+
+  const lastCycle = seasonals.slice(-m);
+  return {
+    parameters: { alpha, beta, gamma, seasonLength: m },
+    residuals,
+    forecast: steps => Array.from({ length: steps }, (_, i) => level + (i + 1) * trend + lastCycle[i % m])
+  };
+}
+
+/**
+ * Fit one model with grid-searched smoothing parameters; null when the
+ * history is too short for it
+ */
+export function fitModel(series: number[], model: ForecastModel, seasonLength: number = 4): FittedModel | null {
+  switch (model) {
+    case 'moving_average':
+      return series.length >= 1 ? movingAverage(series) : null;
+    case 'exponential_smoothing':
+      return series.length >= 2 ? bestFit(SMOOTHING_GRID.map(alpha => exponentialSmoothing(series, alpha))) : null;
+    case 'holt':
+      return series.length >= 3
+        ? bestFit(SMOOTHING_GRID.flatMap(alpha => TREND_GRID.map(beta => holt(series, alpha, beta))))
+        : null;
+    case 'holt_winters':
+      return seasonLength >= 2 && series.length >= 2 * seasonLength
+        ? bestFit(SMOOTHING_GRID.flatMap(alpha => TREND_GRID.flatMap(beta =>
+          TREND_GRID.map(gamma => holtWinters(series, seasonLength, alpha, beta, gamma)))))
+        : null;
+  }
+}
+
+// ==========================================
+// MODEL SELECTION
+// ==========================================
+
+/**
+ * Score each candidate on a holdout of the latest periods, refit the winner
+ * on the full history and project it with prediction intervals
+ */
+export function forecastSeries(history: number[], options: ForecastOptions): SeriesForecast {
+  if (history.length === 0) {
+    throw new Error('No history to forecast from');
+  }
+
+  const horizon = Math.max(1, Math.round(options.horizon));
+  const seasonLength = options.seasonLength ?? 4;
+  const models = options.models ?? FORECAST_MODELS;
+
+  // Hold back up to a quarter of the history (at least one period once there are three)
+  const holdout = history.length >= 3 ? Math.max(1, Math.min(horizon, Math.floor(history.length / 4))) : 0;
+  const training = history.slice(0, history.length - holdout);
+  const actuals = history.slice(history.length - holdout);
+
+  const candidates: ModelScore[] = models.map(model => {
+    const fit = holdout > 0 ? fitModel(training, model, seasonLength) : null;
+    if (!fit) return { model, error: null };
+    const predicted = fit.forecast(holdout);
+    return { model, error: mean(actuals.map((actual, i) => Math.abs(actual - predicted[i]))) };
+  });
+
+  // Ties go to the simpler model (candidates are listed simplest first)
+  const scored = candidates.filter((candidate): candidate is { model: ForecastModel; error: number } => candidate.error !== null);
+  const chosen = scored.length > 0
+    ? scored.reduce((best, candidate) => candidate.error < best.error ? candidate : best)
+    : { model: 'moving_average' as ForecastModel, error: null };
+
+  const fit = fitModel(history, chosen.model, seasonLength) ?? movingAverage(history);
+  const spread = fit.residuals.length > 0
+    ? Math.sqrt(sumOfSquares(fit.residuals) / fit.residuals.length)
+    : chosen.error ?? 0;
+  const z = Z_SCORES[String(options.confidenceLevel ?? 0.95)] ?? Z_SCORES['0.95'];
+
+  // Uncertainty widens with the square root of the steps ahead; consumption never goes below zero
+  const points = fit.forecast(horizon).map((value, i) => {
+    const forecast = Math.max(0, value);
+    const halfWidth = z * spread * Math.sqrt(i + 1);
+    return { step: i + 1, forecast, lower: Math.max(0, forecast - halfWidth), upper: forecast + halfWidth };
+  });
+
+  return { model: chosen.model, parameters: fit.parameters, holdoutError: chosen.error, candidates, points };
+}
+
+// ==========================================
+// PERIODS
+// ==========================================
+
+/**
+ * Read "Q1 2024", "2024-Q1" or plain "Q1"; null when the label is not a quarter
+ */
+export function parseQuarterLabel(label: string): { year?: number; quarter: number } | null {
+  const quarter = label.match(/q\s*([1-4])\b/i);
+  if (!quarter) return null;
+  const year = label.match(/\b(\d{4})\b/);
+  return { year: year ? parseInt(year[1]) : undefined, quarter: parseInt(quarter[1]) };
+}
+
+/**
+ * Labels for the quarters after the last one, in the same style
+ */
+export function nextQuarterLabels(last: string, count: number): string[] {
+  const parsed = parseQuarterLabel(last);
+  return Array.from({ length: count }, (_, i) => {
+    if (!parsed) return `${last} +${i + 1}`;
+    const index = parsed.quarter - 1 + i + 1;
+    const quarter = (index % 4) + 1;
+    return parsed.year !== undefined
+      ? `Q${quarter} ${parsed.year + Math.floor(index / 4)}`
+      : `Q${quarter}`;
+  });
+}
+
+/**
+ * Labels ("YYYY-MM") for the months after the last one
+ */
+export function nextMonthLabels(last: string, count: number): string[] {
+  const [year, month] = last.split('-').map(part => parseInt(part));
+  return Array.from({ length: count }, (_, i) => {
+    const index = year * 12 + (month - 1) + i + 1;
+    return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+  });
+}
+
+/**
+ * Align quarterly uploads into one series per package type. Quarters sort
+ * chronologically when every label parses, otherwise in upload order.
+ */
+export function buildQuarterlySeries(
+  records: Array<{ quarter: string; packageType: string; quantity: number; createdAt: number }>
+): PeriodSeries {
+  const uploadOrder = [...records]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(record => record.quarter)
+    .filter((quarter, index, all) => all.indexOf(quarter) === index);
+
+  const parsed = uploadOrder.map(parseQuarterLabel);
+  const periods = parsed.every(Boolean)
+    ? uploadOrder
+      .map((label, i) => ({ label, key: (parsed[i]!.year ?? 0) * 10 + parsed[i]!.quarter }))
+      .sort((a, b) => a.key - b.key)
+      .map(period => period.label)
+    : uploadOrder;
+
+  return { kind: 'quarter', periods, series: alignSeries(periods, records.map(record => [record.quarter, record.packageType, record.quantity])) };
+}
+
+/**
+ * Bucket dated usage logs into calendar months, filling gaps with zero
+ */
+export function buildMonthlySeries(records: Array<{ date: string; packageType: string; quantityUsed: number }>): PeriodSeries {
+  const months = records.map(record => record.date.substring(0, 7)).filter(month => /^\d{4}-\d{2}$/.test(month)).sort();
+  if (months.length === 0) {
+    return { kind: 'month', periods: [], series: {} };
+  }
+
+  const first = months[0];
+  const last = months[months.length - 1];
+  const periods = [first];
+  while (periods[periods.length - 1] < last) {
+    periods.push(nextMonthLabels(periods[periods.length - 1], 1)[0]);
+  }
+
+  return {
+    kind: 'month',
+    periods,
+    series: alignSeries(periods, records.map(record => [record.date.substring(0, 7), record.packageType, record.quantityUsed]))
+  };
+}
+
+function alignSeries(periods: string[], entries: Array<[string, string, number]>): Record<string, number[]> {
+  const series: Record<string, number[]> = {};
+  for (const [period, packageType, quantity] of entries) {
+    const index = periods.indexOf(period);
+    if (index === -1) continue;
+    series[packageType] = series[packageType] || Array(periods.length).fill(0);
+    series[packageType][index] += quantity;
+  }
+  return series;
+}
+
+/**
+ * Forecast every package type in a period series and label the projected periods
+ */
+export function forecastPeriodSeries(
+  history: PeriodSeries,
+  options: Omit<ForecastOptions, 'seasonLength'>
+): PackageForecast[] {
+  if (history.periods.length === 0) return [];
+
+  const last = history.periods[history.periods.length - 1];
+  const horizon = Math.max(1, Math.round(options.horizon));
+  const labels = history.kind === 'quarter' ? nextQuarterLabels(last, horizon) : nextMonthLabels(last, horizon);
+
+  return Object.entries(history.series).map(([packageType, series]) => {
+    const result = forecastSeries(series, { ...options, horizon, seasonLength: SEASON_LENGTHS[history.kind] });
+    return {
+      packageType,
+      model: result.model,
+      holdoutError: result.holdoutError,
+      total: result.points.reduce((sum, point) => sum + point.forecast, 0),
+      periods: result.points.map((point, i) => ({
+        label: labels[i],
+        forecast: point.forecast,
+        lower: point.lower,
+        upper: point.upper
+      }))
+    };
+  });
+}
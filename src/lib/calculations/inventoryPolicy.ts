@@ -0,0 +1,144 @@
+/**
+ * Inventory Policy
+ *
+ * Turns a package type's planned demand into stocking decisions for the
+ * Demand Planner:
+ * - Safety stock from demand variability, supplier lead time and a target
+ *   service level (flat buffer percentage when there is no history)
+ * - Reorder point and economic order quantity from ordering/holding costs
+ * - Days of cover, reorder date and projected stock-out date from on-hand stock
+ */
+
+import type { PeriodKind } from './forecasting';
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+// Per-package settings entered alongside packagingTypes
+export interface InventorySettings {
+  onHand?: number;          // Units currently in stock
+  leadTimeDays?: number;    // Supplier lead time
+  orderingCost?: number;    // Fixed cost per purchase order ($)
+  holdingCostRate?: number; // Annual holding cost as a % of unit cost
+}
+
+export interface DemandVariability {
+  coefficientOfVariation: number; // Std dev / mean of historical period demand
+  periodDays: number;             // Length of each historical period
+}
+
+export interface InventoryPolicyInput extends InventorySettings {
+  demand: number;            // Planned units over the planning window
+  periodDays: number;        // Length of the planning window
+  unitCost: number;
+  serviceLevel?: number;     // Target probability of not stocking out during a lead time
+  variability?: DemandVariability | null;
+  fallbackSafetyPercent?: number; // Buffer on lead-time demand when variability is unknown
+  asOf?: number;             // Timestamp the on-hand count was taken (defaults to now)
+}
+
+export interface InventoryPolicy {
+  serviceLevel: number;
+  dailyDemand: number;
+  safetyStock: number | null;
+  safetyStockMethod: 'variability' | 'buffer' | null;
+  reorderPoint: number | null;
+  economicOrderQuantity: number | null;
+  daysOfCover: number | null;
+  reorderDate: string | null;   // YYYY-MM-DD when on-hand reaches the reorder point
+  stockOutDate: string | null;  // YYYY-MM-DD when on-hand runs out at the planned rate
+  needsReorder: boolean;
+}
+
+export const SERVICE_LEVELS = [0.9, 0.95, 0.975, 0.99];
+
+// One-sided z-scores for the cycle service levels offered in the planner
+const SERVICE_LEVEL_Z: Record<string, number> = { '0.9': 1.2816, '0.95': 1.6449, '0.975': 1.96, '0.99': 2.3263 };
+
+export const PERIOD_DAYS: Record<PeriodKind, number> = { quarter: 91.25, month: 30.42 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==========================================
+// CALCULATIONS
+// ==========================================
+
+/**
+ * Spread of historical period demand relative to its mean. Needs two periods
+ * with usage; trend and seasonality count as variability, which errs on the
+ * side of more safety stock.
+ */
+export function demandVariability(history: number[], periodDays: number): DemandVariability | null {
+  if (history.length < 2) return null;
+
+  const mean = history.reduce((sum, value) => sum + value, 0) / history.length;
+  if (mean <= 0) return null;
+
+  const variance = history.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (history.length - 1);
+  return { coefficientOfVariation: Math.sqrt(variance) / mean, periodDays };
+}
+
+const toDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+/**
+ * Safety stock, reorder point, EOQ and stock-out projection for one package type
+ */
+export function calculateInventoryPolicy(input: InventoryPolicyInput): InventoryPolicy {
+  const serviceLevel = input.serviceLevel !== undefined && SERVICE_LEVEL_Z[String(input.serviceLevel)] !== undefined
+    ? input.serviceLevel
+    : 0.95;
+  const z = SERVICE_LEVEL_Z[String(serviceLevel)];
+  const dailyDemand = input.periodDays > 0 ? Math.max(0, input.demand) / input.periodDays : 0;
+
+  // Safety stock = z × daily demand std dev × √lead time, scaling the
+  // historical spread down to days assuming independent daily demand
+  let safetyStock: number | null = null;
+  let safetyStockMethod: InventoryPolicy['safetyStockMethod'] = null;
+  let reorderPoint: number | null = null;
+  if (input.leadTimeDays !== undefined && input.leadTimeDays >= 0) {
+    const leadTimeDemand = dailyDemand * input.leadTimeDays;
+    if (input.variability) {
+      const dailyStdDev = input.variability.coefficientOfVariation * dailyDemand * Math.sqrt(input.variability.periodDays);
+      safetyStock = Math.ceil(z * dailyStdDev * Math.sqrt(input.leadTimeDays));
+      safetyStockMethod = 'variability';
+    } else {
+      safetyStock = Math.ceil(leadTimeDemand * (input.fallbackSafetyPercent ?? 0) / 100);
+      safetyStockMethod = 'buffer';
+    }
+    reorderPoint = Math.ceil(leadTimeDemand) + safetyStock;
+  }
+
+  // EOQ = √(2 × annual demand × ordering cost / annual holding cost per unit)
+  const annualDemand = dailyDemand * 365;
+  const holdingCost = input.unitCost * (input.holdingCostRate ?? 0) / 100;
+  const economicOrderQuantity = annualDemand > 0 && (input.orderingCost ?? 0) > 0 && holdingCost > 0
+    ? Math.max(1, Math.round(Math.sqrt((2 * annualDemand * input.orderingCost!) / holdingCost)))
+    : null;
+
+  const asOf = input.asOf ?? Date.now();
+  let daysOfCover: number | null = null;
+  let reorderDate: string | null = null;
+  let stockOutDate: string | null = null;
+  if (input.onHand !== undefined && dailyDemand > 0) {
+    const onHand = Math.max(0, input.onHand);
+    daysOfCover = Math.floor(onHand / dailyDemand);
+    stockOutDate = toDate(asOf + daysOfCover * DAY_MS);
+    if (reorderPoint !== null) {
+      reorderDate = toDate(asOf + Math.max(0, Math.floor((onHand - reorderPoint) / dailyDemand)) * DAY_MS);
+    }
+  }
+
+  return {
+    serviceLevel,
+    dailyDemand,
+    safetyStock,
+    safetyStockMethod,
+    reorderPoint,
+    economicOrderQuantity,
+    daysOfCover,
+    reorderDate,
+    stockOutDate,
+    needsReorder: input.onHand !== undefined && reorderPoint !== null && input.onHand <= reorderPoint
+  };
+}
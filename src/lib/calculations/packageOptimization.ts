@@ -1,8 +1,11 @@
 /**
  * Package Optimization Calculations
  * Provides recommendations for package dimensions based on target fill rates
+ * and custom box designs for poorly served order clusters
  */
 
+import { calculateShippingCosts, type RateCard } from './costAnalysis';
+
 export interface PackageStats {
   packageName: string;
   currentVolume: number;
@@ -282,4 +285,237 @@ export function formatDimension(value: number): string {
  */
 export function formatDimensionOption(option: DimensionOption): string {
   return `${formatDimension(option.length)}" × ${formatDimension(option.width)}" × ${formatDimension(option.height)}"`;
-}
\ No newline at end of file
+}
+
+export interface CustomBoxDesignOptions {
+  poorFillThreshold?: number;   // Orders below this fill rate (%) are candidates for a new box
+  clusterTolerance?: number;    // Max relative difference per side to join a cluster (0-1)
+  minClusterSize?: number;      // Smallest cluster worth a new box
+  coveragePercentile?: number;  // Share of the cluster (0-1) the box must hold
+  clearance?: number;           // Inches added to each inner dimension
+  boardCostPerSqIn?: number;    // Corrugated board cost per square inch of blank
+  boardWeightPerSqIn?: number;  // Board weight (lbs) per square inch of blank
+  conversionCost?: number;      // Per-box cost to cut, print and glue the blank
+  defaultOrderWeight?: number;  // Content weight (lbs) used to price shipping
+  periodMonths?: number;        // Months of order history covered by the allocations
+  rateCard?: RateCard;          // Carrier rates used to price shipping
+}
+
+export interface CustomBoxRecommendation {
+  clusterId: string;
+  dimensions: {
+    length: number;
+    width: number;
+    height: number;
+  };
+  volume: number;
+  boardArea: number; // Square inches of RSC blank
+  estimatedUnitCost: number;
+  estimatedPackageWeight: number;
+  clusterOrders: number;
+  coveredOrders: number;
+  currentPackages: Record<string, number>;
+  averageCurrentFillRate: number;
+  projectedFillRate: number;
+  savingsPerOrder: {
+    packaging: number;
+    shipping: number;
+    total: number;
+  };
+  projectedAnnualSavings: {
+    packaging: number;
+    shipping: number;
+    total: number;
+  };
+}
+
+interface DesignAllocation {
+  recommendedPackage: string;
+  fillRate: number;
+  itemDimensions: { length: number; width: number; height: number; volume: number };
+  packageDimensions?: { length: number; width: number; height: number };
+  costBreakdown?: { packageCost: number };
+}
+
+interface DesignOrder {
+  allocation: DesignAllocation;
+  sides: number[]; // Item dimensions, longest first
+}
+
+/**
+ * Round a box side up to a size corrugated suppliers stock or cut cheaply:
+ * half inches for small boxes, whole inches to 24", then even inches
+ */
+function roundToSupplierDimension(value: number): number {
+  if (value <= 6) return Math.ceil(value * 2) / 2;
+  if (value <= 24) return Math.ceil(value);
+  return Math.ceil(value / 2) * 2;
+}
+
+/**
+ * Blank area of a regular slotted container (RSC): four panels plus a 1.5"
+ * manufacturer's joint, with top and bottom flaps each half the width deep
+ */
+function calculateRSCBoardArea(length: number, width: number, height: number): number {
+  return (2 * length + 2 * width + 1.5) * (height + width);
+}
+
+/**
+ * Design custom boxes for order clusters that no existing package serves well.
+ * Poorly filled orders are grouped by item size, each group gets a box sized to
+ * hold most of it (rounded to supplier-friendly dimensions), and the box is
+ * costed from its board area and compared against the current packages.
+ */
+export function designCustomBoxes(
+  allocations: DesignAllocation[],
+  packages: Array<{ name: string; dimensions: { length: number; width: number; height: number }; cost?: number; weight?: number }>,
+  options: CustomBoxDesignOptions = {}
+): CustomBoxRecommendation[] {
+  const {
+    poorFillThreshold = 60,
+    clusterTolerance = 0.2,
+    minClusterSize = 5,
+    coveragePercentile = 0.9,
+    clearance = 0.25,
+    boardCostPerSqIn = 0.0008,
+    boardWeightPerSqIn = 0.0006,
+    conversionCost = 0.15,
+    defaultOrderWeight = 1,
+    periodMonths = 1
+  } = options;
+
+  const poorOrders: DesignOrder[] = allocations
+    .filter(a => a.fillRate < poorFillThreshold && a.itemDimensions)
+    .map(a => ({
+      allocation: a,
+      sides: [a.itemDimensions.length, a.itemDimensions.width, a.itemDimensions.height].sort((x, y) => y - x)
+    }))
+    .filter(order => order.sides.every(side => side > 0))
+    .sort((a, b) => b.sides[0] * b.sides[1] * b.sides[2] - a.sides[0] * a.sides[1] * a.sides[2]);
+
+  // Leader clustering: each order joins the first cluster whose seed it is
+  // close to on every side, otherwise it seeds a new cluster. Seeds are indexed
+  // by log-scaled side, wide enough that any seed within tolerance sits in the
+  // same or a neighbouring bucket, so only those clusters are compared
+  const bucketWidth = -Math.log(1 - Math.min(Math.max(clusterTolerance, 0.01), 0.99));
+  const bucketKey = (buckets: number[]) => buckets.join(':');
+  const neighbourOffsets = [-1, 0, 1].flatMap(a => [-1, 0, 1].flatMap(b => [-1, 0, 1].map(c => [a, b, c])));
+  const clusters: Array<{ seed: number[]; orders: DesignOrder[] }> = [];
+  const clustersByBucket = new Map<string, number[]>();
+  for (const order of poorOrders) {
+    const buckets = order.sides.map(side => Math.floor(Math.log(side) / bucketWidth));
+    let match = -1;
+    for (const offset of neighbourOffsets) {
+      for (const clusterIndex of clustersByBucket.get(bucketKey(buckets.map((bucket, axis) => bucket + offset[axis]))) || []) {
+        const seed = clusters[clusterIndex].seed;
+        const close = seed.every((side, axis) => Math.abs(order.sides[axis] - side) <= side * clusterTolerance);
+        if (close && (match === -1 || clusterIndex < match)) {
+          match = clusterIndex;
+        }
+      }
+    }
+    if (match !== -1) {
+      clusters[match].orders.push(order);
+    } else {
+      const key = bucketKey(buckets);
+      clustersByBucket.set(key, (clustersByBucket.get(key) || []).concat(clusters.length));
+      clusters.push({ seed: order.sides, orders: [order] });
+    }
+  }
+
+  const existingSides = packages.map(pkg =>
+    [pkg.dimensions.length, pkg.dimensions.width, pkg.dimensions.height].sort((a, b) => b - a)
+  );
+  const annualFactor = 12 / periodMonths;
+  const recommendations: CustomBoxRecommendation[] = [];
+
+  clusters
+    .filter(cluster => cluster.orders.length >= minClusterSize)
+    .forEach((cluster, index) => {
+      // Size each side to the coverage percentile of the cluster
+      const sides = [0, 1, 2].map(axis => {
+        const values = cluster.orders.map(order => order.sides[axis]).sort((a, b) => a - b);
+        const percentileIndex = Math.min(values.length - 1, Math.ceil(values.length * coveragePercentile) - 1);
+        return roundToSupplierDimension(values[Math.max(0, percentileIndex)] + clearance);
+      });
+      const [length, width, height] = sides;
+
+      // Skip designs that duplicate an existing package
+      if (existingSides.some(existing => existing.every((side, axis) => Math.abs(side - sides[axis]) <= 0.5))) {
+        return;
+      }
+
+      const volume = length * width * height;
+      const boardArea = calculateRSCBoardArea(length, width, height);
+      const estimatedUnitCost = Math.round((boardArea * boardCostPerSqIn + conversionCost) * 100) / 100;
+      const estimatedPackageWeight = Math.round(boardArea * boardWeightPerSqIn * 100) / 100;
+      const newShipping = calculateShippingCosts(
+        { length, width, height, unit: 'in' },
+        defaultOrderWeight + estimatedPackageWeight,
+        undefined,
+        undefined,
+        undefined,
+        options.rateCard
+      ).totalCost;
+
+      const covered = cluster.orders.filter(order =>
+        order.sides.every((side, axis) => side <= sides[axis])
+      );
+      if (covered.length === 0) return;
+
+      const currentPackages: Record<string, number> = {};
+      let packagingSavings = 0;
+      let shippingSavings = 0;
+      let projectedFillSum = 0;
+
+      for (const order of covered) {
+        const a = order.allocation;
+        currentPackages[a.recommendedPackage] = (currentPackages[a.recommendedPackage] || 0) + 1;
+
+        const currentPackage = packages.find(pkg => pkg.name === a.recommendedPackage);
+        const currentDimensions = currentPackage?.dimensions || a.packageDimensions || { length: 0, width: 0, height: 0 };
+        const currentPackageCost = a.costBreakdown?.packageCost ?? currentPackage?.cost ?? 0;
+        const currentShipping = calculateShippingCosts(
+          { ...currentDimensions, unit: 'in' },
+          defaultOrderWeight + (currentPackage?.weight ?? 0.5),
+          undefined,
+          undefined,
+          undefined,
+          options.rateCard
+        ).totalCost;
+
+        packagingSavings += currentPackageCost - estimatedUnitCost;
+        shippingSavings += currentShipping - newShipping;
+        projectedFillSum += (a.itemDimensions.volume / volume) * 100;
+      }
+
+      const totalSavings = packagingSavings + shippingSavings;
+      if (totalSavings <= 0) return;
+
+      recommendations.push({
+        clusterId: `cluster_${index + 1}`,
+        dimensions: { length, width, height },
+        volume,
+        boardArea: Math.round(boardArea * 10) / 10,
+        estimatedUnitCost,
+        estimatedPackageWeight,
+        clusterOrders: cluster.orders.length,
+        coveredOrders: covered.length,
+        currentPackages,
+        averageCurrentFillRate: covered.reduce((sum, order) => sum + order.allocation.fillRate, 0) / covered.length,
+        projectedFillRate: projectedFillSum / covered.length,
+        savingsPerOrder: {
+          packaging: packagingSavings / covered.length,
+          shipping: shippingSavings / covered.length,
+          total: totalSavings / covered.length
+        },
+        projectedAnnualSavings: {
+          packaging: packagingSavings * annualFactor,
+          shipping: shippingSavings * annualFactor,
+          total: totalSavings * annualFactor
+        }
+      });
+    });
+
+  return recommendations.sort((a, b) => b.projectedAnnualSavings.total - a.projectedAnnualSavings.total);
+}
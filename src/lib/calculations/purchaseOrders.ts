@@ -0,0 +1,98 @@
+/**
+ * Purchase Orders
+ *
+ * Turns Demand Planner results into draft purchase orders:
+ * - One PO per supplier, with a line per package type
+ * - Orderable quantity and tier price from the supplier terms
+ * - Requested delivery dates from each package's lead time
+ * - Status lifecycle (draft → sent → received)
+ */
+
+// ==========================================
+// TYPES AND CONSTANTS
+// ==========================================
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'received';
+
+export interface PurchaseOrderLine {
+  packageType: string;
+  quantity: number;
+  unitPrice: number;
+  extendedCost: number;
+  leadTimeDays?: number;
+  requestedDeliveryDate: string; // YYYY-MM-DD
+}
+
+export interface DraftPurchaseOrder {
+  supplier: string;
+  lines: PurchaseOrderLine[];
+  totalCost: number;
+  requestedDeliveryDate: string; // Latest line date, so the PO can ship complete
+}
+
+// The fields of a demand result a PO line is built from
+export interface PlannedPurchase {
+  packageType: string;
+  supplier?: string;
+  leadTimeDays?: number;
+  finalQuantity: number;
+  estimatedCost: number;
+  ordering?: { orderQuantity: number; unitPrice: number; orderCost: number };
+}
+
+export const UNASSIGNED_SUPPLIER = 'Unassigned supplier';
+
+// Sent orders can be recalled to draft; received orders are final
+export const PURCHASE_ORDER_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ['sent'],
+  sent: ['draft', 'received'],
+  received: []
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==========================================
+// BUILDING
+// ==========================================
+
+export function canTransition(from: PurchaseOrderStatus, to: PurchaseOrderStatus): boolean {
+  return PURCHASE_ORDER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Group planned quantities by supplier into draft POs. Packages without
+ * supplier terms fall back to the planned quantity at list cost, and
+ * packages without a lead time are requested as soon as possible.
+ */
+export function buildDraftPurchaseOrders(results: PlannedPurchase[], asOf: number = Date.now()): DraftPurchaseOrder[] {
+  const bySupplier = new Map<string, PurchaseOrderLine[]>();
+
+  for (const result of results) {
+    const quantity = result.ordering?.orderQuantity ?? result.finalQuantity;
+    if (quantity <= 0) continue;
+
+    const unitPrice = result.ordering?.unitPrice ?? (result.finalQuantity > 0 ? result.estimatedCost / result.finalQuantity : 0);
+    const supplier = result.supplier?.trim() || UNASSIGNED_SUPPLIER;
+    const line: PurchaseOrderLine = {
+      packageType: result.packageType,
+      quantity,
+      unitPrice,
+      extendedCost: result.ordering?.orderCost ?? quantity * unitPrice,
+      leadTimeDays: result.leadTimeDays,
+      requestedDeliveryDate: new Date(asOf + (result.leadTimeDays ?? 0) * DAY_MS).toISOString().slice(0, 10)
+    };
+    bySupplier.set(supplier, [...(bySupplier.get(supplier) || []), line]);
+  }
+
+  return [...bySupplier.entries()]
+    .map(([supplier, lines]) => ({
+      supplier,
+      lines,
+      totalCost: lines.reduce((sum, line) => sum + line.extendedCost, 0),
+      requestedDeliveryDate: lines.map(line => line.requestedDeliveryDate).sort().pop()!
+    }))
+    .sort((a, b) =>
+      Number(a.supplier === UNASSIGNED_SUPPLIER) - Number(b.supplier === UNASSIGNED_SUPPLIER) ||
+      a.supplier.localeCompare(b.supplier)
+    );
+}
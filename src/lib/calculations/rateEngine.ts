@@ -0,0 +1,312 @@
+/**
+ * Carrier Rate Engine
+ *
+ * Prices parcels from uploaded carrier rate tables:
+ * - Builds rate cards from parsed CSV rows (service, zone, weight break, price)
+ * - Per-carrier DIM divisors, DIM thresholds and minimum billable weights
+ * - Billable weight rounding rules
+ * - Zone normalisation and service selection by shipping priority
+ */
+
+import { calculateCUIN, type Dimensions } from './cuin';
+import type { RateCard, ShippingRates, WeightRoundingRule, WeightTier } from './costAnalysis';
+import type { RateCardEntry } from '../data/csvParser';
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export type CarrierRules = Pick<ShippingRates, 'dimFactor' | 'minimumBillableWeight' | 'weightRounding' | 'dimThreshold'>;
+
+export interface ShipmentRequest {
+  dimensions: Dimensions;
+  weight: number;      // Actual weight in lbs
+  zone?: string;
+  priority?: string;
+  carrier?: string;    // e.g. 'ups_ground' to pin a specific service
+}
+
+export interface RateQuote {
+  carrier: string;
+  service: string;
+  zone: string;                     // Zone actually priced after normalisation
+  actualWeight: number;
+  dimensionalWeight: number;        // 0 when the parcel is under the DIM threshold
+  billableWeight: number;
+  baseCost: number;
+  fuelSurcharge: number;
+  totalCost: number;
+  dimensionalWeightPenalty: number; // Extra cost versus billing on actual weight
+}
+
+// ==========================================
+// CARRIER DEFAULTS
+// ==========================================
+
+/**
+ * Published domestic rules used when a rate table does not specify its own
+ */
+export const DEFAULT_CARRIER_RULES: Record<string, CarrierRules> = {
+  ups: { dimFactor: 139, minimumBillableWeight: 1, weightRounding: 'up_to_lb' },
+  fedex: { dimFactor: 139, minimumBillableWeight: 1, weightRounding: 'up_to_lb' },
+  dhl: { dimFactor: 139, minimumBillableWeight: 1, weightRounding: 'up_to_lb' },
+  usps: { dimFactor: 166, minimumBillableWeight: 0, weightRounding: 'up_to_lb', dimThreshold: 1728 },
+  default: { dimFactor: 139, minimumBillableWeight: 1, weightRounding: 'up_to_lb' }
+};
+
+const PRIORITY_SERVICE_KEYWORDS: Record<string, string[]> = {
+  overnight: ['overnight', 'next day', 'next_day', '1 day', '1day', 'nda'],
+  express: ['express', '2 day', '2day', 'two day', '2nd day', 'second day', 'priority'],
+  two_day: ['2 day', '2day', 'two day', '2nd day', 'second day', 'express'],
+  standard: ['ground', 'home', 'standard', 'advantage', 'parcel'],
+  economy: ['economy', 'saver', 'ground', 'parcel select', 'advantage']
+};
+
+const EPSILON = 1e-9;
+
+// ==========================================
+// RATE CARD CONSTRUCTION
+// ==========================================
+
+/**
+ * Look up the default rules for a carrier name such as "UPS" or "FedEx Ground"
+ */
+export function getCarrierRules(carrier: string): CarrierRules {
+  const key = carrier.toLowerCase().replace(/[^a-z]/g, '');
+  const match = Object.keys(DEFAULT_CARRIER_RULES).find(name => name !== 'default' && key.startsWith(name));
+  return DEFAULT_CARRIER_RULES[match || 'default'];
+}
+
+/**
+ * Normalise zone labels so "Zone 02", "zone_2" and "2" all refer to the same zone
+ */
+export function normalizeZone(zone: string): string {
+  const cleaned = zone.toLowerCase().trim().replace(/^zone[\s_-]*/, '');
+  return /^\d+$/.test(cleaned) ? String(parseInt(cleaned, 10)) : cleaned;
+}
+
+/**
+ * Group parsed rate rows into a rate card with one entry per carrier service.
+ * Each weight break becomes a tier covering weights above the previous break.
+ */
+export function buildRateCard(entries: RateCardEntry[], name: string): RateCard {
+  const groups = new Map<string, RateCardEntry[]>();
+  for (const entry of entries) {
+    const carrier = entry.carrier || inferCarrier(entry.service);
+    const key = `${carrier}|${entry.service}`;
+    groups.set(key, [...(groups.get(key) || []), { ...entry, carrier }]);
+  }
+
+  const services: ShippingRates[] = [];
+  for (const rows of groups.values()) {
+    const carrier = rows[0].carrier!;
+    const defaults = getCarrierRules(carrier);
+
+    const zones: ShippingRates['zones'] = {};
+    const byZone = new Map<string, Map<number, number>>();
+    for (const row of rows) {
+      const zone = normalizeZone(row.zone);
+      const breaks = byZone.get(zone) || new Map<number, number>();
+      if (!breaks.has(row.weight)) breaks.set(row.weight, row.price);
+      byZone.set(zone, breaks);
+    }
+
+    for (const [zone, breaks] of byZone) {
+      const sorted = [...breaks.entries()].sort((a, b) => a[0] - b[0]);
+      zones[zone] = {
+        zone,
+        rates: sorted.map(([maxWeight, rate], index) => ({
+          minWeight: index === 0 ? 0 : sorted[index - 1][0],
+          maxWeight,
+          rate
+        }))
+      };
+    }
+
+    const perPound = Object.values(zones)
+      .map(zoneRates => getOverflowRate(zoneRates.rates))
+      .filter(rate => rate > 0)
+      .sort((a, b) => a - b);
+    const fuel = rows.find(row => row.fuelSurcharge !== undefined)?.fuelSurcharge;
+    const dimDivisor = rows.find(row => row.dimDivisor !== undefined)?.dimDivisor;
+    const minimumWeight = rows.find(row => row.minimumWeight !== undefined)?.minimumWeight;
+    const rounding = rows.find(row => row.rounding !== undefined)?.rounding;
+
+    services.push({
+      carrier,
+      service: rows[0].service,
+      zones,
+      dimFactor: dimDivisor ?? defaults.dimFactor,
+      fuelSurcharge: fuel === undefined ? 0 : fuel > 1 ? fuel / 100 : fuel,
+      baseRate: perPound.length > 0 ? perPound[Math.floor(perPound.length / 2)] : 0,
+      minimumBillableWeight: minimumWeight ?? defaults.minimumBillableWeight,
+      weightRounding: parseRoundingRule(rounding) ?? defaults.weightRounding,
+      dimThreshold: defaults.dimThreshold
+    });
+  }
+
+  return { name, services };
+}
+
+/**
+ * Use the first word of the service name as the carrier when no carrier column exists
+ */
+function inferCarrier(service: string): string {
+  const word = service.trim().split(/\s+/)[0] || '';
+  const known = Object.keys(DEFAULT_CARRIER_RULES).filter(name => name !== 'default');
+  return known.includes(word.toLowerCase()) ? word : 'custom';
+}
+
+function parseRoundingRule(value: string | undefined): WeightRoundingRule | undefined {
+  if (!value) return undefined;
+  const rule = value.toLowerCase().trim();
+  if (rule.includes('half') || rule === '0.5') return 'up_to_half_lb';
+  if (rule.includes('oz') || rule.includes('ounce')) return 'up_to_oz';
+  if (rule.includes('none') || rule.includes('exact')) return 'none';
+  if (rule.includes('lb') || rule.includes('pound') || rule === '1') return 'up_to_lb';
+  return undefined;
+}
+
+// ==========================================
+// PRICING
+// ==========================================
+
+/**
+ * Apply DIM divisor, DIM threshold, minimum billable weight and rounding
+ */
+export function calculateBillableWeight(
+  dimensions: Dimensions,
+  weight: number,
+  rules: CarrierRules
+): { dimensionalWeight: number; billableWeight: number } {
+  const cubicInches = calculateCUIN(dimensions);
+  const dimensionalWeight = rules.dimThreshold !== undefined && cubicInches <= rules.dimThreshold
+    ? 0
+    : cubicInches / rules.dimFactor;
+  const billableWeight = roundWeight(
+    Math.max(weight, dimensionalWeight, rules.minimumBillableWeight ?? 0),
+    rules.weightRounding ?? 'up_to_lb'
+  );
+
+  return { dimensionalWeight, billableWeight };
+}
+
+function roundWeight(weight: number, rule: WeightRoundingRule): number {
+  switch (rule) {
+    case 'up_to_lb': return Math.ceil(weight - EPSILON);
+    case 'up_to_half_lb': return Math.ceil(weight * 2 - EPSILON) / 2;
+    case 'up_to_oz': return Math.ceil(weight * 16 - EPSILON) / 16;
+    default: return weight;
+  }
+}
+
+/**
+ * Price a parcel from a rate card. The priority picks matching services
+ * (ground, 2 day, overnight) and the cheapest of those is quoted; a carrier
+ * key like "fedex_ground" pins a specific service when the card has it.
+ * Returns null when the card has no usable rates.
+ */
+export function quoteShipment(rateCard: RateCard, request: ShipmentRequest): RateQuote | null {
+  const quotes = selectServices(rateCard.services, request.priority, request.carrier)
+    .map(service => priceService(service, request))
+    .filter((quote): quote is RateQuote => quote !== null);
+
+  if (quotes.length === 0) return null;
+  return quotes.reduce((best, quote) => quote.totalCost < best.totalCost ? quote : best);
+}
+
+/**
+ * Price a parcel with a single carrier service
+ */
+export function priceService(service: ShippingRates, request: ShipmentRequest): RateQuote | null {
+  const zone = resolveZone(service, request.zone);
+  if (!zone) return null;
+
+  const tiers = service.zones[zone].rates;
+  const { dimensionalWeight, billableWeight } = calculateBillableWeight(request.dimensions, request.weight, service);
+  const actualBillable = calculateBillableWeight(
+    request.dimensions,
+    request.weight,
+    { ...service, dimThreshold: Infinity }
+  ).billableWeight;
+
+  const baseCost = lookupTierRate(tiers, billableWeight, service.baseRate);
+  const fuelSurcharge = baseCost * service.fuelSurcharge;
+  const totalCost = baseCost + fuelSurcharge;
+  const actualCost = lookupTierRate(tiers, actualBillable, service.baseRate) * (1 + service.fuelSurcharge);
+
+  return {
+    carrier: service.carrier,
+    service: service.service,
+    zone,
+    actualWeight: request.weight,
+    dimensionalWeight,
+    billableWeight,
+    baseCost,
+    fuelSurcharge,
+    totalCost,
+    dimensionalWeightPenalty: Math.max(0, totalCost - actualCost)
+  };
+}
+
+function selectServices(services: ShippingRates[], priority?: string, carrier?: string): ShippingRates[] {
+  if (carrier) {
+    const key = carrier.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const pinned = services.filter(service =>
+      `${service.carrier}${service.service}`.toLowerCase().replace(/[^a-z0-9]/g, '') === key
+    );
+    if (pinned.length > 0) return pinned;
+  }
+
+  const keywords = PRIORITY_SERVICE_KEYWORDS[(priority || 'standard').toLowerCase()];
+  if (keywords) {
+    const matching = services.filter(service =>
+      keywords.some(keyword => service.service.toLowerCase().includes(keyword))
+    );
+    if (matching.length > 0) return matching;
+  }
+
+  return services;
+}
+
+/**
+ * Map the requested zone onto the rate table. Zones the table does not list
+ * (including generic labels like "domestic") are priced at its middle zone.
+ */
+function resolveZone(service: ShippingRates, zone?: string): string | null {
+  const zones = Object.keys(service.zones).filter(key => service.zones[key].rates.length > 0);
+  if (zones.length === 0) return null;
+
+  const requested = zone ? normalizeZone(zone) : '';
+  if (zones.includes(requested)) return requested;
+
+  const sorted = [...zones].sort((a, b) => {
+    const numericA = parseFloat(a);
+    const numericB = parseFloat(b);
+    if (!isNaN(numericA) && !isNaN(numericB)) return numericA - numericB;
+    return a.localeCompare(b);
+  });
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+}
+
+/**
+ * Price from the first tier covering the weight; beyond the heaviest break
+ * charge the per-lb increment of the last two breaks (or the service base rate)
+ */
+function lookupTierRate(tiers: WeightTier[], weight: number, baseRate: number): number {
+  const tier = tiers.find(candidate => weight <= candidate.maxWeight + EPSILON);
+  if (tier) return tier.rate;
+
+  const last = tiers[tiers.length - 1];
+  const perPound = getOverflowRate(tiers) || baseRate;
+  return last.rate + (weight - last.maxWeight) * perPound;
+}
+
+function getOverflowRate(tiers: WeightTier[]): number {
+  if (tiers.length < 2) {
+    return tiers.length === 1 ? tiers[0].rate / tiers[0].maxWeight : 0;
+  }
+  const last = tiers[tiers.length - 1];
+  const previous = tiers[tiers.length - 2];
+  return Math.max(0, (last.rate - previous.rate) / (last.maxWeight - previous.maxWeight));
+}
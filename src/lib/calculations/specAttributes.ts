@@ -0,0 +1,189 @@
+/**
+ * Spec Attributes
+ *
+ * Weight, handling and packaging estimates returned by the Spec Generator
+ * alongside dimensions:
+ * - Normalisation of free-form model answers (weight units, flags, class names)
+ * - A separate confidence level for each estimated attribute
+ * - Export rows in the column layout parseOrderData reads, so generated
+ *   specs can be fed straight into the Suite Analyzer
+ */
+
+import { convertToPounds, type WeightUnit } from './cuin';
+import { parseWeightUnit } from '../data/units';
+import type { SpecConfidence } from './specPriors';
+
+// ==========================================
+// TYPES AND CONSTANTS
+// ==========================================
+
+export type Orientation = 'any' | 'this_side_up' | 'keep_flat';
+
+export type PackagingClass = 'poly_mailer' | 'padded_mailer' | 'standard_box' | 'cushioned_box' | 'double_box';
+
+export interface SpecAttributes {
+  weight?: number;
+  weightUnit?: WeightUnit;
+  weightConfidence?: SpecConfidence;
+  fragile?: boolean;
+  orientation?: Orientation;
+  fragilityConfidence?: SpecConfidence; // Covers the fragile and orientation flags
+  packagingClass?: PackagingClass;
+  packagingConfidence?: SpecConfidence;
+}
+
+export interface SpecExportResult extends SpecAttributes {
+  orderId?: string;
+  sku?: string;
+  productName: string;
+  category?: string;
+  estimatedL: number;
+  estimatedW: number;
+  estimatedH: number;
+  confidence: string;
+  notes: string;
+}
+
+// Descriptions double as the model's instructions for each value
+export const ORIENTATIONS: Record<Orientation, string> = {
+  any: 'Can ship in any orientation',
+  this_side_up: 'Must stay upright (liquids, open-top or top-heavy items)',
+  keep_flat: 'Must lie flat (prints, panels, layered goods)'
+};
+
+export const PACKAGING_CLASSES: Record<PackagingClass, string> = {
+  poly_mailer: 'Soft, unbreakable goods (apparel, textiles)',
+  padded_mailer: 'Small, flat items that need light protection (books, accessories)',
+  standard_box: 'Sturdy boxed goods that only need void fill',
+  cushioned_box: 'Fragile items that need wrap or molded inserts',
+  double_box: 'Highly fragile or heavy items that need a box-in-box'
+};
+
+export const SPEC_ATTRIBUTE_KEYS: Array<keyof SpecAttributes> = [
+  'weight', 'weightUnit', 'weightConfidence',
+  'fragile', 'orientation', 'fragilityConfidence',
+  'packagingClass', 'packagingConfidence'
+];
+
+// Column names parseOrderData maps, followed by the extra spec columns it passes over
+export const SPEC_EXPORT_HEADERS = [
+  'order_id', 'sku', 'product_name', 'quantity',
+  'length', 'width', 'height', 'dimension_unit',
+  'weight', 'weight_unit', 'category', 'fragile',
+  'orientation', 'packaging_class',
+  'dimension_confidence', 'weight_confidence', 'fragility_confidence', 'packaging_confidence',
+  'notes'
+];
+
+// ==========================================
+// NORMALISATION
+// ==========================================
+
+const toKey = (value: unknown): string =>
+  typeof value === 'string' ? value.toLowerCase().trim().replace(/[\s-]+/g, '_') : '';
+
+const isOrientation = (key: string): key is Orientation => Object.prototype.hasOwnProperty.call(ORIENTATIONS, key);
+const isPackagingClass = (key: string): key is PackagingClass => Object.prototype.hasOwnProperty.call(PACKAGING_CLASSES, key);
+
+/**
+ * Map free-form confidence ("HIGH", "Likely") onto the catalog's levels
+ */
+export function normalizeSpecConfidence(value: unknown, fallback: SpecConfidence = 'medium'): SpecConfidence {
+  const level = toKey(value);
+  return level === 'high' || level === 'medium' || level === 'low' ? level : fallback;
+}
+
+function parseFlag(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  const key = toKey(value);
+  if (['true', 'yes', '1', 'fragile'].includes(key)) return true;
+  if (['false', 'no', '0'].includes(key)) return false;
+  return undefined;
+}
+
+/**
+ * Read the weight, handling and packaging fields from one model estimate.
+ * Missing or unrecognised values are left out (or, for the packaging class,
+ * derived from fragility with low confidence) rather than guessed.
+ */
+export function parseSpecAttributes(estimate: Record<string, unknown>): SpecAttributes {
+  const attributes: SpecAttributes = {};
+
+  const weight = typeof estimate.weight === 'string' ? parseFloat(estimate.weight) : estimate.weight;
+  if (typeof weight === 'number' && Number.isFinite(weight) && weight > 0) {
+    attributes.weight = weight;
+    attributes.weightUnit = parseWeightUnit(typeof estimate.weightUnit === 'string' ? estimate.weightUnit : undefined) || 'lb';
+    attributes.weightConfidence = normalizeSpecConfidence(estimate.weightConfidence);
+  }
+
+  const fragile = parseFlag(estimate.fragile);
+  const orientation = toKey(estimate.orientation);
+  if (fragile !== undefined || isOrientation(orientation)) {
+    attributes.fragile = fragile ?? false;
+    attributes.orientation = isOrientation(orientation) ? orientation : 'any';
+    attributes.fragilityConfidence = normalizeSpecConfidence(estimate.fragilityConfidence);
+  }
+
+  const packagingClass = toKey(estimate.packagingClass);
+  if (isPackagingClass(packagingClass)) {
+    attributes.packagingClass = packagingClass;
+    attributes.packagingConfidence = normalizeSpecConfidence(estimate.packagingConfidence);
+  } else if (attributes.fragile !== undefined) {
+    attributes.packagingClass = attributes.fragile ? 'cushioned_box' : 'standard_box';
+    attributes.packagingConfidence = 'low';
+  }
+
+  return attributes;
+}
+
+/**
+ * Copy only the attribute fields that are set (e.g. from a cache entry or job result)
+ */
+export function pickSpecAttributes(source: SpecAttributes): SpecAttributes {
+  return Object.fromEntries(
+    SPEC_ATTRIBUTE_KEYS.filter(key => source[key] !== undefined).map(key => [key, source[key]])
+  ) as SpecAttributes;
+}
+
+/**
+ * Estimated weight in pounds, for the catalog and DIM-weight comparisons
+ */
+export function specWeightInPounds(attributes: SpecAttributes): number | undefined {
+  return attributes.weight !== undefined
+    ? Math.round(convertToPounds(attributes.weight, attributes.weightUnit || 'lb') * 100) / 100
+    : undefined;
+}
+
+// ==========================================
+// EXPORT
+// ==========================================
+
+/**
+ * Build export rows (header first) that parseOrderData reads back as one
+ * single-quantity item per product, with weight converted from its unit
+ */
+export function buildSpecExportRows(results: SpecExportResult[]): string[][] {
+  const rows = results.map(result => [
+    result.orderId || '',
+    result.sku || '',
+    result.productName,
+    '1',
+    result.estimatedL.toFixed(2),
+    result.estimatedW.toFixed(2),
+    result.estimatedH.toFixed(2),
+    'in',
+    result.weight !== undefined ? String(result.weight) : '',
+    result.weight !== undefined ? result.weightUnit || 'lb' : '',
+    result.category || '',
+    result.fragile === undefined ? '' : result.fragile ? 'yes' : 'no',
+    result.orientation || '',
+    result.packagingClass || '',
+    result.confidence.toLowerCase(),
+    result.weightConfidence || '',
+    result.fragilityConfidence || '',
+    result.packagingConfidence || '',
+    result.notes
+  ]);
+
+  return [SPEC_EXPORT_HEADERS, ...rows];
+}
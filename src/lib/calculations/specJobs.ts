@@ -0,0 +1,108 @@
+/**
+ * Spec Job Bookkeeping
+ *
+ * Status, retry and resume decisions for chunked Spec Generator jobs:
+ * - Per-item attempt counting and when an item is given up on
+ * - Backoff between failed chunks and when the whole job stops
+ * - The final status once no items are pending
+ * - Which jobs can be resumed, including ones stalled by an action timeout
+ *
+ * The Convex job functions apply these to the stored job and item rows.
+ */
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export type SpecJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SpecJobState {
+  status: SpecJobStatus;
+  completedItems: number;
+  failedItems: number;
+  updatedAt: number;
+  error?: string;
+}
+
+export interface ItemAttemptOutcome {
+  attempts: number;
+  failed: boolean; // Out of attempts; stays failed until the job is resumed
+}
+
+export interface ChunkFailureOutcome {
+  retries: number;
+  giveUp: boolean;
+  delayMs: number; // Wait before the next chunk when not giving up
+}
+
+export interface CompletionOutcome {
+  status: 'completed' | 'failed';
+  error?: string;
+}
+
+// Attempts before an item is given up on; resuming the job retries it
+export const MAX_ITEM_ATTEMPTS = 3;
+
+// Consecutive failed chunks before the job stops and waits to be resumed
+export const MAX_CHUNK_RETRIES = 5;
+export const RETRY_BASE_DELAY_MS = 5000;
+
+// Active jobs that have not moved for this long can be resumed (e.g. after an action timeout)
+export const STALE_JOB_MS = 15 * 60 * 1000;
+
+// ==========================================
+// STATUS
+// ==========================================
+
+export const isJobActive = (job: Pick<SpecJobState, 'status'>) =>
+  job.status === 'queued' || job.status === 'running';
+
+export const isJobStalled = (job: Pick<SpecJobState, 'status' | 'updatedAt'>, now: number) =>
+  isJobActive(job) && now - job.updatedAt > STALE_JOB_MS;
+
+/**
+ * Failed, cancelled and stalled jobs can be resumed, as can completed jobs
+ * with items that were given up on
+ */
+export function canResumeJob(job: SpecJobState, now: number): boolean {
+  if (job.status === 'failed' || job.status === 'cancelled') return true;
+  if (job.status === 'completed') return job.failedItems > 0;
+  return isJobStalled(job, now);
+}
+
+/**
+ * Final status once no items are pending; a job where nothing could be
+ * estimated counts as failed
+ */
+export function completionOutcome(job: SpecJobState): CompletionOutcome {
+  if (job.completedItems === 0 && job.failedItems > 0) {
+    return { status: 'failed', error: job.error || 'No products could be estimated' };
+  }
+  return { status: 'completed' };
+}
+
+// ==========================================
+// RETRIES
+// ==========================================
+
+/**
+ * Count one more attempt against an item from a failed chunk
+ */
+export function nextItemAttempt(attempts: number): ItemAttemptOutcome {
+  const next = attempts + 1;
+  return { attempts: next, failed: next >= MAX_ITEM_ATTEMPTS };
+}
+
+/**
+ * Exponential backoff after a failed chunk, stretched to any retry-after the
+ * provider asked for, or give up once too many chunks failed in a row
+ */
+export function chunkFailureOutcome(retries: number, retryAfterMs = 0): ChunkFailureOutcome {
+  const next = retries + 1;
+  const giveUp = next > MAX_CHUNK_RETRIES;
+  return {
+    retries: next,
+    giveUp,
+    delayMs: giveUp ? 0 : Math.max(RETRY_BASE_DELAY_MS * 2 ** (next - 1), retryAfterMs)
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Spec Priors
+ *
+ * Sanity checks for AI dimension estimates from the Spec Generator:
+ * - Product-name normalisation so repeat products hit the estimate cache
+ * - Per-category dimension priors built from accepted estimates
+ * - Clamping of new estimates that fall far outside their category prior
+ *
+ * All dimensions are in inches.
+ */
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export type SpecConfidence = 'high' | 'medium' | 'low';
+
+export interface SpecDimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+export interface CategorySample extends SpecDimensions {
+  category?: string;
+}
+
+export interface CategoryPrior {
+  category: string;
+  sampleCount: number;
+  median: [number, number, number]; // Longest, middle and shortest side
+}
+
+export interface PriorCheckResult extends SpecDimensions {
+  clamped: boolean;
+  note?: string;
+}
+
+// Minimum accepted estimates before a category prior is trusted
+export const MIN_PRIOR_SAMPLES = 3;
+
+// Sides may differ from the category median by up to this factor either way
+export const PRIOR_TOLERANCE = 3;
+
+// ==========================================
+// NORMALISATION
+// ==========================================
+
+/**
+ * Cache key for a product name: case, punctuation and spacing are ignored,
+ * so "Water Bottle, 32oz" and "water bottle 32 oz" share an estimate
+ */
+export function normalizeProductName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/(\d)([a-z])/g, '$1 $2')
+    .replace(/[^a-z0-9.]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Category key used to group priors
+ */
+export function normalizeCategory(category: string | undefined): string | undefined {
+  const key = category?.trim().toLowerCase();
+  return key ? key : undefined;
+}
+
+// ==========================================
+// CATEGORY PRIORS
+// ==========================================
+
+const sortedSides = (dims: SpecDimensions): [number, number, number] => {
+  const [a, b, c] = [dims.length, dims.width, dims.height].sort((x, y) => y - x);
+  return [a, b, c];
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Build per-category priors from accepted estimates. Sides are compared by
+ * rank (longest to shortest) so orientation differences do not matter.
+ * Categories with fewer than MIN_PRIOR_SAMPLES samples are left out.
+ */
+export function buildCategoryPriors(samples: CategorySample[]): Map<string, CategoryPrior> {
+  const byCategory = new Map<string, Array<[number, number, number]>>();
+  for (const sample of samples) {
+    const category = normalizeCategory(sample.category);
+    if (!category) continue;
+    const sides = sortedSides(sample);
+    if (sides[2] <= 0) continue;
+    byCategory.set(category, [...(byCategory.get(category) || []), sides]);
+  }
+
+  const priors = new Map<string, CategoryPrior>();
+  for (const [category, sides] of byCategory) {
+    if (sides.length < MIN_PRIOR_SAMPLES) continue;
+    priors.set(category, {
+      category,
+      sampleCount: sides.length,
+      median: [0, 1, 2].map(rank => median(sides.map(s => s[rank]))) as [number, number, number]
+    });
+  }
+  return priors;
+}
+
+/**
+ * Clamp an estimate to within PRIOR_TOLERANCE of its category prior. Clamped
+ * estimates come back longest side first with a note explaining the change.
+ */
+export function applyCategoryPrior(estimate: SpecDimensions, prior: CategoryPrior | undefined): PriorCheckResult {
+  if (!prior) {
+    return { ...estimate, clamped: false };
+  }
+
+  const sides = sortedSides(estimate);
+  const clampedSides = sides.map((side, rank) => {
+    const low = prior.median[rank] / PRIOR_TOLERANCE;
+    const high = prior.median[rank] * PRIOR_TOLERANCE;
+    return Math.round(Math.min(Math.max(side, low), high) * 100) / 100;
+  });
+
+  if (clampedSides.every((side, rank) => side === sides[rank])) {
+    return { ...estimate, clamped: false };
+  }
+
+  const [length, width, height] = clampedSides;
+  return {
+    length,
+    width,
+    height,
+    clamped: true,
+    note: `Adjusted from ${sides.join(' × ')} in to fit ${prior.sampleCount} accepted ${prior.category} estimates ` +
+      `(typical ${prior.median.map(side => Math.round(side * 100) / 100).join(' × ')} in)`
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Supplier Terms
+ *
+ * Converts planned package quantities into what a corrugate supplier will
+ * actually sell:
+ * - Minimum order quantities and case-pack (bundle) rounding
+ * - Full-pallet and price-break quantities as alternatives when they cost less
+ * - Raw vs orderable quantity and cost for the Demand Planner
+ */
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export interface PriceBreak {
+  minQuantity: number; // Units at which the price applies
+  unitPrice: number;
+}
+
+// Per-package settings entered alongside packagingTypes
+export interface SupplierTerms {
+  supplier?: string;
+  caseQuantity?: number;          // Units per bundle/case; orders are whole cases
+  palletQuantity?: number;        // Units per pallet
+  minimumOrderQuantity?: number;
+  priceBreaks?: PriceBreak[];
+}
+
+export interface OrderableQuantity {
+  rawQuantity: number;
+  rawCost: number;
+  orderQuantity: number;
+  unitPrice: number;
+  orderCost: number;
+  cases: number | null;
+  pallets: number | null;          // Pallets needed to ship the order
+  priceBreak: PriceBreak | null;   // Tier applied, if any
+  reason: 'case' | 'minimum' | 'pallet' | 'price_break' | null; // Why the quantity moved up
+}
+
+// ==========================================
+// PRICE BREAKS
+// ==========================================
+
+/**
+ * Read price breaks typed as "100:0.85, 500:0.72" (or "100@0.85"), sorted by quantity
+ */
+export function parsePriceBreaks(text: string): PriceBreak[] {
+  return text
+    .split(/[,;\n]+/)
+    .map(part => part.trim().match(/^([\d.]+)\s*[:@=]\s*\$?([\d.]+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => ({ minQuantity: parseFloat(match[1]), unitPrice: parseFloat(match[2]) }))
+    .filter(tier => tier.minQuantity > 0 && tier.unitPrice >= 0)
+    .sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+export function formatPriceBreaks(priceBreaks: PriceBreak[] = []): string {
+  return priceBreaks.map(tier => `${tier.minQuantity}:${tier.unitPrice}`).join(', ');
+}
+
+/**
+ * Unit price for a quantity: the deepest tier reached, otherwise the list cost
+ */
+export function unitPriceFor(quantity: number, priceBreaks: PriceBreak[] = [], listPrice: number = 0): { unitPrice: number; priceBreak: PriceBreak | null } {
+  const tier = [...priceBreaks]
+    .sort((a, b) => a.minQuantity - b.minQuantity)
+    .filter(candidate => candidate.minQuantity <= quantity)
+    .pop();
+  return tier ? { unitPrice: tier.unitPrice, priceBreak: tier } : { unitPrice: listPrice, priceBreak: null };
+}
+
+// ==========================================
+// ROUNDING
+// ==========================================
+
+const roundUpTo = (quantity: number, multiple?: number) =>
+  multiple && multiple > 0 ? Math.ceil(quantity / multiple) * multiple : Math.ceil(quantity);
+
+/**
+ * Round a planned quantity up to an orderable one and pick the cheapest
+ * option among the case-rounded quantity, the next full pallet and each
+ * higher price-break tier. Ties go to the smaller order.
+ */
+export function toOrderableQuantity(rawQuantity: number, listPrice: number, terms: SupplierTerms = {}): OrderableQuantity {
+  const raw = Math.max(0, Math.ceil(rawQuantity));
+  const priceBreaks = terms.priceBreaks ?? [];
+  const rawCost = raw * unitPriceFor(raw, priceBreaks, listPrice).unitPrice;
+
+  if (raw === 0) {
+    return { rawQuantity: 0, rawCost: 0, orderQuantity: 0, unitPrice: listPrice, orderCost: 0, cases: null, pallets: null, priceBreak: null, reason: null };
+  }
+
+  const belowMinimum = (terms.minimumOrderQuantity ?? 0) > raw;
+  const base = roundUpTo(Math.max(raw, terms.minimumOrderQuantity ?? 0), terms.caseQuantity);
+  const options: Array<{ quantity: number; reason: OrderableQuantity['reason'] }> = [
+    { quantity: base, reason: belowMinimum ? 'minimum' : base > raw ? 'case' : null }
+  ];
+  if (terms.palletQuantity && terms.palletQuantity > 0) {
+    options.push({ quantity: roundUpTo(roundUpTo(base, terms.palletQuantity), terms.caseQuantity), reason: 'pallet' });
+  }
+  for (const tier of priceBreaks) {
+    if (tier.minQuantity > base) {
+      options.push({ quantity: roundUpTo(tier.minQuantity, terms.caseQuantity), reason: 'price_break' });
+    }
+  }
+
+  const priced = options.map(option => {
+    const { unitPrice, priceBreak } = unitPriceFor(option.quantity, priceBreaks, listPrice);
+    return { ...option, unitPrice, priceBreak, cost: option.quantity * unitPrice };
+  });
+  const best = priced.reduce((cheapest, option) =>
+    option.cost < cheapest.cost || (option.cost === cheapest.cost && option.quantity < cheapest.quantity) ? option : cheapest
+  );
+
+  return {
+    rawQuantity: raw,
+    rawCost,
+    orderQuantity: best.quantity,
+    unitPrice: best.unitPrice,
+    orderCost: best.cost,
+    cases: terms.caseQuantity ? best.quantity / terms.caseQuantity : null,
+    pallets: terms.palletQuantity ? Math.ceil(best.quantity / terms.palletQuantity) : null,
+    priceBreak: best.priceBreak,
+    reason: best.quantity === base ? options[0].reason : best.reason
+  };
+}
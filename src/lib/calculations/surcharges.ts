@@ -0,0 +1,248 @@
+/**
+ * Carrier Accessorial Surcharges
+ *
+ * Configurable rules for parcel surcharges triggered by size and weight:
+ * - Additional handling (longest side, second-longest side, length + girth, weight)
+ * - Large package, including its minimum billable weight
+ * - Over maximum size or weight limits
+ * - Precedence between rules so only the most severe fee applies
+ */
+
+import { convertToInches, type Dimensions } from './cuin';
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export type SurchargeType = 'additional_handling' | 'large_package' | 'over_maximum' | 'custom';
+
+export interface SurchargeConditions {
+  longestSideOver?: number;       // inches
+  secondLongestSideOver?: number; // inches
+  lengthPlusGirthOver?: number;   // inches, longest side + 2 x (other two sides)
+  weightOver?: number;            // lbs, actual weight
+  cubicInchesOver?: number;
+}
+
+export interface SurchargeRule {
+  id: string;
+  name: string;
+  type: SurchargeType;
+  carrier?: string;               // Applies to every carrier when omitted
+  conditions: SurchargeConditions; // The rule triggers when any condition is exceeded
+  amount: number;                 // Fee per parcel
+  minimumBillableWeight?: number; // lbs, e.g. 90 lbs for large packages
+  supersedes?: string[];          // Rule ids that no longer apply when this one does
+}
+
+export interface AppliedSurcharge {
+  ruleId: string;
+  name: string;
+  type: SurchargeType;
+  amount: number;
+  reason: string;
+}
+
+export interface SurchargeEvaluation {
+  surcharges: AppliedSurcharge[];
+  total: number;
+  minimumBillableWeight: number;
+}
+
+export interface PackageSurchargeSummary {
+  packageName: string;
+  parcelsShipped: number;
+  ordersWithSurcharges: number;
+  surchargeCost: number;
+  bySurcharge: Record<string, { orders: number; cost: number }>; // Keyed by surcharge name
+}
+
+// An allocated order, shipped in its recommended package or split across parcels
+export interface SurchargedShipment {
+  orderId: string;
+  recommendedPackage: string;
+  surcharges?: AppliedSurcharge[];
+  parcels?: Array<{ packageName: string; surcharges?: AppliedSurcharge[] }>;
+}
+
+// ==========================================
+// DEFAULT RULES
+// ==========================================
+
+/**
+ * Typical domestic ground list-rate thresholds and fees. Replace the amounts
+ * with contract values where they differ.
+ */
+export const DEFAULT_SURCHARGE_RULES: SurchargeRule[] = [
+  {
+    id: 'additional_handling_dimensions',
+    name: 'Additional Handling - Dimensions',
+    type: 'additional_handling',
+    conditions: { longestSideOver: 48, secondLongestSideOver: 30, lengthPlusGirthOver: 105 },
+    amount: 28.0
+  },
+  {
+    id: 'additional_handling_weight',
+    name: 'Additional Handling - Weight',
+    type: 'additional_handling',
+    conditions: { weightOver: 50 },
+    amount: 45.0
+  },
+  {
+    id: 'large_package',
+    name: 'Large Package',
+    type: 'large_package',
+    conditions: { longestSideOver: 96, lengthPlusGirthOver: 130 },
+    amount: 240.0,
+    minimumBillableWeight: 90,
+    supersedes: ['additional_handling_dimensions', 'additional_handling_weight']
+  },
+  {
+    id: 'over_maximum',
+    name: 'Over Maximum Limits',
+    type: 'over_maximum',
+    conditions: { longestSideOver: 108, lengthPlusGirthOver: 165, weightOver: 150 },
+    amount: 1325.0,
+    supersedes: ['additional_handling_dimensions', 'additional_handling_weight', 'large_package']
+  }
+];
+
+// ==========================================
+// EVALUATION
+// ==========================================
+
+/**
+ * Length plus girth in inches: longest side + 2 x (width + height)
+ */
+export function calculateLengthPlusGirth(dimensions: Dimensions): number {
+  const [longest, middle, shortest] = getSortedSides(dimensions);
+  return longest + 2 * (middle + shortest);
+}
+
+function getSortedSides(dimensions: Dimensions): [number, number, number] {
+  const inches = convertToInches(dimensions);
+  return [inches.length, inches.width, inches.height].sort((a, b) => b - a) as [number, number, number];
+}
+
+/**
+ * Evaluate surcharge rules for one parcel. Rules superseded by a more severe
+ * triggered rule are dropped, and the largest minimum billable weight is returned.
+ */
+export function evaluateSurcharges(
+  dimensions: Dimensions,
+  weight: number,
+  rules: SurchargeRule[] = DEFAULT_SURCHARGE_RULES,
+  carrier?: string
+): SurchargeEvaluation {
+  const [longest, middle, shortest] = getSortedSides(dimensions);
+  const lengthPlusGirth = longest + 2 * (middle + shortest);
+  const cubicInches = longest * middle * shortest;
+  const carrierKey = carrier?.toLowerCase();
+
+  const triggered: Array<{ rule: SurchargeRule; reason: string }> = [];
+  for (const rule of rules) {
+    if (rule.carrier && carrierKey && !carrierKey.startsWith(rule.carrier.toLowerCase())) continue;
+
+    const { conditions } = rule;
+    const reasons: string[] = [];
+    if (conditions.longestSideOver !== undefined && longest > conditions.longestSideOver) {
+      reasons.push(`longest side ${round(longest)}" > ${conditions.longestSideOver}"`);
+    }
+    if (conditions.secondLongestSideOver !== undefined && middle > conditions.secondLongestSideOver) {
+      reasons.push(`second-longest side ${round(middle)}" > ${conditions.secondLongestSideOver}"`);
+    }
+    if (conditions.lengthPlusGirthOver !== undefined && lengthPlusGirth > conditions.lengthPlusGirthOver) {
+      reasons.push(`length + girth ${round(lengthPlusGirth)}" > ${conditions.lengthPlusGirthOver}"`);
+    }
+    if (conditions.weightOver !== undefined && weight > conditions.weightOver) {
+      reasons.push(`weight ${round(weight)} lbs > ${conditions.weightOver} lbs`);
+    }
+    if (conditions.cubicInchesOver !== undefined && cubicInches > conditions.cubicInchesOver) {
+      reasons.push(`volume ${Math.round(cubicInches)} cu in > ${conditions.cubicInchesOver} cu in`);
+    }
+
+    if (reasons.length > 0) {
+      triggered.push({ rule, reason: reasons.join(', ') });
+    }
+  }
+
+  const superseded = new Set(triggered.flatMap(({ rule }) => rule.supersedes || []));
+  const applied = triggered.filter(({ rule }) => !superseded.has(rule.id));
+
+  return {
+    surcharges: applied.map(({ rule, reason }) => ({
+      ruleId: rule.id,
+      name: rule.name,
+      type: rule.type,
+      amount: rule.amount,
+      reason
+    })),
+    total: applied.reduce((sum, { rule }) => sum + rule.amount, 0),
+    minimumBillableWeight: applied.reduce((max, { rule }) => Math.max(max, rule.minimumBillableWeight || 0), 0)
+  };
+}
+
+// ==========================================
+// SUMMARIES
+// ==========================================
+
+/**
+ * Summarise accessorial surcharges per package: how many orders each box
+ * triggers a fee on and what those fees cost
+ */
+export function calculateSurchargeSummary(shipments: SurchargedShipment[]): PackageSurchargeSummary[] {
+  const summaries = new Map<string, PackageSurchargeSummary & { orderIds: Set<string> }>();
+  const countedOrders = new Set<string>(); // package|surcharge|order, so split shipments count once
+
+  for (const shipment of shipments) {
+    const parcels = shipment.parcels || [{
+      packageName: shipment.recommendedPackage,
+      surcharges: shipment.surcharges
+    }];
+
+    for (const parcel of parcels) {
+      let summary = summaries.get(parcel.packageName);
+      if (!summary) {
+        summary = {
+          packageName: parcel.packageName,
+          parcelsShipped: 0,
+          ordersWithSurcharges: 0,
+          surchargeCost: 0,
+          bySurcharge: {},
+          orderIds: new Set()
+        };
+        summaries.set(parcel.packageName, summary);
+      }
+      summary.parcelsShipped++;
+
+      const surcharges = parcel.surcharges || [];
+      if (surcharges.length === 0) continue;
+
+      summary.orderIds.add(shipment.orderId);
+      for (const surcharge of surcharges) {
+        const entry = summary.bySurcharge[surcharge.name] || { orders: 0, cost: 0 };
+        const orderKey = `${parcel.packageName}|${surcharge.name}|${shipment.orderId}`;
+        if (!countedOrders.has(orderKey)) {
+          countedOrders.add(orderKey);
+          entry.orders++;
+        }
+        entry.cost += surcharge.amount;
+        summary.bySurcharge[surcharge.name] = entry;
+        summary.surchargeCost += surcharge.amount;
+      }
+    }
+  }
+
+  return [...summaries.values()]
+    .filter(summary => summary.orderIds.size > 0)
+    .map(({ orderIds, ...summary }) => ({
+      ...summary,
+      ordersWithSurcharges: orderIds.size,
+      surchargeCost: Math.round(summary.surchargeCost * 100) / 100
+    }))
+    .sort((a, b) => b.surchargeCost - a.surchargeCost);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,177 @@
+/**
+ * Zone Resolver
+ *
+ * Assigns carrier zones to shipments from destination postal codes:
+ * - Zone charts per origin warehouse (destination ZIP3 prefix to zone)
+ * - ZIP3 ranges such as "004-005" as published in carrier zone charts
+ * - Origin selection by warehouse ZIP, falling back to the default origin
+ * - Zone distribution summaries for cost analysis
+ */
+
+import type { ZoneChartEntry } from '../data/csvParser';
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export interface ZoneChart {
+  name: string;
+  originZip: string;             // Origin warehouse ZIP (or ZIP3 prefix)
+  zones: Record<string, string>; // Destination ZIP3 prefix -> zone
+}
+
+export interface ZoneLookup {
+  destinationZip?: string;
+  originZip?: string;
+}
+
+// Order history columns (normalized to snake_case) holding postal codes
+export const DESTINATION_ZIP_COLUMNS = [
+  'zip', 'zip_code', 'zipcode', 'postal_code', 'postcode', 'destination_zip',
+  'dest_zip', 'ship_to_zip', 'shipping_zip', 'ship_to_postal_code'
+];
+export const ORIGIN_ZIP_COLUMNS = [
+  'origin_zip', 'ship_from_zip', 'warehouse_zip', 'origin_postal_code',
+  'fulfillment_center_zip', 'fc_zip'
+];
+
+// ==========================================
+// POSTAL CODE HELPERS
+// ==========================================
+
+/**
+ * Extract the three-digit ZIP prefix from a US postal code. Handles ZIP+4 and
+ * codes that lost their leading zeros in a spreadsheet (e.g. "2134" for "02134").
+ */
+export function getZip3(postalCode: string): string | null {
+  const digits = postalCode.trim().split('-')[0].replace(/\D/g, '');
+  if (digits.length === 0 || digits.length > 9) return null;
+
+  // 3-digit values are already prefixes; 4 digits is a 5-digit ZIP missing a leading zero
+  if (digits.length <= 3) return digits.padStart(3, '0');
+  if (digits.length === 4) return `0${digits}`.slice(0, 3);
+  if (digits.length === 5 || digits.length === 9) return digits.slice(0, 3);
+  return null;
+}
+
+/**
+ * Whether a value looks like a US postal code rather than a zone label
+ */
+export function isPostalCode(value: string): boolean {
+  return /^\d{5}(-?\d{4})?$/.test(value.trim());
+}
+
+/**
+ * Expand a destination prefix or range ("004", "004-005", "00400-00599") into ZIP3 prefixes
+ */
+function expandZip3Range(destination: string): string[] {
+  const [start, end] = destination.split(/\s*(?:-|to)\s*/i);
+  const first = getZip3(start || '');
+  const last = end ? getZip3(end) : first;
+  if (!first || !last) return [];
+
+  const prefixes: string[] = [];
+  for (let prefix = parseInt(first, 10); prefix <= parseInt(last, 10); prefix++) {
+    prefixes.push(String(prefix).padStart(3, '0'));
+  }
+  return prefixes;
+}
+
+// ==========================================
+// ZONE CHART CONSTRUCTION
+// ==========================================
+
+/**
+ * Build one zone chart per origin from parsed chart rows. Rows without an
+ * origin column use the supplied default origin.
+ */
+export function buildZoneCharts(
+  entries: ZoneChartEntry[],
+  defaultOrigin: { name: string; originZip: string }
+): ZoneChart[] {
+  const charts = new Map<string, ZoneChart>();
+
+  for (const entry of entries) {
+    const originZip = entry.originZip || defaultOrigin.originZip;
+    let chart = charts.get(originZip);
+    if (!chart) {
+      chart = {
+        name: entry.originZip && entry.originZip !== defaultOrigin.originZip
+          ? `${defaultOrigin.name} (${entry.originZip})`
+          : defaultOrigin.name,
+        originZip,
+        zones: {}
+      };
+      charts.set(originZip, chart);
+    }
+
+    const zone = entry.zone.trim().replace(/^zone[\s_-]*/i, '');
+    for (const prefix of expandZip3Range(entry.destination)) {
+      chart.zones[prefix] = zone;
+    }
+  }
+
+  return [...charts.values()].filter(chart => Object.keys(chart.zones).length > 0);
+}
+
+// ==========================================
+// ZONE RESOLUTION
+// ==========================================
+
+/**
+ * Pick the chart for an origin ZIP; the first chart is the default origin
+ */
+function selectChart(charts: ZoneChart[], originZip?: string): ZoneChart | undefined {
+  if (charts.length === 0) return undefined;
+  if (!originZip) return charts[0];
+
+  const origin = originZip.trim();
+  const originPrefix = getZip3(origin);
+  return charts.find(chart => chart.originZip === origin) ||
+    charts.find(chart => originPrefix !== null && getZip3(chart.originZip) === originPrefix) ||
+    charts[0];
+}
+
+/**
+ * Resolve the zone for a destination postal code, or undefined when no chart covers it
+ */
+export function resolveZone(charts: ZoneChart[], lookup: ZoneLookup): string | undefined {
+  if (!lookup.destinationZip) return undefined;
+
+  const zip3 = getZip3(lookup.destinationZip);
+  const chart = selectChart(charts, lookup.originZip);
+  if (!zip3 || !chart) return undefined;
+
+  return chart.zones[zip3];
+}
+
+/**
+ * Zone for an order row keyed by normalized column name. With charts, the
+ * destination ZIP (or a ZIP in the zone column) decides; otherwise, or when
+ * no chart covers it, the row's own zone is kept.
+ */
+export function resolveRowZone(charts: ZoneChart[], row: Record<string, string | undefined>): string | undefined {
+  const zone = row.zone?.trim() || undefined;
+  if (charts.length === 0) return zone;
+
+  const firstValue = (columns: string[]) => columns.map(column => row[column]?.trim()).find(Boolean);
+  const destinationZip = firstValue(DESTINATION_ZIP_COLUMNS) || (zone && isPostalCode(zone) ? zone : undefined);
+  return resolveZone(charts, { destinationZip, originZip: firstValue(ORIGIN_ZIP_COLUMNS) }) || zone;
+}
+
+/**
+ * Share of shipments per zone (percentages), with unresolved shipments under "unknown"
+ */
+export function getZoneDistribution(zones: Array<string | undefined>): Record<string, number> {
+  if (zones.length === 0) return {};
+
+  const counts: Record<string, number> = {};
+  for (const zone of zones) {
+    const key = zone || 'unknown';
+    counts[key] = (counts[key] || 0) + 1;
+  }
+
+  return Object.fromEntries(
+    Object.entries(counts).map(([zone, count]) => [zone, (count / zones.length) * 100])
+  );
+}
@@ -0,0 +1,129 @@
+/**
+ * Column Mapping Tests
+ *
+ * Test suite for column detection, transforms and saved mapping profiles
+ */
+
+import {
+  applyColumnMapping,
+  detectFieldMappings,
+  findMatchingProfile,
+  getHeaderSignature,
+  getMissingRequiredFields,
+  resolveProfileMappings,
+  type ColumnMappingProfile
+} from '../columnMapping';
+import { parseOrderData } from '../csvParser';
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const ERP_EXPORT = [
+  ['Order #', 'Brand', 'Model', 'Ship Ctn L (cm)', 'Ship Ctn W (cm)', 'Ship Ctn H (cm)', 'Gross Weight (kg)', 'Warehouse'],
+  ['SO-1001', 'Acme', 'Kettle', '30.48', '25.4', '12.7', '2', 'RNO'],
+  ['SO-1002', 'Acme', 'Toaster', '40', '20', '20', '3.5', 'RNO']
+];
+
+// ==========================================
+// DETECTION TESTS
+// ==========================================
+
+describe('Column Detection', () => {
+  test('matches alias tokens inside ERP headers and picks up their units', () => {
+    const mappings = detectFieldMappings(ERP_EXPORT[0], 'orders');
+    const byField = Object.fromEntries(mappings.map(mapping => [mapping.field, mapping]));
+
+    expect(byField.length).toEqual({ field: 'length', column: 'Ship Ctn L (cm)', transform: { unit: 'cm' } });
+    expect(byField.height.column).toBe('Ship Ctn H (cm)');
+    expect(byField.orderId.column).toBeUndefined();
+    expect(getMissingRequiredFields(mappings, 'orders').map(definition => definition.field)).toEqual(['orderId']);
+  });
+
+  test('exact aliases win over token matches', () => {
+    const mappings = detectFieldMappings(['Customer Name', 'Product Name', 'SKU'], 'orders');
+    const byField = Object.fromEntries(mappings.map(mapping => [mapping.field, mapping.column]));
+
+    expect(byField.productName).toBe('Product Name');
+    expect(byField.customerName).toBeUndefined();
+    expect(byField.sku).toBe('SKU');
+  });
+});
+
+// ==========================================
+// TRANSFORM TESTS
+// ==========================================
+
+describe('Column Mapping', () => {
+  test('rewrites headers, converts units and concatenates columns', () => {
+    const mappings = [
+      ...detectFieldMappings(ERP_EXPORT[0], 'orders').filter(mapping => mapping.column),
+      { field: 'orderId', column: 'Order #' },
+      { field: 'productName', column: 'Brand', transform: { concatColumns: ['Model'] } },
+      { field: 'quantity', column: 'Warehouse', transform: { multiplier: 2 } }
+    ];
+    const [headers, first] = applyColumnMapping(ERP_EXPORT, mappings, 'orders');
+
+    expect(headers).toEqual(['order_id', 'product_name', 'quantity', 'length', 'width', 'height', 'weight']);
+    expect(first.slice(0, 3)).toEqual(['SO-1001', 'Acme Kettle', 'RNO']);
+    expect(first.slice(3).map(Number).map(value => Math.round(value * 100) / 100)).toEqual([12, 10, 5, 4.41]);
+  });
+
+  test('passes unmapped columns through unchanged', () => {
+    const [headers, first] = applyColumnMapping(ERP_EXPORT, [{ field: 'orderId', column: 'Order #' }], 'orders');
+
+    expect(headers).toEqual(['order_id', ...ERP_EXPORT[0].slice(1)]);
+    expect(first).toEqual(ERP_EXPORT[1]);
+  });
+
+  test('mapped rows feed the existing order parser', () => {
+    const mappings = [
+      ...detectFieldMappings(ERP_EXPORT[0], 'orders').filter(mapping => mapping.column),
+      { field: 'orderId', column: 'Order #' },
+      { field: 'productName', column: 'Model' }
+    ];
+    const parsed = parseOrderData(applyColumnMapping(ERP_EXPORT, mappings, 'orders'));
+
+    expect(parsed.data.map(order => order.orderId)).toEqual(['SO-1001', 'SO-1002']);
+    expect(parsed.data[0].items[0].dimensions.unit).toBe('in');
+    expect(parsed.data[0].items[0].dimensions.length).toBeCloseTo(12, 3);
+    expect(parsed.data[1].items[0].weight).toBeCloseTo(7.716, 2);
+  });
+});
+
+// ==========================================
+// PROFILE TESTS
+// ==========================================
+
+describe('Mapping Profiles', () => {
+  const profile: ColumnMappingProfile = {
+    name: 'ERP cartons',
+    schema: 'orders',
+    headerSignature: getHeaderSignature(ERP_EXPORT[0]),
+    mappings: [
+      { field: 'orderId', column: 'Order #' },
+      { field: 'length', column: 'Ship Ctn L (cm)', transform: { unit: 'cm' } }
+    ]
+  };
+
+  test('matches the same headers regardless of order and case', () => {
+    const reordered = [...ERP_EXPORT[0]].reverse().map(header => header.toUpperCase());
+
+    expect(findMatchingProfile(reordered, 'orders', [profile])).toBe(profile);
+    expect(findMatchingProfile(reordered, 'catalog', [profile])).toBeUndefined();
+    expect(findMatchingProfile(['Order #'], 'orders', [profile])).toBeUndefined();
+  });
+
+  test('resolves profile columns to the uploaded header text', () => {
+    const headers = ERP_EXPORT[0].map(header => header.toUpperCase());
+    const mappings = resolveProfileMappings(profile, headers, 'orders');
+
+    expect(mappings.find(mapping => mapping.field === 'orderId')?.column).toBe('ORDER #');
+    expect(mappings.find(mapping => mapping.field === 'length')).toEqual({
+      field: 'length',
+      column: 'SHIP CTN L (CM)',
+      transform: { unit: 'cm' }
+    });
+    expect(mappings.find(mapping => mapping.field === 'width')).toEqual({ field: 'width' });
+  });
+});
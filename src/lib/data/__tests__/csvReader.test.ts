@@ -0,0 +1,84 @@
+/**
+ * CSV Reader Tests
+ *
+ * Test suite for the shared RFC 4180 streaming CSV reader
+ */
+
+import { CSVStreamParser, detectDelimiter, parseCSVRows, parseCSVStream } from '../csvReader';
+import { parseCSVContent } from '../csvParser';
+
+// ==========================================
+// TOKENIZER TESTS
+// ==========================================
+
+describe('CSV Reader', () => {
+  test('handles quoted delimiters, doubled quotes and embedded newlines', () => {
+    const csv = 'sku,name,notes\r\nA-1,"Mug, ceramic","Says ""hello"""\r\nA-2,"Poster\r\nrolled",\r\n';
+
+    expect(parseCSVRows(csv)).toEqual([
+      ['sku', 'name', 'notes'],
+      ['A-1', 'Mug, ceramic', 'Says "hello"'],
+      ['A-2', 'Poster\r\nrolled', '']
+    ]);
+  });
+
+  test('strips the byte order mark and keeps inch marks inside unquoted fields', () => {
+    const rows = parseCSVRows('\uFEFFname,size\n12" tube,12\n');
+
+    expect(rows[0][0]).toBe('name');
+    expect(rows[1]).toEqual(['12" tube', '12']);
+  });
+
+  test('sniffs tab, semicolon and pipe delimiters', () => {
+    expect(detectDelimiter('a\tb\tc\n1\t2\t3')).toBe('\t');
+    expect(detectDelimiter('name;price\n"1,5 kg";3,20')).toBe(';');
+    expect(detectDelimiter('a|b\n1|2')).toBe('|');
+    expect(parseCSVRows('sku;qty\nA;2')).toEqual([['sku', 'qty'], ['A', '2']]);
+  });
+
+  test('produces the same rows however the input is chunked', () => {
+    const csv = 'id,"desc"\n1,"a ""b"" c"\r\n2,"x\ny"\n';
+    const parser = new CSVStreamParser({ delimiter: ',' });
+    const rows: string[][] = [];
+
+    for (const char of csv) rows.push(...parser.write(char));
+    rows.push(...parser.end());
+
+    expect(rows).toEqual(parseCSVRows(csv));
+  });
+
+  test('streams large files in row chunks without truncation', async () => {
+    const lines = ['order_id,quantity'];
+    for (let i = 0; i < 25000; i++) lines.push(`ORD-${i},${i % 7}`);
+
+    const chunkSizes: number[] = [];
+    const summary = await parseCSVStream(lines.join('\n'), {
+      chunkSize: 10000,
+      onRows: rows => { chunkSizes.push(rows.length); }
+    });
+
+    expect(summary.rowCount).toBe(25001);
+    expect(summary.truncated).toBe(false);
+    expect(chunkSizes).toEqual([10000, 10000, 5001]);
+    expect(parseCSVContent(lines.join('\n'))).toHaveLength(25001);
+  });
+
+  test('keeps whitespace inside quoted fields when trimming', () => {
+    expect(parseCSVRows('code, name ,notes\n" A1 ", "  padded" ,plain  \n')).toEqual([
+      ['code', 'name', 'notes'],
+      [' A1 ', '  padded', 'plain']
+    ]);
+  });
+
+  test('stops at maxRows', () => {
+    expect(parseCSVRows('a\n1\n2\n3', { maxRows: 2 })).toEqual([['a'], ['1']]);
+  });
+
+  test('only reports truncation when rows follow maxRows', async () => {
+    const summarize = (csv: string) => parseCSVStream(csv, { maxRows: 3, onRows: () => {} });
+
+    expect((await summarize('a\n1\n2\n')).truncated).toBe(false);
+    expect((await summarize('a\n1\n2\n\n\n')).truncated).toBe(false);
+    expect((await summarize('a\n1\n2\n3')).truncated).toBe(true);
+  });
+});
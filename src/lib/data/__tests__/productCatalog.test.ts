@@ -0,0 +1,81 @@
+/**
+ * Product Catalog Tests
+ *
+ * Test suite for catalog parsing and joining orders to the catalog by SKU
+ */
+
+import { applyCatalogToOrderRows, buildCatalogIndex, fillFromCatalog, type CatalogProduct } from '../productCatalog';
+import { parseOrderData, parseProductCatalogData } from '../csvParser';
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const CATALOG: CatalogProduct[] = [
+  { sku: 'MUG-01', length: 4, width: 4, height: 5, weight: 0.8, fragile: true, source: 'ai', confidence: 'low' },
+  { sku: 'LAMP-02', length: 12, width: 8, height: 8 }
+];
+
+// ==========================================
+// PARSER TESTS
+// ==========================================
+
+describe('Catalog Parsing', () => {
+  test('normalises units and reads fragility', () => {
+    const parsed = parseProductCatalogData([
+      ['SKU', 'Name', 'Length (cm)', 'Width (cm)', 'Height (cm)', 'Weight (oz)', 'Fragile'],
+      ['MUG-01', 'Mug', '10.16', '10.16', '12.7', '16', 'yes'],
+      ['PLATE-03', '', '25.4', '25.4', '2.54', '', '']
+    ]);
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.data[0].dimensions?.length).toBeCloseTo(4, 3);
+    expect(parsed.data[0].weight).toBe(1);
+    expect(parsed.data[0].fragile).toBe(true);
+    expect(parsed.data[1].name).toBe('PLATE-03');
+    expect(parsed.data[1].weight).toBeUndefined();
+  });
+
+  test('rejects rows without usable dimensions', () => {
+    const parsed = parseProductCatalogData('sku,length,width,height\nA,1,2,\nB,1,2,3');
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.errors[0].row).toBe(2);
+    expect(parsed.data.map(entry => entry.sku)).toEqual(['B']);
+  });
+});
+
+// ==========================================
+// JOIN TESTS
+// ==========================================
+
+describe('Catalog Join', () => {
+  test('fills missing order dimensions by SKU and keeps values from the file', () => {
+    const joined = applyCatalogToOrderRows([
+      ['order_id', 'sku', 'quantity', 'length', 'width', 'height'],
+      ['A-1', ' mug-01 ', '2', '', '', ''],
+      ['A-2', 'LAMP-02', '1', '10', '6', '6'],
+      ['A-3', 'CHAIR-09', '1', '', '', '']
+    ], CATALOG);
+
+    expect(joined.rows[0]).toEqual(['order_id', 'sku', 'quantity', 'length', 'width', 'height', 'weight']);
+    expect(joined.rows[1].slice(3)).toEqual(['4', '4', '5', '0.8']);
+    expect(joined.rows[2].slice(3, 6)).toEqual(['10', '6', '6']);
+    expect(joined.filledRows).toBe(1);
+    expect(joined.estimatedRows).toBe(1);
+    expect(joined.matchedRows).toBe(2);
+    expect(joined.unmatchedSkus).toEqual(['CHAIR-09']);
+
+    const parsed = parseOrderData(joined.rows);
+    expect(parsed.data[0].items[0].dimensions.height).toBe(5);
+  });
+
+  test('fills packaging records named by SKU', () => {
+    const index = buildCatalogIndex(CATALOG);
+    const { record, filled } = fillFromCatalog({ name: 'LAMP-02', length: 0, width: 0, height: 0, weight: 2 }, 'lamp-02', index);
+
+    expect(filled).toBe(true);
+    expect(record).toEqual({ name: 'LAMP-02', length: 12, width: 8, height: 8, weight: 2 });
+    expect(fillFromCatalog(record, 'LAMP-02', index).filled).toBe(false);
+  });
+});
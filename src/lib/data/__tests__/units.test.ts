@@ -0,0 +1,104 @@
+/**
+ * Import Unit Tests
+ *
+ * Test suite for unit detection, mixed-unit normalisation and magnitude checks
+ */
+
+import { checkUnitMagnitudes, detectHeaderUnit, parseLengthUnit, stripUnitSuffix } from '../units';
+import { parseOrderData } from '../csvParser';
+import { applyColumnMapping, detectFieldMappings } from '../columnMapping';
+
+// ==========================================
+// DETECTION TESTS
+// ==========================================
+
+describe('Unit Detection', () => {
+  test('reads units from header suffixes but not from the field name', () => {
+    expect(detectHeaderUnit('length_cm', 'length')).toBe('cm');
+    expect(detectHeaderUnit('Weight (oz)', 'weight')).toBe('oz');
+    expect(detectHeaderUnit('in_stock', 'length')).toBeUndefined();
+    expect(stripUnitSuffix('Weight (oz)')).toBe('weight');
+    expect(stripUnitSuffix('Length In')).toBe('length');
+  });
+
+  test('parses unit cells in any common spelling', () => {
+    expect(parseLengthUnit('Inches')).toBe('in');
+    expect(parseLengthUnit(' MM ')).toBe('mm');
+    expect(parseLengthUnit('cubits')).toBeUndefined();
+  });
+
+  test('suggests the unit a suspicious value was probably measured in', () => {
+    const [issue] = checkUnitMagnitudes({ length: 300, width: 150, height: 20 }, 1);
+
+    expect(issue.message).toContain('300 in');
+    expect(issue.suggestedFix).toContain('cm or mm');
+    expect(checkUnitMagnitudes({ length: 12, width: 8, height: 4 }, 2)).toHaveLength(0);
+    expect(checkUnitMagnitudes(null, 320)[0].suggestedFix).toContain('oz or g');
+  });
+});
+
+// ==========================================
+// ORDER PARSER TESTS
+// ==========================================
+
+describe('Mixed-Unit Order Imports', () => {
+  test('normalises header suffix units to inches and pounds', () => {
+    const parsed = parseOrderData([
+      ['order_id', 'sku', 'length_cm', 'width_cm', 'height_cm', 'weight_oz'],
+      ['A-1', 'MUG', '25.4', '12.7', '5.08', '32']
+    ]);
+    const [item] = parsed.data[0].items;
+
+    expect(item.dimensions.unit).toBe('in');
+    expect(item.dimensions.length).toBeCloseTo(10, 3);
+    expect(item.dimensions.height).toBeCloseTo(2, 3);
+    expect(item.weight).toBe(2);
+  });
+
+  test('per-row unit columns override header suffixes', () => {
+    const parsed = parseOrderData([
+      ['order_id', 'sku', 'length_in', 'width_in', 'height_in', 'unit', 'weight', 'weight_unit'],
+      ['A-1', 'MUG', '12', '8', '4', 'in', '2', 'lb'],
+      ['A-2', 'LAMP', '300', '200', '100', 'mm', '500', 'g']
+    ]);
+    const lamp = parsed.data[1].items[0];
+
+    expect(parsed.data[0].items[0].dimensions.length).toBe(12);
+    expect(lamp.dimensions.length).toBeCloseTo(11.811, 2);
+    expect(lamp.weight).toBeCloseTo(1.102, 2);
+    expect(parsed.errors).toHaveLength(0);
+  });
+
+  test('flags rows whose magnitudes suggest a unit mistake', () => {
+    const parsed = parseOrderData([
+      ['order_id', 'sku', 'length', 'width', 'height', 'weight'],
+      ['A-1', 'CASE', '12', '8', '4', '1'],
+      ['A-2', 'PHONE-CASE', '300', '150', '20', '0.5']
+    ]);
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.errors).toHaveLength(1);
+    expect(parsed.errors[0].row).toBe(3);
+    expect(parsed.errors[0].severity).toBe('warning');
+    expect(parsed.errors[0].suggestedFix).toContain('mm');
+  });
+
+  test('column mapper converts with the row unit and does not convert twice', () => {
+    const rows = [
+      ['Order', 'Item', 'L', 'W', 'H', 'UOM'],
+      ['A-1', 'MUG', '25.4', '12.7', '5.08', 'cm']
+    ];
+    const mappings = [
+      ...detectFieldMappings(rows[0], 'orders').filter(mapping => mapping.column),
+      { field: 'orderId', column: 'Order' },
+      { field: 'sku', column: 'Item' },
+      { field: 'length', column: 'L' },
+      { field: 'width', column: 'W' },
+      { field: 'height', column: 'H' }
+    ];
+    const mapped = applyColumnMapping(rows, mappings, 'orders');
+
+    expect(mapped[1][mapped[0].indexOf('dimension_unit')]).toBe('in');
+    expect(parseOrderData(mapped).data[0].items[0].dimensions.length).toBeCloseTo(10, 3);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Workbook Reader Tests
+ *
+ * Test suite for .xlsx parsing, typed cells and sheet selection
+ */
+
+import { formatCellValue, readWorkbook, rowsToCSV, worksheetToRows } from '../xlsxReader';
+import { parseCSVRows } from '../csvReader';
+import { parseOrderData } from '../csvParser';
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+/**
+ * Build an uncompressed (stored) ZIP archive from text entries
+ */
+function createZip(files: Record<string, string>): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centralParts.length, true);
+  endView.setUint16(10, centralParts.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const archive = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive.buffer;
+}
+
+const WORKBOOK = createZip({
+  'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets>
+    <sheet name="Notes" sheetId="1" r:id="rId1"/>
+    <sheet name="Orders &amp; Returns" sheetId="2" r:id="rId2"/>
+  </sheets>
+</workbook>`,
+  'xl/_rels/workbook.xml.rels': `<Relationships>
+  <Relationship Id="rId1" Target="worksheets/sheet1.xml"/>
+  <Relationship Id="rId2" Target="worksheets/sheet2.xml"/>
+</Relationships>`,
+  'xl/sharedStrings.xml': `<sst>
+  <si><t>order_id</t></si>
+  <si><t>length</t></si>
+  <si><t>width</t></si>
+  <si><t>height</t></si>
+  <si><t>order_date</t></si>
+  <si><r><t>ORD</t></r><r><t>-1</t></r></si>
+  <si><t>sku</t></si>
+</sst>`,
+  'xl/styles.xml': `<styleSheet>
+  <numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy\\-mm\\-dd"/></numFmts>
+  <cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="2"/></cellXfs>
+</styleSheet>`,
+  'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Exported from WMS</t></is></c></row></sheetData></worksheet>',
+  'xl/worksheets/sheet2.xml': `<worksheet><sheetData>
+  <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c><c r="D1" t="s"><v>3</v></c><c r="E1" t="s"><v>4</v></c><c r="F1" t="s"><v>6</v></c></row>
+  <row r="3"><c r="A3" t="s"><v>5</v></c><c r="B3" s="2"><v>12.300000000000001</v></c><c r="C3"><v>8</v></c><c r="D3"><v>4</v></c><c r="E3" s="1"><v>45292</v></c><c r="F3" t="inlineStr"><is><t>MUG-01</t></is></c></row>
+  <row r="4"><c r="A4" t="str"><v>ORD-2</v></c><c r="C4"><v>6</v></c><c r="D4"><v>2</v></c><c r="E4" t="e"><v>#N/A</v></c><c r="B4"><v>10</v></c><c r="F4" t="inlineStr"><is><t>MUG-02</t></is></c></row>
+</sheetData></worksheet>`
+});
+
+// ==========================================
+// WORKBOOK TESTS
+// ==========================================
+
+describe('Workbook Reader', () => {
+  test('lists sheets in workbook order with decoded names', async () => {
+    const workbook = await readWorkbook(WORKBOOK);
+
+    expect(workbook.sheets.map(sheet => sheet.name)).toEqual(['Notes', 'Orders & Returns']);
+    expect(workbook.date1904).toBe(false);
+  });
+
+  test('reads typed cells, date formats and sparse rows', async () => {
+    const [, orders] = (await readWorkbook(WORKBOOK)).sheets;
+
+    expect(orders.rows[1]).toEqual([]);
+    expect(orders.rows[2][0]).toBe('ORD-1');
+    expect(orders.rows[2][2]).toBe(8);
+    expect(orders.rows[2][4]).toEqual(new Date(Date.UTC(2024, 0, 1)));
+    expect(orders.rows[3][4]).toBeNull();
+  });
+
+  test('formats cells for the column-mapping path', () => {
+    expect(formatCellValue(12.300000000000001)).toBe('12.3');
+    expect(formatCellValue(new Date(Date.UTC(2024, 0, 1)))).toBe('2024-01-01');
+    expect(formatCellValue(new Date(Date.UTC(2024, 0, 1, 9, 30)))).toBe('2024-01-01T09:30:00');
+    expect(formatCellValue(true)).toBe('TRUE');
+    expect(formatCellValue(null)).toBe('');
+  });
+
+  test('selected sheet feeds the same parser as CSV uploads', async () => {
+    const [, orders] = (await readWorkbook(WORKBOOK)).sheets;
+    const rows = worksheetToRows(orders);
+
+    expect(rows).toHaveLength(3);
+    expect(parseCSVRows(rowsToCSV(rows))).toEqual(rows);
+
+    const parsed = parseOrderData(rows);
+    expect(parsed.data.map(order => order.orderId)).toEqual(['ORD-1', 'ORD-2']);
+    expect(parsed.data[0].date.toISOString().slice(0, 10)).toBe('2024-01-01');
+    expect(parsed.data[0].items[0].dimensions.length).toBe(12.3);
+    expect(parsed.data[1].items[0].dimensions.length).toBe(10);
+  });
+
+  test('rejects files that are not workbooks', async () => {
+    await expect(readWorkbook(new TextEncoder().encode('order_id\n1').buffer)).rejects.toThrow('not an Excel workbook');
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * Column Mapping Module
+ *
+ * Maps arbitrary upload headers onto the columns each tool expects:
+ * - Detection from the alias lists in csvParser plus header-token matching
+ *   (e.g. "Ship Ctn L (cm)" -> length in centimetres)
+ * - Per-field transforms: source unit, multiplier and column concatenation
+ * - Saved profiles keyed by header signature so a repeat export maps itself
+ *
+ * Mapped rows are written back with canonical headers, so the existing
+ * parsers and Convex actions read them without further changes.
+ */
+
+import {
+  convertDimension,
+  convertToPounds,
+  UNIT_TO_INCHES,
+  WEIGHT_UNIT_TO_POUNDS,
+  type LengthUnit,
+  type WeightUnit
+} from '../calculations/cuin';
+import { ORDER_DATA_COLUMNS, PRODUCT_CATALOG_COLUMNS, USAGE_LOG_COLUMNS } from './csvParser';
+import { detectHeaderUnit, parseLengthUnit, parseWeightUnit } from './units';
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export type MappingSchemaId = 'orders' | 'usage_log' | 'catalog';
+
+export type MappingFieldKind = 'text' | 'number' | 'length' | 'weight' | 'date' | 'length_unit' | 'weight_unit';
+
+export interface MappingFieldDefinition {
+  field: string;
+  label: string;
+  header: string;    // Canonical header written to mapped rows
+  aliases: string[];
+  kind: MappingFieldKind;
+  required?: boolean;
+}
+
+export interface ColumnTransform {
+  unit?: LengthUnit | WeightUnit; // Source unit; lengths become inches, weights pounds
+  multiplier?: number;            // Applied after unit conversion
+  concatColumns?: string[];       // Extra source columns appended to text fields
+  separator?: string;             // Default ' '
+}
+
+export interface FieldMapping {
+  field: string;
+  column?: string; // Source header; unmapped when omitted
+  transform?: ColumnTransform;
+}
+
+export interface ColumnMappingProfile {
+  name: string;
+  schema: MappingSchemaId;
+  headerSignature: string;
+  mappings: FieldMapping[];
+  updatedAt?: number;
+}
+
+// ==========================================
+// SCHEMAS
+// ==========================================
+
+type FieldDetails = Record<string, { label: string; kind?: MappingFieldKind; required?: boolean }>;
+
+function defineFields(columns: Record<string, string[]>, details: FieldDetails): MappingFieldDefinition[] {
+  return Object.entries(details).map(([field, detail]) => {
+    const aliases = columns[field] || [];
+    return {
+      field,
+      label: detail.label,
+      header: aliases[0] || field,
+      aliases,
+      kind: detail.kind || 'text',
+      required: detail.required
+    };
+  });
+}
+
+export const MAPPING_SCHEMAS: Record<MappingSchemaId, MappingFieldDefinition[]> = {
+  orders: defineFields(
+    {
+      ...ORDER_DATA_COLUMNS,
+      volume: ['total_order_volume', 'total_cuin', 'cuin', 'volume', 'total_volume', 'cubic_inches']
+    },
+    {
+      orderId: { label: 'Order ID', required: true },
+      date: { label: 'Order date', kind: 'date' },
+      sku: { label: 'SKU' },
+      productName: { label: 'Product name' },
+      quantity: { label: 'Quantity', kind: 'number' },
+      length: { label: 'Length', kind: 'length' },
+      width: { label: 'Width', kind: 'length' },
+      height: { label: 'Height', kind: 'length' },
+      volume: { label: 'Volume (cu in)', kind: 'number' },
+      weight: { label: 'Weight', kind: 'weight' },
+      dimensionUnit: { label: 'Dimension unit', kind: 'length_unit' },
+      weightUnit: { label: 'Weight unit', kind: 'weight_unit' },
+      category: { label: 'Category' },
+      shippingZone: { label: 'Shipping zone' },
+      destinationZip: { label: 'Destination ZIP' },
+      priority: { label: 'Priority' }
+    }
+  ),
+  usage_log: defineFields(USAGE_LOG_COLUMNS, {
+    date: { label: 'Date', kind: 'date' },
+    packageType: { label: 'Package type', required: true },
+    quantity: { label: 'Quantity used', kind: 'number', required: true },
+    totalOrders: { label: 'Total orders', kind: 'number' },
+    percentage: { label: 'Usage %', kind: 'number' },
+    cost: { label: 'Unit cost', kind: 'number' }
+  }),
+  catalog: defineFields(PRODUCT_CATALOG_COLUMNS, {
+    sku: { label: 'SKU' },
+    name: { label: 'Product name', required: true },
+    description: { label: 'Description' },
+    category: { label: 'Category' },
+    length: { label: 'Length', kind: 'length' },
+    width: { label: 'Width', kind: 'length' },
+    height: { label: 'Height', kind: 'length' },
+    weight: { label: 'Weight', kind: 'weight' },
+    tags: { label: 'Tags' }
+  })
+};
+
+// ==========================================
+// DETECTION
+// ==========================================
+
+/**
+ * Normalise a header for matching: "Ship Ctn L (cm)" -> "ship_ctn_l_cm"
+ */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().trim().replace(/[^a-z0-9%]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Order-independent fingerprint of a header row, used to recognise repeat exports
+ */
+export function getHeaderSignature(headers: string[]): string {
+  const normalized = headers.map(normalizeHeader).filter(header => header !== '');
+  return [...new Set(normalized)].sort().join('|');
+}
+
+/**
+ * Suggest a mapping for every schema field. Exact alias matches win; remaining
+ * fields then match headers containing an alias as a whole token.
+ */
+export function detectFieldMappings(headers: string[], schema: MappingSchemaId): FieldMapping[] {
+  const fields = MAPPING_SCHEMAS[schema];
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const columns: Record<string, number> = {};
+
+  const assign = (matches: (header: string, alias: string) => boolean) => {
+    for (const definition of fields) {
+      if (columns[definition.field] !== undefined) continue;
+      const index = normalized.findIndex((header, i) =>
+        !used.has(i) && header !== '' && definition.aliases.some(alias => matches(header, alias))
+      );
+      if (index !== -1) {
+        columns[definition.field] = index;
+        used.add(index);
+      }
+    }
+  };
+
+  assign((header, alias) => header === alias);
+  assign((header, alias) => `_${header}_`.includes(`_${alias}_`));
+
+  return fields.map(definition => {
+    const index = columns[definition.field];
+    if (index === undefined) return { field: definition.field };
+
+    const unit = definition.kind === 'length' || definition.kind === 'weight'
+      ? detectHeaderUnit(headers[index], definition.kind)
+      : undefined;
+    return {
+      field: definition.field,
+      column: headers[index],
+      ...(unit ? { transform: { unit } } : {})
+    };
+  });
+}
+
+/**
+ * Most recently updated profile saved for this schema and header signature
+ */
+export function findMatchingProfile<T extends ColumnMappingProfile>(
+  headers: string[],
+  schema: MappingSchemaId,
+  profiles: T[]
+): T | undefined {
+  const signature = getHeaderSignature(headers);
+  return profiles
+    .filter(profile => profile.schema === schema && profile.headerSignature === signature)
+    .sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0))[0];
+}
+
+/**
+ * Profile mappings in schema order, with columns resolved to this upload's
+ * header text (signatures ignore case and punctuation)
+ */
+export function resolveProfileMappings(
+  profile: ColumnMappingProfile,
+  headers: string[],
+  schema: MappingSchemaId
+): FieldMapping[] {
+  const byNormalized = new Map(headers.map(header => [normalizeHeader(header), header]));
+  const resolve = (column: string) => byNormalized.get(normalizeHeader(column));
+
+  return MAPPING_SCHEMAS[schema].map(definition => {
+    const mapping = profile.mappings.find(candidate => candidate.field === definition.field);
+    const column = mapping?.column ? resolve(mapping.column) : undefined;
+    if (!mapping || !column) return { field: definition.field };
+
+    const concatColumns = mapping.transform?.concatColumns
+      ?.map(resolve)
+      .filter((header): header is string => header !== undefined);
+    return {
+      field: definition.field,
+      column,
+      ...(mapping.transform ? { transform: { ...mapping.transform, ...(concatColumns ? { concatColumns } : {}) } } : {})
+    };
+  });
+}
+
+/**
+ * Required schema fields that have no source column
+ */
+export function getMissingRequiredFields(mappings: FieldMapping[], schema: MappingSchemaId): MappingFieldDefinition[] {
+  return MAPPING_SCHEMAS[schema].filter(definition =>
+    definition.required && !mappings.find(mapping => mapping.field === definition.field)?.column
+  );
+}
+
+// ==========================================
+// APPLICATION
+// ==========================================
+
+/**
+ * Rewrite rows (header first) with canonical headers and transformed values.
+ * Mapped fields come first in schema order; source columns that no mapping
+ * reads are passed through unchanged after them. A mapped unit column names
+ * the source unit per row and is rewritten to "in"/"lb" once converted.
+ */
+export function applyColumnMapping(
+  rows: string[][],
+  mappings: FieldMapping[],
+  schema: MappingSchemaId
+): string[][] {
+  if (rows.length === 0) return [];
+
+  const [headers, ...dataRows] = rows;
+  const columnIndex = new Map<string, number>();
+  headers.forEach((header, index) => {
+    if (!columnIndex.has(header)) columnIndex.set(header, index);
+  });
+
+  const definitions = new Map(MAPPING_SCHEMAS[schema].map(definition => [definition.field, definition]));
+  const active = MAPPING_SCHEMAS[schema]
+    .map(definition => mappings.find(mapping => mapping.field === definition.field))
+    .filter((mapping): mapping is FieldMapping =>
+      mapping?.column !== undefined && columnIndex.has(mapping.column)
+    );
+
+  const consumed = new Set<number>();
+  for (const mapping of active) {
+    consumed.add(columnIndex.get(mapping.column!)!);
+    for (const column of mapping.transform?.concatColumns || []) {
+      const index = columnIndex.get(column);
+      if (index !== undefined) consumed.add(index);
+    }
+  }
+
+  const canonicalHeaders = new Set(active.map(mapping => normalizeHeader(definitions.get(mapping.field)!.header)));
+  const passThrough = headers
+    .map((header, index) => index)
+    .filter(index => !consumed.has(index) && !canonicalHeaders.has(normalizeHeader(headers[index])));
+
+  const outputHeaders = [
+    ...active.map(mapping => definitions.get(mapping.field)!.header),
+    ...passThrough.map(index => headers[index])
+  ];
+
+  const unitCell = (kind: MappingFieldKind, row: string[]) => {
+    const mapping = active.find(candidate => definitions.get(candidate.field)!.kind === kind);
+    return mapping ? row[columnIndex.get(mapping.column!)!] : undefined;
+  };
+
+  return [
+    outputHeaders,
+    ...dataRows.map(row => {
+      const rowUnits = {
+        length: parseLengthUnit(unitCell('length_unit', row)),
+        weight: parseWeightUnit(unitCell('weight_unit', row))
+      };
+      return [
+        ...active.map(mapping => transformValue(row, mapping, definitions.get(mapping.field)!, columnIndex, rowUnits)),
+        ...passThrough.map(index => row[index] ?? '')
+      ];
+    })
+  ];
+}
+
+function transformValue(
+  row: string[],
+  mapping: FieldMapping,
+  definition: MappingFieldDefinition,
+  columnIndex: Map<string, number>,
+  rowUnits: { length?: LengthUnit; weight?: WeightUnit }
+): string {
+  const value = row[columnIndex.get(mapping.column!)!] ?? '';
+  const transform = mapping.transform || {};
+
+  // Values below are converted to inches and pounds, so recognised unit cells follow
+  if (definition.kind === 'length_unit') return parseLengthUnit(value) ? 'in' : value;
+  if (definition.kind === 'weight_unit') return parseWeightUnit(value) ? 'lb' : value;
+
+  if (definition.kind === 'text' || definition.kind === 'date') {
+    const extra = (transform.concatColumns || []).map(column => {
+      const index = columnIndex.get(column);
+      return index === undefined ? '' : row[index] ?? '';
+    });
+    return [value, ...extra].filter(part => part.trim() !== '').join(transform.separator ?? ' ');
+  }
+
+  const number = parseFloat(value.replace(/,/g, ''));
+  if (isNaN(number)) return value;
+
+  let converted = number;
+  if (definition.kind === 'length') {
+    const unit = rowUnits.length || (transform.unit && transform.unit in UNIT_TO_INCHES ? transform.unit as LengthUnit : undefined);
+    if (unit) converted = convertDimension(number, unit, 'in');
+  } else if (definition.kind === 'weight') {
+    const unit = rowUnits.weight || (transform.unit && transform.unit in WEIGHT_UNIT_TO_POUNDS ? transform.unit as WeightUnit : undefined);
+    if (unit) converted = convertToPounds(number, unit);
+  }
+  if (transform.multiplier !== undefined) converted *= transform.multiplier;
+
+  return String(Number(converted.toPrecision(10)));
+}
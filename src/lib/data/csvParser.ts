@@ -6,9 +6,21 @@
  * - Usage logs (Demand Planner)
  * - Product catalogs (Spec Generator)
  * - Package specifications
+ * - Carrier rate cards and zone charts
  */
 
-import { calculateCUIN, type Dimensions, type LengthUnit } from '../calculations/cuin';
+import {
+  calculateCUIN,
+  convertDimension,
+  convertToInches,
+  convertToPounds,
+  type Dimensions,
+  type LengthUnit,
+  type WeightUnit
+} from '../calculations/cuin';
+import { isPostalCode, resolveZone, type ZoneChart } from '../calculations/zoneResolver';
+import { parseCSVRows } from './csvReader';
+import { checkUnitMagnitudes, detectHeaderUnit, parseLengthUnit, parseWeightUnit, stripUnitSuffix } from './units';
 
 // ==========================================
 // TYPES AND INTERFACES
@@ -34,6 +46,8 @@ export interface OrderItem {
   value?: number;
   fragile?: boolean;
   shippingZone?: string;
+  destinationZip?: string;
+  originZip?: string;
   priority?: string;
 }
 
@@ -78,10 +92,29 @@ export interface ProductCatalogEntry {
   category: string;
   dimensions?: Dimensions;
   weight?: number;
+  fragile?: boolean;
   estimatedDimensions?: boolean;
   tags?: string[];
 }
 
+export interface RateCardEntry {
+  carrier?: string;
+  service: string;
+  zone: string;
+  weight: number;          // Weight break in lbs (price applies up to this weight)
+  price: number;
+  dimDivisor?: number;
+  minimumWeight?: number;
+  rounding?: string;
+  fuelSurcharge?: number;  // Percentage or fraction, e.g. 14.5 or 0.145
+}
+
+export interface ZoneChartEntry {
+  originZip?: string;
+  destination: string; // ZIP3 prefix or range, e.g. "004" or "004-005"
+  zone: string;
+}
+
 export interface ParseResult<T> {
   success: boolean;
   data: T[];
@@ -105,14 +138,16 @@ export interface ParseError {
 }
 
 export interface CSVParseOptions {
-  delimiter?: string;
+  delimiter?: string; // Sniffed from the content when omitted
   skipHeader?: boolean;
-  maxRows?: number;
+  maxRows?: number;   // Unlimited when omitted
   strictMode?: boolean;
   autoDetectTypes?: boolean;
   dateFormats?: string[];
-  dimensionUnit?: LengthUnit;
+  dimensionUnit?: LengthUnit; // Default when neither a unit column nor a header suffix names one
+  weightUnit?: WeightUnit;    // Default weight unit, same precedence
   requiredColumns?: string[];
+  zoneCharts?: ZoneChart[]; // Used to assign zones from destination postal codes
 }
 
 // ==========================================
@@ -136,6 +171,8 @@ export const ORDER_DATA_COLUMNS = {
   
   // Physical properties
   weight: ['weight', 'wgt', 'weight_lb', 'weight_kg', 'weight_oz'],
+  dimensionUnit: ['dimension_unit', 'unit', 'dim_unit', 'length_unit', 'uom', 'unit_of_measure'],
+  weightUnit: ['weight_unit', 'weight_uom', 'wt_unit'],
   
   // Value and category
   value: ['value', 'price', 'cost', 'amount', 'total'],
@@ -152,6 +189,8 @@ export const ORDER_DATA_COLUMNS = {
   shippingMethod: ['shipping_method', 'ship_method', 'carrier', 'service'],
   shippingCost: ['shipping_cost', 'ship_cost', 'freight'],
   shippingZone: ['zone', 'shipping_zone', 'region'],
+  destinationZip: ['zip', 'zip_code', 'zipcode', 'postal_code', 'postcode', 'ship_to_zip', 'destination_zip', 'dest_zip', 'shipping_zip'],
+  originZip: ['origin_zip', 'ship_from_zip', 'warehouse_zip', 'origin', 'warehouse'],
   priority: ['priority', 'urgency', 'service_level', 'speed']
 };
 
@@ -173,77 +212,49 @@ export const PRODUCT_CATALOG_COLUMNS = {
   width: ['width', 'w', 'wid'], 
   height: ['height', 'h', 'hgt'],
   weight: ['weight', 'wgt'],
+  dimensionUnit: ['dimension_unit', 'unit', 'dim_unit', 'length_unit', 'uom', 'unit_of_measure'],
+  weightUnit: ['weight_unit', 'weight_uom', 'wt_unit'],
+  fragile: ['fragile', 'breakable', 'delicate', 'handle_with_care'],
   tags: ['tags', 'keywords', 'attributes']
 };
 
+export const RATE_CARD_COLUMNS = {
+  carrier: ['carrier', 'carrier_name'],
+  service: ['service', 'service_level', 'service_name', 'ship_method'],
+  zone: ['zone', 'shipping_zone', 'zone_code'],
+  weight: ['weight', 'weight_break', 'weight_lb', 'weight_lbs', 'max_weight', 'lbs'],
+  price: ['price', 'rate', 'cost', 'charge', 'amount'],
+  dimDivisor: ['dim_divisor', 'dim_factor', 'divisor'],
+  minimumWeight: ['min_weight', 'minimum_weight', 'min_billable_weight'],
+  rounding: ['rounding', 'weight_rounding'],
+  fuelSurcharge: ['fuel_surcharge', 'fuel', 'fuel_pct']
+};
+
+export const ZONE_CHART_COLUMNS = {
+  originZip: ['origin_zip', 'origin', 'ship_from_zip', 'warehouse_zip'],
+  destination: ['dest_zip', 'destination_zip', 'destination', 'zip3', 'zip_prefix', 'dest_zip3', 'zip', 'zip_code'],
+  zone: ['zone', 'ground', 'ground_zone', 'zone_code']
+};
+
 // ==========================================
 // CORE PARSING FUNCTIONS
 // ==========================================
 
 /**
- * Parse CSV text content into structured data
+ * Parse CSV text content into structured data. Quoted fields, CRLF line
+ * endings and non-comma delimiters are handled by the shared CSV reader.
  */
 export function parseCSVContent(
   csvContent: string,
   options: CSVParseOptions = {}
 ): string[][] {
-  const {
-    delimiter = ',',
-    maxRows = 10000
-  } = options;
-
-  const lines = csvContent.trim().split('\n');
-  const rows: string[][] = [];
-
-  for (let i = 0; i < Math.min(lines.length, maxRows); i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    // Simple CSV parsing (handles basic quoted fields)
-    const row = parseCSVLine(line, delimiter);
-    rows.push(row);
-  }
-
-  return rows;
-}
-
-/**
- * Parse a single CSV line handling quotes and escapes
- */
-function parseCSVLine(line: string, delimiter: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        // Escaped quote
-        current += '"';
-        i++; // Skip next quote
-      } else {
-        // Toggle quote mode
-        inQuotes = !inQuotes;
-      }
-    } else if (char === delimiter && !inQuotes) {
-      // Field separator
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  
-  // Add final field
-  result.push(current.trim());
-  
-  return result;
+  const { delimiter, maxRows } = options;
+  return parseCSVRows(csvContent, { delimiter, maxRows });
 }
 
 /**
- * Auto-detect column mappings from headers
+ * Auto-detect column mappings from headers. Headers that only differ from an
+ * alias by a unit suffix ("Length (cm)", "weight_oz") match as well.
  */
 function detectColumnMappings(
   headers: string[],
@@ -260,18 +271,59 @@ function detectColumnMappings(
       }
     }
   }
+
+  const used = new Set(Object.values(mappings));
+  for (const [fieldName, possibleColumns] of Object.entries(columnDefinitions)) {
+    if (mappings[fieldName] !== undefined) continue;
+    const index = headers.findIndex((header, i) => !used.has(i) && possibleColumns.includes(stripUnitSuffix(header)));
+    if (index !== -1) {
+      mappings[fieldName] = index;
+      used.add(index);
+    }
+  }
   
   return mappings;
 }
 
+interface OrderRow {
+  row: string[];
+  rowNum: number;
+}
+
+interface ColumnUnits {
+  length?: LengthUnit;
+  width?: LengthUnit;
+  height?: LengthUnit;
+  weight?: WeightUnit;
+}
+
 /**
- * Parse and validate dimension data from row
+ * Units named by the headers of the dimension and weight columns
+ */
+function detectColumnUnits(headers: string[], mappings: Record<string, number>): ColumnUnits {
+  const lengthUnit = (field: string) =>
+    mappings[field] !== undefined ? detectHeaderUnit(headers[mappings[field]], 'length') as LengthUnit | undefined : undefined;
+
+  return {
+    length: lengthUnit('length'),
+    width: lengthUnit('width'),
+    height: lengthUnit('height'),
+    weight: mappings.weight !== undefined
+      ? detectHeaderUnit(headers[mappings.weight], 'weight') as WeightUnit | undefined
+      : undefined
+  };
+}
+
+/**
+ * Parse dimension data from row, normalised to inches. A per-row unit column
+ * wins over header suffixes, which win over the file-level default.
  */
 function parseDimensions(
   row: string[],
   mappings: Record<string, number>,
-  unit: LengthUnit = 'in'
-): Dimensions | null {
+  columnUnits: ColumnUnits = {},
+  defaultUnit: LengthUnit = 'in'
+): { dimensions: Dimensions; sourceUnit: LengthUnit } | null {
   const lengthIdx = mappings.length;
   const widthIdx = mappings.width;
   const heightIdx = mappings.height;
@@ -287,8 +339,47 @@ function parseDimensions(
   if (isNaN(length) || isNaN(width) || isNaN(height)) {
     return null;
   }
-  
-  return { length, width, height, unit };
+
+  const rowUnit = mappings.dimensionUnit !== undefined ? parseLengthUnit(row[mappings.dimensionUnit]) : undefined;
+  const units = {
+    length: rowUnit || columnUnits.length || defaultUnit,
+    width: rowUnit || columnUnits.width || defaultUnit,
+    height: rowUnit || columnUnits.height || defaultUnit
+  };
+
+  if (units.length === units.width && units.length === units.height) {
+    return {
+      dimensions: { ...convertToInches({ length, width, height, unit: units.length }), unit: 'in' },
+      sourceUnit: units.length
+    };
+  }
+
+  // Headers disagree (e.g. length_cm next to width_in); convert each side on its own
+  return {
+    dimensions: {
+      length: convertDimension(length, units.length, 'in'),
+      width: convertDimension(width, units.width, 'in'),
+      height: convertDimension(height, units.height, 'in'),
+      unit: 'in'
+    },
+    sourceUnit: units.length
+  };
+}
+
+/**
+ * Parse weight from row, normalised to pounds
+ */
+function parseWeight(
+  row: string[],
+  mappings: Record<string, number>,
+  columnUnits: ColumnUnits = {},
+  defaultUnit: WeightUnit = 'lb'
+): { weight: number; sourceUnit: WeightUnit } {
+  const value = mappings.weight !== undefined ? parseFloat(row[mappings.weight]) || 0 : 0;
+  const rowUnit = mappings.weightUnit !== undefined ? parseWeightUnit(row[mappings.weightUnit]) : undefined;
+  const unit = rowUnit || columnUnits.weight || defaultUnit;
+
+  return { weight: convertToPounds(value, unit), sourceUnit: unit };
 }
 
 /**
@@ -327,10 +418,10 @@ function parseDate(dateStr: string, formats: string[] = []): Date | null {
 // ==========================================
 
 /**
- * Parse order history CSV data
+ * Parse order history CSV data, or rows already read from a workbook sheet
  */
 export function parseOrderData(
-  csvContent: string,
+  content: string | string[][],
   options: CSVParseOptions = {}
 ): ParseResult<ParsedOrderData> {
   const startTime = Date.now();
@@ -339,7 +430,7 @@ export function parseOrderData(
   const parsedOrders: ParsedOrderData[] = [];
   
   try {
-    const rows = parseCSVContent(csvContent, options);
+    const rows = typeof content === 'string' ? parseCSVContent(content, options) : content;
     if (rows.length === 0) {
       return {
         success: false,
@@ -368,8 +459,10 @@ export function parseOrderData(
       }
     }
     
+    const columnUnits = detectColumnUnits(headers, mappings);
+
     // Group rows by order ID
-    const orderGroups: Record<string, string[][]> = {};
+    const orderGroups: Record<string, OrderRow[]> = {};
     
     for (let i = 0; i < dataRows.length; i++) {
       const row = dataRows[i];
@@ -383,7 +476,7 @@ export function parseOrderData(
         if (!orderGroups[orderId]) {
           orderGroups[orderId] = [];
         }
-        orderGroups[orderId].push(row);
+        orderGroups[orderId].push({ row, rowNum });
         
       } catch (error) {
         errors.push({
@@ -397,7 +490,7 @@ export function parseOrderData(
     // Process each order group
     for (const [orderId, orderRows] of Object.entries(orderGroups)) {
       try {
-        const order = processOrderGroup(orderId, orderRows, mappings, options);
+        const order = processOrderGroup(orderId, orderRows, mappings, columnUnits, options, errors);
         if (order) {
           parsedOrders.push(order);
         }
@@ -446,13 +539,15 @@ export function parseOrderData(
  */
 function processOrderGroup(
   orderId: string,
-  rows: string[][],
+  rows: OrderRow[],
   mappings: Record<string, number>,
-  options: CSVParseOptions
+  columnUnits: ColumnUnits,
+  options: CSVParseOptions,
+  errors: ParseError[]
 ): ParsedOrderData | null {
   if (rows.length === 0) return null;
   
-  const firstRow = rows[0];
+  const firstRow = rows[0].row;
   const items: OrderItem[] = [];
   
   // Parse order-level data from first row
@@ -463,8 +558,8 @@ function processOrderGroup(
   let totalValue = 0;
   
   // Process each item in the order
-  for (const row of rows) {
-    const item = processOrderItem(row, mappings, options);
+  for (const { row, rowNum } of rows) {
+    const item = processOrderItem(row, rowNum, mappings, columnUnits, options, errors);
     if (item) {
       items.push(item);
       totalValue += (item.value || 0) * item.quantity;
@@ -480,10 +575,12 @@ function processOrderGroup(
   } : undefined;
   
   // Build shipping info if available
-  const shippingInfo: ShippingInfo | undefined = mappings.shippingMethod !== undefined ? {
-    method: firstRow[mappings.shippingMethod],
+  const zone = items.find(item => item.shippingZone)?.shippingZone;
+  const shippingInfo: ShippingInfo | undefined = mappings.shippingMethod !== undefined || zone ? {
+    method: mappings.shippingMethod !== undefined ? firstRow[mappings.shippingMethod] : undefined,
     cost: mappings.shippingCost !== undefined ? 
-      parseFloat(firstRow[mappings.shippingCost]) || undefined : undefined
+      parseFloat(firstRow[mappings.shippingCost]) || undefined : undefined,
+    zone
   } : undefined;
   
   return {
@@ -502,8 +599,11 @@ function processOrderGroup(
  */
 function processOrderItem(
   row: string[],
+  rowNum: number,
   mappings: Record<string, number>,
-  options: CSVParseOptions
+  columnUnits: ColumnUnits,
+  options: CSVParseOptions,
+  errors: ParseError[]
 ): OrderItem | null {
   const sku = mappings.sku !== undefined ? row[mappings.sku] : '';
   const productName = mappings.productName !== undefined ? row[mappings.productName] : '';
@@ -512,12 +612,15 @@ function processOrderItem(
   
   if (!sku && !productName) return null;
   
-  // Parse dimensions
-  const dimensions = parseDimensions(row, mappings, options.dimensionUnit);
-  
-  // Parse weight
-  const weight = mappings.weight !== undefined ? 
-    parseFloat(row[mappings.weight]) || 0 : 0;
+  // Parse dimensions and weight, normalised to inches and pounds
+  const parsedDimensions = parseDimensions(row, mappings, columnUnits, options.dimensionUnit);
+  const dimensions = parsedDimensions?.dimensions;
+  const { weight, sourceUnit: weightUnit } = parseWeight(row, mappings, columnUnits, options.weightUnit);
+
+  // Flag values that only make sense in another unit
+  for (const issue of checkUnitMagnitudes(dimensions || null, weight, { length: parsedDimensions?.sourceUnit, weight: weightUnit })) {
+    errors.push({ row: rowNum, message: `${sku || productName}: ${issue.message}`, severity: 'warning', suggestedFix: issue.suggestedFix });
+  }
   
   // Parse other fields
   const value = mappings.value !== undefined ? 
@@ -531,8 +634,20 @@ function processOrderItem(
     false;
   
   // Parse shipping info
-  const shippingZone = mappings.shippingZone !== undefined ? 
-    row[mappings.shippingZone] : undefined;
+  const destinationZip = mappings.destinationZip !== undefined ?
+    row[mappings.destinationZip]?.trim() || undefined : undefined;
+
+  const originZip = mappings.originZip !== undefined ?
+    row[mappings.originZip]?.trim() || undefined : undefined;
+
+  // Zone charts take over when the export carries postal codes instead of zones
+  let shippingZone = mappings.shippingZone !== undefined ? 
+    row[mappings.shippingZone] || undefined : undefined;
+
+  if (options.zoneCharts && options.zoneCharts.length > 0) {
+    const postalCode = destinationZip || (shippingZone && isPostalCode(shippingZone) ? shippingZone : undefined);
+    shippingZone = resolveZone(options.zoneCharts, { destinationZip: postalCode, originZip }) || shippingZone;
+  }
   
   const priority = mappings.priority !== undefined ? 
     row[mappings.priority] : undefined;
@@ -547,6 +662,8 @@ function processOrderItem(
     value,
     fragile,
     shippingZone,
+    destinationZip,
+    originZip,
     priority
   };
 }
@@ -556,10 +673,10 @@ function processOrderItem(
 // ==========================================
 
 /**
- * Parse usage log data for Demand Planner
+ * Parse usage log data for Demand Planner, from CSV text or workbook sheet rows
  */
 export function parseUsageLogData(
-  csvContent: string,
+  content: string | string[][],
   options: CSVParseOptions = {}
 ): ParseResult<UsageLogEntry> {
   const startTime = Date.now();
@@ -568,7 +685,7 @@ export function parseUsageLogData(
   const entries: UsageLogEntry[] = [];
   
   try {
-    const rows = parseCSVContent(csvContent, options);
+    const rows = typeof content === 'string' ? parseCSVContent(content, options) : content;
     if (rows.length === 0) {
       return {
         success: false,
@@ -682,6 +799,325 @@ function processUsageLogRow(
   };
 }
 
+// ==========================================
+// PRODUCT CATALOG PARSER
+// ==========================================
+
+/**
+ * Parse a SKU master catalog, from CSV text or workbook sheet rows.
+ * Dimensions are normalised to inches and weights to pounds.
+ */
+export function parseProductCatalogData(
+  content: string | string[][],
+  options: CSVParseOptions = {}
+): ParseResult<ProductCatalogEntry> {
+  const startTime = Date.now();
+  const errors: ParseError[] = [];
+  const warnings: string[] = [];
+  const entries: ProductCatalogEntry[] = [];
+
+  const rows = typeof content === 'string' ? parseCSVContent(content, options) : content;
+  if (rows.length === 0) {
+    return {
+      success: false,
+      data: [],
+      errors: [{ row: 0, message: 'No data found in CSV', severity: 'error' }],
+      warnings: [],
+      metadata: {
+        totalRows: 0,
+        validRows: 0,
+        invalidRows: 0,
+        columns: [],
+        processingTime: Date.now() - startTime
+      }
+    };
+  }
+
+  const headers = rows[0];
+  const mappings = detectColumnMappings(headers, PRODUCT_CATALOG_COLUMNS);
+  const missingColumns = ['sku', 'length', 'width', 'height'].filter(col => mappings[col] === undefined);
+
+  if (missingColumns.length > 0) {
+    errors.push({
+      row: 1,
+      message: `Missing required columns: ${missingColumns.join(', ')}`,
+      severity: 'error',
+      suggestedFix: 'Catalogs need sku, length, width and height columns'
+    });
+  } else {
+    const columnUnits = detectColumnUnits(headers, mappings);
+    const seen = new Set<string>();
+    const text = (row: string[], field: string) =>
+      mappings[field] !== undefined ? (row[mappings[field]] || '').trim() : '';
+
+    const dataRows = rows.slice(1);
+    for (let i = 0; i < dataRows.length; i++) {
+      const row = dataRows[i];
+      const rowNum = i + 2;
+      const sku = text(row, 'sku');
+      if (!sku && row.every(cell => cell.trim() === '')) continue;
+
+      if (!sku) {
+        errors.push({ row: rowNum, column: 'sku', message: 'Missing SKU', severity: 'error' });
+        continue;
+      }
+
+      const parsed = parseDimensions(row, mappings, columnUnits, options.dimensionUnit);
+      if (!parsed || parsed.dimensions.length <= 0 || parsed.dimensions.width <= 0 || parsed.dimensions.height <= 0) {
+        errors.push({ row: rowNum, message: `${sku}: Invalid dimensions`, severity: 'error' });
+        continue;
+      }
+
+      if (seen.has(sku.toUpperCase())) {
+        warnings.push(`Row ${rowNum}: Duplicate SKU ${sku}; the last row wins`);
+      }
+      seen.add(sku.toUpperCase());
+
+      const { weight, sourceUnit } = parseWeight(row, mappings, columnUnits, options.weightUnit);
+      for (const issue of checkUnitMagnitudes(parsed.dimensions, weight, { length: parsed.sourceUnit, weight: sourceUnit })) {
+        errors.push({ row: rowNum, message: `${sku}: ${issue.message}`, severity: 'warning', suggestedFix: issue.suggestedFix });
+      }
+
+      const tags = text(row, 'tags');
+      entries.push({
+        sku,
+        name: text(row, 'name') || sku,
+        description: text(row, 'description') || undefined,
+        category: text(row, 'category'),
+        dimensions: parsed.dimensions,
+        weight: mappings.weight !== undefined && text(row, 'weight') !== '' ? weight : undefined,
+        fragile: mappings.fragile !== undefined
+          ? ['true', '1', 'yes', 'y', 'fragile'].includes(text(row, 'fragile').toLowerCase())
+          : undefined,
+        tags: tags ? tags.split(/[;,|]/).map(tag => tag.trim()).filter(Boolean) : undefined
+      });
+    }
+
+    if (entries.length === 0) {
+      warnings.push('No valid catalog rows found');
+    }
+  }
+
+  return {
+    success: errors.filter(e => e.severity === 'error').length === 0 && entries.length > 0,
+    data: entries,
+    errors,
+    warnings,
+    metadata: {
+      totalRows: rows.length,
+      validRows: entries.length,
+      invalidRows: Math.max(0, rows.length - 1 - entries.length),
+      columns: headers,
+      processingTime: Date.now() - startTime
+    }
+  };
+}
+
+// ==========================================
+// RATE CARD PARSER
+// ==========================================
+
+/**
+ * Parse a carrier rate table (service, zone, weight break, price per row)
+ */
+export function parseRateCardData(
+  csvContent: string,
+  options: CSVParseOptions = {}
+): ParseResult<RateCardEntry> {
+  const startTime = Date.now();
+  const errors: ParseError[] = [];
+  const warnings: string[] = [];
+  const entries: RateCardEntry[] = [];
+
+  const rows = parseCSVContent(csvContent, options);
+  if (rows.length === 0) {
+    return {
+      success: false,
+      data: [],
+      errors: [{ row: 0, message: 'No data found in CSV', severity: 'error' }],
+      warnings: [],
+      metadata: {
+        totalRows: 0,
+        validRows: 0,
+        invalidRows: 0,
+        columns: [],
+        processingTime: Date.now() - startTime
+      }
+    };
+  }
+
+  // Carrier exports often use "Weight Break" or "Fuel-Surcharge" style headers
+  const headers = rows[0].map(header => header.toLowerCase().trim().replace(/[\s-]+/g, '_'));
+  const mappings = detectColumnMappings(headers, RATE_CARD_COLUMNS);
+  const missingColumns = ['service', 'zone', 'weight', 'price'].filter(col => mappings[col] === undefined);
+
+  if (missingColumns.length > 0) {
+    errors.push({
+      row: 1,
+      message: `Missing required columns: ${missingColumns.join(', ')}`,
+      severity: 'error',
+      suggestedFix: 'Rate cards need service, zone, weight and price columns'
+    });
+  } else {
+    const dataRows = rows.slice(1);
+    for (let i = 0; i < dataRows.length; i++) {
+      const row = dataRows[i];
+      const rowNum = i + 2;
+      const entry = processRateCardRow(row, mappings);
+
+      if (typeof entry === 'string') {
+        errors.push({ row: rowNum, message: entry, severity: 'error' });
+      } else {
+        entries.push(entry);
+      }
+    }
+
+    if (entries.length === 0) {
+      warnings.push('No valid rate rows found');
+    }
+  }
+
+  return {
+    success: errors.length === 0 && entries.length > 0,
+    data: entries,
+    errors,
+    warnings,
+    metadata: {
+      totalRows: rows.length,
+      validRows: entries.length,
+      invalidRows: Math.max(0, rows.length - 1 - entries.length),
+      columns: rows[0],
+      processingTime: Date.now() - startTime
+    }
+  };
+}
+
+/**
+ * Process a single rate card row, returning an error message when invalid
+ */
+function processRateCardRow(
+  row: string[],
+  mappings: Record<string, number>
+): RateCardEntry | string {
+  const text = (field: string) =>
+    mappings[field] !== undefined ? (row[mappings[field]] || '').trim() : '';
+  const number = (field: string) => {
+    const value = text(field).replace(/[$,%\s]/g, '');
+    return value === '' ? undefined : parseFloat(value);
+  };
+
+  const service = text('service');
+  const zone = text('zone');
+  const weight = number('weight');
+  const price = number('price');
+
+  if (!service) return 'Missing service';
+  if (!zone) return 'Missing zone';
+  if (weight === undefined || isNaN(weight) || weight <= 0) return `Invalid weight break "${text('weight')}"`;
+  if (price === undefined || isNaN(price) || price < 0) return `Invalid price "${text('price')}"`;
+
+  const optional = (value: number | undefined) =>
+    value !== undefined && !isNaN(value) ? value : undefined;
+
+  return {
+    carrier: text('carrier') || undefined,
+    service,
+    zone,
+    weight,
+    price,
+    dimDivisor: optional(number('dimDivisor')),
+    minimumWeight: optional(number('minimumWeight')),
+    rounding: text('rounding') || undefined,
+    fuelSurcharge: optional(number('fuelSurcharge'))
+  };
+}
+
+// ==========================================
+// ZONE CHART PARSER
+// ==========================================
+
+/**
+ * Parse a carrier zone chart (destination ZIP3 prefix or range, zone per row)
+ */
+export function parseZoneChartData(
+  csvContent: string,
+  options: CSVParseOptions = {}
+): ParseResult<ZoneChartEntry> {
+  const startTime = Date.now();
+  const errors: ParseError[] = [];
+  const warnings: string[] = [];
+  const entries: ZoneChartEntry[] = [];
+
+  const rows = parseCSVContent(csvContent, options);
+  if (rows.length === 0) {
+    return {
+      success: false,
+      data: [],
+      errors: [{ row: 0, message: 'No data found in CSV', severity: 'error' }],
+      warnings: [],
+      metadata: {
+        totalRows: 0,
+        validRows: 0,
+        invalidRows: 0,
+        columns: [],
+        processingTime: Date.now() - startTime
+      }
+    };
+  }
+
+  const headers = rows[0].map(header => header.toLowerCase().trim().replace(/[\s.-]+/g, '_').replace(/_+$/, ''));
+  const mappings = detectColumnMappings(headers, ZONE_CHART_COLUMNS);
+  const missingColumns = ['destination', 'zone'].filter(col => mappings[col] === undefined);
+
+  if (missingColumns.length > 0) {
+    errors.push({
+      row: 1,
+      message: `Missing required columns: ${missingColumns.join(', ')}`,
+      severity: 'error',
+      suggestedFix: 'Zone charts need destination ZIP prefix and zone columns'
+    });
+  } else {
+    const dataRows = rows.slice(1);
+    for (let i = 0; i < dataRows.length; i++) {
+      const row = dataRows[i];
+      const destination = (row[mappings.destination] || '').trim();
+      const zone = (row[mappings.zone] || '').trim();
+
+      // Carrier charts mark unserviced prefixes with a dash or blank
+      if (!zone || zone === '-' || zone.toLowerCase() === 'n/a') continue;
+
+      if (!/^\d{3,5}(\s*(-|to)\s*\d{3,5})?$/i.test(destination)) {
+        errors.push({ row: i + 2, message: `Invalid destination ZIP prefix "${destination}"`, severity: 'error' });
+        continue;
+      }
+
+      entries.push({
+        originZip: mappings.originZip !== undefined ? (row[mappings.originZip] || '').trim() || undefined : undefined,
+        destination,
+        zone
+      });
+    }
+
+    if (entries.length === 0) {
+      warnings.push('No valid zone rows found');
+    }
+  }
+
+  return {
+    success: errors.length === 0 && entries.length > 0,
+    data: entries,
+    errors,
+    warnings,
+    metadata: {
+      totalRows: rows.length,
+      validRows: entries.length,
+      invalidRows: Math.max(0, rows.length - 1 - entries.length),
+      columns: rows[0],
+      processingTime: Date.now() - startTime
+    }
+  };
+}
+
 // ==========================================
 // UTILITY FUNCTIONS
 // ==========================================
@@ -691,7 +1127,7 @@ function processUsageLogRow(
  */
 export function validateCSVStructure(
   csvContent: string,
-  expectedType: 'orders' | 'usage_log' | 'catalog'
+  expectedType: 'orders' | 'usage_log' | 'catalog' | 'rate_card' | 'zone_chart'
 ): {
   isValid: boolean;
   issues: string[];
@@ -716,12 +1152,16 @@ export function validateCSVStructure(
   const headers = rows[0];
   const columnDefs = expectedType === 'orders' ? ORDER_DATA_COLUMNS :
                     expectedType === 'usage_log' ? USAGE_LOG_COLUMNS :
+                    expectedType === 'rate_card' ? RATE_CARD_COLUMNS :
+                    expectedType === 'zone_chart' ? ZONE_CHART_COLUMNS :
                     PRODUCT_CATALOG_COLUMNS;
   
   const mappings = detectColumnMappings(headers, columnDefs);
   const detectedColumns = Object.keys(mappings);
   const requiredColumns = expectedType === 'orders' ? ['orderId', 'sku'] :
                          expectedType === 'usage_log' ? ['date', 'packageType'] :
+                         expectedType === 'rate_card' ? ['service', 'zone', 'weight', 'price'] :
+                         expectedType === 'zone_chart' ? ['destination', 'zone'] :
                          ['sku', 'name'];
   
   const missingColumns = requiredColumns.filter(col => !detectedColumns.includes(col));
@@ -748,7 +1188,7 @@ export function validateCSVStructure(
 /**
  * Generate sample CSV template for a given type
  */
-export function generateCSVTemplate(type: 'orders' | 'usage_log' | 'catalog'): string {
+export function generateCSVTemplate(type: 'orders' | 'usage_log' | 'catalog' | 'rate_card' | 'zone_chart'): string {
   const templates = {
     orders: `order_id,date,sku,product_name,quantity,length,width,height,weight,value,category,customer_id,shipping_zone,priority
 ORD-001,2024-01-15,SKU-123,Widget A,2,12,8,6,2.5,19.99,Electronics,CUST-001,domestic,standard
@@ -761,10 +1201,22 @@ ORD-002,2024-01-16,SKU-789,Gadget C,3,10,10,4,3.2,29.99,Home,CUST-002,internatio
 2024-01-01,Large Box,15,100,15.0,0.85
 2024-01-01,Envelope,10,100,10.0,0.25`,
     
-    catalog: `sku,name,description,category,length,width,height,weight
-SKU-123,Widget A,Electronic widget,Electronics,12,8,6,2.5
-SKU-456,Widget B,Compact widget,Electronics,6,4,3,1.0
-SKU-789,Gadget C,Home gadget,Home,10,10,4,3.2`
+    catalog: `sku,name,description,category,length,width,height,weight,fragile
+SKU-123,Widget A,Electronic widget,Electronics,12,8,6,2.5,no
+SKU-456,Widget B,Compact widget,Electronics,6,4,3,1.0,no
+SKU-789,Gadget C,Home gadget,Home,10,10,4,3.2,yes`,
+
+    rate_card: `carrier,service,zone,weight,price,dim_divisor,min_weight,rounding,fuel_surcharge
+UPS,Ground,2,1,10.20,139,1,lb,14.5
+UPS,Ground,2,5,13.45,139,1,lb,14.5
+UPS,Ground,5,1,11.35,139,1,lb,14.5
+UPS,Ground,5,5,16.90,139,1,lb,14.5`,
+
+    zone_chart: `dest_zip,zone
+004-005,8
+010-013,7
+100-119,2
+900-908,8`
   };
   
   return templates[type];
@@ -0,0 +1,370 @@
+/**
+ * Streaming CSV Reader
+ *
+ * RFC 4180 tokenizer shared by every uploader and Convex action:
+ * - Quoted fields with embedded delimiters, newlines and doubled quotes
+ * - CRLF, LF and bare CR line endings
+ * - UTF-8 byte order mark stripping
+ * - Delimiter sniffing (comma, tab, semicolon, pipe)
+ * - Chunked input and chunked row callbacks, so large files never need
+ *   to be split into lines up front
+ *
+ * This module is imported from Convex functions as well, so it must stay
+ * free of browser-only APIs and path aliases.
+ */
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export type CSVDelimiter = ',' | '\t' | ';' | '|';
+
+export interface CSVReaderOptions {
+  delimiter?: string;       // Sniffed from the first rows when omitted
+  trimFields?: boolean;     // Default true; quoted field contents are kept as-is
+  skipEmptyLines?: boolean; // Default true
+  maxRows?: number;         // Stop after this many rows, header included; unlimited by default
+}
+
+export interface CSVStreamOptions extends CSVReaderOptions {
+  chunkSize?: number; // Rows per onRows callback, default 1000
+  onRows: (rows: string[][], progress: CSVStreamProgress) => void | Promise<void>;
+}
+
+export interface CSVStreamProgress {
+  rowsParsed: number;
+  bytesRead: number;
+  totalBytes?: number;
+}
+
+export interface CSVStreamSummary {
+  rowCount: number;
+  delimiter: string;
+  truncated: boolean; // True when rows past maxRows were left unread
+}
+
+// ==========================================
+// DELIMITER DETECTION
+// ==========================================
+
+const CANDIDATE_DELIMITERS: CSVDelimiter[] = [',', '\t', ';', '|'];
+const SNIFF_SAMPLE_LINES = 10;
+const SNIFF_SAMPLE_CHARS = 16 * 1024;
+
+/**
+ * Pick the delimiter that splits the sample lines into the most consistent
+ * number of fields. Delimiters inside quoted fields are ignored.
+ */
+export function detectDelimiter(sample: string): CSVDelimiter {
+  const counts = new Map<CSVDelimiter, number[]>(CANDIDATE_DELIMITERS.map(delimiter => [delimiter, [0]]));
+  let inQuotes = false;
+  let lines = 0;
+
+  for (let i = 0; i < sample.length && lines < SNIFF_SAMPLE_LINES; i++) {
+    const char = sample[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (char === '\r' && sample[i + 1] === '\n') i++;
+      lines++;
+      counts.forEach(perLine => perLine.push(0));
+    } else if (!inQuotes) {
+      const perLine = counts.get(char as CSVDelimiter);
+      if (perLine) perLine[perLine.length - 1]++;
+    }
+  }
+
+  let best: CSVDelimiter = ',';
+  let bestScore = 0;
+  for (const [delimiter, perLine] of counts) {
+    const lineCounts = perLine.filter((count, index) => count > 0 || index < perLine.length - 1);
+    const headerCount = lineCounts[0] || 0;
+    if (headerCount === 0) continue;
+
+    // Share of lines with the header's field count, then the field count itself
+    const consistency = lineCounts.filter(count => count === headerCount).length / lineCounts.length;
+    const score = consistency * 1000 + headerCount;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// ==========================================
+// STREAMING PARSER
+// ==========================================
+
+/**
+ * Incremental CSV tokenizer. Feed text in chunks of any size with write();
+ * each call returns the rows completed by that chunk. Call end() to flush the
+ * final row.
+ */
+export class CSVStreamParser {
+  private options: Required<Omit<CSVReaderOptions, 'delimiter' | 'maxRows'>> & { maxRows: number };
+  private separator?: string;
+  private pendingSample = '';
+  private started = false;
+  private finished = false;
+
+  private field = '';
+  private row: string[] = [];
+  private inQuotes = false;
+  private quoteInQuotes = false; // Saw a quote inside a quoted field; the next char decides escape vs close
+  private fieldWasQuoted = false;
+  private quotedLength = 0;      // Length of the quoted part of the current field
+  private skipLineFeed = false;  // Previous chunk ended on CR
+  private rowsEmitted = 0;
+  private hasMoreRows = false;   // A non-empty row followed maxRows
+
+  constructor(options: CSVReaderOptions = {}) {
+    this.separator = options.delimiter;
+    this.options = {
+      trimFields: options.trimFields ?? true,
+      skipEmptyLines: options.skipEmptyLines ?? true,
+      maxRows: options.maxRows ?? Infinity
+    };
+  }
+
+  /**
+   * Delimiter in use; undefined until enough input has been seen to sniff it
+   */
+  get delimiter(): string | undefined {
+    return this.separator;
+  }
+
+  get rowCount(): number {
+    return this.rowsEmitted;
+  }
+
+  /**
+   * Whether a row past maxRows has been seen; further input is ignored
+   */
+  get isDone(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Whether the input had non-empty rows beyond maxRows
+   */
+  get truncated(): boolean {
+    return this.hasMoreRows;
+  }
+
+  write(chunk: string): string[][] {
+    if (this.finished || chunk.length === 0) return [];
+
+    if (!this.started) {
+      this.pendingSample += chunk;
+      if (!this.separator && !this.hasEnoughSample()) return [];
+      return this.start();
+    }
+
+    return this.consume(chunk);
+  }
+
+  end(): string[][] {
+    if (this.finished) return [];
+
+    const rows = this.started ? [] : this.start();
+    if (!this.finished && (this.field !== '' || this.row.length > 0 || this.fieldWasQuoted)) {
+      this.endRow(rows);
+    }
+    this.finished = true;
+    return rows;
+  }
+
+  private hasEnoughSample(): boolean {
+    if (this.pendingSample.length >= SNIFF_SAMPLE_CHARS) return true;
+
+    let lines = 0;
+    for (let i = 0; i < this.pendingSample.length; i++) {
+      if (this.pendingSample[i] === '\n' && ++lines >= SNIFF_SAMPLE_LINES) return true;
+    }
+    return false;
+  }
+
+  private start(): string[][] {
+    this.started = true;
+    const sample = this.pendingSample.charCodeAt(0) === 0xfeff
+      ? this.pendingSample.slice(1)
+      : this.pendingSample;
+    this.pendingSample = '';
+
+    if (!this.separator) this.separator = detectDelimiter(sample);
+    return this.consume(sample);
+  }
+
+  private consume(chunk: string): string[][] {
+    const rows: string[][] = [];
+    const delimiter = this.separator || ',';
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (this.quoteInQuotes) {
+          this.quoteInQuotes = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false; // Closing quote; fall through to handle char unquoted
+          this.quotedLength = this.field.length;
+        } else if (char === '"') {
+          this.quoteInQuotes = true;
+          continue;
+        } else {
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.skipLineFeed = char === '\r';
+        this.endRow(rows);
+        if (this.finished) break;
+      } else if (char === '"' && !this.fieldWasQuoted && this.field.trim() === '') {
+        // Quotes only open a quoted field at its start; elsewhere (e.g. 12" tube) they are literal
+        this.field = '';
+        this.inQuotes = true;
+        this.fieldWasQuoted = true;
+      } else {
+        this.field += char;
+      }
+    }
+
+    return rows;
+  }
+
+  private endField(): void {
+    if (this.inQuotes) {
+      // Input ended inside or right after a quoted field
+      this.quoteInQuotes = false;
+      this.inQuotes = false;
+      this.quotedLength = this.field.length;
+    }
+    this.row.push(this.options.trimFields ? this.trimmedField() : this.field);
+    this.field = '';
+    this.fieldWasQuoted = false;
+  }
+
+  // Whitespace inside quotes is data; only what surrounds the quotes is trimmed
+  private trimmedField(): string {
+    if (!this.fieldWasQuoted) return this.field.trim();
+    return this.field.slice(0, this.quotedLength) + this.field.slice(this.quotedLength).trimEnd();
+  }
+
+  private endRow(rows: string[][]): void {
+    const isEmpty = this.row.length === 0 && this.field.trim() === '' && !this.fieldWasQuoted;
+    this.endField();
+    const row = this.row;
+    this.row = [];
+
+    if (isEmpty && this.options.skipEmptyLines) return;
+
+    // Past the limit, the row is only read to learn whether the input went on
+    if (this.rowsEmitted >= this.options.maxRows) {
+      this.hasMoreRows = !isEmpty;
+      this.finished = this.hasMoreRows;
+      return;
+    }
+
+    rows.push(row);
+    this.rowsEmitted++;
+  }
+}
+
+// ==========================================
+// CONVENIENCE READERS
+// ==========================================
+
+/**
+ * Parse a complete CSV string into rows
+ */
+export function parseCSVRows(content: string, options: CSVReaderOptions = {}): string[][] {
+  const parser = new CSVStreamParser(options);
+  const rows = parser.write(content);
+  for (const row of parser.end()) rows.push(row);
+  return rows;
+}
+
+/**
+ * Stream a CSV string or file through the parser, delivering rows in chunks.
+ * Files are decoded incrementally so the whole text is never held at once.
+ */
+export async function parseCSVStream(
+  source: string | Blob,
+  options: CSVStreamOptions
+): Promise<CSVStreamSummary> {
+  const { chunkSize = 1000, onRows, ...readerOptions } = options;
+  const parser = new CSVStreamParser(readerOptions);
+  const totalBytes = typeof source === 'string' ? source.length : source.size;
+  let bytesRead = 0;
+  let rowsParsed = 0;
+  let batch: string[][] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    rowsParsed += batch.length;
+    const rows = batch;
+    batch = [];
+    await onRows(rows, { rowsParsed, bytesRead, totalBytes });
+  };
+
+  const collect = async (rows: string[][]) => {
+    for (const row of rows) {
+      batch.push(row);
+      if (batch.length >= chunkSize) await flush();
+    }
+  };
+
+  for await (const chunk of readChunks(source)) {
+    bytesRead += chunk.bytes;
+    await collect(parser.write(chunk.text));
+    if (parser.isDone) break;
+  }
+  await collect(parser.end());
+  await flush();
+
+  return {
+    rowCount: parser.rowCount,
+    delimiter: parser.delimiter || ',',
+    truncated: parser.truncated
+  };
+}
+
+const STRING_CHUNK_SIZE = 64 * 1024;
+
+async function* readChunks(source: string | Blob): AsyncGenerator<{ text: string; bytes: number }> {
+  if (typeof source === 'string') {
+    for (let offset = 0; offset < source.length; offset += STRING_CHUNK_SIZE) {
+      const text = source.slice(offset, offset + STRING_CHUNK_SIZE);
+      yield { text, bytes: text.length };
+    }
+    return;
+  }
+
+  const reader = source.stream().getReader();
+  const decoder = new TextDecoder('utf-8');
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield { text: decoder.decode(value, { stream: true }), bytes: value.byteLength };
+    }
+    const rest = decoder.decode();
+    if (rest) yield { text: rest, bytes: 0 };
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Product Catalog Join
+ *
+ * Fills order and packaging rows from the SKU master catalog:
+ * - SKU lookup that ignores case and surrounding whitespace
+ * - Missing dimensions, weight and fragility filled per row
+ * - Unit columns reset to inches/pounds where catalog values are written
+ *
+ * Catalog values are always stored in inches and pounds. Entries accepted
+ * from the Spec Generator carry source 'ai' and are counted separately so
+ * analyses can tell measured from estimated dimensions.
+ */
+
+import { ORDER_DATA_COLUMNS } from './csvParser';
+import { normalizeHeader } from './columnMapping';
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export interface CatalogProduct {
+  sku: string;
+  length: number;  // inches
+  width: number;   // inches
+  height: number;  // inches
+  weight?: number; // lbs
+  fragile?: boolean;
+  category?: string;
+  source?: 'import' | 'manual' | 'ai';
+  confidence?: 'high' | 'medium' | 'low'; // Set for AI estimates
+}
+
+export interface CatalogJoinResult {
+  rows: string[][];
+  filledRows: number;      // Rows that took at least one value from the catalog
+  estimatedRows: number;   // Filled rows whose dimensions are AI estimates
+  matchedRows: number;     // Rows whose SKU is in the catalog
+  unmatchedSkus: string[]; // Distinct SKUs missing from the catalog
+}
+
+// ==========================================
+// LOOKUP
+// ==========================================
+
+/**
+ * Key used to match SKUs across files: "  sku-123 " -> "SKU-123"
+ */
+export function normalizeSku(sku: string): string {
+  return sku.trim().toUpperCase();
+}
+
+/**
+ * Index catalog products by normalised SKU
+ */
+export function buildCatalogIndex<T extends CatalogProduct>(products: T[]): Map<string, T> {
+  return new Map(products.map(product => [normalizeSku(product.sku), product]));
+}
+
+// ==========================================
+// ORDER ROWS
+// ==========================================
+
+/**
+ * Fill blank or zero dimension, weight and fragility cells of order rows
+ * (header first) from the catalog, matching on the SKU column. Columns the
+ * file lacks are appended; values already in the file are kept.
+ */
+export function applyCatalogToOrderRows(rows: string[][], products: CatalogProduct[]): CatalogJoinResult {
+  if (rows.length === 0 || products.length === 0) {
+    return { rows, filledRows: 0, estimatedRows: 0, matchedRows: 0, unmatchedSkus: [] };
+  }
+
+  const headers = [...rows[0]];
+  const normalized = headers.map(normalizeHeader);
+  const findColumn = (field: keyof typeof ORDER_DATA_COLUMNS) =>
+    normalized.findIndex(header => ORDER_DATA_COLUMNS[field].includes(header));
+
+  const skuIndex = findColumn('sku');
+  if (skuIndex === -1) {
+    return { rows, filledRows: 0, estimatedRows: 0, matchedRows: 0, unmatchedSkus: [] };
+  }
+
+  const ensureColumn = (field: keyof typeof ORDER_DATA_COLUMNS) => {
+    const index = findColumn(field);
+    if (index !== -1) return index;
+    headers.push(ORDER_DATA_COLUMNS[field][0]);
+    normalized.push(ORDER_DATA_COLUMNS[field][0]);
+    return headers.length - 1;
+  };
+
+  const columns = {
+    length: ensureColumn('length'),
+    width: ensureColumn('width'),
+    height: ensureColumn('height'),
+    weight: ensureColumn('weight')
+  };
+  const fragileIndex = findColumn('fragile');
+  const dimensionUnitIndex = findColumn('dimensionUnit');
+  const weightUnitIndex = findColumn('weightUnit');
+
+  const index = buildCatalogIndex(products);
+  const unmatched = new Set<string>();
+  let filledRows = 0;
+  let estimatedRows = 0;
+  let matchedRows = 0;
+
+  const isBlank = (value: string | undefined) => !value || value.trim() === '' || parseFloat(value) === 0;
+
+  const dataRows = rows.slice(1).map(source => {
+    const row = headers.map((_, i) => source[i] ?? '');
+    const sku = row[skuIndex]?.trim();
+    if (!sku) return row;
+
+    const product = index.get(normalizeSku(sku));
+    if (!product) {
+      unmatched.add(sku);
+      return row;
+    }
+    matchedRows++;
+
+    let filled = false;
+    if (isBlank(row[columns.length]) || isBlank(row[columns.width]) || isBlank(row[columns.height])) {
+      row[columns.length] = String(product.length);
+      row[columns.width] = String(product.width);
+      row[columns.height] = String(product.height);
+      if (dimensionUnitIndex !== -1) row[dimensionUnitIndex] = 'in';
+      if (product.source === 'ai') estimatedRows++;
+      filled = true;
+    }
+    if (product.weight !== undefined && isBlank(row[columns.weight])) {
+      row[columns.weight] = String(product.weight);
+      if (weightUnitIndex !== -1) row[weightUnitIndex] = 'lb';
+      filled = true;
+    }
+    if (product.fragile !== undefined && fragileIndex !== -1 && row[fragileIndex].trim() === '') {
+      row[fragileIndex] = product.fragile ? 'yes' : 'no';
+      filled = true;
+    }
+
+    if (filled) filledRows++;
+    return row;
+  });
+
+  return {
+    rows: [headers, ...dataRows],
+    filledRows,
+    estimatedRows,
+    matchedRows,
+    unmatchedSkus: [...unmatched]
+  };
+}
+
+// ==========================================
+// SINGLE RECORDS
+// ==========================================
+
+/**
+ * Copy catalog dimensions and weight onto a record (e.g. a packaging type)
+ * whose own values are missing or zero
+ */
+export function fillFromCatalog<T extends { length: number; width: number; height: number; weight: number }>(
+  record: T,
+  sku: string,
+  index: Map<string, CatalogProduct>
+): { record: T; filled: boolean } {
+  const product = index.get(normalizeSku(sku));
+  if (!product) return { record, filled: false };
+
+  const needsDimensions = !(record.length > 0 && record.width > 0 && record.height > 0);
+  const needsWeight = !(record.weight > 0) && product.weight !== undefined;
+  if (!needsDimensions && !needsWeight) return { record, filled: false };
+
+  return {
+    record: {
+      ...record,
+      ...(needsDimensions ? { length: product.length, width: product.width, height: product.height } : {}),
+      ...(needsWeight ? { weight: product.weight } : {})
+    },
+    filled: true
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Import Unit Detection
+ *
+ * Recognises the units used by uploaded files so mixed feeds can be
+ * normalised to inches and pounds:
+ * - Unit cells ("cm", "Inches", "kgs") from per-row unit columns
+ * - Header suffixes ("length_cm", "Weight (oz)")
+ * - Magnitude checks that flag values which look like the wrong unit
+ */
+
+import {
+  convertToInches,
+  PACKAGING_LIMITS,
+  UNIT_TO_INCHES,
+  WEIGHT_UNIT_TO_POUNDS,
+  type Dimensions,
+  type LengthUnit,
+  type WeightUnit
+} from '../calculations/cuin';
+
+// ==========================================
+// TYPES AND CONSTANTS
+// ==========================================
+
+export type UnitKind = 'length' | 'weight';
+
+export interface UnitMagnitudeIssue {
+  message: string;
+  suggestedFix: string;
+}
+
+const LENGTH_UNIT_NAMES: Record<string, LengthUnit> = {
+  in: 'in', inch: 'in', inches: 'in', '"': 'in',
+  ft: 'ft', foot: 'ft', feet: 'ft', "'": 'ft',
+  cm: 'cm', centimeter: 'cm', centimeters: 'cm', centimetre: 'cm', centimetres: 'cm',
+  mm: 'mm', millimeter: 'mm', millimeters: 'mm', millimetre: 'mm', millimetres: 'mm',
+  m: 'm', meter: 'm', meters: 'm', metre: 'm', metres: 'm'
+};
+
+const WEIGHT_UNIT_NAMES: Record<string, WeightUnit> = {
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb', '#': 'lb',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  kg: 'kg', kgs: 'kg', kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kilos: 'kg',
+  g: 'g', gr: 'g', gram: 'g', grams: 'g'
+};
+
+// Heaviest parcel the carriers accept; heavier rows are usually oz or g typed as lb
+const MAX_PARCEL_WEIGHT_LB = 150;
+
+// ==========================================
+// UNIT PARSING
+// ==========================================
+
+/**
+ * Parse a unit cell such as "cm" or "Inches"; undefined when unrecognised
+ */
+export function parseLengthUnit(value?: string): LengthUnit | undefined {
+  return value ? LENGTH_UNIT_NAMES[value.toLowerCase().trim().replace(/\.$/, '')] : undefined;
+}
+
+/**
+ * Parse a weight unit cell such as "oz" or "kgs"; undefined when unrecognised
+ */
+export function parseWeightUnit(value?: string): WeightUnit | undefined {
+  return value ? WEIGHT_UNIT_NAMES[value.toLowerCase().trim().replace(/\.$/, '')] : undefined;
+}
+
+function headerTokens(header: string): string[] {
+  return header.toLowerCase().split(/[^a-z0-9]+/).filter(token => token !== '');
+}
+
+/**
+ * Unit named by a header suffix or token ("length_cm", "Ship Ctn L (cm)").
+ * The first token names the field itself, so it is never read as a unit.
+ */
+export function detectHeaderUnit(header: string, kind: UnitKind): LengthUnit | WeightUnit | undefined {
+  const parse = kind === 'length' ? parseLengthUnit : parseWeightUnit;
+  for (const token of headerTokens(header).slice(1).reverse()) {
+    const unit = parse(token);
+    if (unit) return unit;
+  }
+  return undefined;
+}
+
+/**
+ * Header with trailing unit tokens removed: "Weight (oz)" -> "weight"
+ */
+export function stripUnitSuffix(header: string): string {
+  const tokens = headerTokens(header);
+  while (tokens.length > 1 && (parseLengthUnit(tokens[tokens.length - 1]) || parseWeightUnit(tokens[tokens.length - 1]))) {
+    tokens.pop();
+  }
+  return tokens.join('_');
+}
+
+// ==========================================
+// MAGNITUDE CHECKS
+// ==========================================
+
+/**
+ * Flag dimensions or weights that only make sense in another unit,
+ * e.g. a 300 "in" phone case that was really measured in millimetres.
+ * Expects values already normalised to inches and pounds.
+ */
+export function checkUnitMagnitudes(
+  dimensions: { length: number; width: number; height: number } | null,
+  weightLb: number,
+  sourceUnits: { length?: LengthUnit; weight?: WeightUnit } = {}
+): UnitMagnitudeIssue[] {
+  const issues: UnitMagnitudeIssue[] = [];
+
+  if (dimensions) {
+    const longest = Math.max(dimensions.length, dimensions.width, dimensions.height);
+    if (longest > PACKAGING_LIMITS.MAX_DIMENSION) {
+      const current = sourceUnits.length || 'in';
+      const likely = (['cm', 'mm'] as LengthUnit[]).filter(unit =>
+        UNIT_TO_INCHES[unit] < UNIT_TO_INCHES[current] &&
+        longest * UNIT_TO_INCHES[unit] / UNIT_TO_INCHES[current] <= PACKAGING_LIMITS.MAX_DIMENSION
+      );
+      issues.push({
+        message: `Longest side of ${round(longest)} in exceeds ${PACKAGING_LIMITS.MAX_DIMENSION} in`,
+        suggestedFix: likely.length > 0
+          ? `Dimensions look like ${likely.join(' or ')}, not ${current}; set the unit column or header suffix`
+          : 'Check the dimension values and their unit'
+      });
+    }
+  }
+
+  if (weightLb > MAX_PARCEL_WEIGHT_LB) {
+    const current = sourceUnits.weight || 'lb';
+    const likely = (['oz', 'g'] as WeightUnit[]).filter(unit =>
+      WEIGHT_UNIT_TO_POUNDS[unit] < WEIGHT_UNIT_TO_POUNDS[current] &&
+      weightLb * WEIGHT_UNIT_TO_POUNDS[unit] / WEIGHT_UNIT_TO_POUNDS[current] <= MAX_PARCEL_WEIGHT_LB
+    );
+    issues.push({
+      message: `Weight of ${round(weightLb)} lb exceeds the ${MAX_PARCEL_WEIGHT_LB} lb parcel limit`,
+      suggestedFix: likely.length > 0
+        ? `Weight looks like ${likely.join(' or ')}, not ${current}; set the unit column or header suffix`
+        : 'Check the weight value and its unit'
+    });
+  }
+
+  return issues;
+}
+
+// ==========================================
+// NORMALISATION
+// ==========================================
+
+/**
+ * Dimensions in inches, keeping the Dimensions shape
+ */
+export function normalizeDimensions(dimensions: Dimensions): Dimensions {
+  return { ...convertToInches(dimensions), unit: 'in' };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
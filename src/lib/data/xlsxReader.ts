@@ -0,0 +1,426 @@
+/**
+ * Excel Workbook Reader
+ *
+ * Reads .xlsx workbooks in the browser without a CSV export step:
+ * - ZIP container parsing with the native DecompressionStream
+ * - Sheet list in workbook order for sheet selection
+ * - Typed cells: numbers, booleans, text and dates (via cell number formats)
+ * - Conversion to the string rows used by the CSV column-mapping path
+ */
+
+import { parseCSVRows } from './csvReader';
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export type CellValue = string | number | boolean | Date | null;
+
+export interface WorksheetData {
+  name: string;
+  rows: CellValue[][];
+}
+
+export interface WorkbookData {
+  sheets: WorksheetData[];
+  date1904: boolean;
+}
+
+export interface TabularFileContent {
+  rows: string[][];
+  csv: string;           // Rows as CSV text, for tools that post CSV to the backend
+  sheetNames: string[];  // Empty for delimited text files
+  sheetName?: string;    // Sheet the rows were read from
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const WORKBOOK_EXTENSIONS = ['.xlsx', '.xlsm'];
+
+// Built-in number format ids that display dates or times
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+// ==========================================
+// PUBLIC API
+// ==========================================
+
+/**
+ * Whether a file should be read as a workbook rather than as delimited text
+ */
+export function isWorkbookFile(file: { name: string }): boolean {
+  const name = file.name.toLowerCase();
+  return WORKBOOK_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
+/**
+ * Read every worksheet in an .xlsx workbook with typed cell values
+ */
+export async function readWorkbook(source: Blob | ArrayBuffer): Promise<WorkbookData> {
+  const buffer = source instanceof ArrayBuffer ? source : await source.arrayBuffer();
+  const archive = new ZipArchive(new Uint8Array(buffer));
+
+  const workbookXml = await archive.readText('xl/workbook.xml');
+  if (!workbookXml) {
+    throw new Error('File is not an Excel workbook (.xlsx)');
+  }
+
+  const relationships = parseRelationships(await archive.readText('xl/_rels/workbook.xml.rels') || '');
+  const sharedStrings = parseSharedStrings(await archive.readText('xl/sharedStrings.xml') || '');
+  const dateStyles = parseDateStyles(await archive.readText('xl/styles.xml') || '');
+  const workbookProperties = findTags(workbookXml, 'workbookPr')[0] || {};
+  const date1904 = workbookProperties.date1904 === '1' || workbookProperties.date1904 === 'true';
+
+  const sheets: WorksheetData[] = [];
+  for (const sheet of findTags(workbookXml, 'sheet')) {
+    const target = relationships[sheet['r:id']];
+    if (!target) continue;
+
+    const sheetXml = await archive.readText(resolveTarget(target));
+    if (sheetXml === null) continue;
+
+    sheets.push({
+      name: decodeXml(sheet.name || `Sheet${sheets.length + 1}`),
+      rows: parseWorksheet(sheetXml, sharedStrings, dateStyles, date1904)
+    });
+  }
+
+  if (sheets.length === 0) {
+    throw new Error('Workbook does not contain any worksheets');
+  }
+
+  return { sheets, date1904 };
+}
+
+/**
+ * Read an uploaded CSV or workbook into rows. Workbooks use the named sheet,
+ * or the first sheet with data when no sheet is given.
+ */
+export async function readTabularFile(file: File, sheetName?: string): Promise<TabularFileContent> {
+  if (!isWorkbookFile(file)) {
+    const csv = await file.text();
+    return { rows: parseCSVRows(csv), csv, sheetNames: [] };
+  }
+
+  const workbook = await readWorkbook(file);
+  const sheet = workbook.sheets.find(candidate => candidate.name === sheetName) ||
+    workbook.sheets.find(candidate => worksheetToRows(candidate).length > 0) ||
+    workbook.sheets[0];
+  const rows = worksheetToRows(sheet);
+
+  return {
+    rows,
+    csv: rowsToCSV(rows),
+    sheetNames: workbook.sheets.map(candidate => candidate.name),
+    sheetName: sheet.name
+  };
+}
+
+/**
+ * Format a typed cell the way the CSV column-mapping path expects:
+ * dates as ISO strings, numbers without binary rounding noise
+ */
+export function formatCellValue(value: CellValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19);
+  }
+  if (typeof value === 'number') return String(Number(value.toPrecision(15)));
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return value.trim();
+}
+
+/**
+ * Convert worksheet rows to string rows, dropping blank rows
+ */
+export function worksheetToRows(sheet: WorksheetData): string[][] {
+  return sheet.rows
+    .map(row => row.map(formatCellValue))
+    .filter(row => row.some(cell => cell !== ''));
+}
+
+/**
+ * Serialise string rows as RFC 4180 CSV for APIs that take CSV text
+ */
+export function rowsToCSV(rows: string[][]): string {
+  return rows
+    .map(row => row.map(cell => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join(','))
+    .join('\n');
+}
+
+// ==========================================
+// ZIP CONTAINER
+// ==========================================
+
+class ZipArchive {
+  private data: Uint8Array;
+  private view: DataView;
+  private entries = new Map<string, ZipEntry>();
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    this.readCentralDirectory();
+  }
+
+  async readText(name: string): Promise<string | null> {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+
+    const nameLength = this.view.getUint16(entry.localHeaderOffset + 26, true);
+    const extraLength = this.view.getUint16(entry.localHeaderOffset + 28, true);
+    const start = entry.localHeaderOffset + 30 + nameLength + extraLength;
+    const compressed = this.data.subarray(start, start + entry.compressedSize);
+
+    let bytes: Uint8Array;
+    if (entry.method === 0) {
+      bytes = compressed;
+    } else if (entry.method === 8) {
+      bytes = await inflateRaw(compressed);
+    } else {
+      throw new Error(`Unsupported compression method ${entry.method} in workbook`);
+    }
+
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+
+  private readCentralDirectory(): void {
+    // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+    let endOffset = -1;
+    for (let offset = this.data.length - 22; offset >= Math.max(0, this.data.length - 22 - 0xffff); offset--) {
+      if (this.view.getUint32(offset, true) === 0x06054b50) {
+        endOffset = offset;
+        break;
+      }
+    }
+    if (endOffset === -1) {
+      throw new Error('File is not an Excel workbook (.xlsx)');
+    }
+
+    const entryCount = this.view.getUint16(endOffset + 10, true);
+    let offset = this.view.getUint32(endOffset + 16, true);
+    const decoder = new TextDecoder('utf-8');
+
+    for (let i = 0; i < entryCount; i++) {
+      if (this.view.getUint32(offset, true) !== 0x02014b50) break;
+
+      const nameLength = this.view.getUint16(offset + 28, true);
+      const extraLength = this.view.getUint16(offset + 30, true);
+      const commentLength = this.view.getUint16(offset + 32, true);
+      const name = decoder.decode(this.data.subarray(offset + 46, offset + 46 + nameLength));
+
+      this.entries.set(name.replace(/^\//, ''), {
+        name,
+        method: this.view.getUint16(offset + 10, true),
+        compressedSize: this.view.getUint32(offset + 20, true),
+        localHeaderOffset: this.view.getUint32(offset + 42, true)
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// ==========================================
+// XML HELPERS
+// ==========================================
+
+/**
+ * Attributes of every <tag ...> occurrence (namespace-prefixed tags included)
+ */
+function findTags(xml: string, tag: string): Array<Record<string, string>> {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b([^>]*?)\\/?>`, 'g');
+  const tags: Array<Record<string, string>> = [];
+  for (const match of xml.matchAll(pattern)) {
+    tags.push(parseAttributes(match[1]));
+  }
+  return tags;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-f]+);/gi, (entity, code: string) => {
+      switch (code.toLowerCase()) {
+        case 'lt': return '<';
+        case 'gt': return '>';
+        case 'amp': return '&';
+        case 'quot': return '"';
+        case 'apos': return "'";
+        default:
+          return String.fromCodePoint(code[1].toLowerCase() === 'x'
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10));
+      }
+    })
+    // OOXML escapes control characters as _xHHHH_
+    .replace(/_x([0-9a-f]{4})_/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/**
+ * Concatenated text of all <t> runs, ignoring phonetic hints
+ */
+function extractText(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  let text = '';
+  for (const match of withoutPhonetics.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)) {
+    text += match[1];
+  }
+  return decodeXml(text);
+}
+
+// ==========================================
+// WORKBOOK PARTS
+// ==========================================
+
+function parseRelationships(xml: string): Record<string, string> {
+  const relationships: Record<string, string> = {};
+  for (const relationship of findTags(xml, 'Relationship')) {
+    if (relationship.Id && relationship.Target) {
+      relationships[relationship.Id] = relationship.Target;
+    }
+  }
+  return relationships;
+}
+
+function resolveTarget(target: string): string {
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+function parseSharedStrings(xml: string): string[] {
+  return [...xml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g)].map(match => extractText(match[1]));
+}
+
+/**
+ * Indexes of cell styles (the "s" attribute) whose number format shows a date
+ */
+function parseDateStyles(xml: string): Set<number> {
+  const customDateFormats = new Set<number>();
+  for (const format of findTags(xml, 'numFmt')) {
+    if (isDateFormatCode(decodeXml(format.formatCode || ''))) {
+      customDateFormats.add(Number(format.numFmtId));
+    }
+  }
+
+  const dateStyles = new Set<number>();
+  const cellFormats = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/);
+  if (!cellFormats) return dateStyles;
+
+  findTags(cellFormats[1], 'xf').forEach((format, index) => {
+    const formatId = Number(format.numFmtId || 0);
+    if (BUILT_IN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+      dateStyles.add(index);
+    }
+  });
+  return dateStyles;
+}
+
+function isDateFormatCode(formatCode: string): boolean {
+  const stripped = formatCode
+    .split(';')[0]
+    .replace(/"[^"]*"/g, '')   // Literal text
+    .replace(/\[[^\]]*\]/g, '') // Colours, locales and conditions
+    .replace(/\\./g, '');      // Escaped characters
+  return /[dmyhs]/i.test(stripped);
+}
+
+// ==========================================
+// WORKSHEETS
+// ==========================================
+
+function parseWorksheet(
+  xml: string,
+  sharedStrings: string[],
+  dateStyles: Set<number>,
+  date1904: boolean
+): CellValue[][] {
+  const rows: CellValue[][] = [];
+  const sheetData = xml.match(/<sheetData\b[^>]*>([\s\S]*?)<\/sheetData>/);
+  if (!sheetData) return rows;
+
+  for (const rowMatch of sheetData[1].matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowAttributes = parseAttributes(rowMatch[1]);
+    const rowIndex = rowAttributes.r ? Number(rowAttributes.r) - 1 : rows.length;
+    const row: CellValue[] = [];
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = parseAttributes(cellMatch[1]);
+      const columnIndex = attributes.r ? getColumnIndex(attributes.r) : row.length;
+      while (row.length < columnIndex) row.push(null);
+      row[columnIndex] = parseCell(attributes, cellMatch[2] || '', sharedStrings, dateStyles, date1904);
+    }
+
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = row;
+  }
+
+  return rows;
+}
+
+function getColumnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function parseCell(
+  attributes: Record<string, string>,
+  content: string,
+  sharedStrings: string[],
+  dateStyles: Set<number>,
+  date1904: boolean
+): CellValue {
+  const type = attributes.t || 'n';
+  if (type === 'inlineStr') return extractText(content);
+
+  const rawValue = content.match(/<v\b[^>]*>([\s\S]*?)<\/v>/)?.[1];
+  if (rawValue === undefined) return null;
+  const value = decodeXml(rawValue);
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'str':
+      return value;
+    case 'b':
+      return value === '1';
+    case 'e':
+      return null; // #N/A, #DIV/0! and other errors
+    case 'd':
+      return new Date(value);
+    default: {
+      const number = Number(value);
+      if (isNaN(number)) return value;
+      return dateStyles.has(Number(attributes.s || 0)) ? excelSerialToDate(number, date1904) : number;
+    }
+  }
+}
+
+/**
+ * Convert an Excel date serial to a UTC date. The 1900 system counts the
+ * non-existent 29 Feb 1900, so serials before 1 Mar 1900 are shifted a day.
+ */
+function excelSerialToDate(serial: number, date1904: boolean): Date {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const days = !date1904 && serial < 61 ? serial + 1 : serial;
+  return new Date(epoch + Math.round(days * 86400000));
+}
@@ -16,6 +16,57 @@ interface DemandPlanResults {
   insights: string[];
 }
 
+interface PurchaseOrderExport {
+  poNumber: string;
+  supplier: string;
+  status: string;
+  requestedDeliveryDate: string;
+  totalCost: number;
+  lines: Array<{
+    packageType: string;
+    quantity: number;
+    unitPrice: number;
+    extendedCost: number;
+    requestedDeliveryDate: string;
+  }>;
+}
+
+// Quote a text field for CSV, doubling any embedded quotes (RFC 4180)
+const csvText = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+// Escape user-entered text for the printable HTML documents
+const escapeHTML = (value: string): string =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char] as string));
+
+// Download CSV rows as a file
+function downloadCSV(rows: string[], filename: string): void {
+  const blob = new Blob([rows.join('\n')], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+// Open an HTML report in a print window so it can be saved as PDF
+function printHTML(html: string): void {
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+    
+    setTimeout(() => {
+      printWindow.print();
+      printWindow.close();
+    }, 250);
+  }
+}
+
 // Export demand planning data to CSV
 export function exportToCSV(
   results: DemandPlanResults,
@@ -39,7 +90,7 @@ export function exportToCSV(
     
     // Data rows
     ...results.results.map(item => [
-      `"${item.packageType}"`,
+      csvText(item.packageType),
       item.usagePercent.toFixed(2),
       item.baseQty.toString(),
       item.safetyStockPercent.toFixed(1),
@@ -60,18 +111,7 @@ export function exportToCSV(
   ];
 
   // Create and download file
-  const csvContent = csvData.join('\n');
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  const url = URL.createObjectURL(blob);
-  
-  link.setAttribute('href', url);
-  link.setAttribute('download', `demand-plan-${forecastPeriod.replace(/\s+/g, '-')}-${Date.now()}.csv`);
-  link.style.visibility = 'hidden';
-  
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+  downloadCSV(csvData, `demand-plan-${forecastPeriod.replace(/\s+/g, '-')}-${Date.now()}.csv`);
 }
 
 // Export demand planning report to PDF
@@ -166,7 +206,7 @@ export async function exportToPDF(
         <tbody>
           ${results.results.map(item => `
             <tr>
-              <td><strong>${item.packageType}</strong></td>
+              <td><strong>${escapeHTML(item.packageType)}</strong></td>
               <td>${item.usagePercent.toFixed(1)}%</td>
               <td>${item.baseQty.toLocaleString()}</td>
               <td>${item.safetyStockPercent.toFixed(1)}%</td>
@@ -194,14 +234,128 @@ export async function exportToPDF(
   `;
 
   // Create and download PDF
-  const printWindow = window.open('', '_blank');
-  if (printWindow) {
-    printWindow.document.write(html);
-    printWindow.document.close();
-    
-    setTimeout(() => {
-      printWindow.print();
-      printWindow.close();
-    }, 250);
-  }
+  printHTML(html);
+}
+
+// Export purchase orders to CSV, one row per line item
+export function exportPurchaseOrdersToCSV(orders: PurchaseOrderExport[]): void {
+  const headers = [
+    'PO Number',
+    'Supplier',
+    'Status',
+    'Package Type',
+    'Quantity',
+    'Unit Price ($)',
+    'Extended Cost ($)',
+    'Requested Delivery'
+  ];
+
+  const csvData = [
+    headers.join(','),
+    ...orders.flatMap(order => order.lines.map(line => [
+      order.poNumber,
+      csvText(order.supplier),
+      order.status,
+      csvText(line.packageType),
+      line.quantity.toString(),
+      line.unitPrice.toFixed(4),
+      line.extendedCost.toFixed(2),
+      line.requestedDeliveryDate
+    ].join(',')))
+  ];
+
+  const filename = orders.length === 1
+    ? `${orders[0].poNumber}.csv`
+    : `purchase-orders-${Date.now()}.csv`;
+  downloadCSV(csvData, filename);
+}
+
+// Export a purchase order document to PDF
+export async function exportPurchaseOrderToPDF(order: PurchaseOrderExport): Promise<void> {
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Purchase Order ${order.poNumber}</title>
+      <style>
+        body { font-family: Arial, sans-serif; margin: 40px; line-height: 1.4; color: #333; }
+        .header { display: flex; justify-content: space-between; border-bottom: 3px solid #f59e0b; padding-bottom: 20px; margin-bottom: 30px; }
+        .header h1 { color: #f59e0b; margin: 0; font-size: 28px; }
+        .header p { color: #666; margin: 5px 0; }
+        .details { display: grid; grid-template-columns: repeat(3, 1fr); gap: 15px; margin: 20px 0; }
+        .detail { background: #fef3c7; padding: 15px; border-radius: 6px; }
+        .detail-label { font-size: 12px; color: #666; text-transform: uppercase; }
+        .detail-value { font-size: 18px; font-weight: bold; margin-top: 5px; }
+        table { width: 100%; border-collapse: collapse; margin: 20px 0; }
+        th, td { border: 1px solid #ddd; padding: 12px; text-align: left; }
+        th { background-color: #f8f9fa; font-weight: bold; color: #333; }
+        .number { text-align: right; }
+        .total td { font-weight: bold; background: #f8f9fa; }
+        .footer { text-align: center; margin-top: 40px; padding-top: 20px; border-top: 1px solid #ddd; color: #666; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div>
+          <h1>Purchase Order</h1>
+          <p>${order.poNumber}</p>
+        </div>
+        <div>
+          <p>Issued: ${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}</p>
+          <p>Status: ${order.status.toUpperCase()}</p>
+        </div>
+      </div>
+
+      <div class="details">
+        <div class="detail">
+          <div class="detail-label">Supplier</div>
+          <div class="detail-value">${escapeHTML(order.supplier)}</div>
+        </div>
+        <div class="detail">
+          <div class="detail-label">Requested Delivery</div>
+          <div class="detail-value">${order.requestedDeliveryDate}</div>
+        </div>
+        <div class="detail">
+          <div class="detail-label">Order Total</div>
+          <div class="detail-value">$${order.totalCost.toFixed(2)}</div>
+        </div>
+      </div>
+
+      <table>
+        <thead>
+          <tr>
+            <th>Package Type</th>
+            <th class="number">Quantity</th>
+            <th class="number">Unit Price</th>
+            <th class="number">Extended Cost</th>
+            <th>Requested Delivery</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${order.lines.map(line => `
+            <tr>
+              <td><strong>${escapeHTML(line.packageType)}</strong></td>
+              <td class="number">${line.quantity.toLocaleString()}</td>
+              <td class="number">$${line.unitPrice.toFixed(4)}</td>
+              <td class="number">$${line.extendedCost.toFixed(2)}</td>
+              <td>${line.requestedDeliveryDate}</td>
+            </tr>
+          `).join('')}
+          <tr class="total">
+            <td colspan="3">Total</td>
+            <td class="number">$${order.totalCost.toFixed(2)}</td>
+            <td></td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div class="footer">
+        <p>Generated by QuantiPackAI Packaging Demand Planner</p>
+      </div>
+    </body>
+    </html>
+  `;
+
+  printHTML(html);
 }
\ No newline at end of file
@@ -0,0 +1,130 @@
+/**
+ * LLM Provider Tests
+ *
+ * Test suite for retries, schema validation and the fixture-backed mock provider
+ */
+
+import {
+  createLLMClient,
+  createMockProvider,
+  DEFAULT_MOCK_FIXTURES,
+  LLMError,
+  validateJsonSchema,
+  type JsonSchema,
+  type LLMProvider
+} from '../index';
+
+const noSleep = async () => {};
+
+const ESTIMATES_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['estimates'],
+  properties: {
+    estimates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['product', 'length'],
+        properties: { product: { type: 'string' }, length: { type: 'number', minimum: 0 } }
+      }
+    }
+  }
+};
+
+// Provider that answers from a script, one entry per call
+const scriptedProvider = (script: Array<string | LLMError>): LLMProvider & { calls: number } => {
+  const provider = {
+    name: 'Scripted',
+    model: 'scripted-1',
+    calls: 0,
+    async complete() {
+      const next = script[Math.min(provider.calls++, script.length - 1)];
+      if (next instanceof LLMError) throw next;
+      return { text: next };
+    }
+  };
+  return provider;
+};
+
+// ==========================================
+// CLIENT TESTS
+// ==========================================
+
+describe('LLM Client', () => {
+  test('retries rate limits and server errors, then succeeds', async () => {
+    const provider = scriptedProvider([
+      new LLMError('slow down', 'rate_limit', 429),
+      new LLMError('oops', 'server', 503),
+      'done'
+    ]);
+    const client = createLLMClient(provider, { maxRetries: 2, sleep: noSleep });
+
+    const response = await client.complete({ messages: [{ role: 'user', content: 'hi' }] });
+
+    expect(response.text).toBe('done');
+    expect(response.attempts).toBe(3);
+  });
+
+  test('does not retry authentication errors', async () => {
+    const provider = scriptedProvider([new LLMError('bad key', 'auth', 401), 'never']);
+    const client = createLLMClient(provider, { maxRetries: 3, sleep: noSleep });
+
+    const error = await client.complete({ messages: [{ role: 'user', content: 'hi' }] }).catch(e => e);
+
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error.kind).toBe('auth');
+    expect(provider.calls).toBe(1);
+  });
+
+  test('retries answers that fail the schema and returns parsed JSON', async () => {
+    const provider = scriptedProvider([
+      '{"estimates": [{"product": "Mug", "length": "four"}]}',
+      '```json\n{"estimates": [{"product": "Mug", "length": 4}]}\n```'
+    ]);
+    const client = createLLMClient(provider, { maxRetries: 1, sleep: noSleep });
+
+    const response = await client.complete({ messages: [{ role: 'user', content: 'hi' }], schema: ESTIMATES_SCHEMA });
+
+    expect(response.json).toEqual({ estimates: [{ product: 'Mug', length: 4 }] });
+    expect(validateJsonSchema({ estimates: [{ product: 'Mug', length: -1 }] }, ESTIMATES_SCHEMA))
+      .toEqual(['$.estimates[0].length: must be at least 0']);
+  });
+});
+
+// ==========================================
+// MOCK PROVIDER TESTS
+// ==========================================
+
+describe('Mock Provider', () => {
+  test('answers spec prompts deterministically within the bounding dimensions', async () => {
+    const provider = createMockProvider(DEFAULT_MOCK_FIXTURES);
+    const client = createLLMClient(provider, { sleep: noSleep });
+    const prompt = [
+      'PRODUCTS TO ANALYZE:',
+      '- Water Bottle (Drinkware)',
+      '- Desk Lamp',
+      '',
+      'DIMENSIONAL CONSTRAINTS:',
+      '- Minimum: 2" × 2" × 1"',
+      '- Maximum: 10" × 8" × 6"'
+    ].join('\n');
+
+    const first = await client.complete({ messages: [{ role: 'user', content: prompt }], schema: ESTIMATES_SCHEMA });
+    const second = await client.complete({ messages: [{ role: 'user', content: prompt }], schema: ESTIMATES_SCHEMA });
+    const estimates = (first.json as { estimates: Array<{ product: string; length: number; height: number }> }).estimates;
+
+    expect(second.text).toBe(first.text);
+    expect(estimates.map(estimate => estimate.product)).toEqual(['Water Bottle', 'Desk Lamp']);
+    expect(estimates.every(estimate => estimate.length >= 2 && estimate.length <= 10 && estimate.height <= 6)).toBe(true);
+    expect(provider.calls[0].fixture).toBe('spec-estimates');
+  });
+
+  test('covers every metric below 8.5 in design recommendations', async () => {
+    const provider = createMockProvider(DEFAULT_MOCK_FIXTURES);
+    const { text } = await provider.complete({
+      messages: [{ role: 'user', content: 'METRICS REQUIRING IMPROVEMENT (scores below 8.5):\nbranding: 6/10\ncolor: 7.5/10\n\nYOUR PDP ANALYSIS:' }]
+    }, new AbortController().signal);
+
+    expect(JSON.parse(text).priority_improvements.map((item: { metric: string }) => item.metric)).toEqual(['branding', 'color']);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Mock Fixtures
+ *
+ * Default offline answers for each AI feature. Answers are derived from the
+ * prompt itself (product names, bounding dimensions, scores) so they look
+ * plausible and stay the same from run to run.
+ */
+
+import { seededFraction, type MockFixture } from './mockProvider';
+
+const PDP_METRICS = [
+  'hierarchy', 'branding', 'typography', 'color', 'imagery',
+  'messaging', 'simplicity', 'balance', 'shelf_performance', 'consistency'
+];
+
+const round = (value: number, places: number = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Half-point score between 5 and 9.5
+const mockScore = (seed: string) => Math.round((5 + seededFraction(seed) * 4.5) * 2) / 2;
+
+const parseBounds = (prompt: string, label: string): [number, number, number] | null => {
+  const match = prompt.match(new RegExp(`${label}:\\s*([\\d.]+)"\\s*×\\s*([\\d.]+)"\\s*×\\s*([\\d.]+)"`));
+  return match ? [parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3])] : null;
+};
+
+// ==========================================
+// SPEC GENERATOR
+// ==========================================
+
+const specEstimates: MockFixture = {
+  name: 'spec-estimates',
+  match: /PRODUCTS TO ANALYZE:/,
+  respond: (prompt) => {
+    const section = prompt.split('PRODUCTS TO ANALYZE:')[1]?.split(/\n\s*\n/)[0] || '';
+    const products = section
+      .split('\n')
+      .filter(line => line.trim().startsWith('- '))
+      .map(line => line.trim().slice(2).replace(/\s\([^)]*\)$/, ''));
+
+    const min = parseBounds(prompt, 'Minimum') || [1, 1, 1];
+    const max = parseBounds(prompt, 'Maximum') || [12, 12, 12];
+    const levels = ['HIGH', 'MEDIUM', 'LOW'];
+
+    return {
+      estimates: products.map(product => {
+        const [length, width, height] = [0, 1, 2].map(axis =>
+          round(min[axis] + seededFraction(`${product}:${axis}`) * Math.max(0, max[axis] - min[axis]))
+        );
+        const level = (aspect: string) => levels[Math.floor(seededFraction(`${product}:${aspect}`) * levels.length)];
+        const fragile = /glass|ceramic|mug|lamp|mirror|bottle/i.test(product);
+        return {
+          product,
+          length,
+          width,
+          height,
+          confidence: level('confidence'),
+          weight: round(0.2 + (length * width * height) / 300, 2),
+          weightUnit: 'lb',
+          weightConfidence: level('weight'),
+          fragile,
+          orientation: /bottle|liquid|plant/i.test(product) ? 'this_side_up' : 'any',
+          fragilityConfidence: level('fragility'),
+          packagingClass: fragile ? 'cushioned_box' : 'standard_box',
+          packagingConfidence: level('packaging'),
+          reasoning: 'Mock estimate derived from the product name'
+        };
+      })
+    };
+  }
+};
+
+// ==========================================
+// DESIGN ANALYZER
+// ==========================================
+
+const pdpAnalysis: MockFixture = {
+  name: 'pdp-analysis',
+  match: /EVALUATION CRITERIA/,
+  respond: (prompt) => {
+    const image = prompt.match(/\[image:(\d+)\]/)?.[1] || 'no-image';
+    return {
+      scores: Object.fromEntries(PDP_METRICS.map(metric => [metric, mockScore(`${image}:${metric}`)])),
+      analysis: Object.fromEntries(PDP_METRICS.map(metric => [metric, `Mock assessment of ${metric.replace('_', ' ')}.`])),
+      visual_elements: {
+        logo_position: 'Top center',
+        primary_colors: ['white', 'navy', 'orange'],
+        text_hierarchy: 'Brand, product name, then key claim',
+        featured_claims: ['Mock claim'],
+        design_style: 'Clean and modern'
+      },
+      strengths: ['Clear brand block'],
+      risks: ['Secondary claims compete for attention'],
+      recommendations: ['Enlarge the primary claim']
+    };
+  }
+};
+
+const pdpRecommendations: MockFixture = {
+  name: 'pdp-recommendations',
+  match: /METRICS REQUIRING IMPROVEMENT/,
+  respond: (prompt) => {
+    const section = prompt.split('METRICS REQUIRING IMPROVEMENT (scores below 8.5):')[1]?.split(/\n\s*\n/)[0] || '';
+    const improvements = [...section.matchAll(/^(\w+): ([\d.]+)\/10$/gm)].map(([, metric, score]) => ({
+      metric,
+      current_score: parseFloat(score),
+      target_score: Math.max(parseFloat(score) + 1.5, 8.5),
+      recommendation: `Mock recommendation for ${metric.replace('_', ' ')}`,
+      example: 'Mock example'
+    }));
+
+    return {
+      priority_improvements: improvements,
+      overall_strategy: 'Mock strategy: simplify the front panel around one hero claim.',
+      quick_wins: ['Increase logo contrast', 'Remove a secondary badge', 'Enlarge the product name'],
+      competitive_advantages: ['Distinctive color block']
+    };
+  }
+};
+
+const pdpMetricRecommendation: MockFixture = {
+  name: 'pdp-metric-recommendation',
+  match: /METRIC TO IMPROVE:/,
+  respond: (prompt) => {
+    const metric = prompt.match(/METRIC TO IMPROVE: (\w+)/)?.[1] || 'hierarchy';
+    const score = parseFloat(prompt.match(/CURRENT SCORE: ([\d.]+)/)?.[1] || '6');
+    return {
+      metric,
+      current_score: score,
+      target_score: Math.max(score + 1.5, 8.5),
+      recommendation: `Mock recommendation for ${metric.replace('_', ' ')}`,
+      example: 'Mock example'
+    };
+  }
+};
+
+// ==========================================
+// GENERAL
+// ==========================================
+
+const connectivityCheck: MockFixture = {
+  name: 'connectivity-check',
+  match: /Say "?test"?/,
+  respond: () => 'test'
+};
+
+// Catch-all for free-text questions (AI Assistant)
+const assistantAnswer: MockFixture = {
+  name: 'assistant-answer',
+  match: /[\s\S]*/,
+  respond: (prompt) => {
+    const question = prompt.trim().split('\n').pop() || '';
+    return `Mock answer to: "${question.substring(0, 80)}". Configure an LLM provider for real responses.`;
+  }
+};
+
+export const DEFAULT_MOCK_FIXTURES: MockFixture[] = [
+  specEstimates,
+  pdpAnalysis,
+  pdpRecommendations,
+  pdpMetricRecommendation,
+  connectivityCheck,
+  assistantAnswer
+];
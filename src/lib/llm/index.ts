@@ -0,0 +1,78 @@
+/**
+ * LLM Clients per Feature
+ *
+ * Resolves the provider, model and request policy for each AI feature from
+ * the environment (process.env in Convex actions):
+ * - LLM_PROVIDER=mock answers every feature from local fixtures
+ * - LLM_MODEL_<FEATURE> overrides a feature's model (e.g. LLM_MODEL_ASSISTANT)
+ *
+ * Clients are cached per feature and configuration so request spacing
+ * applies across calls.
+ */
+
+import { createLLMClient, type LLMClient, type LLMClientOptions } from './provider';
+import { createOpenAICompatibleProvider } from './openaiProvider';
+import { createMockProvider } from './mockProvider';
+import { DEFAULT_MOCK_FIXTURES } from './fixtures';
+
+export * from './provider';
+export { createOpenAICompatibleProvider } from './openaiProvider';
+export { createMockProvider, type MockFixture } from './mockProvider';
+export { DEFAULT_MOCK_FIXTURES } from './fixtures';
+
+export type LLMFeature = 'spec_generator' | 'pdp_analyzer' | 'assistant';
+
+interface FeatureConfig {
+  providerName: string;
+  baseUrl: string;
+  apiKeyEnv: string;
+  model: string;
+  options: LLMClientOptions;
+}
+
+const FEATURE_CONFIG: Record<LLMFeature, FeatureConfig> = {
+  spec_generator: {
+    providerName: 'OpenAI',
+    baseUrl: 'https://api.openai.com/v1',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    model: 'gpt-4o-mini',
+    options: { maxRetries: 1, timeoutMs: 25000, minIntervalMs: 200, baseDelayMs: 2000 }
+  },
+  pdp_analyzer: {
+    providerName: 'Gemini',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai',
+    apiKeyEnv: 'GEMINI_API_KEY',
+    model: 'gemini-2.0-flash-exp',
+    options: { maxRetries: 2, timeoutMs: 30000, minIntervalMs: 1500, baseDelayMs: 2000 }
+  },
+  assistant: {
+    providerName: 'OpenAI',
+    baseUrl: 'https://api.openai.com/v1',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    model: 'gpt-4o',
+    options: { maxRetries: 1, timeoutMs: 30000 }
+  }
+};
+
+const clients = new Map<string, LLMClient>();
+
+export function getLLMClient(feature: LLMFeature, env: Record<string, string | undefined>): LLMClient {
+  const config = FEATURE_CONFIG[feature];
+  const model = env[`LLM_MODEL_${feature.toUpperCase()}`] || config.model;
+  const cacheKey = [feature, env.LLM_PROVIDER, model, env[config.apiKeyEnv]].join('|');
+  const existing = clients.get(cacheKey);
+  if (existing) return existing;
+
+  const provider = env.LLM_PROVIDER === 'mock'
+    ? createMockProvider(DEFAULT_MOCK_FIXTURES, `mock-${model}`)
+    : createOpenAICompatibleProvider({
+      name: config.providerName,
+      baseUrl: config.baseUrl,
+      apiKey: env[config.apiKeyEnv],
+      model
+    });
+
+  const client = createLLMClient(provider, config.options);
+  clients.set(cacheKey, client);
+  return client;
+}
@@ -0,0 +1,80 @@
+/**
+ * Mock Provider
+ *
+ * Deterministic, fixture-backed stand-in for a real model so the Spec
+ * Generator, Design Analyzer and AI Assistant can be developed and tested
+ * offline. The first fixture whose pattern matches the prompt answers;
+ * identical requests always get identical answers.
+ */
+
+import { LLMError, type LLMProvider, type LLMRequest } from './provider';
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export interface MockFixture {
+  name: string;
+  match: RegExp; // Tested against the system prompt and all message text
+  respond: (prompt: string, request: LLMRequest) => unknown; // Strings are returned as-is, anything else as JSON
+}
+
+export interface MockProvider extends LLMProvider {
+  calls: Array<{ fixture: string; request: LLMRequest }>;
+}
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/**
+ * Stable 32-bit FNV-1a hash, used to derive repeatable values from prompts
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Repeatable number in [0, 1) for a seed string
+ */
+export function seededFraction(seed: string): number {
+  return hashString(seed) / 0x100000000;
+}
+
+const promptText = (request: LLMRequest): string =>
+  [
+    request.system || '',
+    ...request.messages.flatMap(message => typeof message.content === 'string'
+      ? [message.content]
+      : message.content.map(part => part.type === 'text' ? part.text : `[image:${hashString(part.data)}]`))
+  ].join('\n');
+
+// ==========================================
+// PROVIDER
+// ==========================================
+
+export function createMockProvider(fixtures: MockFixture[], model: string = 'mock'): MockProvider {
+  const calls: MockProvider['calls'] = [];
+
+  return {
+    name: 'Mock',
+    model,
+    calls,
+    async complete(request) {
+      const prompt = promptText(request);
+      const fixture = fixtures.find(candidate => candidate.match.test(prompt));
+      if (!fixture) {
+        throw new LLMError('No mock fixture matches this request', 'bad_request');
+      }
+
+      calls.push({ fixture: fixture.name, request });
+      const answer = fixture.respond(prompt, request);
+      return { text: typeof answer === 'string' ? answer : JSON.stringify(answer) };
+    }
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Chat Completions over HTTP for OpenAI and any service exposing the same
+ * API (e.g. Gemini's OpenAI compatibility endpoint). Images are sent as
+ * base64 data URLs.
+ */
+
+import { LLMError, llmErrorFromStatus, type LLMMessage, type LLMProvider } from './provider';
+
+export interface OpenAICompatibleConfig {
+  name: string;    // Shown in logs and errors, e.g. "OpenAI"
+  baseUrl: string; // e.g. https://api.openai.com/v1
+  apiKey: string | undefined;
+  model: string;
+}
+
+const toChatContent = (content: LLMMessage['content']) =>
+  typeof content === 'string'
+    ? content
+    : content.map(part => part.type === 'text'
+      ? { type: 'text', text: part.text }
+      : { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } });
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  return {
+    name: config.name,
+    model: config.model,
+    async complete(request, signal) {
+      if (!config.apiKey) {
+        throw new LLMError(`${config.name} API key not configured`, 'config');
+      }
+
+      const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${config.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [
+            ...(request.system ? [{ role: 'system', content: request.system }] : []),
+            ...request.messages.map(message => ({ role: message.role, content: toChatContent(message.content) }))
+          ],
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+          ...(request.json ? { response_format: { type: 'json_object' } } : {})
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        const retryAfter = parseFloat(response.headers.get('retry-after') || '');
+        throw llmErrorFromStatus(config.name, response.status, body, isNaN(retryAfter) ? undefined : retryAfter * 1000);
+      }
+
+      const data = await response.json();
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== 'string' || text.length === 0) {
+        throw new LLMError(`${config.name} returned an empty response`, 'invalid_response');
+      }
+      return { text };
+    }
+  };
+}
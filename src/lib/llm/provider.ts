@@ -0,0 +1,245 @@
+/**
+ * LLM Provider Layer
+ *
+ * Shared request handling for every feature that calls a language model:
+ * - Provider interface implemented by the HTTP and mock providers
+ * - Retries with exponential backoff for rate limits, server errors and timeouts
+ * - Minimum spacing between requests to stay under provider rate limits
+ * - JSON responses validated against a JSON schema before they reach callers
+ */
+
+// ==========================================
+// TYPES AND INTERFACES
+// ==========================================
+
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string }; // data is base64
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string | LLMContentPart[];
+}
+
+/**
+ * Subset of JSON Schema understood by validateJsonSchema
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minimum?: number;
+  minItems?: number;
+}
+
+export interface LLMRequest {
+  system?: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;      // Ask the provider for a JSON object response
+  schema?: JsonSchema; // Validate the parsed JSON (implies json)
+  label?: string;      // Used in logs and error messages
+}
+
+export interface LLMResponse {
+  text: string;
+  json?: unknown; // Parsed and validated when the request had a schema
+  model: string;
+  attempts: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(request: LLMRequest, signal: AbortSignal): Promise<{ text: string }>;
+}
+
+export interface LLMClientOptions {
+  maxRetries?: number;    // Retries after the first attempt
+  timeoutMs?: number;     // Per attempt
+  minIntervalMs?: number; // Minimum gap between request starts
+  baseDelayMs?: number;   // First backoff delay, doubled per retry
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface LLMClient {
+  provider: string;
+  model: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export type LLMErrorKind = 'config' | 'auth' | 'rate_limit' | 'timeout' | 'server' | 'bad_request' | 'invalid_response';
+
+const RETRYABLE_KINDS: LLMErrorKind[] = ['rate_limit', 'timeout', 'server', 'invalid_response'];
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: LLMErrorKind,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Classify an HTTP error status from a provider
+ */
+export function llmErrorFromStatus(provider: string, status: number, body: string, retryAfterMs?: number): LLMError {
+  const detail = body.substring(0, 200);
+  if (status === 401 || status === 403) {
+    return new LLMError(`${provider} rejected the API key (${status})`, 'auth', status);
+  }
+  if (status === 429) {
+    return new LLMError(`${provider} rate limit exceeded (429)`, 'rate_limit', status, retryAfterMs);
+  }
+  if (status >= 500) {
+    return new LLMError(`${provider} server error (${status}): ${detail}`, 'server', status);
+  }
+  return new LLMError(`${provider} request failed (${status}): ${detail}`, 'bad_request', status);
+}
+
+// ==========================================
+// JSON VALIDATION
+// ==========================================
+
+/**
+ * Validate a value against a JSON schema subset. Returns a list of problems
+ * such as "estimates[2].length: expected number"; empty when valid.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+    const matches =
+      schema.type === 'integer' ? Number.isInteger(value) :
+      schema.type === 'number' ? typeof value === 'number' && !isNaN(value) :
+      actual === schema.type;
+    if (!matches) {
+      return [`${path}: expected ${schema.type}, got ${actual}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path}: expected one of ${schema.enum.join(', ')}`);
+  }
+  if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+    errors.push(`${path}: must be at least ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  } else if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) {
+        errors.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse a model's JSON answer, tolerating a surrounding markdown code fence
+ */
+export function parseJsonResponse(text: string): unknown {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  return JSON.parse(unfenced);
+}
+
+// ==========================================
+// CLIENT
+// ==========================================
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Wrap a provider with retries, timeouts, request spacing and response
+ * validation. Non-retryable errors (bad key, bad request) fail immediately.
+ */
+export function createLLMClient(provider: LLMProvider, options: LLMClientOptions = {}): LLMClient {
+  const maxRetries = options.maxRetries ?? 2;
+  const timeoutMs = options.timeoutMs ?? 30000;
+  const minIntervalMs = options.minIntervalMs ?? 0;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const sleep = options.sleep ?? defaultSleep;
+  let nextSlot = 0;
+
+  const waitForSlot = async () => {
+    const now = Date.now();
+    const start = Math.max(now, nextSlot);
+    nextSlot = start + minIntervalMs;
+    if (start > now) await sleep(start - now);
+  };
+
+  const attempt = async (request: LLMRequest): Promise<{ text: string; json?: unknown }> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const { text } = await provider.complete({ ...request, json: request.json || !!request.schema }, controller.signal);
+      if (!request.schema) return { text };
+
+      let json: unknown;
+      try {
+        json = parseJsonResponse(text);
+      } catch {
+        throw new LLMError(`${provider.name} returned invalid JSON`, 'invalid_response');
+      }
+      const problems = validateJsonSchema(json, request.schema);
+      if (problems.length > 0) {
+        throw new LLMError(`${provider.name} response did not match the expected format: ${problems.slice(0, 3).join('; ')}`, 'invalid_response');
+      }
+      return { text, json };
+    } catch (error) {
+      if (error instanceof LLMError) throw error;
+      if (controller.signal.aborted) {
+        throw new LLMError(`${provider.name} request timed out after ${Math.round(timeoutMs / 1000)}s`, 'timeout');
+      }
+      throw new LLMError(`${provider.name} request failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'server');
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  };
+
+  return {
+    provider: provider.name,
+    model: provider.model,
+    async complete(request) {
+      const label = request.label ? ` (${request.label})` : '';
+      for (let attemptNumber = 1; ; attemptNumber++) {
+        await waitForSlot();
+        try {
+          const result = await attempt(request);
+          return { ...result, model: provider.model, attempts: attemptNumber };
+        } catch (error) {
+          const llmError = error as LLMError;
+          if (!llmError.retryable || attemptNumber > maxRetries) throw llmError;
+
+          const backoff = llmError.retryAfterMs ?? baseDelayMs * Math.pow(2, attemptNumber - 1);
+          console.log(`${provider.name}${label} attempt ${attemptNumber} failed (${llmError.message}), retrying in ${backoff}ms`);
+          await sleep(backoff);
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Packaging Allocation Tests
+ *
+ * Test suite for suite analyzer package allocation
+ */
+
+import { PackagingAllocationEngine } from '../allocation';
+import type { OrderHistoryItem, PackagingOption } from '../types';
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const suite: PackagingOption[] = [
+  {
+    packageName: 'Small Box',
+    packageId: 'small',
+    length: 6,
+    width: 6,
+    height: 6,
+    unit: 'in',
+    costPerUnit: 0.5,
+    packageWeight: 0.2,
+    maxWeight: 20,
+    type: 'box'
+  },
+  {
+    packageName: 'Large Box',
+    packageId: 'large',
+    length: 12,
+    width: 12,
+    height: 12,
+    unit: 'in',
+    costPerUnit: 1.5,
+    packageWeight: 0.5,
+    maxWeight: 40,
+    type: 'box'
+  }
+];
+
+function makeOrder(overrides: Partial<OrderHistoryItem> = {}): OrderHistoryItem {
+  return {
+    orderId: 'order_1',
+    length: 5,
+    width: 5,
+    height: 5,
+    unit: 'in',
+    quantity: 1,
+    weight: 1,
+    ...overrides
+  };
+}
+
+// ==========================================
+// MULTI-PARCEL TESTS
+// ==========================================
+
+describe('Multi-Parcel Allocation', () => {
+  test('keeps orders that fit one package in a single parcel', async () => {
+    const engine = new PackagingAllocationEngine(suite);
+    const result = await engine.allocateOptimalPackaging([makeOrder()]);
+
+    expect(result.allocations).toHaveLength(1);
+    expect(result.allocations[0].recommendedPackageId).toBe('small');
+    expect(result.allocations[0].parcels).toBeUndefined();
+  });
+
+  test('splits oversize orders across parcels', async () => {
+    // Ten 5" cubes: the large box holds eight, so two parcels are needed
+    const engine = new PackagingAllocationEngine(suite);
+    const result = await engine.allocateOptimalPackaging([makeOrder({ quantity: 10 })]);
+
+    expect(result.summary.failedAllocations).toBe(0);
+    const parcels = result.allocations[0].parcels || [];
+    expect(parcels.length).toBeGreaterThanOrEqual(2);
+    expect(parcels.reduce((sum, parcel) => sum + parcel.itemCount, 0)).toBe(10);
+
+    const parcelTotal = parcels.reduce((sum, parcel) => sum + parcel.costBreakdown.totalCost, 0);
+    expect(result.allocations[0].costBreakdown.totalCost).toBeCloseTo(parcelTotal, 6);
+  });
+
+  test('splits overweight orders by package weight limits', async () => {
+    const engine = new PackagingAllocationEngine(suite);
+    const result = await engine.allocateOptimalPackaging([makeOrder({ quantity: 3, weight: 15 })]);
+
+    // Two 15 lb units already exceed the small box's 20 lb limit
+    const parcels = result.allocations[0].parcels || [];
+    expect(parcels.length).toBeGreaterThanOrEqual(2);
+    expect(parcels.reduce((sum, parcel) => sum + parcel.itemCount, 0)).toBe(3);
+    parcels.forEach(parcel => {
+      const option = suite.find(pkg => pkg.packageId === parcel.packageId);
+      expect(parcel.weight - (option?.packageWeight || 0)).toBeLessThanOrEqual(option?.maxWeight || 0);
+    });
+  });
+
+  test('fails orders whose units fit no package', async () => {
+    const engine = new PackagingAllocationEngine(suite);
+    const result = await engine.allocateOptimalPackaging([makeOrder({ length: 20, width: 20, height: 20 })]);
+
+    expect(result.allocations).toHaveLength(0);
+    expect(result.summary.failedAllocations).toBe(1);
+  });
+});
+
+// ==========================================
+// MULTI-SKU TESTS
+// ==========================================
+
+describe('Multi-SKU Allocation', () => {
+  const lineItem = (length: number, width: number, height: number, quantity: number) =>
+    ({ length, width, height, unit: 'in' as const, quantity, weight: 1 });
+
+  test('packs every line item of an order into one package', async () => {
+    const engine = new PackagingAllocationEngine(suite);
+    const order = makeOrder({
+      length: 8, width: 8, height: 9, totalVolume: 381, weight: 2,
+      lineItems: [lineItem(8, 8, 4, 1), lineItem(5, 5, 5, 1)]
+    });
+    const result = await engine.allocateOptimalPackaging([order]);
+
+    expect(result.allocations[0].recommendedPackageId).toBe('large');
+    expect(result.allocations[0].itemDimensions.volume).toBe(381);
+    expect(result.allocations[0].parcels).toBeUndefined();
+  });
+
+  test('splits mixed loads by the parcels the packer fills', async () => {
+    const engine = new PackagingAllocationEngine(suite);
+    const order = makeOrder({
+      length: 12, width: 12, height: 20, totalVolume: 2000, weight: 9,
+      lineItems: [lineItem(10, 10, 10, 2), lineItem(5, 5, 5, 7)]
+    });
+    const result = await engine.allocateOptimalPackaging([order]);
+
+    const parcels = result.allocations[0].parcels || [];
+    expect(parcels.length).toBeGreaterThanOrEqual(2);
+    expect(parcels.reduce((sum, parcel) => sum + parcel.itemCount, 0)).toBe(9);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Order History Processor Tests
+ *
+ * Test suite for line-item grouping into multi-SKU orders
+ */
+
+import { OrderHistoryProcessor } from '../processor';
+
+// ==========================================
+// LINE ITEM TESTS
+// ==========================================
+
+describe('Line Item Aggregation', () => {
+  test('groups rows that share an order ID into one packed load', async () => {
+    const csv = [
+      'order_id,product_name,length,width,height,quantity,weight,priority',
+      'A-1,Mug,4,4,4,2,1,standard',
+      'A-1,Plate,8,8,1,1,2,express',
+      'B-2,Lamp,10,6,6,1,3,standard'
+    ].join('\n');
+    const result = await new OrderHistoryProcessor().processOrderHistory(csv);
+
+    expect(result.statistics.validRows).toBe(3);
+    expect(result.statistics.orderCount).toBe(2);
+    expect(result.statistics.multiItemOrders).toBe(1);
+
+    const [mixed, single] = result.validOrders;
+    expect(single.lineItems).toBeUndefined();
+    expect(single.length).toBe(10);
+
+    expect(mixed.orderId).toBe('A-1');
+    expect(mixed.lineItems).toHaveLength(2);
+    expect(mixed.quantity).toBe(1);
+    expect(mixed.totalVolume).toBe(4 * 4 * 4 * 2 + 8 * 8 * 1);
+    expect(mixed.weight).toBe(4);
+    expect(mixed.priority).toBe('express');
+    expect(mixed.length * mixed.width * mixed.height).toBeGreaterThanOrEqual(mixed.totalVolume!);
+    expect(Math.max(mixed.length, mixed.width, mixed.height)).toBeLessThanOrEqual(12);
+  });
+
+  test('converts line item units before packing the load', async () => {
+    const csv = [
+      'order_id,product_name,length,width,height,unit,quantity',
+      'C-3,Case,25.4,25.4,2.54,cm,1',
+      'C-3,Card,10,10,1,in,1'
+    ].join('\n');
+    const [order] = (await new OrderHistoryProcessor().processOrderHistory(csv)).validOrders;
+
+    expect(order.unit).toBe('in');
+    expect(order.totalVolume).toBeCloseTo(200, 3);
+    expect(Math.max(order.length, order.width)).toBeCloseTo(10, 3);
+  });
+
+  test('packs repeated identical units into a near-cubic load', async () => {
+    const csv = [
+      'order_id,product_name,length,width,height,quantity',
+      'D-4,Cube,4,4,4,4',
+      'D-4,Cube,4,4,4,4',
+      'E-5,Block,10,10,10,5',
+      'E-5,Block,10,10,10,5'
+    ].join('\n');
+    const [cubes, blocks] = (await new OrderHistoryProcessor().processOrderHistory(csv)).validOrders;
+
+    expect([cubes.length, cubes.width, cubes.height]).toEqual([8, 8, 8]);
+
+    const sides = [blocks.length, blocks.width, blocks.height].sort((a, b) => a - b);
+    expect(sides[0] * sides[1] * sides[2]).toBeGreaterThanOrEqual(blocks.totalVolume!);
+    expect(sides[2]).toBeLessThanOrEqual(30);
+    expect(sides[2] / sides[0]).toBeLessThanOrEqual(1.5);
+  });
+});
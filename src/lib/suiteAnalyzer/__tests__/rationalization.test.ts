@@ -0,0 +1,107 @@
+/**
+ * Suite Rationalization Tests
+ *
+ * Test suite for proposing an N-box suite from order history
+ */
+
+import { SuiteRationalizationEngine } from '../rationalization';
+import type { OrderHistoryItem, PackagingOption } from '../types';
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const currentSuite: PackagingOption[] = [
+  {
+    packageName: 'Medium Box',
+    packageId: 'medium',
+    length: 14,
+    width: 12,
+    height: 10,
+    unit: 'in',
+    costPerUnit: 1.1,
+    packageWeight: 0.6,
+    maxWeight: 40,
+    type: 'box'
+  },
+  {
+    packageName: 'Large Box',
+    packageId: 'large',
+    length: 24,
+    width: 18,
+    height: 16,
+    unit: 'in',
+    costPerUnit: 2.4,
+    packageWeight: 1.4,
+    maxWeight: 60,
+    type: 'box'
+  }
+];
+
+function makeOrders(): OrderHistoryItem[] {
+  const shapes = [
+    { length: 4, width: 3, height: 2, weight: 0.5, count: 30 },
+    { length: 8, width: 6, height: 4, weight: 2, count: 15 },
+    { length: 20, width: 14, height: 10, weight: 8, count: 5 }
+  ];
+
+  return shapes.flatMap((shape, shapeIndex) =>
+    Array.from({ length: shape.count }, (_, index) => ({
+      orderId: `order_${shapeIndex}_${index}`,
+      length: shape.length,
+      width: shape.width,
+      height: shape.height,
+      unit: 'in' as const,
+      quantity: 1,
+      weight: shape.weight
+    }))
+  );
+}
+
+// ==========================================
+// RATIONALIZATION TESTS
+// ==========================================
+
+describe('Suite Rationalization', () => {
+  test('proposes at most N boxes covering every order', async () => {
+    const engine = new SuiteRationalizationEngine();
+    const result = await engine.rationalizeSuite(makeOrders(), currentSuite, { targetSuiteSize: 3 });
+
+    expect(result.proposedSuite.length).toBeGreaterThan(0);
+    expect(result.proposedSuite.length).toBeLessThanOrEqual(3);
+    expect(result.uncoveredOrderIds).toHaveLength(0);
+    expect(result.proposed.coveredOrders).toBe(50);
+  });
+
+  test('reports per-box coverage that adds up to the covered orders', async () => {
+    const engine = new SuiteRationalizationEngine();
+    const result = await engine.rationalizeSuite(makeOrders(), currentSuite, { targetSuiteSize: 3 });
+
+    const covered = result.proposedSuite.reduce((sum, box) => sum + box.ordersCovered, 0);
+    expect(covered).toBe(result.proposed.coveredOrders);
+    expect(result.proposedSuite.reduce((sum, box) => sum + box.coveragePercent, 0)).toBeCloseTo(100, 1);
+  });
+
+  test('beats an oversized current suite', async () => {
+    const engine = new SuiteRationalizationEngine();
+    const result = await engine.rationalizeSuite(makeOrders(), currentSuite, { targetSuiteSize: 3 });
+
+    expect(result.costDelta.totalCost).toBeLessThan(0);
+    expect(result.proposed.totalCost).toBeLessThan(result.current.totalCost);
+    expect(result.currentSuite.map(box => box.packageId).sort()).toEqual(['large', 'medium']);
+  });
+
+  test('never does worse than the current suite at the same size', async () => {
+    const engine = new SuiteRationalizationEngine();
+    const result = await engine.rationalizeSuite(makeOrders(), currentSuite, { targetSuiteSize: 2 });
+
+    expect(result.proposed.uncoveredOrders).toBe(0);
+    expect(result.costDelta.totalCost).toBeLessThanOrEqual(0);
+  });
+
+  test('rejects a target suite size below one', async () => {
+    const engine = new SuiteRationalizationEngine();
+    await expect(engine.rationalizeSuite(makeOrders(), currentSuite, { targetSuiteSize: 0 }))
+      .rejects.toThrow('Target suite size must be at least 1');
+  });
+});
@@ -1,13 +1,25 @@
 // Suite Analyzer - Packaging Allocation Algorithm
 
-import { bestFitDecreasing } from '../algorithms/packingOptimizer';
+import {
+  bestFitDecreasing,
+  calculateContainerCapacity,
+  type MultiOrderPackingResult,
+  type PackingConstraints,
+  type PackingContainer,
+  type PackingItem
+} from '../algorithms/packingOptimizer';
 import { calculateShippingCosts } from '../calculations/costAnalysis';
-import { calculateCUIN, convertToInches } from '../calculations/cuin';
+import { calculateCUIN, convertToInches, type Dimensions } from '../calculations/cuin';
+import { DEFAULT_SURCHARGE_RULES, calculateSurchargeSummary } from '../calculations/surcharges';
+import { getLineItemDimensions } from './processor';
 import type { 
   OrderHistoryItem, 
   PackagingOption, 
   PackagingAllocation,
-  ProcessingProgress 
+  PackageSurchargeSummary,
+  ParcelAllocation,
+  ProcessingProgress,
+  SuiteAnalyzerConfig
 } from './types';
 
 export interface AllocationResult {
@@ -26,19 +38,27 @@ export interface AllocationResult {
     averageTimePerOrder: number;
     fillRateDistribution: Record<string, number>;
     packageUtilization: Record<string, number>;
+    surchargeSummary: PackageSurchargeSummary[];
   };
 }
 
+// Above this many units the split search only considers full parcels plus a
+// remainder, which keeps the search linear in the order quantity
+const MAX_EXACT_SPLIT_UNITS = 500;
+
 export class PackagingAllocationEngine {
   private packagingOptions: PackagingOption[];
   private progressCallback?: (progress: ProcessingProgress) => void;
+  private config: Partial<SuiteAnalyzerConfig>;
 
   constructor(
     packagingOptions: PackagingOption[],
-    progressCallback?: (progress: ProcessingProgress) => void
+    progressCallback?: (progress: ProcessingProgress) => void,
+    config: Partial<SuiteAnalyzerConfig> = {}
   ) {
     this.packagingOptions = packagingOptions;
     this.progressCallback = progressCallback;
+    this.config = config;
   }
 
   /**
@@ -147,7 +167,13 @@ export class PackagingAllocationEngine {
       console.log('Available containers:', containers.length);
 
       // Run optimization algorithm
-      const optimizationResult = bestFitDecreasing(packingItems, containers);
+      let optimizationResult = bestFitDecreasing(packingItems, containers, this.getPackingConstraints());
+
+      // The packer fills one container at a time; keep a mixed load together
+      // when some package can hold all of it
+      if (order.lineItems && (optimizationResult.solutions.length !== 1 || optimizationResult.unpackedItems.length > 0)) {
+        optimizationResult = this.consolidateMixedLoad(packingItems, containers) || optimizationResult;
+      }
       
       console.log('Optimization result:', {
         hasSolutions: !!optimizationResult.solutions,
@@ -156,9 +182,17 @@ export class PackagingAllocationEngine {
         totalCost: optimizationResult.totalCost
       });
       
-      if (!optimizationResult.solutions || optimizationResult.solutions.length === 0) {
-        console.warn('No packing solution found for order:', order.orderId);
-        return null;
+      // Orders that do not fit a single package are split across several parcels
+      if (!optimizationResult.solutions ||
+          optimizationResult.solutions.length !== 1 ||
+          optimizationResult.unpackedItems.length > 0) {
+        const shipment = order.lineItems
+          ? this.allocateMixedLoadShipment(order, optimizationResult)
+          : this.allocateMultiParcelShipment(order, packingItems, containers);
+        if (!shipment) {
+          console.warn('No packing solution found for order:', order.orderId);
+        }
+        return shipment;
       }
 
       // Get the best solution
@@ -172,10 +206,14 @@ export class PackagingAllocationEngine {
       }
 
       // Calculate item dimensions and volume
-      let itemDimensions;
-      let itemVolume;
+      let itemDimensions: Dimensions;
+      let itemVolume: number;
       
-      if (order.totalVolume && (!order.length || !order.width || !order.height || 
+      if (order.lineItems) {
+        // Packed load of a multi-SKU order; volume is what the units occupy
+        itemDimensions = { length: order.length, width: order.width, height: order.height, unit: 'in' as const };
+        itemVolume = order.totalVolume || calculateCUIN(itemDimensions);
+      } else if (order.totalVolume && (!order.length || !order.width || !order.height || 
           order.length === 0 || order.width === 0 || order.height === 0)) {
         // Use total volume directly
         itemVolume = order.totalVolume;
@@ -184,26 +222,33 @@ export class PackagingAllocationEngine {
         itemDimensions = {
           length: cubeRoot,
           width: cubeRoot,
-          height: cubeRoot
+          height: cubeRoot,
+          unit: 'in'
         };
       } else {
         // Calculate from dimensions
-        itemDimensions = convertToInches({
-          length: order.length,
-          width: order.width,
-          height: order.height,
-          unit: order.unit
-        });
+        itemDimensions = {
+          ...convertToInches({
+            length: order.length,
+            width: order.width,
+            height: order.height,
+            unit: order.unit
+          }),
+          unit: 'in'
+        };
         itemVolume = calculateCUIN(itemDimensions);
       }
 
       // Calculate package dimensions
-      const packageDimensions = convertToInches({
-        length: recommendedPackage.length,
-        width: recommendedPackage.width,
-        height: recommendedPackage.height,
-        unit: recommendedPackage.unit
-      });
+      const packageDimensions: Dimensions = {
+        ...convertToInches({
+          length: recommendedPackage.length,
+          width: recommendedPackage.width,
+          height: recommendedPackage.height,
+          unit: recommendedPackage.unit
+        }),
+        unit: 'in'
+      };
 
       const packageVolume = calculateCUIN(packageDimensions);
 
@@ -215,7 +260,7 @@ export class PackagingAllocationEngine {
       const efficiency = (fillRate + weightUtilization) / 2;
 
       // Calculate costs
-      const costBreakdown = this.calculatePackagingCosts(
+      const { surcharges, ...costBreakdown } = this.calculatePackagingCosts(
         order,
         recommendedPackage,
         itemDimensions,
@@ -240,7 +285,8 @@ export class PackagingAllocationEngine {
         },
         fillRate: Math.round(fillRate * 100) / 100,
         efficiency: Math.round(efficiency * 100) / 100,
-        costBreakdown
+        costBreakdown,
+        surcharges
       };
 
       return allocation;
@@ -251,10 +297,274 @@ export class PackagingAllocationEngine {
     }
   }
 
+  /**
+   * Split an order across several parcels. A dynamic program over the unit
+   * count picks the combination of packages and units per parcel with the
+   * lowest total package + shipping cost.
+   */
+  private allocateMultiParcelShipment(
+    order: OrderHistoryItem,
+    packingItems: PackingItem[],
+    containers: PackingContainer[]
+  ): PackagingAllocation | null {
+    if (packingItems.length === 0) return null;
+
+    const unitItem: PackingItem = { ...packingItems[0], quantity: order.quantity };
+    const unitWeight = unitItem.weight;
+    const unitVolume = calculateCUIN(unitItem.dimensions);
+    const constraints = this.getPackingConstraints();
+
+    // How many units each package can hold on its own
+    const candidates = containers
+      .map(container => ({
+        container,
+        option: this.packagingOptions.find(pkg => pkg.packageId === container.id),
+        capacity: calculateContainerCapacity(unitItem, container, constraints)
+      }))
+      .filter((candidate): candidate is { container: PackingContainer; option: PackagingOption; capacity: number } =>
+        candidate.option !== undefined && candidate.capacity > 0
+      );
+
+    if (candidates.length === 0) return null;
+
+    const parcelCosts = new Map<string, ReturnType<PackagingAllocationEngine['calculatePackagingCosts']>>();
+    const getParcelCost = (candidateIndex: number, units: number) => {
+      const key = `${candidateIndex}:${units}`;
+      let cost = parcelCosts.get(key);
+      if (!cost) {
+        const { container, option } = candidates[candidateIndex];
+        cost = this.calculatePackagingCosts(
+          order,
+          option,
+          unitItem.dimensions,
+          container.dimensions,
+          unitWeight * units
+        );
+        parcelCosts.set(key, cost);
+      }
+      return cost;
+    };
+
+    // best[n] = cheapest way to ship n units; choice[n] = last parcel used
+    const quantity = order.quantity;
+    const exact = quantity <= MAX_EXACT_SPLIT_UNITS;
+    const best: number[] = [0];
+    const choice: Array<{ candidateIndex: number; units: number } | null> = [null];
+
+    for (let n = 1; n <= quantity; n++) {
+      best[n] = Infinity;
+      choice[n] = null;
+
+      candidates.forEach((candidate, candidateIndex) => {
+        const maxUnits = Math.min(candidate.capacity, n);
+        const minUnits = exact ? 1 : maxUnits;
+
+        for (let units = minUnits; units <= maxUnits; units++) {
+          const total = best[n - units] + getParcelCost(candidateIndex, units).totalCost;
+          if (total < best[n]) {
+            best[n] = total;
+            choice[n] = { candidateIndex, units };
+          }
+        }
+      });
+    }
+
+    if (!isFinite(best[quantity])) return null;
+
+    // Walk the choices back into parcels
+    const parcels: ParcelAllocation[] = [];
+    for (let n = quantity; n > 0;) {
+      const step = choice[n];
+      if (!step) return null;
+
+      const { container, option } = candidates[step.candidateIndex];
+      const packageVolume = calculateCUIN(container.dimensions);
+      const { surcharges, ...costBreakdown } = getParcelCost(step.candidateIndex, step.units);
+      parcels.push({
+        packageId: option.packageId,
+        packageName: option.packageName,
+        itemCount: step.units,
+        weight: unitWeight * step.units + option.packageWeight,
+        packageDimensions: {
+          length: container.dimensions.length,
+          width: container.dimensions.width,
+          height: container.dimensions.height,
+          volume: packageVolume
+        },
+        fillRate: Math.round((unitVolume * step.units / packageVolume) * 10000) / 100,
+        costBreakdown,
+        surcharges
+      });
+      n -= step.units;
+    }
+    parcels.sort((a, b) => b.itemCount - a.itemCount);
+
+    const primary = parcels[0];
+    const totalPackageVolume = parcels.reduce((sum, parcel) => sum + parcel.packageDimensions.volume, 0);
+    const totalWeightCapacity = parcels.reduce((sum, parcel) => {
+      const option = this.packagingOptions.find(pkg => pkg.packageId === parcel.packageId);
+      return sum + (option?.maxWeight || 50);
+    }, 0);
+    const itemVolume = unitVolume * quantity;
+    const fillRate = (itemVolume / totalPackageVolume) * 100;
+    const weightUtilization = ((unitWeight * quantity) / totalWeightCapacity) * 100;
+
+    return {
+      orderId: order.orderId,
+      recommendedPackage: primary.packageName,
+      recommendedPackageId: primary.packageId,
+      itemDimensions: {
+        length: unitItem.dimensions.length,
+        width: unitItem.dimensions.width,
+        height: unitItem.dimensions.height,
+        volume: itemVolume
+      },
+      packageDimensions: primary.packageDimensions,
+      fillRate: Math.round(fillRate * 100) / 100,
+      efficiency: Math.round(((fillRate + weightUtilization) / 2) * 100) / 100,
+      costBreakdown: {
+        packageCost: parcels.reduce((sum, parcel) => sum + parcel.costBreakdown.packageCost, 0),
+        shippingCost: parcels.reduce((sum, parcel) => sum + parcel.costBreakdown.shippingCost, 0),
+        surchargeCost: parcels.reduce((sum, parcel) => sum + (parcel.costBreakdown.surchargeCost || 0), 0),
+        totalCost: parcels.reduce((sum, parcel) => sum + parcel.costBreakdown.totalCost, 0)
+      },
+      surcharges: parcels.flatMap(parcel => parcel.surcharges || []),
+      parcels
+    };
+  }
+
+  /**
+   * Cheapest single package that holds every unit of a mixed load
+   */
+  private consolidateMixedLoad(
+    packingItems: PackingItem[],
+    containers: PackingContainer[]
+  ): MultiOrderPackingResult | null {
+    const byCost = [...containers].sort((a, b) =>
+      a.cost - b.cost || calculateCUIN(a.dimensions) - calculateCUIN(b.dimensions)
+    );
+
+    for (const container of byCost) {
+      const result = bestFitDecreasing(packingItems, [container], this.getPackingConstraints());
+      if (result.solutions.length === 1 && result.unpackedItems.length === 0) {
+        return result;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Build a shipment for a multi-SKU order from the parcels the packer filled,
+   * one parcel per packed container
+   */
+  private allocateMixedLoadShipment(
+    order: OrderHistoryItem,
+    optimizationResult: MultiOrderPackingResult
+  ): PackagingAllocation | null {
+    if (optimizationResult.unpackedItems.length > 0 || optimizationResult.solutions.length === 0) {
+      return null;
+    }
+
+    const parcels: ParcelAllocation[] = [];
+    for (const solution of optimizationResult.solutions) {
+      const option = this.packagingOptions.find(pkg => pkg.packageId === solution.container.id);
+      if (!option) return null;
+
+      const packageDimensions = { ...convertToInches(solution.container.dimensions), unit: 'in' as const };
+      const packageVolume = calculateCUIN(packageDimensions);
+      const contentVolume = solution.packedItems.reduce((sum, packed) =>
+        sum + calculateCUIN(packed.item.dimensions) * packed.item.quantity, 0
+      );
+      const contentWeight = solution.packedItems.reduce((sum, packed) =>
+        sum + packed.item.weight * packed.item.quantity, 0
+      );
+      const { surcharges, ...costBreakdown } = this.calculatePackagingCosts(
+        order,
+        option,
+        { length: order.length, width: order.width, height: order.height },
+        packageDimensions,
+        contentWeight
+      );
+
+      parcels.push({
+        packageId: option.packageId,
+        packageName: option.packageName,
+        itemCount: solution.packedItems.length,
+        weight: contentWeight + option.packageWeight,
+        packageDimensions: {
+          length: packageDimensions.length,
+          width: packageDimensions.width,
+          height: packageDimensions.height,
+          volume: packageVolume
+        },
+        fillRate: Math.round((contentVolume / packageVolume) * 10000) / 100,
+        costBreakdown,
+        surcharges
+      });
+    }
+    parcels.sort((a, b) => b.itemCount - a.itemCount);
+
+    const primary = parcels[0];
+    const totalPackageVolume = parcels.reduce((sum, parcel) => sum + parcel.packageDimensions.volume, 0);
+    const totalWeightCapacity = parcels.reduce((sum, parcel) => {
+      const option = this.packagingOptions.find(pkg => pkg.packageId === parcel.packageId);
+      return sum + (option?.maxWeight || 50);
+    }, 0);
+    const itemVolume = order.totalVolume || calculateCUIN({ length: order.length, width: order.width, height: order.height, unit: 'in' });
+    const fillRate = (itemVolume / totalPackageVolume) * 100;
+    const weightUtilization = ((order.weight || 1) / totalWeightCapacity) * 100;
+
+    return {
+      orderId: order.orderId,
+      recommendedPackage: primary.packageName,
+      recommendedPackageId: primary.packageId,
+      itemDimensions: {
+        length: order.length,
+        width: order.width,
+        height: order.height,
+        volume: itemVolume
+      },
+      packageDimensions: primary.packageDimensions,
+      fillRate: Math.round(fillRate * 100) / 100,
+      efficiency: Math.round(((fillRate + weightUtilization) / 2) * 100) / 100,
+      costBreakdown: {
+        packageCost: parcels.reduce((sum, parcel) => sum + parcel.costBreakdown.packageCost, 0),
+        shippingCost: parcels.reduce((sum, parcel) => sum + parcel.costBreakdown.shippingCost, 0),
+        surchargeCost: parcels.reduce((sum, parcel) => sum + (parcel.costBreakdown.surchargeCost || 0), 0),
+        totalCost: parcels.reduce((sum, parcel) => sum + parcel.costBreakdown.totalCost, 0)
+      },
+      surcharges: parcels.flatMap(parcel => parcel.surcharges || []),
+      parcels
+    };
+  }
+
   /**
    * Convert order to packing items format
    */
-  private convertOrderToPackingItems(order: OrderHistoryItem) {
+  private convertOrderToPackingItems(order: OrderHistoryItem): PackingItem[] {
+    const uprightCategories = (this.config.uprightCategories || []).map(c => c.toLowerCase());
+
+    // Multi-SKU orders pack every unit of every line item
+    if (order.lineItems) {
+      return order.lineItems.flatMap((line, lineIndex) => {
+        const category = line.category || order.category || 'general';
+        return Array(line.quantity).fill(null).map((_, index) => ({
+          id: `${order.orderId}_${lineIndex + 1}_${index + 1}`,
+          name: line.productName || `Item ${lineIndex + 1}`,
+          dimensions: { ...getLineItemDimensions(line), unit: 'in' as const },
+          weight: line.weight || 1,
+          quantity: 1,
+          fragile: false,
+          stackable: true,
+          category,
+          allowedOrientations: line.allowedOrientations,
+          thisSideUp: line.thisSideUp || uprightCategories.includes(category.toLowerCase()),
+          maxLoadOnTop: line.maxLoadOnTop
+        }));
+      });
+    }
+
     let dimensions;
     
     // Check if we have individual dimensions or just total volume
@@ -292,22 +602,39 @@ export class PackagingAllocationEngine {
       quantity: order.quantity
     });
 
+    const category = order.category || 'general';
+
     return Array(order.quantity).fill(null).map((_, index) => ({
       id: `${order.orderId}_${index + 1}`,
       name: order.productName || `Item ${index + 1}`,
-      dimensions,
+      dimensions: { ...dimensions, unit: 'in' as const }, // Both branches above produce inches
       weight: order.weight || 1,
       quantity: 1, // Each item has quantity 1 since we're creating multiple items
       fragile: false,
       stackable: true,
-      category: order.category || 'general'
+      category,
+      allowedOrientations: order.allowedOrientations,
+      thisSideUp: order.thisSideUp || uprightCategories.includes(category.toLowerCase()),
+      maxLoadOnTop: order.maxLoadOnTop
     }));
   }
 
+  /**
+   * Map analyzer configuration onto packing constraints
+   */
+  private getPackingConstraints(): PackingConstraints {
+    return {
+      allowRotation: this.config.allowRotation,
+      allowStacking: this.config.allowStacking,
+      allowedOrientations: this.config.allowedOrientations,
+      fragileHandling: this.config.fragileHandling
+    };
+  }
+
   /**
    * Convert packaging options to containers format
    */
-  private convertPackagingOptionsToContainers() {
+  private convertPackagingOptionsToContainers(): PackingContainer[] {
     return this.packagingOptions.map(pkg => {
       const dimensions = convertToInches({
         length: pkg.length,
@@ -319,9 +646,10 @@ export class PackagingAllocationEngine {
       return {
         id: pkg.packageId,
         name: pkg.packageName,
-        dimensions,
+        dimensions: { ...dimensions, unit: 'in' as const },
         maxWeight: pkg.maxWeight || 50, // Default max weight
         cost: pkg.costPerUnit,
+        category: pkg.type || 'box',
         type: pkg.type || 'box',
         material: pkg.material || 'cardboard'
       };
@@ -335,12 +663,13 @@ export class PackagingAllocationEngine {
     order: OrderHistoryItem,
     packageOption: PackagingOption,
     itemDimensions: { length: number; width: number; height: number },
-    packageDimensions: { length: number; width: number; height: number }
+    packageDimensions: { length: number; width: number; height: number },
+    contentWeight: number = order.weight || 1
   ) {
     const packageCost = packageOption.costPerUnit;
     
     // Calculate shipping cost using the shipping calculation from cost analysis
-    const totalWeight = (order.weight || 1) + packageOption.packageWeight;
+    const totalWeight = contentWeight + packageOption.packageWeight;
     const zone = order.zone || 'domestic';
     const priority = order.priority || 'standard';
 
@@ -353,7 +682,10 @@ export class PackagingAllocationEngine {
       },
       totalWeight,
       zone,
-      priority
+      priority,
+      undefined,
+      this.config.rateCard,
+      this.config.surchargeRules || DEFAULT_SURCHARGE_RULES
     );
 
     const shippingCost = shippingResult.totalCost;
@@ -362,7 +694,9 @@ export class PackagingAllocationEngine {
     return {
       packageCost,
       shippingCost,
-      totalCost
+      surchargeCost: shippingResult.accessorialSurcharges,
+      totalCost,
+      surcharges: shippingResult.surcharges
     };
   }
 
@@ -422,16 +756,21 @@ export class PackagingAllocationEngine {
         fillRateDistribution['Excellent (86-100%)']++;
       }
 
-      // Count package usage
-      const packageName = allocation.recommendedPackage;
-      packageUtilization[packageName] = (packageUtilization[packageName] || 0) + 1;
+      // Count package usage, once per parcel for split shipments
+      const packageNames = allocation.parcels
+        ? allocation.parcels.map(parcel => parcel.packageName)
+        : [allocation.recommendedPackage];
+      for (const packageName of packageNames) {
+        packageUtilization[packageName] = (packageUtilization[packageName] || 0) + 1;
+      }
     }
 
     return {
       processingTime,
       averageTimePerOrder: Math.round(averageTimePerOrder * 100) / 100,
       fillRateDistribution,
-      packageUtilization
+      packageUtilization,
+      surchargeSummary: calculateSurchargeSummary(allocations)
     };
   }
 
@@ -4,6 +4,9 @@ import { OrderHistoryProcessor } from './processor';
 import { PackagingAllocationEngine } from './allocation';
 import { BaselineComparisonEngine } from './baseline';
 import { RecommendationsEngine } from './recommendations';
+import { SuiteRationalizationEngine } from './rationalization';
+import { getZoneDistribution } from '../calculations/zoneResolver';
+import { parseCSVContent } from '../data/csvParser';
 
 import type { 
   OrderHistoryItem,
@@ -12,6 +15,8 @@ import type {
   FallbackDimensions,
   SuiteAnalysisResult,
   SuiteAnalyzerConfig,
+  SuiteRationalizationOptions,
+  SuiteRationalizationResult,
   ProcessingProgress 
 } from './types';
 
@@ -23,6 +28,13 @@ export interface SuiteAnalyzerInput {
   config?: Partial<SuiteAnalyzerConfig>;
 }
 
+export interface SuiteRationalizationInput {
+  orderHistoryCSV: string;
+  packagingSuiteCSV: string; // Current suite, used for the cost comparison and as candidates
+  fallbackDimensions?: FallbackDimensions;
+  options: SuiteRationalizationOptions;
+}
+
 export class SuiteAnalyzer {
   private config: SuiteAnalyzerConfig;
   private progressCallback?: (progress: ProcessingProgress) => void;
@@ -65,7 +77,8 @@ export class SuiteAnalyzer {
       this.updateProgress('parsing', 5, 0, 0, 'Processing order history...');
       const orderProcessor = new OrderHistoryProcessor(
         input.fallbackDimensions,
-        (progress) => this.updateProgress(progress.stage, 5 + progress.progress * 0.2, progress.currentItem, progress.totalItems, progress.message)
+        (progress) => this.updateProgress(progress.stage, 5 + progress.progress * 0.2, progress.currentItem, progress.totalItems, progress.message),
+        this.config.zoneCharts
       );
       
       const orderProcessingResult = await orderProcessor.processOrderHistory(input.orderHistoryCSV);
@@ -105,7 +118,8 @@ export class SuiteAnalyzer {
       this.updateProgress('optimization', 40, 0, orderProcessingResult.validOrders.length, 'Optimizing packaging allocation...');
       const allocationEngine = new PackagingAllocationEngine(
         packagingOptions,
-        (progress) => this.updateProgress(progress.stage, 40 + progress.progress * 0.4, progress.currentItem, progress.totalItems, progress.message)
+        (progress) => this.updateProgress(progress.stage, 40 + progress.progress * 0.4, progress.currentItem, progress.totalItems, progress.message),
+        this.config
       );
       
       const allocationResult = await allocationEngine.allocateOptimalPackaging(orderProcessingResult.validOrders);
@@ -189,10 +203,12 @@ export class SuiteAnalyzer {
           quality: {
             fillRateDistribution: allocationResult.metrics.fillRateDistribution,
             costDistribution: {},
+            zoneDistribution: getZoneDistribution(orderProcessingResult.validOrders.map(order => order.zone)),
             efficiencyScores: allocationResult.allocations.map(a => a.efficiency)
           }
         },
-        packageWeights // Store actual package weights from CSV
+        packageWeights, // Store actual package weights from CSV
+        surchargeSummary: allocationResult.metrics.surchargeSummary
       };
 
       return result;
@@ -202,18 +218,52 @@ export class SuiteAnalyzer {
     }
   }
 
+  /**
+   * Propose a rationalised N-box suite from order history instead of
+   * allocating orders to the uploaded boxes
+   */
+  async rationalizeSuite(input: SuiteRationalizationInput): Promise<SuiteRationalizationResult> {
+    try {
+      this.updateProgress('parsing', 0, 0, 0, 'Starting suite rationalization...');
+
+      const orderProcessor = new OrderHistoryProcessor(
+        input.fallbackDimensions,
+        (progress) => this.updateProgress(progress.stage, progress.progress * 0.2, progress.currentItem, progress.totalItems, progress.message),
+        this.config.zoneCharts
+      );
+      const orderProcessingResult = await orderProcessor.processOrderHistory(input.orderHistoryCSV);
+
+      if (orderProcessingResult.validOrders.length === 0) {
+        throw new Error(`No valid orders found in order history. ${orderProcessingResult.statistics.invalidRows} orders had errors.`);
+      }
+
+      this.updateProgress('parsing', 20, 0, 0, 'Processing current packaging suite...');
+      const currentSuite = await this.processPackagingSuite(input.packagingSuiteCSV);
+
+      const engine = new SuiteRationalizationEngine(
+        (progress) => this.updateProgress(progress.stage, 25 + progress.progress * 0.75, progress.currentItem, progress.totalItems, progress.message),
+        this.config
+      );
+
+      return await engine.rationalizeSuite(orderProcessingResult.validOrders, currentSuite, input.options);
+
+    } catch (error) {
+      throw new Error(`Suite rationalization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Process packaging suite CSV
    */
   private async processPackagingSuite(csvContent: string): Promise<PackagingOption[]> {
     // Parse CSV content
-    const lines = csvContent.trim().split('\n');
-    if (lines.length < 2) {
+    const rows = parseCSVContent(csvContent);
+    if (rows.length < 2) {
       throw new Error('Packaging suite file must contain header and data rows');
     }
 
-    const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-    const dataRows = lines.slice(1);
+    const headers = rows[0].map(h => h.toLowerCase());
+    const dataRows = rows.slice(1);
 
     // Detect column mappings
     const mappings = this.detectPackagingColumnMappings(headers);
@@ -222,7 +272,7 @@ export class SuiteAnalyzer {
     const packagingOptions: PackagingOption[] = [];
 
     for (let i = 0; i < dataRows.length; i++) {
-      const row = dataRows[i].split(',').map(cell => cell.trim());
+      const row = dataRows[i];
       
       try {
         const option = this.parsePackagingRow(row, mappings, i + 2);
@@ -241,19 +291,19 @@ export class SuiteAnalyzer {
    * Process baseline mix CSV
    */
   private async processBaselineMix(csvContent: string): Promise<BaselineMixItem[]> {
-    const lines = csvContent.trim().split('\n');
-    if (lines.length < 2) {
+    const rows = parseCSVContent(csvContent);
+    if (rows.length < 2) {
       return []; // Optional file, return empty if invalid
     }
 
-    const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-    const dataRows = lines.slice(1);
+    const headers = rows[0].map(h => h.toLowerCase());
+    const dataRows = rows.slice(1);
 
     const mappings = this.detectBaselineColumnMappings(headers);
     const baselineMix: BaselineMixItem[] = [];
 
     for (let i = 0; i < dataRows.length; i++) {
-      const row = dataRows[i].split(',').map(cell => cell.trim());
+      const row = dataRows[i];
       
       try {
         const item = this.parseBaselineRow(row, mappings, i + 2);
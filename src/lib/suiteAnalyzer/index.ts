@@ -2,5 +2,6 @@ export * from './analyzer';
 export * from './types';
 export * from './processor';
 export * from './allocation';
+export * from './rationalization';
 export * from './baseline';
 export * from './recommendations';
\ No newline at end of file
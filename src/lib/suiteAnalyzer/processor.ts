@@ -1,9 +1,18 @@
 // Suite Analyzer - Order History Processor
 
-import { parseCSVContent } from '../data/csvParser';
+import { parseCSVStream } from '../data/csvReader';
 import { calculateCUIN, convertToInches } from '../calculations/cuin';
+import {
+  DESTINATION_ZIP_COLUMNS,
+  ORIGIN_ZIP_COLUMNS,
+  isPostalCode,
+  resolveZone,
+  type ZoneChart
+} from '../calculations/zoneResolver';
+import { calculateLoadDimensions, type PackingItem } from '../algorithms/packingOptimizer';
 import type { 
   OrderHistoryItem, 
+  OrderLineItem,
   PackagingOption, 
   FallbackDimensions,
   ProcessingProgress 
@@ -21,19 +30,30 @@ export interface OrderProcessingResult {
     validRows: number;
     invalidRows: number;
     completionRate: number;
+    orderCount: number;      // Distinct orders after line items are grouped
+    multiItemOrders: number; // Orders packed from more than one line item
   };
 }
 
+const PRIORITY_RANK: Record<NonNullable<OrderHistoryItem['priority']>, number> = {
+  standard: 0,
+  express: 1,
+  overnight: 2
+};
+
 export class OrderHistoryProcessor {
   private fallbackDimensions?: FallbackDimensions;
   private progressCallback?: (progress: ProcessingProgress) => void;
+  private zoneCharts: ZoneChart[];
 
   constructor(
     fallbackDimensions?: FallbackDimensions,
-    progressCallback?: (progress: ProcessingProgress) => void
+    progressCallback?: (progress: ProcessingProgress) => void,
+    zoneCharts: ZoneChart[] = []
   ) {
     this.fallbackDimensions = fallbackDimensions;
     this.progressCallback = progressCallback;
+    this.zoneCharts = zoneCharts;
   }
 
   /**
@@ -48,7 +68,21 @@ export class OrderHistoryProcessor {
       console.log('CSV Content length:', csvContent.length);
       console.log('First 200 chars:', csvContent.substring(0, 200));
       
-      const rows = parseCSVContent(csvContent);
+      // Stream rows in chunks so very large exports report parsing progress
+      const rows: string[][] = [];
+      await parseCSVStream(csvContent, {
+        chunkSize: 5000,
+        onRows: (chunk, { rowsParsed, bytesRead, totalBytes }) => {
+          rows.push(...chunk);
+          this.updateProgress(
+            'parsing',
+            totalBytes ? (bytesRead / totalBytes) * 20 : 0,
+            rowsParsed,
+            0,
+            `Parsed ${rowsParsed.toLocaleString()} rows...`
+          );
+        }
+      });
       
       console.log('Parsed rows:', rows.length);
       if (rows.length > 0) {
@@ -109,17 +143,23 @@ export class OrderHistoryProcessor {
       this.updateProgress('validation', 85, dataRows.length, dataRows.length, 'Applying fallback dimensions...');
       this.applyFallbackDimensions(validOrders);
 
+      // Line-item exports repeat the order ID; pack those rows as one load
+      this.updateProgress('validation', 90, dataRows.length, dataRows.length, 'Grouping line items into orders...');
+      const orders = this.aggregateLineItems(validOrders);
+
       this.updateProgress('complete', 100, dataRows.length, dataRows.length, 'Processing complete');
 
       const statistics = {
         totalRows: dataRows.length,
         validRows: validOrders.length,
         invalidRows: invalidOrders.length,
-        completionRate: (validOrders.length / dataRows.length) * 100
+        completionRate: (validOrders.length / dataRows.length) * 100,
+        orderCount: orders.length,
+        multiItemOrders: orders.filter(order => order.lineItems).length
       };
 
       return {
-        validOrders,
+        validOrders: orders,
         invalidOrders,
         statistics
       };
@@ -190,7 +230,9 @@ export class OrderHistoryProcessor {
         'zone', 'shipping_zone', 'delivery_zone', 'region', 'area',
         'location', 'destination', 'ship_to', 'delivery_region',
         'geo', 'geography', 'territory'
-      ]
+      ],
+      destinationZip: DESTINATION_ZIP_COLUMNS,
+      originZip: ORIGIN_ZIP_COLUMNS
     };
 
     const mappings: Record<string, number> = {};
@@ -216,6 +258,12 @@ export class OrderHistoryProcessor {
       }
     }
 
+    // Headers like "ship_to_zip" also look like a zone/destination column
+    if (mappings.zone !== undefined &&
+        (mappings.zone === mappings.destinationZip || mappings.zone === mappings.originZip)) {
+      delete mappings.zone;
+    }
+
     return mappings;
   }
 
@@ -305,9 +353,18 @@ export class OrderHistoryProcessor {
       weight: this.parseNumericField(this.getFieldValue(row, mappings, 'weight')),
       category: this.getFieldValue(row, mappings, 'category')?.trim(),
       priority: this.parseShippingPriority(this.getFieldValue(row, mappings, 'priority')),
-      zone: this.getFieldValue(row, mappings, 'zone')?.trim()
+      zone: this.getFieldValue(row, mappings, 'zone')?.trim() || undefined,
+      destinationZip: this.getFieldValue(row, mappings, 'destinationZip')?.trim() || undefined,
+      originZip: this.getFieldValue(row, mappings, 'originZip')?.trim() || undefined
     };
 
+    // Assign the zone from the destination postal code when zone charts are available
+    if (this.zoneCharts.length > 0) {
+      const destinationZip = order.destinationZip ||
+        (order.zone && isPostalCode(order.zone) ? order.zone : undefined);
+      order.zone = resolveZone(this.zoneCharts, { destinationZip, originZip: order.originZip }) || order.zone;
+    }
+
     return order;
   }
 
@@ -434,6 +491,85 @@ export class OrderHistoryProcessor {
     }
   }
 
+  /**
+   * Group rows that share an order ID into one order. Single-row orders are
+   * returned unchanged; multi-row orders keep their rows as line items, with
+   * every unit packed by the 3D packer into one load whose dimensions,
+   * volume and weight stand in for the order during allocation.
+   */
+  private aggregateLineItems(rows: OrderHistoryItem[]): OrderHistoryItem[] {
+    const groups = new Map<string, OrderHistoryItem[]>();
+    for (const row of rows) {
+      const group = groups.get(row.orderId);
+      if (group) {
+        group.push(row);
+      } else {
+        groups.set(row.orderId, [row]);
+      }
+    }
+
+    return Array.from(groups.values()).map(group => group.length === 1 ? group[0] : this.buildMultiItemOrder(group));
+  }
+
+  /**
+   * Combine line-item rows of one order into a single packed load
+   */
+  private buildMultiItemOrder(rows: OrderHistoryItem[]): OrderHistoryItem {
+    const lineItems: OrderLineItem[] = rows.map(row => ({
+      productName: row.productName,
+      length: row.length,
+      width: row.width,
+      height: row.height,
+      unit: row.unit,
+      quantity: row.quantity,
+      totalVolume: row.totalVolume,
+      weight: row.weight,
+      category: row.category,
+      allowedOrientations: row.allowedOrientations,
+      thisSideUp: row.thisSideUp,
+      maxLoadOnTop: row.maxLoadOnTop
+    }));
+
+    const packingItems: PackingItem[] = lineItems.map((line, index) => ({
+      id: `${rows[0].orderId}_${index + 1}`,
+      dimensions: { ...getLineItemDimensions(line), unit: 'in' as const },
+      weight: line.weight || 0,
+      quantity: line.quantity,
+      allowedOrientations: line.allowedOrientations,
+      thisSideUp: line.thisSideUp,
+      maxLoadOnTop: line.maxLoadOnTop
+    }));
+    const load = calculateLoadDimensions(packingItems);
+
+    const totalVolume = packingItems.reduce((sum, item) => sum + calculateCUIN(item.dimensions) * item.quantity, 0);
+    const hasWeight = lineItems.some(line => line.weight !== undefined);
+    const categories = new Set(lineItems.map(line => line.category).filter(Boolean));
+    const first = rows[0];
+
+    return {
+      orderId: first.orderId,
+      productName: lineItems.map(line => line.productName).filter(Boolean).join(', ') || undefined,
+      length: load.length,
+      width: load.width,
+      height: load.height,
+      unit: 'in',
+      quantity: 1,
+      totalVolume,
+      weight: hasWeight
+        ? lineItems.reduce((sum, line) => sum + (line.weight || 0) * line.quantity, 0)
+        : undefined,
+      category: categories.size === 1 ? [...categories][0] : undefined,
+      priority: rows.reduce<OrderHistoryItem['priority']>((highest, row) =>
+        row.priority && PRIORITY_RANK[row.priority] > PRIORITY_RANK[highest || 'standard'] ? row.priority : highest,
+        first.priority
+      ),
+      zone: rows.find(row => row.zone)?.zone,
+      destinationZip: rows.find(row => row.destinationZip)?.destinationZip,
+      originZip: rows.find(row => row.originZip)?.originZip,
+      lineItems
+    };
+  }
+
   /**
    * Select appropriate fallback dimensions
    */
@@ -478,4 +614,16 @@ export class OrderHistoryProcessor {
       });
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Per-unit dimensions of a line item in inches; rows that only carry a total
+ * volume are treated as cubes, as allocation does for single-row orders
+ */
+export function getLineItemDimensions(line: OrderLineItem): { length: number; width: number; height: number } {
+  if (line.totalVolume && (!line.length || !line.width || !line.height)) {
+    const side = Math.pow(line.totalVolume / line.quantity, 1 / 3);
+    return { length: side, width: side, height: side };
+  }
+  return convertToInches({ length: line.length, width: line.width, height: line.height, unit: line.unit });
+}
@@ -0,0 +1,710 @@
+// Suite Analyzer - Suite Rationalization
+
+import {
+  calculateContainerCapacity,
+  type PackingConstraints,
+  type PackingContainer,
+  type PackingItem
+} from '../algorithms/packingOptimizer';
+import { calculateShippingCosts } from '../calculations/costAnalysis';
+import { calculateCUIN, convertToInches } from '../calculations/cuin';
+import { generateDimensionOptions } from '../calculations/packageOptimization';
+import { DEFAULT_SURCHARGE_RULES } from '../calculations/surcharges';
+import type {
+  OrderHistoryItem,
+  PackagingOption,
+  ProcessingProgress,
+  RationalizedBox,
+  SuiteAnalyzerConfig,
+  SuiteCostSummary,
+  SuiteRationalizationOptions,
+  SuiteRationalizationResult
+} from './types';
+
+interface OrderProfile {
+  orderIds: string[];
+  item: PackingItem; // Inch dimensions, quantity = units in the order
+  loadVolume: number;
+  envelope: [number, number, number]; // Estimated load bounding box, longest side first
+  zone: string;
+  priority: string;
+}
+
+interface CandidateBox {
+  option: PackagingOption;
+  container: PackingContainer;
+  source: RationalizedBox['source'];
+}
+
+interface CostCell {
+  packagingCost: number;
+  shippingCost: number;
+  totalCost: number;
+}
+
+const DEFAULT_BOARD_COST_PER_SQ_IN = 0.0012;   // ~$1.04 for a 12" cube
+const DEFAULT_BOARD_WEIGHT_PER_SQ_IN = 0.0009; // ~0.78 lb for a 12" cube
+const DEFAULT_MAX_WEIGHT = 50;
+const MAX_ENVELOPE_SEARCH_UNITS = 64;
+const KMEANS_ITERATIONS = 25;
+
+export class SuiteRationalizationEngine {
+  private progressCallback?: (progress: ProcessingProgress) => void;
+  private config: Partial<SuiteAnalyzerConfig>;
+
+  constructor(
+    progressCallback?: (progress: ProcessingProgress) => void,
+    config: Partial<SuiteAnalyzerConfig> = {}
+  ) {
+    this.progressCallback = progressCallback;
+    this.config = config;
+  }
+
+  /**
+   * Propose the N-box suite that minimises packaging + DIM-weighted shipping
+   * cost for the given order history, and compare it with the current suite
+   */
+  async rationalizeSuite(
+    orders: OrderHistoryItem[],
+    currentSuite: PackagingOption[],
+    options: SuiteRationalizationOptions
+  ): Promise<SuiteRationalizationResult> {
+    const startTime = Date.now();
+    const targetSuiteSize = Math.floor(options.targetSuiteSize);
+
+    if (!(targetSuiteSize >= 1)) {
+      throw new Error('Target suite size must be at least 1');
+    }
+
+    this.updateProgress('analysis', 0, 0, orders.length, 'Profiling order history...');
+    const profiles = this.buildOrderProfiles(orders);
+    if (profiles.length === 0) {
+      throw new Error('No orders with usable dimensions for suite rationalization');
+    }
+
+    this.updateProgress('optimization', 10, 0, profiles.length, 'Generating candidate box sizes...');
+    const candidates = this.generateCandidates(profiles, currentSuite, options);
+
+    this.updateProgress('optimization', 20, 0, candidates.length, `Costing ${candidates.length} candidate boxes...`);
+    const costMatrix = this.buildCostMatrix(profiles, candidates);
+
+    this.updateProgress('optimization', 70, 0, targetSuiteSize, 'Searching for the best suite...');
+    const selected = this.selectSuite(profiles, costMatrix, targetSuiteSize, options.maxSwapPasses ?? 10);
+
+    this.updateProgress('analysis', 90, 0, 0, 'Comparing against the current suite...');
+    const currentIndexes = candidates
+      .map((candidate, index) => (candidate.source === 'current' ? index : -1))
+      .filter(index => index >= 0);
+
+    const proposedAssignment = this.assignProfiles(costMatrix, selected);
+    const currentAssignment = this.assignProfiles(costMatrix, currentIndexes);
+
+    const totalOrders = profiles.reduce((sum, profile) => sum + profile.orderIds.length, 0);
+    const result: SuiteRationalizationResult = {
+      targetSuiteSize,
+      totalOrders,
+      proposedSuite: this.describeSuite(profiles, candidates, costMatrix, selected, proposedAssignment, totalOrders),
+      currentSuite: this.describeSuite(profiles, candidates, costMatrix, currentIndexes, currentAssignment, totalOrders),
+      proposed: this.summarizeCosts(profiles, costMatrix, proposedAssignment),
+      current: this.summarizeCosts(profiles, costMatrix, currentAssignment),
+      costDelta: this.calculateCostDelta(profiles, costMatrix, proposedAssignment, currentAssignment),
+      uncoveredOrderIds: profiles
+        .filter((_, index) => proposedAssignment[index] === -1)
+        .flatMap(profile => profile.orderIds),
+      candidatesEvaluated: candidates.length,
+      processingTime: Date.now() - startTime
+    };
+
+    this.updateProgress('complete', 100, totalOrders, totalOrders, 'Suite rationalization complete');
+    return result;
+  }
+
+  /**
+   * Group orders with identical loads so each distinct load is costed once
+   */
+  private buildOrderProfiles(orders: OrderHistoryItem[]): OrderProfile[] {
+    const profiles = new Map<string, OrderProfile>();
+    const uprightCategories = (this.config.uprightCategories || []).map(c => c.toLowerCase());
+
+    for (const order of orders) {
+      const dimensions = this.getUnitDimensions(order);
+      if (!dimensions || order.quantity <= 0) continue;
+
+      const category = order.category || 'general';
+      const item: PackingItem = {
+        id: order.orderId,
+        dimensions: { ...dimensions, unit: 'in' },
+        weight: order.weight || 1,
+        quantity: order.quantity,
+        stackable: true,
+        category,
+        allowedOrientations: order.allowedOrientations,
+        thisSideUp: order.thisSideUp || uprightCategories.includes(category.toLowerCase()),
+        maxLoadOnTop: order.maxLoadOnTop
+      };
+      const zone = order.zone || 'domestic';
+      const priority = order.priority || 'standard';
+
+      const key = [
+        dimensions.length.toFixed(2),
+        dimensions.width.toFixed(2),
+        dimensions.height.toFixed(2),
+        item.quantity,
+        item.weight.toFixed(2),
+        zone,
+        priority,
+        item.thisSideUp ? 'up' : '',
+        (item.allowedOrientations || []).join('/'),
+        item.maxLoadOnTop ?? ''
+      ].join('|');
+
+      const existing = profiles.get(key);
+      if (existing) {
+        existing.orderIds.push(order.orderId);
+      } else {
+        profiles.set(key, {
+          orderIds: [order.orderId],
+          item,
+          loadVolume: calculateCUIN(item.dimensions) * item.quantity,
+          envelope: this.estimateLoadEnvelope(dimensions, item.quantity),
+          zone,
+          priority
+        });
+      }
+    }
+
+    return Array.from(profiles.values());
+  }
+
+  /**
+   * Unit dimensions in inches, estimating a cube from total volume when the
+   * order has no dimensions
+   */
+  private getUnitDimensions(order: OrderHistoryItem): { length: number; width: number; height: number } | null {
+    if (order.length > 0 && order.width > 0 && order.height > 0) {
+      return convertToInches({
+        length: order.length,
+        width: order.width,
+        height: order.height,
+        unit: order.unit
+      });
+    }
+
+    if (order.totalVolume && order.totalVolume > 0) {
+      const side = Math.cbrt(order.totalVolume / order.quantity);
+      return { length: side, width: side, height: side };
+    }
+
+    return null;
+  }
+
+  /**
+   * Smallest-surface grid arrangement of the units, used to seed cluster
+   * candidates. Large quantities fall back to volume-preserving scaling.
+   */
+  private estimateLoadEnvelope(
+    dimensions: { length: number; width: number; height: number },
+    quantity: number
+  ): [number, number, number] {
+    const sides = [dimensions.length, dimensions.width, dimensions.height].sort((a, b) => b - a);
+
+    if (quantity <= 1) {
+      return [sides[0], sides[1], sides[2]];
+    }
+
+    if (quantity > MAX_ENVELOPE_SEARCH_UNITS) {
+      const scale = Math.cbrt(quantity);
+      return [sides[0] * scale, sides[1] * scale, sides[2] * scale];
+    }
+
+    let best: [number, number, number] = [sides[0], sides[1], sides[2] * quantity];
+    let bestArea = Infinity;
+
+    for (let nx = 1; nx <= quantity; nx++) {
+      for (let ny = 1; nx * ny <= quantity * 2 && ny <= quantity; ny++) {
+        const nz = Math.ceil(quantity / (nx * ny));
+        const box = [sides[0] * nx, sides[1] * ny, sides[2] * nz];
+        const area = 2 * (box[0] * box[1] + box[1] * box[2] + box[0] * box[2]);
+        if (area < bestArea) {
+          bestArea = area;
+          best = box.sort((a, b) => b - a) as [number, number, number];
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Candidate boxes: the current suite, order-dimension clusters and the
+   * standard dimension options at a spread of load volumes
+   */
+  private generateCandidates(
+    profiles: OrderProfile[],
+    currentSuite: PackagingOption[],
+    options: SuiteRationalizationOptions
+  ): CandidateBox[] {
+    const clearance = options.clearance ?? 0.25;
+    const increment = options.roundingIncrement ?? 0.5;
+    const targetFill = options.targetFillRate ?? 0.85;
+    const { costPerSqIn, weightPerSqIn, maxWeight } = this.estimateBoardRates(currentSuite, options);
+
+    const candidates: CandidateBox[] = [];
+    const seen = new Set<string>();
+
+    const addCandidate = (
+      sides: number[],
+      source: RationalizedBox['source'],
+      existing?: PackagingOption
+    ) => {
+      const [length, width, height] = existing
+        ? [existing.length, existing.width, existing.height]
+        : sides.map(side => Math.ceil(side / increment) * increment).sort((a, b) => b - a);
+      if (!(length > 0 && width > 0 && height > 0)) return;
+
+      const key = existing ? `current:${existing.packageId}` : `${length}x${width}x${height}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      const surfaceArea = 2 * (length * width + width * height + length * height);
+      const option: PackagingOption = existing || {
+        packageName: `Box ${length}x${width}x${height}`,
+        packageId: `rationalized_${length}x${width}x${height}`,
+        length,
+        width,
+        height,
+        unit: 'in',
+        costPerUnit: Math.round(surfaceArea * costPerSqIn * 100) / 100,
+        packageWeight: Math.round(surfaceArea * weightPerSqIn * 100) / 100,
+        maxWeight,
+        type: 'box'
+      };
+      const inches = convertToInches({ length, width, height, unit: option.unit });
+
+      candidates.push({
+        option,
+        source,
+        container: {
+          id: option.packageId,
+          name: option.packageName,
+          dimensions: { ...inches, unit: 'in' },
+          maxWeight: option.maxWeight || DEFAULT_MAX_WEIGHT,
+          cost: option.costPerUnit,
+          category: option.type
+        }
+      });
+    };
+
+    for (const pkg of currentSuite) {
+      addCandidate([], 'current', pkg);
+    }
+
+    // Cluster candidates: a box that holds every member and a tighter one
+    // that holds most of them
+    const clusterCount = Math.min(profiles.length, Math.max(options.targetSuiteSize * 2, 6));
+    for (const cluster of this.clusterProfiles(profiles, clusterCount)) {
+      const maxSides = [0, 1, 2].map(axis => Math.max(...cluster.map(p => p.envelope[axis])));
+      addCandidate(maxSides.map(side => side + clearance), 'cluster');
+
+      const percentileSides = [0, 1, 2].map(axis =>
+        this.weightedPercentile(cluster.map(p => ({ value: p.envelope[axis], weight: p.orderIds.length })), 0.8)
+      );
+      addCandidate(percentileSides.map(side => side + clearance), 'cluster');
+    }
+
+    // Dimension-option candidates across the load volume distribution
+    const volumes = profiles.map(p => ({ value: p.loadVolume, weight: p.orderIds.length }));
+    for (const quantile of [0.25, 0.5, 0.75, 0.9, 1]) {
+      const targetVolume = this.weightedPercentile(volumes, quantile) / targetFill;
+      for (const dimensionOption of generateDimensionOptions(targetVolume)) {
+        addCandidate([dimensionOption.length, dimensionOption.width, dimensionOption.height], 'dimension_option');
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Board cost and weight per square inch, estimated from the current suite
+   * unless overridden
+   */
+  private estimateBoardRates(currentSuite: PackagingOption[], options: SuiteRationalizationOptions) {
+    const boxes = currentSuite.map(pkg => {
+      const inches = convertToInches({ length: pkg.length, width: pkg.width, height: pkg.height, unit: pkg.unit });
+      const surfaceArea = 2 * (inches.length * inches.width + inches.width * inches.height + inches.length * inches.height);
+      return { pkg, surfaceArea };
+    }).filter(box => box.surfaceArea > 0);
+
+    const median = (values: number[], fallback: number) => {
+      if (values.length === 0) return fallback;
+      const sorted = [...values].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+    };
+
+    return {
+      costPerSqIn: options.boardCostPerSqIn ?? median(
+        boxes.filter(box => box.pkg.costPerUnit > 0).map(box => box.pkg.costPerUnit / box.surfaceArea),
+        DEFAULT_BOARD_COST_PER_SQ_IN
+      ),
+      weightPerSqIn: options.boardWeightPerSqIn ?? median(
+        boxes.filter(box => box.pkg.packageWeight > 0).map(box => box.pkg.packageWeight / box.surfaceArea),
+        DEFAULT_BOARD_WEIGHT_PER_SQ_IN
+      ),
+      maxWeight: Math.max(DEFAULT_MAX_WEIGHT, ...currentSuite.map(pkg => pkg.maxWeight || 0))
+    };
+  }
+
+  /**
+   * Order-weighted k-means over load envelopes. Centroids start at evenly
+   * spaced profiles by volume, so results are deterministic.
+   */
+  private clusterProfiles(profiles: OrderProfile[], clusterCount: number): OrderProfile[][] {
+    if (clusterCount <= 0) return [];
+
+    const byVolume = [...profiles].sort((a, b) => a.loadVolume - b.loadVolume);
+    let centroids = Array.from({ length: clusterCount }, (_, index) => {
+      const profile = byVolume[Math.floor(((index + 0.5) / clusterCount) * byVolume.length)];
+      return [...profile.envelope];
+    });
+    let assignment = new Array<number>(profiles.length).fill(0);
+
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+      const nextAssignment = profiles.map(profile => {
+        let nearest = 0;
+        let nearestDistance = Infinity;
+        centroids.forEach((centroid, index) => {
+          const distance = centroid.reduce((sum, value, axis) => sum + (value - profile.envelope[axis]) ** 2, 0);
+          if (distance < nearestDistance) {
+            nearestDistance = distance;
+            nearest = index;
+          }
+        });
+        return nearest;
+      });
+
+      const changed = nextAssignment.some((cluster, index) => cluster !== assignment[index]);
+      assignment = nextAssignment;
+
+      centroids = centroids.map((centroid, clusterIndex) => {
+        let totalWeight = 0;
+        const sum = [0, 0, 0];
+        profiles.forEach((profile, index) => {
+          if (assignment[index] !== clusterIndex) return;
+          const weight = profile.orderIds.length;
+          totalWeight += weight;
+          profile.envelope.forEach((value, axis) => { sum[axis] += value * weight; });
+        });
+        return totalWeight > 0 ? sum.map(value => value / totalWeight) : centroid;
+      });
+
+      if (!changed && iteration > 0) break;
+    }
+
+    return centroids
+      .map((_, clusterIndex) => profiles.filter((_, index) => assignment[index] === clusterIndex))
+      .filter(cluster => cluster.length > 0);
+  }
+
+  /**
+   * Weighted percentile of a set of values (percentile in 0-1)
+   */
+  private weightedPercentile(entries: Array<{ value: number; weight: number }>, percentile: number): number {
+    const sorted = [...entries].sort((a, b) => a.value - b.value);
+    const totalWeight = sorted.reduce((sum, entry) => sum + entry.weight, 0);
+    let cumulative = 0;
+
+    for (const entry of sorted) {
+      cumulative += entry.weight;
+      if (cumulative >= totalWeight * percentile) {
+        return entry.value;
+      }
+    }
+
+    return sorted.length > 0 ? sorted[sorted.length - 1].value : 0;
+  }
+
+  /**
+   * Cost of shipping each order profile in each candidate box; null when the
+   * load does not fit
+   */
+  private buildCostMatrix(profiles: OrderProfile[], candidates: CandidateBox[]): Array<Array<CostCell | null>> {
+    const constraints = this.getPackingConstraints();
+    const includeShipping = this.config.includeShippingCosts !== false;
+
+    return profiles.map((profile, profileIndex) => {
+      if (profileIndex % 50 === 0) {
+        this.updateProgress(
+          'optimization',
+          20 + (profileIndex / profiles.length) * 50,
+          profileIndex,
+          profiles.length,
+          `Costing order profile ${profileIndex + 1} of ${profiles.length}...`
+        );
+      }
+
+      return candidates.map(({ option, container }) => {
+        if (profile.loadVolume > calculateCUIN(container.dimensions)) return null;
+        if (profile.item.weight * profile.item.quantity > container.maxWeight) return null;
+        if (calculateContainerCapacity(profile.item, container, constraints) < profile.item.quantity) return null;
+
+        const shippingCost = includeShipping
+          ? calculateShippingCosts(
+              container.dimensions,
+              profile.item.weight * profile.item.quantity + option.packageWeight,
+              profile.zone,
+              profile.priority,
+              undefined,
+              this.config.rateCard,
+              this.config.surchargeRules || DEFAULT_SURCHARGE_RULES
+            ).totalCost
+          : 0;
+
+        return {
+          packagingCost: option.costPerUnit,
+          shippingCost,
+          totalCost: option.costPerUnit + shippingCost
+        };
+      });
+    });
+  }
+
+  /**
+   * Greedy construction followed by swap-based local search. Uncovered orders
+   * carry a penalty larger than any real cost so coverage always wins.
+   */
+  private selectSuite(
+    profiles: OrderProfile[],
+    costMatrix: Array<Array<CostCell | null>>,
+    targetSuiteSize: number,
+    maxSwapPasses: number
+  ): number[] {
+    const candidateCount = costMatrix[0]?.length || 0;
+    let maxCost = 0;
+    for (const row of costMatrix) {
+      for (const cell of row) {
+        if (cell && cell.totalCost > maxCost) maxCost = cell.totalCost;
+      }
+    }
+    const penalty = maxCost * 10 + 100;
+
+    const evaluate = (suite: number[]) => profiles.reduce((sum, profile, profileIndex) => {
+      let best = penalty;
+      for (const candidateIndex of suite) {
+        const cell = costMatrix[profileIndex][candidateIndex];
+        if (cell && cell.totalCost < best) best = cell.totalCost;
+      }
+      return sum + best * profile.orderIds.length;
+    }, 0);
+
+    // Greedy: add the box that lowers total cost the most
+    const selected: number[] = [];
+    let currentCost = evaluate(selected);
+    while (selected.length < Math.min(targetSuiteSize, candidateCount)) {
+      let bestIndex = -1;
+      let bestCost = currentCost;
+      for (let candidateIndex = 0; candidateIndex < candidateCount; candidateIndex++) {
+        if (selected.includes(candidateIndex)) continue;
+        const cost = evaluate([...selected, candidateIndex]);
+        if (cost < bestCost - 1e-9) {
+          bestCost = cost;
+          bestIndex = candidateIndex;
+        }
+      }
+      if (bestIndex === -1) break; // No remaining box improves the suite
+      selected.push(bestIndex);
+      currentCost = bestCost;
+    }
+
+    // Swap search: replace one box at a time while that lowers the cost
+    for (let pass = 0; pass < maxSwapPasses; pass++) {
+      let improved = false;
+      for (let position = 0; position < selected.length; position++) {
+        for (let candidateIndex = 0; candidateIndex < candidateCount; candidateIndex++) {
+          if (selected.includes(candidateIndex)) continue;
+          const trial = [...selected];
+          trial[position] = candidateIndex;
+          const cost = evaluate(trial);
+          if (cost < currentCost - 1e-9) {
+            selected[position] = candidateIndex;
+            currentCost = cost;
+            improved = true;
+          }
+        }
+      }
+      if (!improved) break;
+    }
+
+    return selected;
+  }
+
+  /**
+   * Cheapest box in the suite for each profile, or -1 when none fits
+   */
+  private assignProfiles(costMatrix: Array<Array<CostCell | null>>, suite: number[]): number[] {
+    return costMatrix.map(row => {
+      let bestIndex = -1;
+      let bestCost = Infinity;
+      for (const candidateIndex of suite) {
+        const cell = row[candidateIndex];
+        if (cell && cell.totalCost < bestCost) {
+          bestCost = cell.totalCost;
+          bestIndex = candidateIndex;
+        }
+      }
+      return bestIndex;
+    });
+  }
+
+  /**
+   * Per-box coverage, fill rate and cost for a suite
+   */
+  private describeSuite(
+    profiles: OrderProfile[],
+    candidates: CandidateBox[],
+    costMatrix: Array<Array<CostCell | null>>,
+    suite: number[],
+    assignment: number[],
+    totalOrders: number
+  ): RationalizedBox[] {
+    return suite.map(candidateIndex => {
+      const { option, container, source } = candidates[candidateIndex];
+      const volume = calculateCUIN(container.dimensions);
+      let ordersCovered = 0;
+      let fillRateSum = 0;
+      let packagingCost = 0;
+      let shippingCost = 0;
+
+      profiles.forEach((profile, profileIndex) => {
+        const cell = costMatrix[profileIndex][candidateIndex];
+        if (assignment[profileIndex] !== candidateIndex || !cell) return;
+        const count = profile.orderIds.length;
+        ordersCovered += count;
+        fillRateSum += (profile.loadVolume / volume) * 100 * count;
+        packagingCost += cell.packagingCost * count;
+        shippingCost += cell.shippingCost * count;
+      });
+
+      return {
+        packageId: option.packageId,
+        packageName: option.packageName,
+        length: container.dimensions.length,
+        width: container.dimensions.width,
+        height: container.dimensions.height,
+        volume,
+        costPerUnit: option.costPerUnit,
+        packageWeight: option.packageWeight,
+        source,
+        ordersCovered,
+        coveragePercent: totalOrders > 0 ? Math.round((ordersCovered / totalOrders) * 10000) / 100 : 0,
+        averageFillRate: ordersCovered > 0 ? Math.round((fillRateSum / ordersCovered) * 100) / 100 : 0,
+        packagingCost: Math.round(packagingCost * 100) / 100,
+        shippingCost: Math.round(shippingCost * 100) / 100
+      };
+    }).sort((a, b) => a.volume - b.volume);
+  }
+
+  /**
+   * Total costs and coverage for an assignment
+   */
+  private summarizeCosts(
+    profiles: OrderProfile[],
+    costMatrix: Array<Array<CostCell | null>>,
+    assignment: number[]
+  ): SuiteCostSummary {
+    const summary: SuiteCostSummary = {
+      packagingCost: 0,
+      shippingCost: 0,
+      totalCost: 0,
+      coveredOrders: 0,
+      uncoveredOrders: 0
+    };
+
+    profiles.forEach((profile, profileIndex) => {
+      const count = profile.orderIds.length;
+      const cell = assignment[profileIndex] >= 0 ? costMatrix[profileIndex][assignment[profileIndex]] : null;
+      if (!cell) {
+        summary.uncoveredOrders += count;
+        return;
+      }
+      summary.coveredOrders += count;
+      summary.packagingCost += cell.packagingCost * count;
+      summary.shippingCost += cell.shippingCost * count;
+      summary.totalCost += cell.totalCost * count;
+    });
+
+    summary.packagingCost = Math.round(summary.packagingCost * 100) / 100;
+    summary.shippingCost = Math.round(summary.shippingCost * 100) / 100;
+    summary.totalCost = Math.round(summary.totalCost * 100) / 100;
+    return summary;
+  }
+
+  /**
+   * Proposed minus current cost over the orders both suites can ship
+   */
+  private calculateCostDelta(
+    profiles: OrderProfile[],
+    costMatrix: Array<Array<CostCell | null>>,
+    proposedAssignment: number[],
+    currentAssignment: number[]
+  ): SuiteRationalizationResult['costDelta'] {
+    let packagingCost = 0;
+    let shippingCost = 0;
+    let currentTotal = 0;
+
+    profiles.forEach((profile, profileIndex) => {
+      if (proposedAssignment[profileIndex] < 0 || currentAssignment[profileIndex] < 0) return;
+      const proposed = costMatrix[profileIndex][proposedAssignment[profileIndex]];
+      const current = costMatrix[profileIndex][currentAssignment[profileIndex]];
+      if (!proposed || !current) return;
+
+      const count = profile.orderIds.length;
+      packagingCost += (proposed.packagingCost - current.packagingCost) * count;
+      shippingCost += (proposed.shippingCost - current.shippingCost) * count;
+      currentTotal += current.totalCost * count;
+    });
+
+    const totalCost = packagingCost + shippingCost;
+    return {
+      packagingCost: Math.round(packagingCost * 100) / 100,
+      shippingCost: Math.round(shippingCost * 100) / 100,
+      totalCost: Math.round(totalCost * 100) / 100,
+      percent: currentTotal > 0 ? Math.round((totalCost / currentTotal) * 10000) / 100 : 0
+    };
+  }
+
+  /**
+   * Map analyzer configuration onto packing constraints
+   */
+  private getPackingConstraints(): PackingConstraints {
+    return {
+      allowRotation: this.config.allowRotation,
+      allowStacking: this.config.allowStacking,
+      allowedOrientations: this.config.allowedOrientations,
+      fragileHandling: this.config.fragileHandling
+    };
+  }
+
+  /**
+   * Update progress callback
+   */
+  private updateProgress(
+    stage: ProcessingProgress['stage'],
+    progress: number,
+    currentItem: number,
+    totalItems: number,
+    message: string
+  ): void {
+    if (this.progressCallback) {
+      this.progressCallback({
+        stage,
+        progress: Math.min(100, Math.max(0, progress)),
+        currentItem,
+        totalItems,
+        message,
+        timeElapsed: Date.now(),
+        estimatedTimeRemaining: 0
+      });
+    }
+  }
+}
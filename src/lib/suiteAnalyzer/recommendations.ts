@@ -143,7 +143,7 @@ export class RecommendationsEngine {
 
     // Packaging standardization
     const standardizationOpportunity = this.analyzeStandardizationOpportunity(allocations);
-    if (standardizationOpportunity.potential > 0) {
+    if (standardizationOpportunity.savings > 0) {
       recommendations.push({
         type: 'efficiency_improvement',
         priority: 'medium',
@@ -1,5 +1,12 @@
 // Suite Analyzer Type Definitions
 
+import type { OrientationCode } from '../algorithms/packingOptimizer';
+import type { RateCard } from '../calculations/costAnalysis';
+import type { ZoneChart } from '../calculations/zoneResolver';
+import type { AppliedSurcharge, PackageSurchargeSummary, SurchargeRule } from '../calculations/surcharges';
+
+export type { PackageSurchargeSummary };
+
 export interface OrderHistoryItem {
   orderId: string;
   productName?: string;
@@ -13,6 +20,28 @@ export interface OrderHistoryItem {
   category?: string;
   priority?: 'standard' | 'express' | 'overnight';
   zone?: string;
+  destinationZip?: string;
+  originZip?: string;
+  allowedOrientations?: OrientationCode[];
+  thisSideUp?: boolean;
+  maxLoadOnTop?: number; // lbs per unit
+  lineItems?: OrderLineItem[]; // Multi-SKU orders; dimensions above are then the packed load
+}
+
+// One row of a line-item export, kept on the aggregated order for packing
+export interface OrderLineItem {
+  productName?: string;
+  length: number;
+  width: number;
+  height: number;
+  unit: 'in' | 'cm' | 'ft' | 'mm' | 'm';
+  quantity: number;
+  totalVolume?: number;
+  weight?: number; // lbs per unit
+  category?: string;
+  allowedOrientations?: OrientationCode[];
+  thisSideUp?: boolean;
+  maxLoadOnTop?: number;
 }
 
 export interface PackagingOption {
@@ -64,14 +93,38 @@ export interface PackagingAllocation {
   efficiency: number;
   costBreakdown: {
     packageCost: number;
-    shippingCost: number;
+    shippingCost: number; // Includes surcharges
+    surchargeCost?: number;
     totalCost: number;
   };
+  surcharges?: AppliedSurcharge[]; // Accessorial fees, across all parcels for split shipments
   savings?: {
     packageSavings: number;
     shippingSavings: number;
     totalSavings: number;
   };
+  parcels?: ParcelAllocation[]; // Present when the order ships in more than one parcel
+}
+
+export interface ParcelAllocation {
+  packageId: string;
+  packageName: string;
+  itemCount: number;
+  weight: number; // Contents plus package weight, lbs
+  packageDimensions: {
+    length: number;
+    width: number;
+    height: number;
+    volume: number;
+  };
+  fillRate: number;
+  costBreakdown: {
+    packageCost: number;
+    shippingCost: number;
+    surchargeCost?: number;
+    totalCost: number;
+  };
+  surcharges?: AppliedSurcharge[];
 }
 
 export interface BaselineComparison {
@@ -110,6 +163,7 @@ export interface SuiteAnalysisResult {
   recommendations: SuiteRecommendation[];
   metrics: AnalysisMetrics;
   packageWeights: Record<string, number>; // Store actual package weights from CSV
+  surchargeSummary?: PackageSurchargeSummary[]; // Boxes that trigger accessorial fees, costliest first
 }
 
 export interface SuiteRecommendation {
@@ -143,6 +197,7 @@ export interface AnalysisMetrics {
   quality: {
     fillRateDistribution: Record<string, number>;
     costDistribution: Record<string, number>;
+    zoneDistribution?: Record<string, number>; // Percentage of orders per shipping zone
     efficiencyScores: number[];
   };
 }
@@ -152,6 +207,8 @@ export interface SuiteAnalyzerConfig {
   allowRotation: boolean;
   allowStacking: boolean;
   maxStackHeight: number;
+  allowedOrientations?: OrientationCode[]; // Default for items without their own set
+  uprightCategories?: string[];            // Categories that must ship "this side up"
   
   // Quality thresholds
   minimumFillRate: number;
@@ -160,6 +217,9 @@ export interface SuiteAnalyzerConfig {
   // Cost optimization
   includeShippingCosts: boolean;
   dimFactor: number;
+  rateCard?: RateCard; // Uploaded carrier rates; built-in estimates are used without one
+  zoneCharts?: ZoneChart[]; // Per-origin ZIP3 zone charts; the first is the default origin
+  surchargeRules?: SurchargeRule[]; // Accessorial fee rules; carrier defaults are used without them
   
   // Business rules
   fragileHandling: 'separate' | 'padded' | 'bottom_only';
@@ -171,6 +231,60 @@ export interface SuiteAnalyzerConfig {
   parallelProcessing: boolean;
 }
 
+export interface SuiteRationalizationOptions {
+  targetSuiteSize: number;
+  maxSwapPasses?: number;          // Local search passes after the greedy build
+  clearance?: number;              // Inches added around cluster envelopes
+  roundingIncrement?: number;      // Candidate sides are rounded up to this (inches)
+  targetFillRate?: number;         // Fill rate assumed when sizing from volume (0-1)
+  boardCostPerSqIn?: number;       // Overrides the cost estimate from the current suite
+  boardWeightPerSqIn?: number;     // Overrides the package weight estimate (lbs)
+}
+
+export interface RationalizedBox {
+  packageId: string;
+  packageName: string;
+  length: number;
+  width: number;
+  height: number;
+  volume: number;
+  costPerUnit: number;
+  packageWeight: number;
+  source: 'current' | 'cluster' | 'dimension_option';
+  ordersCovered: number;
+  coveragePercent: number;
+  averageFillRate: number;
+  packagingCost: number;
+  shippingCost: number;
+}
+
+export interface SuiteCostSummary {
+  packagingCost: number;
+  shippingCost: number;
+  totalCost: number;
+  coveredOrders: number;
+  uncoveredOrders: number;
+}
+
+export interface SuiteRationalizationResult {
+  targetSuiteSize: number;
+  totalOrders: number;
+  proposedSuite: RationalizedBox[];
+  currentSuite: RationalizedBox[];
+  proposed: SuiteCostSummary;
+  current: SuiteCostSummary;
+  // Proposed minus current, over orders both suites can ship
+  costDelta: {
+    packagingCost: number;
+    shippingCost: number;
+    totalCost: number;
+    percent: number;
+  };
+  uncoveredOrderIds: string[];
+  candidatesEvaluated: number;
+  processingTime: number;
+}
+
 export interface ProcessingProgress {
   stage: 'parsing' | 'validation' | 'optimization' | 'analysis' | 'complete';
   progress: number;
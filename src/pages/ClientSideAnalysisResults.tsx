@@ -19,8 +19,13 @@ import {
   Clock,
   Target,
   ChevronDown,
+  Truck,
+  Loader2,
 } from 'lucide-react';
 import { ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend } from 'recharts';
+import type { PackageSurchargeSummary } from '@/lib/calculations/surcharges';
+import type { CustomBoxRecommendation } from '@/lib/calculations/packageOptimization';
+import { useSuiteRationalization } from '@/hooks/useSuiteRationalization';
 
 interface AllocationResult {
   orderId: string;
@@ -28,6 +33,7 @@ interface AllocationResult {
   fillRate: number;
   efficiency: number;
   cost: number;
+  shippingCost?: number;
   orderVolume: number;
   packageVolume: number;
 }
@@ -71,12 +77,17 @@ interface AnalysisResults {
     processingTime: number;
     memoryUsed?: number;
     throughput: number;
+    shippingCost?: number;
+    rateCardName?: string;
   };
   packageDistribution: { name: string; count: number; percentage: number; baselinePercentage?: number }[];
   packageCostBreakdown: PackageCostBreakdown[];
   packageMaterialBreakdown: PackageMaterialBreakdown[];
   fillRateDistribution: { range: string; count: number }[];
   volumeDistribution: { range: string; count: number; percentage: number }[];
+  surchargeSummary?: PackageSurchargeSummary[];
+  customBoxDesigns?: CustomBoxRecommendation[];
+  customBoxPeriodMonths?: number;
   efficiency: {
     optimalAllocations: number;
     subOptimalAllocations: number;
@@ -104,6 +115,7 @@ export default function ClientSideAnalysisResults() {
   const [targetFillRate, setTargetFillRate] = useState(75);
   const [showMeetingTarget, setShowMeetingTarget] = useState(false);
   const [showNeedingImprovement, setShowNeedingImprovement] = useState(false);
+  const { status: rationalizationStatus, result: rationalization, error: rationalizationError } = useSuiteRationalization(analysisId);
 
   // Sort packages in logical order: X-small → Small → Medium → Large → X-large → XX-large
   const sortPackagesBySize = (packages: any[]) => {
@@ -211,6 +223,10 @@ export default function ClientSideAnalysisResults() {
     csvSections.push(`Optimized Cost,$${results.summary.totalCost.toFixed(2)}`);
     csvSections.push(`Total Savings,$${(results.summary.savings || 0).toFixed(2)}`);
     csvSections.push(`Savings Percentage,${(results.summary.savingsPercentage || 0).toFixed(1)}%`);
+    if (results.summary.shippingCost !== undefined) {
+      csvSections.push(`Shipping Cost,$${results.summary.shippingCost.toFixed(2)}`);
+      csvSections.push(`Rate Card,"${(results.summary.rateCardName || '').replace(/"/g, '""')}"`);
+    }
     csvSections.push(`Processing Speed,${results.summary.throughput} orders/sec`);
     csvSections.push(`Processing Time,${results.summary.processingTime}ms`);
     if (results.summary.memoryUsed) {
@@ -366,7 +382,8 @@ export default function ClientSideAnalysisResults() {
 
     const headers = [
       'Order ID', 'Recommended Package', 'Order Volume (in³)', 'Package Volume (in³)',
-      'Fill Rate (%)', 'Cost ($)'
+      'Fill Rate (%)', 'Cost ($)',
+      ...(results.summary.shippingCost !== undefined ? ['Shipping ($)'] : [])
     ];
     csvSections.push(headers.join(','));
 
@@ -378,7 +395,8 @@ export default function ClientSideAnalysisResults() {
         allocation.orderVolume.toFixed(2),
         allocation.packageVolume.toFixed(2),
         allocation.fillRate.toFixed(1),
-        allocation.cost.toFixed(2)
+        allocation.cost.toFixed(2),
+        ...(allocation.shippingCost !== undefined ? [allocation.shippingCost.toFixed(2)] : [])
       ];
       csvSections.push(row.join(','));
     });
@@ -492,7 +510,11 @@ export default function ClientSideAnalysisResults() {
                   <p className="text-3xl font-bold text-purple-600 mt-1">
                     ${results.summary.totalCost.toFixed(0)}
                   </p>
-                  <p className="text-xs text-gray-500 mt-1">Package allocation</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {results.summary.shippingCost !== undefined
+                      ? `+ $${results.summary.shippingCost.toFixed(0)} shipping (${results.summary.rateCardName})`
+                      : 'Package allocation'}
+                  </p>
                 </div>
                 <div className="w-12 h-12 bg-purple-100 rounded-lg flex items-center justify-center">
                   <DollarSign className="h-6 w-6 text-purple-600" />
@@ -924,6 +946,201 @@ export default function ClientSideAnalysisResults() {
           </Card>
         )}
 
+        {/* Carrier Surcharges */}
+        {results.surchargeSummary && results.surchargeSummary.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Truck className="h-5 w-5 text-red-600" />
+                Carrier Surcharges
+              </CardTitle>
+              <CardDescription>
+                Boxes that trigger additional handling, large package or over-maximum fees
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {results.surchargeSummary.map((summary) => (
+                  <div key={summary.packageName} className="bg-gray-50 p-4 rounded-lg">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="text-sm font-medium text-gray-900 mb-1">{summary.packageName}</div>
+                        <p className="text-sm text-gray-600">
+                          {Object.entries(summary.bySurcharge)
+                            .map(([name, entry]) => `${name}: ${entry.orders.toLocaleString()} orders`)
+                            .join(' · ')}
+                        </p>
+                      </div>
+                      <div className="text-right ml-4">
+                        <div className="text-sm font-medium text-red-600">
+                          ${summary.surchargeCost.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {summary.ordersWithSurcharges.toLocaleString()} of {summary.parcelsShipped.toLocaleString()} orders affected
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Custom Box Designs */}
+        {results.customBoxDesigns && results.customBoxDesigns.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5 text-blue-600" />
+                Custom Box Designs
+              </CardTitle>
+              <CardDescription>
+                New box sizes for groups of orders no current package fills well.{' '}
+                {results.customBoxPeriodMonths !== undefined
+                  ? `Annual savings are projected from the ${results.customBoxPeriodMonths} ${results.customBoxPeriodMonths === 1 ? 'month' : 'months'} of orders in the upload.`
+                  : 'The upload has no order dates, so annual savings assume it covers one month of orders.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Box (L × W × H)</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Orders</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Replaces</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Fill Rate</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Unit Cost</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Savings / Order</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Annual Savings</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.customBoxDesigns.map((design) => (
+                      <tr key={design.clusterId} className="border-b border-gray-100">
+                        <td className="py-3 px-4 font-medium text-gray-900">
+                          {design.dimensions.length}" × {design.dimensions.width}" × {design.dimensions.height}"
+                        </td>
+                        <td className="py-3 px-4 text-gray-600">
+                          {design.coveredOrders.toLocaleString()} of {design.clusterOrders.toLocaleString()}
+                        </td>
+                        <td className="py-3 px-4 text-gray-600">
+                          {Object.keys(design.currentPackages).join(', ')}
+                        </td>
+                        <td className="py-3 px-4 text-gray-600">
+                          {design.averageCurrentFillRate.toFixed(1)}% → <span className="text-green-600 font-medium">{design.projectedFillRate.toFixed(1)}%</span>
+                        </td>
+                        <td className="py-3 px-4 text-gray-600">${design.estimatedUnitCost.toFixed(2)}</td>
+                        <td className="py-3 px-4 text-gray-600">${design.savingsPerOrder.total.toFixed(2)}</td>
+                        <td className="py-3 px-4 font-medium text-green-600">
+                          ${design.projectedAnnualSavings.total.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Rationalized Suite */}
+        {rationalizationStatus === 'pending' && (
+          <Card className="mb-6">
+            <CardContent className="flex items-center gap-3 py-6">
+              <Loader2 className="h-5 w-5 text-purple-600 animate-spin" />
+              <p className="text-sm text-gray-600">Designing the rationalized suite. It will appear here when it is ready.</p>
+            </CardContent>
+          </Card>
+        )}
+        {rationalizationError && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Suite rationalization failed</AlertTitle>
+            <AlertDescription>{rationalizationError}</AlertDescription>
+          </Alert>
+        )}
+        {rationalization && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Target className="h-5 w-5 text-purple-600" />
+                Rationalized {rationalization.targetSuiteSize}-Box Suite
+              </CardTitle>
+              <CardDescription>
+                Boxes designed from your order history, compared with your current suite over the orders both can ship.
+                The order file is read by the server-side suite parser, so order counts can differ slightly from the allocation above.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="text-sm font-medium text-gray-600 mb-2">Current Suite</p>
+                  <p className="text-2xl font-bold text-gray-700">
+                    ${rationalization.current.totalCost.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">{rationalization.currentSuite.length} boxes</p>
+                </div>
+
+                <div className="bg-purple-50 p-4 rounded-lg">
+                  <p className="text-sm font-medium text-purple-600 mb-2">Proposed Suite</p>
+                  <p className="text-2xl font-bold text-purple-700">
+                    ${rationalization.proposed.totalCost.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  </p>
+                  <p className="text-xs text-purple-500 mt-1">{rationalization.proposedSuite.length} boxes</p>
+                </div>
+
+                <div className={`p-4 rounded-lg ${rationalization.costDelta.totalCost <= 0 ? 'bg-green-50' : 'bg-red-50'}`}>
+                  <p className="text-sm font-medium text-gray-600 mb-2">Cost Change</p>
+                  <p className={`text-2xl font-bold ${rationalization.costDelta.totalCost <= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                    {rationalization.costDelta.totalCost > 0 ? '+' : '-'}${Math.abs(rationalization.costDelta.totalCost).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {rationalization.costDelta.percent > 0 ? '+' : ''}{rationalization.costDelta.percent.toFixed(1)}% packaging and shipping
+                  </p>
+                </div>
+              </div>
+
+              {rationalization.uncoveredOrderIds.length > 0 && (
+                <p className="text-sm text-yellow-700 mt-4">
+                  {rationalization.uncoveredOrderIds.length.toLocaleString()} orders do not fit any proposed box.
+                </p>
+              )}
+
+              <div className="overflow-x-auto mt-6">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Box</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Dimensions (L × W × H)</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Orders</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Avg Fill Rate</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Unit Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rationalization.proposedSuite.map((box) => (
+                      <tr key={box.packageId} className="border-b border-gray-100">
+                        <td className="py-3 px-4 font-medium text-gray-900">
+                          {box.packageName}
+                          {box.source === 'current' && <Badge variant="secondary" className="ml-2">Current</Badge>}
+                        </td>
+                        <td className="py-3 px-4 text-gray-600">{box.length}" × {box.width}" × {box.height}"</td>
+                        <td className="py-3 px-4 text-gray-600">
+                          {box.ordersCovered.toLocaleString()} ({box.coveragePercent.toFixed(1)}%)
+                        </td>
+                        <td className="py-3 px-4 text-gray-600">{box.averageFillRate.toFixed(1)}%</td>
+                        <td className="py-3 px-4 text-gray-600">${box.costPerUnit.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Material Usage Analysis */}
         {(results.summary.baselineMaterial > 0 || results.packageMaterialBreakdown?.length > 0) && (
           <Card className="mb-6">
@@ -1529,6 +1746,9 @@ export default function ClientSideAnalysisResults() {
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Package Volume</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Fill Rate</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Cost</th>
+                    {results.summary.shippingCost !== undefined && (
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Shipping</th>
+                    )}
                   </tr>
                 </thead>
                 <tbody>
@@ -1549,6 +1769,9 @@ export default function ClientSideAnalysisResults() {
                         </span>
                       </td>
                       <td className="py-3 px-4 text-gray-600">${allocation.cost.toFixed(2)}</td>
+                      {allocation.shippingCost !== undefined && (
+                        <td className="py-3 px-4 text-gray-600">${allocation.shippingCost.toFixed(2)}</td>
+                      )}
                     </tr>
                   ))}
                 </tbody>
@@ -8,10 +8,14 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import {
   Settings as SettingsIcon, User, CreditCard,
-  Save, Mail, MessageCircle
+  Save, Mail, MessageCircle, Truck, Package
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useSearchParams } from 'react-router-dom';
+import { RateCardManager } from '@/components/RateCardManager';
+import { ZoneChartManager } from '@/components/ZoneChartManager';
+import { SurchargeRuleManager } from '@/components/SurchargeRuleManager';
+import { ProductCatalogManager } from '@/components/ProductCatalogManager';
 
 export const Settings = () => {
   const { user } = useUser();
@@ -27,7 +31,7 @@ export const Settings = () => {
   // Read tab from URL query parameter
   useEffect(() => {
     const tabParam = searchParams.get('tab');
-    if (tabParam && ['profile', 'subscription', 'support'].includes(tabParam)) {
+    if (tabParam && ['profile', 'subscription', 'rates', 'catalog', 'support'].includes(tabParam)) {
       setActiveSection(tabParam);
     }
   }, [searchParams]);
@@ -115,6 +119,8 @@ export const Settings = () => {
   const settingSections = [
     { id: 'profile', label: 'Profile', icon: User },
     { id: 'subscription', label: 'Current Plan', icon: CreditCard },
+    { id: 'rates', label: 'Carrier Rates', icon: Truck },
+    { id: 'catalog', label: 'Product Catalog', icon: Package },
     { id: 'support', label: 'Contact Support', icon: MessageCircle }
   ];
 
@@ -364,6 +370,14 @@ export const Settings = () => {
     switch (activeSection) {
       case 'profile': return renderProfileSection();
       case 'subscription': return renderSubscriptionSection();
+      case 'rates': return (
+        <div className="space-y-8">
+          <RateCardManager />
+          <ZoneChartManager />
+          <SurchargeRuleManager />
+        </div>
+      );
+      case 'catalog': return <ProductCatalogManager />;
       case 'support': return renderSupportSection();
       default: return renderProfileSection();
     }
@@ -1,6 +1,17 @@
 // Web Worker for heavy analysis processing
 // This runs in a separate thread to avoid blocking the UI
 
+import { calculateShippingCosts, type RateCard } from '../lib/calculations/costAnalysis';
+import { designCustomBoxes, type CustomBoxRecommendation } from '../lib/calculations/packageOptimization';
+import {
+  DEFAULT_SURCHARGE_RULES,
+  calculateSurchargeSummary,
+  evaluateSurcharges,
+  type AppliedSurcharge,
+  type PackageSurchargeSummary,
+  type SurchargeRule
+} from '../lib/calculations/surcharges';
+
 interface ParsedOrder {
   orderId: string;
   volume: number;
@@ -8,6 +19,8 @@ interface ParsedOrder {
   length?: number;
   width?: number;
   height?: number;
+  zone?: string;
+  orderDate?: number; // Epoch ms, when the upload has an order date column
 }
 
 interface ParsedPackage {
@@ -28,6 +41,8 @@ interface AllocationResult {
   fillRate: number;
   efficiency: number;
   cost: number;
+  shippingCost?: number; // Quoted from the user's rate card, when they have one
+  surcharges?: AppliedSurcharge[]; // Carrier fees the box triggers, only when there are any
   orderVolume: number;
   packageVolume: number;
 }
@@ -71,12 +86,17 @@ interface AnalysisResults {
     processingTime: number;
     memoryUsed?: number;
     throughput: number; // orders per second
+    shippingCost?: number; // Total shipping across allocations, when priced from a rate card
+    rateCardName?: string;
   };
   packageDistribution: { name: string; count: number; percentage: number; baselinePercentage?: number }[];
   packageCostBreakdown: PackageCostBreakdown[]; // Per-package cost analysis
   packageMaterialBreakdown: PackageMaterialBreakdown[]; // Per-package material analysis
   fillRateDistribution: { range: string; count: number }[];
   volumeDistribution: { range: string; count: number; percentage: number }[];
+  surchargeSummary: PackageSurchargeSummary[]; // Boxes that trigger carrier surcharges, costliest first
+  customBoxDesigns: CustomBoxRecommendation[]; // New boxes for clusters of poorly filled orders
+  customBoxPeriodMonths?: number; // Months of orders the annual savings are projected from, when the upload has dates
   efficiency: {
     optimalAllocations: number;
     subOptimalAllocations: number;
@@ -152,7 +172,12 @@ function findBestPackage(order: ParsedOrder, packages: ParsedPackage[]): ParsedP
   return bestPackage;
 }
 
-function createAllocation(order: ParsedOrder, packageOption: ParsedPackage): AllocationResult {
+function createAllocation(
+  order: ParsedOrder,
+  packageOption: ParsedPackage,
+  rateCard: RateCard | undefined,
+  surchargeRules: SurchargeRule[]
+): AllocationResult {
   const orderVolume = order.volume;
   const packageVolume = packageOption.length * packageOption.width * packageOption.height;
   const fillRate = (orderVolume / packageVolume) * 100;
@@ -160,17 +185,63 @@ function createAllocation(order: ParsedOrder, packageOption: ParsedPackage): All
   // Efficiency combines fill rate and cost effectiveness
   const efficiency = fillRate / packageOption.costPerUnit;
 
+  // Shipping includes the carrier surcharges the box triggers
+  const dimensions = { length: packageOption.length, width: packageOption.width, height: packageOption.height, unit: 'in' as const };
+  const weight = order.weight + packageOption.packageWeight;
+  const shipping = rateCard
+    ? calculateShippingCosts(dimensions, weight, order.zone, 'standard', undefined, rateCard, surchargeRules)
+    : null;
+  const surcharges = shipping ? shipping.surcharges : evaluateSurcharges(dimensions, weight, surchargeRules).surcharges;
+
   return {
     orderId: order.orderId,
     recommendedPackage: packageOption.packageName,
     fillRate,
     efficiency,
     cost: packageOption.costPerUnit,
+    shippingCost: shipping?.totalCost,
+    surcharges: surcharges.length > 0 ? surcharges : undefined,
     orderVolume,
     packageVolume
   };
 }
 
+// Orders filled below this rate are candidates for a custom box
+const POOR_FILL_THRESHOLD = 60;
+
+/**
+ * Poorly filled order with item dimensions, in the shape designCustomBoxes expects
+ */
+function toDesignAllocation(order: ParsedOrder, packageOption: ParsedPackage, allocation: AllocationResult) {
+  return {
+    recommendedPackage: allocation.recommendedPackage,
+    fillRate: allocation.fillRate,
+    itemDimensions: { length: order.length!, width: order.width!, height: order.height!, volume: order.volume },
+    packageDimensions: { length: packageOption.length, width: packageOption.width, height: packageOption.height },
+    costBreakdown: { packageCost: packageOption.costPerUnit }
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Months of history the orders span, from their first to last order date, or
+ * undefined when the upload has no dates
+ */
+function orderPeriodMonths(orders: ParsedOrder[]): number | undefined {
+  let first = Infinity;
+  let last = -Infinity;
+  for (const order of orders) {
+    if (order.orderDate === undefined || !Number.isFinite(order.orderDate)) continue;
+    first = Math.min(first, order.orderDate);
+    last = Math.max(last, order.orderDate);
+  }
+  if (first === Infinity) return undefined;
+
+  const days = Math.floor((last - first) / DAY_MS) + 1;
+  return days / (365.25 / 12);
+}
+
 function calculateDistributions(allocations: AllocationResult[]) {
   // Package distribution
   const packageCounts: Record<string, number> = {};
@@ -275,9 +346,15 @@ function calculateVolumeDistribution(allocations: AllocationResult[]) {
 }
 
 // Memory-efficient processing for 1M+ orders
-function processOrders(orders: ParsedOrder[], packages: ParsedPackage[]): AnalysisResults {
+function processOrders(
+  orders: ParsedOrder[],
+  packages: ParsedPackage[],
+  rateCard?: RateCard,
+  surchargeRules: SurchargeRule[] = DEFAULT_SURCHARGE_RULES
+): AnalysisResults {
   const startTime = performance.now();
   const allocations: AllocationResult[] = [];
+  const designAllocations: ReturnType<typeof toDesignAllocation>[] = [];
 
   const totalOrders = orders.length;
   let processed = 0;
@@ -299,8 +376,12 @@ function processOrders(orders: ParsedOrder[], packages: ParsedPackage[]): Analys
       const bestPackage = findBestPackage(order, packages);
 
       if (bestPackage) {
-        const allocation = createAllocation(order, bestPackage);
+        const allocation = createAllocation(order, bestPackage, rateCard, surchargeRules);
         allocations.push(allocation);
+
+        if (allocation.fillRate < POOR_FILL_THRESHOLD && order.length && order.width && order.height) {
+          designAllocations.push(toDesignAllocation(order, bestPackage, allocation));
+        }
       }
 
       processed++;
@@ -333,6 +414,9 @@ function processOrders(orders: ParsedOrder[], packages: ParsedPackage[]): Analys
 
   // Calculate summary metrics
   const totalCost = allocations.reduce((sum, alloc) => sum + alloc.cost, 0);
+  const shippingCost = rateCard
+    ? allocations.reduce((sum, alloc) => sum + (alloc.shippingCost || 0), 0)
+    : undefined;
   const averageFillRate = allocations.length > 0
     ? allocations.reduce((sum, alloc) => sum + alloc.fillRate, 0) / allocations.length
     : 0;
@@ -479,6 +563,8 @@ function processOrders(orders: ParsedOrder[], packages: ParsedPackage[]): Analys
     packages.length * 80 // ~80 bytes per package
   ) / 1024 / 1024); // Convert to MB
 
+  const periodMonths = orderPeriodMonths(orders);
+
   return {
     allocations,
     summary: {
@@ -495,7 +581,9 @@ function processOrders(orders: ParsedOrder[], packages: ParsedPackage[]): Analys
       materialSavingsPercentage: Math.round(materialSavingsPercentage * 100) / 100,
       processingTime,
       memoryUsed,
-      throughput
+      throughput,
+      shippingCost: shippingCost === undefined ? undefined : Math.round(shippingCost * 100) / 100,
+      rateCardName: rateCard?.name
     },
     packageDistribution,
     packageCostBreakdown: packageCostBreakdown.map(breakdown => ({
@@ -514,6 +602,18 @@ function processOrders(orders: ParsedOrder[], packages: ParsedPackage[]): Analys
     })),
     fillRateDistribution,
     volumeDistribution,
+    surchargeSummary: calculateSurchargeSummary(allocations),
+    customBoxDesigns: designCustomBoxes(
+      designAllocations,
+      packages.map(pkg => ({
+        name: pkg.packageName,
+        dimensions: { length: pkg.length, width: pkg.width, height: pkg.height },
+        cost: pkg.costPerUnit,
+        weight: pkg.packageWeight
+      })),
+      { poorFillThreshold: POOR_FILL_THRESHOLD, rateCard, periodMonths }
+    ),
+    customBoxPeriodMonths: periodMonths === undefined ? undefined : Math.round(periodMonths * 10) / 10,
     efficiency: {
       optimalAllocations,
       subOptimalAllocations,
@@ -524,7 +624,7 @@ function processOrders(orders: ParsedOrder[], packages: ParsedPackage[]): Analys
 
 // Worker message handler with enhanced error handling
 self.onmessage = function(e: MessageEvent) {
-  const { orders, packages } = e.data;
+  const { orders, packages, rateCard, surchargeRules } = e.data;
 
   try {
     // Validate input data
@@ -544,7 +644,7 @@ self.onmessage = function(e: MessageEvent) {
       data: { progress: 0, processed: 0, total: orders.length, currentChunk: 1, totalChunks: Math.ceil(orders.length / 10000) }
     });
 
-    const results = processOrders(orders, packages);
+    const results = processOrders(orders, packages, rateCard, surchargeRules);
 
     console.log(`Worker: Completed processing. Allocated ${results.allocations.length} orders`);
 